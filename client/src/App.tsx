@@ -3,6 +3,7 @@ import { queryClient } from "./lib/queryClient";
 import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
 import { AuthProvider } from "@/hooks/use-auth";
+import { CartProvider } from "@/hooks/use-cart";
 import { ProtectedRoute } from "./lib/protected-route";
 import NotFound from "@/pages/not-found";
 import AuthPage from "@/pages/auth-page";
@@ -13,6 +14,8 @@ import DashboardPage from "@/pages/dashboard-page";
 import AdminPage from "@/pages/admin-page";
 import BookingPage from "@/pages/BookingPage";
 import ComparePage from "@/pages/compare-page";
+import CartPage from "@/pages/cart-page";
+import CheckoutPage from "@/pages/checkout-page";
 import "./lib/i18n";
 
 function Router() {
@@ -24,6 +27,8 @@ function Router() {
       <ProtectedRoute path="/equipment/:id" component={EquipmentPage} />
       <ProtectedRoute path="/booking/:id" component={BookingPage} />
       <ProtectedRoute path="/compare" component={ComparePage} />
+      <ProtectedRoute path="/cart" component={CartPage} />
+      <ProtectedRoute path="/checkout/:id" component={CheckoutPage} />
       <ProtectedRoute path="/dashboard" component={DashboardPage} />
       <ProtectedRoute path="/admin" component={() => <AdminPage />} />
       <Route component={NotFound} />
@@ -35,8 +40,10 @@ function App() {
   return (
     <QueryClientProvider client={queryClient}>
       <AuthProvider>
-        <Router />
-        <Toaster />
+        <CartProvider>
+          <Router />
+          <Toaster />
+        </CartProvider>
       </AuthProvider>
     </QueryClientProvider>
   );
@@ -0,0 +1,118 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useTranslation } from "react-i18next";
+import { format } from "date-fns";
+import { Download, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+import type { PayoutBatch, Payout } from "@shared/schema";
+
+interface PayoutsOverview {
+  batches: PayoutBatch[];
+  ready: { ownerId: number; amount: number; ownerName: string | null; hasBankDetails: boolean }[];
+}
+
+const payoutsKey = ["/api/admin/payouts"];
+
+export function AdminPayouts() {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+
+  const { data, isLoading } = useQuery<PayoutsOverview>({
+    queryKey: payoutsKey,
+  });
+
+  const createBatch = useMutation({
+    mutationFn: async () => {
+      const response = await fetch("/api/admin/payouts", {
+        method: 'POST',
+        credentials: "include",
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || t('admin.payouts.createFailed', "Failed to create payout batch"));
+      }
+      return result as { batch: PayoutBatch; payouts: Payout[]; skippedOwnerIds: number[] };
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: payoutsKey });
+      toast({
+        title: t('common.success', "Success"),
+        description: t('admin.payouts.created', "Batch #{{id}} pays ₹{{amount}} to {{count}} owners", {
+          id: result.batch.id,
+          amount: result.batch.totalAmount.toLocaleString(),
+          count: result.payouts.length,
+        }),
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: t('common.error', "Error"),
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const payable = data?.ready.filter((balance) => balance.hasBankDetails) ?? [];
+
+  return (
+    <div className="space-y-4 mt-12">
+      <h2 className="text-2xl font-semibold">{t('admin.payouts.title', 'Owner Payouts')}</h2>
+
+      <Card>
+        <CardContent className="p-4 space-y-2">
+          {isLoading && <Loader2 className="h-6 w-6 animate-spin" />}
+          {data?.ready.length === 0 && (
+            <p className="text-muted-foreground">{t('admin.payouts.nothingDue', 'No owner balances are due')}</p>
+          )}
+          <ul className="text-sm space-y-1">
+            {data?.ready.map((balance) => (
+              <li key={balance.ownerId} className="flex justify-between gap-4">
+                <span>
+                  {balance.ownerName ?? t('booking.userId', { id: balance.ownerId })}
+                  {!balance.hasBankDetails && (
+                    <span className="text-destructive"> · {t('admin.payouts.noBank', 'no bank details')}</span>
+                  )}
+                </span>
+                <span>₹{balance.amount.toLocaleString()}</span>
+              </li>
+            ))}
+          </ul>
+          <Button
+            onClick={() => {
+              if (confirm(t('admin.payouts.confirm', "Mark these balances as paid? Transfer them with the exported file."))) {
+                createBatch.mutate();
+              }
+            }}
+            disabled={payable.length === 0 || createBatch.isPending}
+          >
+            {createBatch.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {t('admin.payouts.create', 'Create payout batch')}
+          </Button>
+        </CardContent>
+      </Card>
+
+      {data?.batches.map((batch) => (
+        <Card key={batch.id}>
+          <CardContent className="p-4 flex justify-between items-center">
+            <div>
+              <p className="font-medium">{t('admin.payouts.batch', 'Batch #{{id}}', { id: batch.id })}</p>
+              <p className="text-sm text-muted-foreground">
+                {format(new Date(batch.createdAt), "PPp")} · ₹{batch.totalAmount.toLocaleString()}
+              </p>
+            </div>
+            <Button variant="outline" size="sm" asChild>
+              <a href={`/api/admin/payouts/${batch.id}/export.csv`} download>
+                <Download className="w-4 h-4 mr-2" />
+                {t('admin.payouts.export', 'Bank transfer CSV')}
+              </a>
+            </Button>
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  );
+}
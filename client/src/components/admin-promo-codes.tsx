@@ -0,0 +1,244 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useTranslation } from "react-i18next";
+import { format } from "date-fns";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+import type { PromoCode, PromoDiscountType, PromoRedemption } from "@shared/schema";
+
+type PromoCodeWithUsage = PromoCode & { uses: number; discountGiven: number };
+
+const promoCodesKey = ["/api/admin/promo-codes"];
+
+// Empty inputs leave a limit or restriction off
+function optionalNumber(value: string) {
+  return value.trim() === "" ? null : Number(value);
+}
+
+function optionalList(value: string) {
+  const items = value.split(",").map((item) => item.trim()).filter(Boolean);
+  return items.length > 0 ? items : null;
+}
+
+function describeDiscount(promo: PromoCode) {
+  return promo.discountType === "percent"
+    ? `${promo.discountValue}%${promo.maxDiscountAmount ? ` (max ₹${promo.maxDiscountAmount})` : ""}`
+    : `₹${promo.discountValue}`;
+}
+
+function PromoRedemptions({ promoCodeId }: { promoCodeId: number }) {
+  const { t } = useTranslation();
+  const { data: redemptions, isLoading } = useQuery<PromoRedemption[]>({
+    queryKey: [`/api/admin/promo-codes/${promoCodeId}/redemptions`],
+  });
+
+  if (isLoading) return <Loader2 className="h-4 w-4 animate-spin" />;
+  if (!redemptions?.length) {
+    return <p className="text-sm text-muted-foreground">{t('admin.promo.noRedemptions', "Not used yet")}</p>;
+  }
+
+  return (
+    <ul className="text-sm text-muted-foreground">
+      {redemptions.map((redemption) => (
+        <li key={redemption.id}>
+          {format(new Date(redemption.createdAt), "PP")} · {t('booking.number', { id: redemption.bookingId })} ·{' '}
+          {t('booking.userId', { id: redemption.userId })} · ₹{redemption.discountAmount} ·{' '}
+          <span className="capitalize">{redemption.status}</span>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+export function AdminPromoCodes() {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+  const [form, setForm] = useState({
+    code: "",
+    discountType: "percent" as PromoDiscountType,
+    discountValue: "",
+    maxDiscountAmount: "",
+    minOrderAmount: "",
+    validFrom: "",
+    validUntil: "",
+    maxRedemptions: "",
+    maxRedemptionsPerUser: "1",
+    categories: "",
+    ownerIds: "",
+  });
+
+  const setField = (field: keyof typeof form) => (e: React.ChangeEvent<HTMLInputElement>) =>
+    setForm((current) => ({ ...current, [field]: e.target.value }));
+
+  const { data: promoCodes, isLoading } = useQuery<PromoCodeWithUsage[]>({
+    queryKey: promoCodesKey,
+  });
+
+  const onError = (error: Error) => {
+    toast({
+      title: t('common.error', "Error"),
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const createPromoCode = useMutation({
+    mutationFn: async () => {
+      const response = await fetch("/api/admin/promo-codes", {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: "include",
+        body: JSON.stringify({
+          code: form.code,
+          discountType: form.discountType,
+          discountValue: Number(form.discountValue),
+          maxDiscountAmount: optionalNumber(form.maxDiscountAmount),
+          minOrderAmount: optionalNumber(form.minOrderAmount),
+          validFrom: form.validFrom || null,
+          validUntil: form.validUntil || null,
+          maxRedemptions: optionalNumber(form.maxRedemptions),
+          maxRedemptionsPerUser: optionalNumber(form.maxRedemptionsPerUser),
+          categories: optionalList(form.categories),
+          ownerIds: optionalList(form.ownerIds)?.map(Number) ?? null,
+        }),
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || t('admin.promo.createFailed', "Failed to create promo code"));
+      }
+      return result as PromoCode;
+    },
+    onSuccess: (promo) => {
+      setForm((current) => ({ ...current, code: "", discountValue: "" }));
+      queryClient.invalidateQueries({ queryKey: promoCodesKey });
+      toast({
+        title: t('common.success', "Success"),
+        description: t('admin.promo.created', "Code {{code}} created", { code: promo.code }),
+      });
+    },
+    onError,
+  });
+
+  const toggleActive = useMutation({
+    mutationFn: async (promo: PromoCode) => {
+      const response = await fetch(`/api/admin/promo-codes/${promo.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: "include",
+        body: JSON.stringify({ active: !promo.active }),
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || t('admin.promo.updateFailed', "Failed to update promo code"));
+      }
+      return result as PromoCode;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: promoCodesKey });
+    },
+    onError,
+  });
+
+  return (
+    <div className="space-y-4 mt-12">
+      <h2 className="text-2xl font-semibold">{t('admin.promo.title', 'Promo Codes')}</h2>
+
+      <Card>
+        <CardContent className="p-4 space-y-2">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+            <Input value={form.code} onChange={setField("code")} placeholder={t('admin.promo.code', "Code")} />
+            <Select
+              value={form.discountType}
+              onValueChange={(value) => setForm((current) => ({ ...current, discountType: value as PromoDiscountType }))}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="percent">{t('admin.promo.percent', "Percentage")}</SelectItem>
+                <SelectItem value="flat">{t('admin.promo.flat', "Flat amount")}</SelectItem>
+              </SelectContent>
+            </Select>
+            <Input type="number" value={form.discountValue} onChange={setField("discountValue")}
+              placeholder={form.discountType === "percent" ? t('admin.promo.percentOff', "% off") : t('admin.promo.amountOff', "₹ off")} />
+            <Input type="number" value={form.maxDiscountAmount} onChange={setField("maxDiscountAmount")}
+              placeholder={t('admin.promo.maxDiscount', "Max discount ₹")} />
+            <Input type="number" value={form.minOrderAmount} onChange={setField("minOrderAmount")}
+              placeholder={t('admin.promo.minOrder', "Min order ₹")} />
+            <Input type="number" value={form.maxRedemptions} onChange={setField("maxRedemptions")}
+              placeholder={t('admin.promo.maxUses', "Total uses")} />
+            <Input type="number" value={form.maxRedemptionsPerUser} onChange={setField("maxRedemptionsPerUser")}
+              placeholder={t('admin.promo.maxUsesPerUser', "Uses per renter")} />
+            <Input type="date" value={form.validFrom} onChange={setField("validFrom")}
+              aria-label={t('admin.promo.validFrom', "Valid from")} />
+            <Input type="date" value={form.validUntil} onChange={setField("validUntil")}
+              aria-label={t('admin.promo.validUntil', "Valid until")} />
+            <Input value={form.categories} onChange={setField("categories")}
+              placeholder={t('admin.promo.categories', "Categories, comma separated")} />
+            <Input value={form.ownerIds} onChange={setField("ownerIds")}
+              placeholder={t('admin.promo.ownerIds', "Owner IDs, comma separated")} />
+          </div>
+          <Button
+            onClick={() => createPromoCode.mutate()}
+            disabled={!form.code.trim() || !form.discountValue || createPromoCode.isPending}
+          >
+            {createPromoCode.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {t('admin.promo.create', "Create code")}
+          </Button>
+        </CardContent>
+      </Card>
+
+      {isLoading && <Loader2 className="h-6 w-6 animate-spin" />}
+      {promoCodes?.map((promo) => (
+        <Card key={promo.id}>
+          <CardContent className="p-4 space-y-2">
+            <div className="flex justify-between items-start gap-4">
+              <div>
+                <p className="font-medium">
+                  {promo.code} · {describeDiscount(promo)}
+                </p>
+                <p className="text-sm text-muted-foreground">
+                  {t('admin.promo.uses', 'Used {{uses}} of {{limit}}', {
+                    uses: promo.uses,
+                    limit: promo.maxRedemptions ?? '∞',
+                  })}
+                  {' · '}
+                  {t('admin.promo.discountGiven', '₹{{amount}} discounted', { amount: promo.discountGiven.toLocaleString() })}
+                  {promo.validUntil && ` · ${t('admin.promo.until', 'until')} ${format(new Date(promo.validUntil), "PP")}`}
+                </p>
+                {(promo.categories?.length || promo.ownerIds?.length) ? (
+                  <p className="text-sm text-muted-foreground">
+                    {[...(promo.categories ?? []), ...(promo.ownerIds ?? []).map((id) => `owner ${id}`)].join(", ")}
+                  </p>
+                ) : null}
+              </div>
+              <div className="flex flex-col items-end gap-2 shrink-0">
+                <Badge variant={promo.active ? "default" : "secondary"}>
+                  {promo.active ? t('admin.promo.active', "Active") : t('admin.promo.inactive', "Inactive")}
+                </Badge>
+                <div className="space-x-2">
+                  <Button variant="outline" size="sm" onClick={() => setExpandedId(expandedId === promo.id ? null : promo.id)}>
+                    {t('admin.promo.redemptions', 'Redemptions')}
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={() => toggleActive.mutate(promo)} disabled={toggleActive.isPending}>
+                    {promo.active ? t('admin.promo.deactivate', "Deactivate") : t('admin.promo.activate', "Activate")}
+                  </Button>
+                </div>
+              </div>
+            </div>
+            {expandedId === promo.id && <PromoRedemptions promoCodeId={promo.id} />}
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,134 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useTranslation } from "react-i18next";
+import { format } from "date-fns";
+import { Loader2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { queryClient } from "@/lib/queryClient";
+import { hasPermission } from "@shared/permissions";
+import type { ReconciliationAction, ReconciliationRun } from "@shared/schema";
+
+const runsKey = ["/api/admin/reconciliation"];
+
+const actionLabels: Record<ReconciliationAction, string> = {
+  marked_paid: "Marked paid",
+  marked_failed: "Marked failed",
+  refunded: "Refunded",
+  amount_mismatch: "Amount mismatch",
+  not_captured: "Not captured",
+  error: "Error",
+};
+
+// Actions that still need someone to look at them
+const needsReview: ReconciliationAction[] = ['amount_mismatch', 'not_captured', 'error'];
+
+export function AdminReconciliation() {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const canReconcile = hasPermission(user, 'payments:manage');
+
+  const { data: runs, isLoading } = useQuery<ReconciliationRun[]>({
+    queryKey: runsKey,
+  });
+
+  const reconcile = useMutation({
+    mutationFn: async () => {
+      const response = await fetch("/api/admin/reconciliation", {
+        method: 'POST',
+        credentials: "include",
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || t('admin.reconciliation.failed', "Failed to reconcile payments"));
+      }
+      return result as ReconciliationRun;
+    },
+    onSuccess: (run) => {
+      queryClient.invalidateQueries({ queryKey: runsKey });
+      queryClient.invalidateQueries({ queryKey: ["/api/bookings"] });
+      toast({
+        title: t('common.success', "Success"),
+        description: t('admin.reconciliation.result', "Checked {{checked}} bookings, fixed {{fixed}}", {
+          checked: run.checked,
+          fixed: run.fixed,
+        }),
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: t('common.error', "Error"),
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="space-y-4 mt-12">
+      <div className="flex justify-between items-center">
+        <h2 className="text-2xl font-semibold">{t('admin.reconciliation.title', 'Payment Reconciliation')}</h2>
+        {canReconcile && (
+          <Button onClick={() => reconcile.mutate()} disabled={reconcile.isPending}>
+            {reconcile.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {t('admin.reconciliation.run', 'Reconcile now')}
+          </Button>
+        )}
+      </div>
+      {isLoading && <Loader2 className="h-6 w-6 animate-spin" />}
+      {runs?.length === 0 && (
+        <p className="text-muted-foreground">{t('admin.reconciliation.none', 'No reconciliation has run yet')}</p>
+      )}
+      {runs?.map((run) => (
+        <Card key={run.id}>
+          <CardContent className="p-4 space-y-2">
+            <p className="text-sm text-muted-foreground">
+              {format(new Date(run.finishedAt), "PPpp")} · {t(`admin.reconciliation.trigger.${run.trigger}`, run.trigger)} ·{' '}
+              {t('admin.reconciliation.summary', '{{checked}} checked, {{fixed}} fixed', { checked: run.checked, fixed: run.fixed })}
+            </p>
+            {run.discrepancies.length === 0 && (
+              <p className="text-sm">{t('admin.reconciliation.clean', 'No discrepancies')}</p>
+            )}
+            {run.discrepancies.map((item) => (
+              <div key={item.orderId} className="flex justify-between items-start gap-4 text-sm">
+                <div className="min-w-0">
+                  <p className="font-medium">
+                    {item.checkoutOrderId
+                      ? t('checkout.number', 'Checkout #{{id}}', { id: item.checkoutOrderId })
+                      : item.extensionId
+                        ? t('extension.number', 'Extension #{{id}} of booking #{{bookingId}}', {
+                            id: item.extensionId,
+                            bookingId: item.bookingId,
+                          })
+                        : item.lateFeeId
+                          ? t('lateFee.number', 'Late fee #{{id}} of booking #{{bookingId}}', {
+                              id: item.lateFeeId,
+                              bookingId: item.bookingId,
+                            })
+                          : t('booking.number', { id: item.bookingId })}{' '}
+                    <span className="text-muted-foreground break-all">{item.orderId}</span>
+                  </p>
+                  <p className="text-muted-foreground">
+                    {t('admin.reconciliation.states', 'Booking {{booking}}, provider {{provider}}', {
+                      booking: item.bookingStatus,
+                      provider: item.providerStatus ?? '-',
+                    })}
+                    {item.paymentId && ` · ${item.paymentId}`}
+                  </p>
+                  <p>{item.detail}</p>
+                </div>
+                <Badge variant={needsReview.includes(item.action) ? 'destructive' : 'secondary'} className="shrink-0">
+                  {t(`admin.reconciliation.action.${item.action}`, actionLabels[item.action])}
+                </Badge>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,90 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useTranslation } from "react-i18next";
+import { Loader2 } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { queryClient } from "@/lib/queryClient";
+import { roleLabels } from "@shared/permissions";
+import { userRoles, type User, type UserRole } from "@shared/schema";
+
+type UserSummary = Pick<User, 'id' | 'username' | 'name' | 'role'>;
+
+const usersKey = ["/api/admin/users"];
+
+// Admins assign roles, including the staff roles nobody can pick for themselves
+export function AdminUsers() {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const { user: currentUser } = useAuth();
+
+  const { data: users, isLoading } = useQuery<UserSummary[]>({
+    queryKey: usersKey,
+  });
+
+  const updateRole = useMutation({
+    mutationFn: async ({ userId, role }: { userId: number; role: UserRole }) => {
+      const response = await fetch(`/api/admin/users/${userId}/role`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: "include",
+        body: JSON.stringify({ role }),
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || t('admin.users.updateError', "Failed to update the role"));
+      }
+      return result as UserSummary;
+    },
+    onSuccess: (updated) => {
+      queryClient.invalidateQueries({ queryKey: usersKey });
+      toast({
+        title: t('common.success', "Success"),
+        description: t('admin.users.updated', "{{name}} is now {{role}}", {
+          name: updated.name,
+          role: t(`roles.${updated.role}`, roleLabels[updated.role as UserRole]),
+        }),
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: t('common.error', "Error"),
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="space-y-4 mt-12">
+      <h2 className="text-2xl font-semibold">{t('admin.users.title', 'Users and Roles')}</h2>
+      {isLoading && <Loader2 className="h-6 w-6 animate-spin" />}
+      {users?.map((user) => (
+        <Card key={user.id}>
+          <CardContent className="p-4 flex justify-between items-center gap-4">
+            <div className="min-w-0">
+              <p className="font-medium">{user.name}</p>
+              <p className="text-sm text-muted-foreground">{user.username}</p>
+            </div>
+            <Select
+              value={user.role}
+              onValueChange={(role) => updateRole.mutate({ userId: user.id, role: role as UserRole })}
+              disabled={updateRole.isPending || user.id === currentUser?.id}
+            >
+              <SelectTrigger className="w-[200px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {userRoles.map((role) => (
+                  <SelectItem key={role} value={role}>{t(`roles.${role}`, roleLabels[role])}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  );
+}
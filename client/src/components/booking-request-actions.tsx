@@ -0,0 +1,142 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { useTranslation } from "react-i18next";
+import { format } from "date-fns";
+import { Check, Loader2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+
+interface RequestedBooking {
+  id: number;
+  status: string;
+  respondBy?: string | Date | null;
+}
+
+async function postAnswer(url: string, body: object, fallback: string) {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+    credentials: "include",
+  });
+
+  const result = await response.json();
+  if (!response.ok) {
+    throw new Error(result.error || fallback);
+  }
+  return result;
+}
+
+function useRequestToasts() {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+
+  const onChanged = (bookingId: number) => {
+    queryClient.invalidateQueries({ queryKey: ["/api/owner/bookings"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/bookings"] });
+    queryClient.invalidateQueries({ queryKey: [`/api/bookings/${bookingId}`] });
+  };
+
+  const onError = (error: Error) => {
+    toast({
+      title: t('common.error', "Error"),
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  return { t, toast, onChanged, onError };
+}
+
+// Renter's view of a request still waiting on the owner
+export function RequestPendingNote({ booking }: { booking: RequestedBooking }) {
+  const { t } = useTranslation();
+  if (booking.status !== 'requested') return null;
+
+  return (
+    <p className="mt-4 text-sm text-muted-foreground">
+      {booking.respondBy
+        ? t('bookingRequest.waiting', "Waiting for the owner to accept by {{time}}. You pay only once they do.", {
+            time: format(new Date(booking.respondBy), "PPp"),
+          })
+        : t('bookingRequest.waitingNoDeadline', "Waiting for the owner to accept. You pay only once they do.")}
+    </p>
+  );
+}
+
+// Owner accepts or declines a request on their request-to-book equipment
+export function OwnerRequestActions({ booking }: { booking: RequestedBooking }) {
+  const { t, toast, onChanged, onError } = useRequestToasts();
+  const [declining, setDeclining] = useState(false);
+  const [reason, setReason] = useState("");
+
+  const approve = useMutation({
+    mutationFn: () => postAnswer(`/api/bookings/${booking.id}/approve`, {},
+      t('bookingRequest.approveFailed', "Failed to accept the request")),
+    onSuccess: () => {
+      onChanged(booking.id);
+      toast({
+        title: t('common.success', "Success"),
+        description: t('bookingRequest.approved', "Request accepted. The renter can now pay."),
+      });
+    },
+    onError,
+  });
+
+  const decline = useMutation({
+    mutationFn: () => postAnswer(`/api/bookings/${booking.id}/decline`, { reason },
+      t('bookingRequest.declineFailed', "Failed to decline the request")),
+    onSuccess: () => {
+      onChanged(booking.id);
+      setDeclining(false);
+      toast({
+        title: t('common.success', "Success"),
+        description: t('bookingRequest.declined', "Request declined"),
+      });
+    },
+    onError,
+  });
+
+  if (booking.status !== 'requested') return null;
+
+  return (
+    <div className="mt-2 space-y-2">
+      <p className="text-sm font-medium">
+        {booking.respondBy
+          ? t('bookingRequest.respondBy', "Answer by {{time}}", { time: format(new Date(booking.respondBy), "PPp") })
+          : t('bookingRequest.awaitingAnswer', "Waiting for your answer")}
+      </p>
+      {declining ? (
+        <div className="space-y-2">
+          <Input
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder={t('bookingRequest.reasonPlaceholder', "Reason (optional)")}
+          />
+          <div className="space-x-2">
+            <Button size="sm" variant="destructive" onClick={() => decline.mutate()} disabled={decline.isPending}>
+              {decline.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {t('bookingRequest.confirmDecline', "Decline request")}
+            </Button>
+            <Button size="sm" variant="outline" onClick={() => setDeclining(false)} disabled={decline.isPending}>
+              {t('common.cancel', "Cancel")}
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <div className="space-x-2">
+          <Button size="sm" onClick={() => approve.mutate()} disabled={approve.isPending}>
+            {approve.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Check className="w-4 h-4 mr-2" />}
+            {t('bookingRequest.approve', "Accept")}
+          </Button>
+          <Button size="sm" variant="outline" onClick={() => setDeclining(true)} disabled={approve.isPending}>
+            <X className="w-4 h-4 mr-2" />
+            {t('bookingRequest.decline', "Decline")}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,160 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useTranslation } from "react-i18next";
+import { Loader2, XCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+import type { CancellationPolicy } from "@shared/schema";
+
+interface CancellationQuote {
+  cancellable: boolean;
+  policy: CancellationPolicy;
+  hoursBeforeStart: number;
+  refundPercent: number;
+  refundAmount: number;
+  depositRefund: number;
+}
+
+interface CancelBookingDialogProps {
+  bookingId: number;
+  onCancelled?: () => void;
+}
+
+export function CancelBookingDialog({ bookingId, onCancelled }: CancelBookingDialogProps) {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const [isOpen, setIsOpen] = useState(false);
+  const [isCancelling, setIsCancelling] = useState(false);
+
+  // Only fetch the quote once the dialog is opened so it reflects the current time
+  const { data: quote, isLoading } = useQuery<CancellationQuote>({
+    queryKey: [`/api/bookings/${bookingId}/cancellation`],
+    enabled: isOpen,
+    staleTime: 0,
+  });
+
+  const handleCancel = async () => {
+    setIsCancelling(true);
+    try {
+      const response = await fetch(`/api/bookings/${bookingId}/cancel`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({}),
+        credentials: "include",
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || t('booking.cancelFailed', "Failed to cancel booking"));
+      }
+
+      await Promise.all([
+        queryClient.invalidateQueries({ queryKey: ['/api/equipment'] }),
+        queryClient.invalidateQueries({ queryKey: ['/api/bookings'] }),
+        queryClient.invalidateQueries({ queryKey: [`/api/bookings/${bookingId}`] })
+      ]);
+
+      toast({
+        title: t('booking.cancelled', "Booking cancelled"),
+        description: result.quote?.refundAmount > 0
+          ? t('booking.refundIssued', "A refund of ₹{{amount}} has been issued.", { amount: result.quote.refundAmount })
+          : t('booking.noRefund', "No refund applies to this cancellation."),
+      });
+
+      setIsOpen(false);
+      onCancelled?.();
+    } catch (error) {
+      toast({
+        title: t('common.error', "Error"),
+        description: error instanceof Error ? error.message : t('booking.cancelFailed', "Failed to cancel booking"),
+        variant: "destructive",
+      });
+    } finally {
+      setIsCancelling(false);
+    }
+  };
+
+  return (
+    <AlertDialog open={isOpen} onOpenChange={setIsOpen}>
+      <AlertDialogTrigger asChild>
+        <Button variant="outline" size="sm" className="mt-2">
+          <XCircle className="w-4 h-4 mr-2" />
+          {t('booking.cancel', "Cancel Booking")}
+        </Button>
+      </AlertDialogTrigger>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>{t('booking.cancelTitle', "Cancel this booking?")}</AlertDialogTitle>
+          <AlertDialogDescription>
+            {t('booking.cancelDescription', "Refunds follow the cancellation policy for this equipment.")}
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        {isLoading || !quote ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : (
+          <div className="space-y-3 text-sm">
+            <div>
+              <p className="font-semibold mb-1">{t('booking.cancellationPolicy', "Cancellation policy")}</p>
+              <ul className="list-disc pl-5 text-muted-foreground">
+                {quote.policy.tiers.map((tier) => (
+                  <li key={tier.hoursBeforeStart}>
+                    {t('booking.policyTier', "{{percent}}% refund when cancelled at least {{hours}} hours before the start", {
+                      percent: tier.refundPercent,
+                      hours: tier.hoursBeforeStart,
+                    })}
+                  </li>
+                ))}
+                <li>{t('booking.policyAfterStart', "No refund once the rental has started")}</li>
+              </ul>
+            </div>
+            <div className="flex justify-between font-medium border-t pt-3">
+              <span>{t('booking.expectedRefund', "Expected refund")}</span>
+              <span>₹{quote.refundAmount.toLocaleString()} ({quote.refundPercent}%)</span>
+            </div>
+            {quote.depositRefund > 0 && (
+              <p className="text-muted-foreground">
+                {t('booking.includesDeposit', "Includes your ₹{{amount}} deposit in full.", { amount: quote.depositRefund.toLocaleString() })}
+              </p>
+            )}
+            {!quote.cancellable && (
+              <p className="text-destructive">
+                {t('booking.notCancellable', "This booking can no longer be cancelled.")}
+              </p>
+            )}
+          </div>
+        )}
+
+        <AlertDialogFooter>
+          <AlertDialogCancel disabled={isCancelling}>
+            {t('booking.keepBooking', "Keep Booking")}
+          </AlertDialogCancel>
+          <AlertDialogAction
+            onClick={(e) => {
+              e.preventDefault();
+              handleCancel();
+            }}
+            disabled={isCancelling || !quote?.cancellable}
+          >
+            {isCancelling && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {t('booking.confirmCancel', "Confirm Cancellation")}
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
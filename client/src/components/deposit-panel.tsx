@@ -0,0 +1,232 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { useTranslation } from "react-i18next";
+import { Loader2, ShieldCheck } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+import { HandoverComparison } from "@/components/handover-panel";
+import type { Booking, DepositStatus } from "@shared/schema";
+
+const statusLabels: Record<DepositStatus, string> = {
+  pending: "Due with payment",
+  held: "Held",
+  claimed: "Claim under review",
+  released: "Released",
+  partially_withheld: "Partly withheld",
+  withheld: "Withheld",
+};
+
+type DepositFields = Pick<Booking, 'depositAmount' | 'depositStatus' | 'depositWithheld' |
+  'depositClaimAmount' | 'depositClaimReason' | 'depositResolutionNote'>;
+
+// The deposit can only be settled once the equipment has come back
+const settleableStatuses = ['returned', 'completed'];
+
+async function postDeposit(url: string, body: object, fallback: string) {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+    credentials: "include",
+  });
+
+  const result = await response.json();
+  if (!response.ok) {
+    throw new Error(result.error || fallback);
+  }
+  return result;
+}
+
+function useDepositToasts() {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+
+  const onChanged = (bookingId: number) => {
+    queryClient.invalidateQueries({ queryKey: ["/api/owner/bookings"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/bookings"] });
+    queryClient.invalidateQueries({ queryKey: [`/api/bookings/${bookingId}`] });
+  };
+
+  const onError = (error: Error) => {
+    toast({
+      title: t('common.error', "Error"),
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  return { t, toast, onChanged, onError };
+}
+
+// One-line deposit state with the claim and its outcome, if any
+export function DepositSummary({ booking }: { booking: DepositFields }) {
+  const { t } = useTranslation();
+  if (!booking.depositAmount || !booking.depositStatus) return null;
+
+  const status = booking.depositStatus as DepositStatus;
+  return (
+    <div className="text-sm text-muted-foreground space-y-1">
+      <p className="flex items-center gap-1">
+        <ShieldCheck className="h-4 w-4" />
+        {t('deposit.summary', 'Deposit ₹{{amount}}', { amount: booking.depositAmount.toLocaleString() })}
+        {' · '}
+        {t(`deposit.status.${status}`, statusLabels[status])}
+      </p>
+      {booking.depositClaimAmount !== null && (
+        <p>
+          {t('deposit.claimSummary', 'Owner claimed ₹{{amount}}: {{reason}}', {
+            amount: booking.depositClaimAmount.toLocaleString(),
+            reason: booking.depositClaimReason,
+          })}
+        </p>
+      )}
+      {booking.depositWithheld > 0 && (
+        <p>
+          {t('deposit.withheldSummary', '₹{{amount}} withheld', { amount: booking.depositWithheld.toLocaleString() })}
+          {booking.depositResolutionNote && ` · ${booking.depositResolutionNote}`}
+        </p>
+      )}
+    </div>
+  );
+}
+
+// Owner's release / claim controls for a returned booking
+export function OwnerDepositActions({ booking }: { booking: Booking }) {
+  const { t, toast, onChanged, onError } = useDepositToasts();
+  const [isClaiming, setIsClaiming] = useState(false);
+  const [amount, setAmount] = useState("");
+  const [reason, setReason] = useState("");
+
+  const release = useMutation({
+    mutationFn: () => postDeposit(`/api/bookings/${booking.id}/deposit/release`, {},
+      t('deposit.releaseFailed', "Failed to release deposit")),
+    onSuccess: () => {
+      onChanged(booking.id);
+      toast({
+        title: t('common.success', "Success"),
+        description: t('deposit.released', "Deposit returned to the renter"),
+      });
+    },
+    onError,
+  });
+
+  const claim = useMutation({
+    mutationFn: () => postDeposit(`/api/bookings/${booking.id}/deposit/claim`, { amount: Number(amount), reason },
+      t('deposit.claimFailed', "Failed to claim deposit")),
+    onSuccess: () => {
+      setIsClaiming(false);
+      setAmount("");
+      setReason("");
+      onChanged(booking.id);
+      toast({
+        title: t('common.success', "Success"),
+        description: t('deposit.claimed', "Claim sent for review"),
+      });
+    },
+    onError,
+  });
+
+  if (booking.depositStatus !== 'held' || !settleableStatuses.includes(booking.status)) {
+    return null;
+  }
+
+  return (
+    <div className="mt-2 space-y-2">
+      <div className="space-x-2">
+        <Button size="sm" onClick={() => release.mutate()} disabled={release.isPending}>
+          {release.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          {t('deposit.release', "Release deposit")}
+        </Button>
+        <Button size="sm" variant="outline" onClick={() => setIsClaiming(!isClaiming)}>
+          {t('deposit.claim', "Claim damages")}
+        </Button>
+      </div>
+      {isClaiming && <HandoverComparison bookingId={booking.id} />}
+      {isClaiming && (
+        <form
+          className="flex flex-col gap-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            claim.mutate();
+          }}
+        >
+          <Input
+            type="number"
+            min={1}
+            max={booking.depositAmount}
+            value={amount}
+            onChange={(e) => setAmount(e.target.value)}
+            placeholder={t('deposit.claimAmount', "Amount to keep ₹")}
+          />
+          <Input
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder={t('deposit.claimReason', "What was damaged or missing")}
+          />
+          <Button type="submit" size="sm" disabled={!amount || !reason.trim() || claim.isPending}>
+            {claim.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {t('deposit.submitClaim', "Submit claim")}
+          </Button>
+        </form>
+      )}
+    </div>
+  );
+}
+
+// Admin decides how much of a claimed deposit the owner keeps
+export function DepositClaimResolution({ booking }: { booking: Booking }) {
+  const { t, toast, onChanged, onError } = useDepositToasts();
+  const [withheldAmount, setWithheldAmount] = useState(String(booking.depositClaimAmount ?? 0));
+  const [note, setNote] = useState("");
+
+  const resolve = useMutation({
+    mutationFn: () => postDeposit(`/api/admin/bookings/${booking.id}/deposit/resolve`,
+      { withheldAmount: Number(withheldAmount), note },
+      t('deposit.resolveFailed', "Failed to resolve claim")),
+    onSuccess: () => {
+      onChanged(booking.id);
+      toast({
+        title: t('common.success', "Success"),
+        description: t('deposit.resolved', "Claim resolved"),
+      });
+    },
+    onError,
+  });
+
+  if (booking.depositStatus !== 'claimed') return null;
+
+  return (
+    <>
+      <HandoverComparison bookingId={booking.id} />
+      <form
+        className="mt-2 flex flex-wrap gap-2"
+        onSubmit={(e) => {
+          e.preventDefault();
+          resolve.mutate();
+        }}
+      >
+        <Input
+          type="number"
+          min={0}
+          max={booking.depositAmount}
+          className="w-32"
+          value={withheldAmount}
+          onChange={(e) => setWithheldAmount(e.target.value)}
+          aria-label={t('deposit.withheldAmount', "Amount the owner keeps")}
+        />
+        <Input
+          className="flex-1"
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          placeholder={t('deposit.resolutionNote', "Note for both parties")}
+        />
+        <Button type="submit" size="sm" disabled={withheldAmount === "" || resolve.isPending}>
+          {resolve.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          {t('deposit.resolve', "Resolve claim")}
+        </Button>
+      </form>
+    </>
+  );
+}
@@ -0,0 +1,415 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { useTranslation } from "react-i18next";
+import { format } from "date-fns";
+import { AlertTriangle, Loader2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { queryClient } from "@/lib/queryClient";
+import { hasPermission } from "@shared/permissions";
+import type { Dispute, DisputeMessage, DisputeStatus } from "@shared/schema";
+
+type DisputeWithBooking = Dispute & {
+  equipmentId: number;
+  equipmentName: string | null;
+  renterId: number;
+  ownerId: number | null;
+};
+
+interface DisputeDetails {
+  dispute: DisputeWithBooking;
+  messages: DisputeMessage[];
+  role: 'owner' | 'renter' | 'admin';
+}
+
+interface DisputeBooking {
+  id: number;
+  status: string;
+}
+
+const statusLabels: Record<DisputeStatus, string> = {
+  open: "Waiting for a response",
+  responded: "Under review",
+  resolved: "Resolved",
+  withdrawn: "Withdrawn",
+};
+
+const roleLabels: Record<string, string> = {
+  owner: "Owner",
+  renter: "Renter",
+  admin: "Admin",
+  system: "System",
+};
+
+// Bookings in these statuses can have a dispute opened on them, as on the server
+const disputableStatuses = ['in_use', 'returned', 'completed'];
+
+async function sendDispute(url: string, body: FormData | object | null, fallback: string) {
+  const isForm = body instanceof FormData;
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: body && !isForm ? { 'Content-Type': 'application/json' } : undefined,
+    body: body && !isForm ? JSON.stringify(body) : body as FormData | null,
+    credentials: "include",
+  });
+
+  const result = await response.json();
+  if (!response.ok) {
+    throw new Error(result.error || fallback);
+  }
+  return result;
+}
+
+function useDisputeToasts() {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+
+  const onChanged = (bookingId: number, disputeId?: number) => {
+    queryClient.invalidateQueries({ queryKey: [`/api/bookings/${bookingId}/disputes`] });
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/disputes"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/disputes"] });
+    if (disputeId) {
+      queryClient.invalidateQueries({ queryKey: [`/api/disputes/${disputeId}`] });
+    }
+    queryClient.invalidateQueries({ queryKey: ["/api/bookings"] });
+    queryClient.invalidateQueries({ queryKey: [`/api/bookings/${bookingId}`] });
+  };
+
+  const onError = (error: Error) => {
+    toast({
+      title: t('common.error', "Error"),
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  return { t, toast, onChanged, onError };
+}
+
+function PhotoStrip({ photos }: { photos: string[] }) {
+  if (photos.length === 0) return null;
+  return (
+    <div className="flex flex-wrap gap-2 mt-1">
+      {photos.map((url) => (
+        <a key={url} href={url} target="_blank" rel="noreferrer">
+          <img src={url} alt="" className="h-16 w-16 rounded object-cover border" />
+        </a>
+      ))}
+    </div>
+  );
+}
+
+function OpenDisputeForm({ booking, onDone }: { booking: DisputeBooking; onDone: () => void }) {
+  const { t, toast, onChanged, onError } = useDisputeToasts();
+  const [description, setDescription] = useState("");
+  const [claimedAmount, setClaimedAmount] = useState("");
+  const [photos, setPhotos] = useState<File[]>([]);
+
+  const open = useMutation({
+    mutationFn: () => {
+      const body = new FormData();
+      body.append('description', description);
+      if (claimedAmount !== "") body.append('claimedAmount', claimedAmount);
+      photos.forEach((photo) => body.append('photos', photo));
+      return sendDispute(`/api/bookings/${booking.id}/disputes`, body,
+        t('dispute.openFailed', "Failed to open the dispute"));
+    },
+    onSuccess: () => {
+      onChanged(booking.id);
+      onDone();
+      toast({
+        title: t('common.success', "Success"),
+        description: t('dispute.opened', "Dispute opened. The other party has been asked to respond."),
+      });
+    },
+    onError,
+  });
+
+  return (
+    <form
+      className="space-y-2"
+      onSubmit={(e) => {
+        e.preventDefault();
+        open.mutate();
+      }}
+    >
+      <Textarea
+        value={description}
+        onChange={(e) => setDescription(e.target.value)}
+        placeholder={t('dispute.description', "What went wrong?")}
+      />
+      <Input
+        type="number"
+        min={0}
+        value={claimedAmount}
+        onChange={(e) => setClaimedAmount(e.target.value)}
+        placeholder={t('dispute.claimedAmount', "Amount claimed ₹ (optional)")}
+      />
+      <Input
+        type="file"
+        accept="image/jpeg,image/png,image/webp"
+        multiple
+        onChange={(e) => setPhotos(Array.from(e.target.files ?? []))}
+      />
+      <Button type="submit" size="sm" disabled={!description.trim() || open.isPending}>
+        {open.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+        {t('dispute.submit', "Open dispute")}
+      </Button>
+    </form>
+  );
+}
+
+function ReplyForm({ dispute }: { dispute: DisputeWithBooking }) {
+  const { t, onChanged, onError } = useDisputeToasts();
+  const [message, setMessage] = useState("");
+  const [photos, setPhotos] = useState<File[]>([]);
+
+  const reply = useMutation({
+    mutationFn: () => {
+      const body = new FormData();
+      body.append('message', message);
+      photos.forEach((photo) => body.append('photos', photo));
+      return sendDispute(`/api/disputes/${dispute.id}/messages`, body,
+        t('dispute.replyFailed', "Failed to send the message"));
+    },
+    onSuccess: () => {
+      setMessage("");
+      setPhotos([]);
+      onChanged(dispute.bookingId, dispute.id);
+    },
+    onError,
+  });
+
+  return (
+    <form
+      className="space-y-2"
+      onSubmit={(e) => {
+        e.preventDefault();
+        reply.mutate();
+      }}
+    >
+      <Textarea
+        value={message}
+        onChange={(e) => setMessage(e.target.value)}
+        placeholder={t('dispute.reply', "Reply")}
+      />
+      <Input
+        type="file"
+        accept="image/jpeg,image/png,image/webp"
+        multiple
+        onChange={(e) => setPhotos(Array.from(e.target.files ?? []))}
+      />
+      <Button type="submit" size="sm" disabled={!message.trim() || reply.isPending}>
+        {reply.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+        {t('dispute.send', "Send")}
+      </Button>
+    </form>
+  );
+}
+
+// Admin decides the outcome: deposit kept, rental refunded, penalty
+function ResolveDisputeForm({ dispute }: { dispute: DisputeWithBooking }) {
+  const { t, toast, onChanged, onError } = useDisputeToasts();
+  const [note, setNote] = useState("");
+  const [depositWithheld, setDepositWithheld] = useState("0");
+  const [refundAmount, setRefundAmount] = useState("0");
+  const [penaltyAmount, setPenaltyAmount] = useState("0");
+  const [penaltyParty, setPenaltyParty] = useState<string>("owner");
+
+  const resolve = useMutation({
+    mutationFn: () => sendDispute(`/api/admin/disputes/${dispute.id}/resolve`, {
+      note,
+      depositWithheld: Number(depositWithheld || 0),
+      refundAmount: Number(refundAmount || 0),
+      penaltyAmount: Number(penaltyAmount || 0),
+      penaltyParty: Number(penaltyAmount || 0) > 0 ? penaltyParty : undefined,
+    }, t('dispute.resolveFailed', "Failed to resolve the dispute")),
+    onSuccess: (result: { failures: string[] }) => {
+      onChanged(dispute.bookingId, dispute.id);
+      toast({
+        title: result.failures.length ? t('common.error', "Error") : t('common.success', "Success"),
+        description: result.failures.length
+          ? result.failures.join('. ')
+          : t('dispute.resolved', "Dispute resolved"),
+        variant: result.failures.length ? "destructive" : undefined,
+      });
+    },
+    onError,
+  });
+
+  return (
+    <form
+      className="space-y-2 border-t pt-3"
+      onSubmit={(e) => {
+        e.preventDefault();
+        resolve.mutate();
+      }}
+    >
+      <p className="text-sm font-medium">{t('dispute.outcome', "Outcome")}</p>
+      <div className="grid grid-cols-3 gap-2">
+        <label className="text-sm space-y-1">
+          <span>{t('dispute.depositWithheld', "Deposit kept by owner ₹")}</span>
+          <Input type="number" min={0} value={depositWithheld} onChange={(e) => setDepositWithheld(e.target.value)} />
+        </label>
+        <label className="text-sm space-y-1">
+          <span>{t('dispute.refundAmount', "Refund to renter ₹")}</span>
+          <Input type="number" min={0} value={refundAmount} onChange={(e) => setRefundAmount(e.target.value)} />
+        </label>
+        <label className="text-sm space-y-1">
+          <span>{t('dispute.penaltyAmount', "Penalty ₹")}</span>
+          <Input type="number" min={0} value={penaltyAmount} onChange={(e) => setPenaltyAmount(e.target.value)} />
+        </label>
+      </div>
+      {Number(penaltyAmount) > 0 && (
+        <Select value={penaltyParty} onValueChange={setPenaltyParty}>
+          <SelectTrigger className="w-56">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="owner">{t('dispute.penaltyOwner', "Against the owner (from payouts)")}</SelectItem>
+            <SelectItem value="renter">{t('dispute.penaltyRenter', "Against the renter")}</SelectItem>
+          </SelectContent>
+        </Select>
+      )}
+      <Textarea
+        value={note}
+        onChange={(e) => setNote(e.target.value)}
+        placeholder={t('dispute.resolutionNote', "Decision, shown to both parties")}
+      />
+      <Button type="submit" size="sm" disabled={!note.trim() || resolve.isPending}>
+        {resolve.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+        {t('dispute.resolve', "Resolve dispute")}
+      </Button>
+    </form>
+  );
+}
+
+// The dispute's timeline with the actions open to the viewer
+export function DisputeThread({ disputeId }: { disputeId: number }) {
+  const { t, onChanged, onError } = useDisputeToasts();
+  const { user } = useAuth();
+  const { data } = useQuery<DisputeDetails>({
+    queryKey: [`/api/disputes/${disputeId}`],
+  });
+
+  const withdraw = useMutation({
+    mutationFn: () => sendDispute(`/api/disputes/${disputeId}/withdraw`, null,
+      t('dispute.withdrawFailed', "Failed to withdraw the dispute")),
+    onSuccess: () => data && onChanged(data.dispute.bookingId, disputeId),
+    onError,
+  });
+
+  if (!data) return null;
+  const { dispute, messages, role } = data;
+  const isUnresolved = dispute.status === 'open' || dispute.status === 'responded';
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <Badge variant={isUnresolved ? "destructive" : "secondary"}>
+          {t(`dispute.status.${dispute.status}`, statusLabels[dispute.status as DisputeStatus])}
+        </Badge>
+        {dispute.claimedAmount > 0 && (
+          <span className="text-sm">
+            {t('dispute.claimed', "Claimed ₹{{amount}}", { amount: dispute.claimedAmount.toLocaleString() })}
+          </span>
+        )}
+      </div>
+      <ol className="space-y-2">
+        {messages.map((message) => (
+          <li key={message.id} className="text-sm border-l-2 pl-3">
+            <p className="text-muted-foreground">
+              {t(`dispute.role.${message.authorRole}`, roleLabels[message.authorRole] ?? message.authorRole)}
+              {' · '}
+              {format(new Date(message.createdAt), "PPp")}
+            </p>
+            <p className="whitespace-pre-line">{message.message}</p>
+            <PhotoStrip photos={message.photos} />
+          </li>
+        ))}
+      </ol>
+      {isUnresolved && <ReplyForm dispute={dispute} />}
+      {isUnresolved && role === dispute.openedByParty && (
+        <Button size="sm" variant="outline" onClick={() => withdraw.mutate()} disabled={withdraw.isPending}>
+          {t('dispute.withdraw', "Withdraw dispute")}
+        </Button>
+      )}
+      {isUnresolved && role === 'admin' && hasPermission(user, 'disputes:resolve') && <ResolveDisputeForm dispute={dispute} />}
+    </div>
+  );
+}
+
+// Disputes on one booking, and a way for either party to raise one
+export function BookingDisputes({ booking, canOpen }: { booking: DisputeBooking; canOpen: boolean }) {
+  const { t } = useTranslation();
+  const [isOpening, setIsOpening] = useState(false);
+  const { data: disputes } = useQuery<DisputeWithBooking[]>({
+    queryKey: [`/api/bookings/${booking.id}/disputes`],
+  });
+
+  if (!disputes) return null;
+  const hasUnresolved = disputes.some((dispute) => dispute.status === 'open' || dispute.status === 'responded');
+  const mayOpen = canOpen && !hasUnresolved && disputableStatuses.includes(booking.status);
+  if (disputes.length === 0 && !mayOpen) return null;
+
+  return (
+    <div className="mt-4 space-y-3">
+      <h2 className="text-lg font-semibold">{t('dispute.title', "Disputes")}</h2>
+      {disputes.map((dispute) => (
+        <Card key={dispute.id}>
+          <CardContent className="p-4">
+            <DisputeThread disputeId={dispute.id} />
+          </CardContent>
+        </Card>
+      ))}
+      {mayOpen && (isOpening ? (
+        <OpenDisputeForm booking={booking} onDone={() => setIsOpening(false)} />
+      ) : (
+        <Button variant="outline" size="sm" onClick={() => setIsOpening(true)}>
+          <AlertTriangle className="w-4 h-4 mr-2" />
+          {t('dispute.open', "Report a problem")}
+        </Button>
+      ))}
+    </div>
+  );
+}
+
+export function AdminDisputes() {
+  const { t } = useTranslation();
+  const { data: disputes } = useQuery<DisputeWithBooking[]>({
+    queryKey: ["/api/admin/disputes"],
+  });
+
+  return (
+    <div className="space-y-4 mt-12">
+      <h2 className="text-2xl font-semibold">{t('admin.disputes', 'Disputes')}</h2>
+      {disputes?.length === 0 && (
+        <p className="text-muted-foreground">{t('admin.noDisputes', 'No disputes waiting for a decision')}</p>
+      )}
+      {disputes?.map((dispute) => (
+        <Card key={dispute.id}>
+          <CardContent className="p-4 space-y-2">
+            <p className="font-medium">
+              <Link href={`/booking/${dispute.bookingId}`} className="hover:underline">
+                {t('booking.number', { id: dispute.bookingId })}
+              </Link>
+              {dispute.equipmentName && ` · ${dispute.equipmentName}`}
+              {' · '}
+              {t('dispute.openedBy', "opened by the {{party}}", {
+                party: t(`dispute.role.${dispute.openedByParty}`, roleLabels[dispute.openedByParty]).toLowerCase(),
+              })}
+            </p>
+            <DisputeThread disputeId={dispute.id} />
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,167 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useTranslation } from "react-i18next";
+import { Loader2, Undo2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+
+interface EarlyReturnQuote {
+  unit: 'day' | 'hour';
+  totalUnits: number;
+  unusedUnits: number;
+  rentalPaid: number;
+  refundPercent: number;
+  refundAmount: number;
+}
+
+interface EarlyReturnBooking {
+  id: number;
+  status: string;
+  endDate: string | Date;
+  returnRequestedAt?: string | Date | null;
+}
+
+async function postReturn(url: string, body: object, fallback: string) {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+    credentials: "include",
+  });
+
+  const result = await response.json();
+  if (!response.ok) {
+    throw new Error(result.error || fallback);
+  }
+  return result;
+}
+
+function useReturnToasts() {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+
+  const onChanged = (bookingId: number) => {
+    queryClient.invalidateQueries({ queryKey: ["/api/owner/bookings"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/bookings"] });
+    queryClient.invalidateQueries({ queryKey: [`/api/bookings/${bookingId}`] });
+  };
+
+  const onError = (error: Error) => {
+    toast({
+      title: t('common.error', "Error"),
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  return { t, toast, onChanged, onError };
+}
+
+function useEarlyReturnQuote(bookingId: number, enabled: boolean) {
+  return useQuery<EarlyReturnQuote>({
+    queryKey: [`/api/bookings/${bookingId}/early-return`],
+    enabled,
+    staleTime: 0,
+  });
+}
+
+function QuoteLine({ quote }: { quote: EarlyReturnQuote }) {
+  const { t } = useTranslation();
+  return (
+    <p className="text-sm text-muted-foreground">
+      {quote.unit === 'hour'
+        ? t('earlyReturn.unusedHours', "{{count}} of {{total}} hours unused", { count: quote.unusedUnits, total: quote.totalUnits })
+        : t('earlyReturn.unusedDays', "{{count}} of {{total}} days unused", { count: quote.unusedUnits, total: quote.totalUnits })}
+      {' · '}
+      {t('earlyReturn.refund', "₹{{amount}} back ({{percent}}% of unused time)", {
+        amount: quote.refundAmount.toLocaleString(),
+        percent: quote.refundPercent,
+      })}
+    </p>
+  );
+}
+
+// Renter offers the equipment back before the rental ends
+export function RequestEarlyReturn({ booking }: { booking: EarlyReturnBooking }) {
+  const { t, toast, onChanged, onError } = useReturnToasts();
+  const isActive = booking.status === 'in_use' && new Date(booking.endDate).getTime() > Date.now();
+  const { data: quote } = useEarlyReturnQuote(booking.id, isActive);
+
+  const request = useMutation({
+    mutationFn: () => postReturn(`/api/bookings/${booking.id}/early-return`, {},
+      t('earlyReturn.requestFailed', "Failed to request early return")),
+    onSuccess: () => {
+      onChanged(booking.id);
+      toast({
+        title: t('common.success', "Success"),
+        description: t('earlyReturn.requested', "The owner will confirm once they have the equipment back"),
+      });
+    },
+    onError,
+  });
+
+  if (!isActive) return null;
+
+  if (booking.returnRequestedAt) {
+    return (
+      <p className="mt-4 text-sm text-muted-foreground">
+        {t('earlyReturn.awaitingOwner', "Early return requested. Waiting for the owner to confirm.")}
+      </p>
+    );
+  }
+
+  return (
+    <div className="mt-4 space-y-2">
+      {quote && <QuoteLine quote={quote} />}
+      <Button variant="outline" size="sm" onClick={() => request.mutate()} disabled={request.isPending}>
+        {request.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Undo2 className="w-4 h-4 mr-2" />}
+        {t('earlyReturn.request', "Return early")}
+      </Button>
+    </div>
+  );
+}
+
+// Owner confirms the equipment came back early, refunding the unused time
+// or not
+export function OwnerReturnActions({ booking }: { booking: EarlyReturnBooking }) {
+  const { t, toast, onChanged, onError } = useReturnToasts();
+  const isRequested = booking.status === 'in_use' && !!booking.returnRequestedAt;
+  const { data: quote } = useEarlyReturnQuote(booking.id, isRequested);
+
+  const confirmReturn = useMutation({
+    mutationFn: (refund: boolean) => postReturn(`/api/bookings/${booking.id}/early-return/confirm`, { refund },
+      t('earlyReturn.confirmFailed', "Failed to confirm return")),
+    onSuccess: (result) => {
+      onChanged(booking.id);
+      toast({
+        title: t('common.success', "Success"),
+        description: result.refunds?.length
+          ? t('earlyReturn.confirmedWithRefund', "Return confirmed and ₹{{amount}} refunded", { amount: result.quote.refundAmount })
+          : t('earlyReturn.confirmed', "Return confirmed"),
+      });
+    },
+    onError,
+  });
+
+  if (!isRequested) return null;
+
+  return (
+    <div className="mt-2 space-y-2">
+      <p className="text-sm font-medium">{t('earlyReturn.ownerPrompt', "The renter wants to return this early")}</p>
+      {quote && <QuoteLine quote={quote} />}
+      <div className="space-x-2">
+        <Button size="sm" onClick={() => confirmReturn.mutate(true)} disabled={confirmReturn.isPending || !quote}>
+          {confirmReturn.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          {quote && quote.refundAmount > 0
+            ? t('earlyReturn.confirmAndRefund', "Confirm and refund ₹{{amount}}", { amount: quote.refundAmount.toLocaleString() })
+            : t('earlyReturn.confirm', "Confirm return")}
+        </Button>
+        {quote && quote.refundAmount > 0 && (
+          <Button size="sm" variant="outline" onClick={() => confirmReturn.mutate(false)} disabled={confirmReturn.isPending}>
+            {t('earlyReturn.confirmNoRefund', "Confirm without refund")}
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
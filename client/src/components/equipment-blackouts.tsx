@@ -0,0 +1,178 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useTranslation } from "react-i18next";
+import { format, parseISO } from "date-fns";
+import { CalendarOff, Loader2, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+import { blackoutReasons, type BlackoutReason, type EquipmentBlackout } from "@shared/schema";
+
+const reasonLabels: Record<BlackoutReason, string> = {
+  maintenance: "Maintenance",
+  personal_use: "Personal use",
+  in_repair: "In repair",
+};
+
+// Blackouts cover whole days, so only the date part of each end matters
+function formatRange(blackout: EquipmentBlackout) {
+  const start = format(parseISO(String(blackout.startDate).slice(0, 10)), "PP");
+  const end = format(parseISO(String(blackout.endDate).slice(0, 10)), "PP");
+  return start === end ? start : `${start} – ${end}`;
+}
+
+interface EquipmentBlackoutsProps {
+  equipmentId: number;
+}
+
+export function EquipmentBlackouts({ equipmentId }: EquipmentBlackoutsProps) {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const [startDate, setStartDate] = useState("");
+  const [endDate, setEndDate] = useState("");
+  const [reason, setReason] = useState<BlackoutReason>("maintenance");
+  const [note, setNote] = useState("");
+
+  const blackoutsKey = [`/api/equipment/${equipmentId}/blackouts`];
+
+  const { data: blackouts, isLoading } = useQuery<EquipmentBlackout[]>({
+    queryKey: blackoutsKey,
+  });
+
+  const onChanged = () => {
+    queryClient.invalidateQueries({ queryKey: blackoutsKey });
+    queryClient.invalidateQueries({ queryKey: [`/api/equipment/${equipmentId}/availability`] });
+  };
+
+  const onError = (error: Error) => {
+    toast({
+      title: t('common.error', "Error"),
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const addBlackout = useMutation({
+    mutationFn: async () => {
+      const response = await fetch(`/api/equipment/${equipmentId}/blackouts`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ startDate, endDate, reason, note: note || null }),
+        credentials: "include",
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || t('blackout.addFailed', "Failed to block dates"));
+      }
+      return result as EquipmentBlackout;
+    },
+    onSuccess: () => {
+      setStartDate("");
+      setEndDate("");
+      setNote("");
+      onChanged();
+      toast({
+        title: t('common.success', "Success"),
+        description: t('blackout.added', "Dates blocked"),
+      });
+    },
+    onError,
+  });
+
+  const removeBlackout = useMutation({
+    mutationFn: async (blackoutId: number) => {
+      const response = await fetch(`/api/equipment/${equipmentId}/blackouts/${blackoutId}`, {
+        method: 'DELETE',
+        credentials: "include",
+      });
+
+      if (!response.ok) {
+        const result = await response.json();
+        throw new Error(result.error || t('blackout.removeFailed', "Failed to unblock dates"));
+      }
+    },
+    onSuccess: onChanged,
+    onError,
+  });
+
+  return (
+    <div className="mt-4 border-t pt-4 space-y-3">
+      <p className="font-medium flex items-center gap-2">
+        <CalendarOff className="w-4 h-4" />
+        {t('blackout.title', "Blocked dates")}
+      </p>
+
+      {isLoading ? (
+        <Loader2 className="h-4 w-4 animate-spin" />
+      ) : blackouts && blackouts.length > 0 ? (
+        <ul className="space-y-1 text-sm">
+          {blackouts.map((blackout) => (
+            <li key={blackout.id} className="flex items-center justify-between gap-2">
+              <span>
+                {formatRange(blackout)} · {t(`blackout.reason.${blackout.reason}`, reasonLabels[blackout.reason as BlackoutReason] ?? blackout.reason)}
+                {blackout.note && <span className="text-muted-foreground"> — {blackout.note}</span>}
+              </span>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => removeBlackout.mutate(blackout.id)}
+                disabled={removeBlackout.isPending}
+                aria-label={t('blackout.remove', "Unblock")}
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-sm text-muted-foreground">{t('blackout.none', "No blocked dates")}</p>
+      )}
+
+      <div className="grid grid-cols-2 gap-2">
+        <Input
+          type="date"
+          value={startDate}
+          onChange={(e) => setStartDate(e.target.value)}
+          aria-label={t('calendar.startDate', "Start Date")}
+        />
+        <Input
+          type="date"
+          value={endDate}
+          min={startDate || undefined}
+          onChange={(e) => setEndDate(e.target.value)}
+          aria-label={t('calendar.endDate', "End Date")}
+        />
+        <Select value={reason} onValueChange={(value) => setReason(value as BlackoutReason)}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {blackoutReasons.map((value) => (
+              <SelectItem key={value} value={value}>
+                {t(`blackout.reason.${value}`, reasonLabels[value])}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Input
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          placeholder={t('blackout.notePlaceholder', "Note (optional)")}
+        />
+      </div>
+      <Button
+        variant="outline"
+        size="sm"
+        className="w-full"
+        onClick={() => addBlackout.mutate()}
+        disabled={!startDate || !endDate || addBlackout.isPending}
+      >
+        {addBlackout.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+        {t('blackout.add', "Block dates")}
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,219 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useTranslation } from "react-i18next";
+import { format, parseISO } from "date-fns";
+import { Loader2, Tags, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+import { pricingRuleKinds, type PricingRule, type PricingRuleKind } from "@shared/schema";
+
+const kindLabels: Record<PricingRuleKind, string> = {
+  season: "Season",
+  weekend: "Weekends",
+  duration: "Long rental",
+};
+
+// When a rule applies, in a few words
+function describeRule(rule: PricingRule) {
+  if (rule.kind === 'season' && rule.startDate && rule.endDate) {
+    const start = format(parseISO(String(rule.startDate).slice(0, 10)), "PP");
+    const end = format(parseISO(String(rule.endDate).slice(0, 10)), "PP");
+    return start === end ? start : `${start} – ${end}`;
+  }
+  if (rule.kind === 'duration') {
+    return `${rule.minDays}+ days`;
+  }
+  return kindLabels[rule.kind as PricingRuleKind] ?? rule.kind;
+}
+
+interface EquipmentPricingRulesProps {
+  equipmentId: number;
+}
+
+export function EquipmentPricingRules({ equipmentId }: EquipmentPricingRulesProps) {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const [kind, setKind] = useState<PricingRuleKind>("season");
+  const [name, setName] = useState("");
+  const [adjustmentPercent, setAdjustmentPercent] = useState("");
+  const [startDate, setStartDate] = useState("");
+  const [endDate, setEndDate] = useState("");
+  const [minDays, setMinDays] = useState("");
+
+  const rulesKey = [`/api/equipment/${equipmentId}/pricing-rules`];
+
+  const { data: rules, isLoading } = useQuery<PricingRule[]>({
+    queryKey: rulesKey,
+  });
+
+  const onChanged = () => {
+    queryClient.invalidateQueries({ queryKey: rulesKey });
+  };
+
+  const onError = (error: Error) => {
+    toast({
+      title: t('common.error', "Error"),
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const addRule = useMutation({
+    mutationFn: async () => {
+      const response = await fetch(`/api/equipment/${equipmentId}/pricing-rules`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          kind,
+          name,
+          adjustmentPercent: Number(adjustmentPercent),
+          startDate: kind === 'season' ? startDate : null,
+          endDate: kind === 'season' ? endDate : null,
+          minDays: kind === 'duration' ? Number(minDays) : null,
+        }),
+        credentials: "include",
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || t('pricingRules.addFailed', "Failed to add pricing rule"));
+      }
+      return result as PricingRule;
+    },
+    onSuccess: () => {
+      setName("");
+      setAdjustmentPercent("");
+      setStartDate("");
+      setEndDate("");
+      setMinDays("");
+      onChanged();
+      toast({
+        title: t('common.success', "Success"),
+        description: t('pricingRules.added', "Pricing rule added"),
+      });
+    },
+    onError,
+  });
+
+  const removeRule = useMutation({
+    mutationFn: async (ruleId: number) => {
+      const response = await fetch(`/api/equipment/${equipmentId}/pricing-rules/${ruleId}`, {
+        method: 'DELETE',
+        credentials: "include",
+      });
+
+      if (!response.ok) {
+        const result = await response.json();
+        throw new Error(result.error || t('pricingRules.removeFailed', "Failed to remove pricing rule"));
+      }
+    },
+    onSuccess: onChanged,
+    onError,
+  });
+
+  const isComplete = name.trim() !== "" && adjustmentPercent !== "" &&
+    (kind !== 'season' || (startDate !== "" && endDate !== "")) &&
+    (kind !== 'duration' || minDays !== "");
+
+  return (
+    <div className="mt-4 border-t pt-4 space-y-3">
+      <p className="font-medium flex items-center gap-2">
+        <Tags className="w-4 h-4" />
+        {t('pricingRules.title', "Pricing rules")}
+      </p>
+
+      {isLoading ? (
+        <Loader2 className="h-4 w-4 animate-spin" />
+      ) : rules && rules.length > 0 ? (
+        <ul className="space-y-1 text-sm">
+          {rules.map((rule) => (
+            <li key={rule.id} className="flex items-center justify-between gap-2">
+              <span>
+                {rule.name} · {describeRule(rule)} ·{' '}
+                <span className={rule.adjustmentPercent < 0 ? "text-green-600" : "text-amber-700"}>
+                  {rule.adjustmentPercent > 0 ? "+" : ""}{rule.adjustmentPercent}%
+                </span>
+              </span>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => removeRule.mutate(rule.id)}
+                disabled={removeRule.isPending}
+                aria-label={t('pricingRules.remove', "Remove")}
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-sm text-muted-foreground">{t('pricingRules.none', "Base rates apply on every day")}</p>
+      )}
+
+      <div className="grid grid-cols-2 gap-2">
+        <Select value={kind} onValueChange={(value) => setKind(value as PricingRuleKind)}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {pricingRuleKinds.map((value) => (
+              <SelectItem key={value} value={value}>
+                {t(`pricingRules.kind.${value}`, kindLabels[value])}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder={t('pricingRules.namePlaceholder', "Name, e.g. Harvest season")}
+        />
+        <Input
+          type="number"
+          value={adjustmentPercent}
+          onChange={(e) => setAdjustmentPercent(e.target.value)}
+          placeholder={t('pricingRules.percentPlaceholder', "% change, e.g. 20 or -10")}
+        />
+        {kind === 'duration' && (
+          <Input
+            type="number"
+            min={2}
+            value={minDays}
+            onChange={(e) => setMinDays(e.target.value)}
+            placeholder={t('pricingRules.minDaysPlaceholder', "Minimum days")}
+          />
+        )}
+        {kind === 'season' && (
+          <>
+            <Input
+              type="date"
+              value={startDate}
+              onChange={(e) => setStartDate(e.target.value)}
+              aria-label={t('calendar.startDate', "Start Date")}
+            />
+            <Input
+              type="date"
+              value={endDate}
+              min={startDate || undefined}
+              onChange={(e) => setEndDate(e.target.value)}
+              aria-label={t('calendar.endDate', "End Date")}
+            />
+          </>
+        )}
+      </div>
+      <Button
+        variant="outline"
+        size="sm"
+        className="w-full"
+        onClick={() => addRule.mutate()}
+        disabled={!isComplete || addRule.isPending}
+      >
+        {addRule.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+        {t('pricingRules.add', "Add pricing rule")}
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,188 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useTranslation } from "react-i18next";
+import { format, parseISO } from "date-fns";
+import { CalendarPlus, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { PaymentGateway } from "@/components/payment-gateway";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+import { extendableBookingStatuses, type BookingExtension } from "@shared/schema";
+
+interface ExtensionQuote {
+  previousEndDate: string;
+  newEndDate: string;
+  amount: number;
+  available: boolean;
+}
+
+interface ExtendBookingPanelProps {
+  booking: {
+    id: number;
+    startDate: string;
+    endDate: string;
+    rentalUnit?: string;
+    status: string;
+    returnRequestedAt?: string | null;
+  };
+  userData: {
+    name?: string;
+    email?: string;
+    phone?: string;
+  };
+}
+
+const unpaidStatuses = ['awaiting_payment', 'payment_failed'];
+
+// The new end as the API takes it: the last day for day rentals, the exact
+// time for hour rentals
+function toRequestedEnd(value: string, rentalUnit?: string) {
+  return rentalUnit === 'hour' ? new Date(value).toISOString() : value;
+}
+
+// Last day of a day rental, or the exact end of an hour rental
+function formatEnd(endDate: string | Date, rentalUnit?: string) {
+  const end = new Date(endDate);
+  if (rentalUnit === 'hour') return format(end, 'PPp');
+  return format(parseISO(new Date(end.getTime() - 1).toISOString().slice(0, 10)), 'PP');
+}
+
+async function fetchQuote(url: string): Promise<ExtensionQuote> {
+  const response = await fetch(url, { credentials: "include" });
+  const result = await response.json();
+  if (!response.ok) {
+    throw new Error(result.error || 'Failed to quote extension');
+  }
+  return result;
+}
+
+// Renter's controls for adding time to a paid booking, with the
+// extensions already asked for
+export function ExtendBookingPanel({ booking, userData }: ExtendBookingPanelProps) {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const [newEnd, setNewEnd] = useState("");
+  const requestedEnd = newEnd ? toRequestedEnd(newEnd, booking.rentalUnit) : "";
+
+  const { data: extensions = [] } = useQuery<BookingExtension[]>({
+    queryKey: [`/api/bookings/${booking.id}/extensions`],
+  });
+
+  const quoteUrl = `/api/bookings/${booking.id}/extension-quote?endDate=${encodeURIComponent(requestedEnd)}`;
+  const { data: quote, error: quoteError, isFetching: isQuoting } = useQuery<ExtensionQuote>({
+    queryKey: [quoteUrl],
+    queryFn: () => fetchQuote(quoteUrl),
+    enabled: !!requestedEnd,
+    retry: false,
+  });
+
+  const extend = useMutation({
+    mutationFn: async () => {
+      const response = await fetch(`/api/bookings/${booking.id}/extend`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ endDate: requestedEnd }),
+        credentials: "include",
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || t('extension.failed', "Failed to extend booking"));
+      }
+      return result as BookingExtension;
+    },
+    onSuccess: () => {
+      setNewEnd("");
+      queryClient.invalidateQueries({ queryKey: [`/api/bookings/${booking.id}/extensions`] });
+      toast({
+        title: t('extension.held', "Extra time held"),
+        description: t('extension.payToConfirm', "Pay for the extension to confirm it."),
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: t('common.error', "Error"),
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const pending = extensions.find((extension) =>
+    unpaidStatuses.includes(extension.status) &&
+    (!extension.holdExpiresAt || new Date(extension.holdExpiresAt).getTime() > Date.now()));
+  const canExtend = (extendableBookingStatuses as string[]).includes(booking.status) &&
+    !booking.returnRequestedAt && new Date(booking.endDate).getTime() > Date.now();
+
+  if (!canExtend && extensions.length === 0) return null;
+
+  return (
+    <div className="mt-4 space-y-3 border-t pt-4">
+      <p className="font-semibold flex items-center gap-2">
+        <CalendarPlus className="h-4 w-4" />
+        {t('extension.title', "Extend rental")}
+      </p>
+
+      {extensions.length > 0 && (
+        <ul className="text-sm text-muted-foreground">
+          {extensions.map((extension) => (
+            <li key={extension.id}>
+              {t('extension.until', "Until {{end}}", { end: formatEnd(extension.newEndDate, booking.rentalUnit) })}{' '}
+              — ₹{extension.amount.toLocaleString()}{' '}
+              <span className="capitalize">({t(`extension.status.${extension.status}`, extension.status.replace('_', ' '))})</span>
+              {extension.paidAt && ` · ${format(new Date(extension.paidAt), 'PP')}`}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {pending ? (
+        <PaymentGateway
+          bookingId={booking.id}
+          extensionId={pending.id}
+          totalPrice={pending.amount}
+          holdExpiresAt={pending.holdExpiresAt}
+          userData={userData}
+        />
+      ) : canExtend && (
+        <form
+          className="space-y-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            extend.mutate();
+          }}
+        >
+          <label className="text-sm block">
+            {booking.rentalUnit === 'hour'
+              ? t('extension.newEndTime', "Keep it until")
+              : t('extension.newLastDay', "New last day")}
+            <Input
+              type={booking.rentalUnit === 'hour' ? "datetime-local" : "date"}
+              step={booking.rentalUnit === 'hour' ? 3600 : undefined}
+              value={newEnd}
+              onChange={(e) => setNewEnd(e.target.value)}
+              className="mt-1"
+            />
+          </label>
+          {isQuoting && <Loader2 className="h-4 w-4 animate-spin" />}
+          {quoteError && <p className="text-sm text-destructive">{(quoteError as Error).message}</p>}
+          {quote && !isQuoting && (
+            <p className="text-sm">
+              {t('extension.quote', "Extending costs ₹{{amount}}", { amount: quote.amount.toLocaleString() })}
+              {!quote.available && (
+                <span className="block text-destructive">
+                  {t('extension.unavailable', "The equipment is not free for the extra time.")}
+                </span>
+              )}
+            </p>
+          )}
+          <Button type="submit" size="sm" disabled={!quote || !quote.available || isQuoting || extend.isPending}>
+            {extend.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {t('extension.request', "Extend and pay")}
+          </Button>
+        </form>
+      )}
+    </div>
+  );
+}
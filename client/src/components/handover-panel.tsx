@@ -0,0 +1,339 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useTranslation } from "react-i18next";
+import { format } from "date-fns";
+import { Camera, CheckCircle2, Loader2, ShieldCheck } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+import type { BookingHandover, HandoverKind, MeterType } from "@shared/schema";
+
+type Handover = Omit<BookingHandover, 'ownerSignedAt' | 'renterSignedAt' | 'signedAt' | 'createdAt' | 'updatedAt'> & {
+  ownerSignedAt: string | null;
+  renterSignedAt: string | null;
+  signedAt: string | null;
+  verified: boolean;
+};
+
+export type HandoverParty = 'owner' | 'renter';
+
+interface HandoverBooking {
+  id: number;
+  status: string;
+}
+
+// Statuses a booking can be in while each handover is open, as on the server
+const openStatuses: Record<HandoverKind, string[]> = {
+  pickup: ['paid', 'approved'],
+  return: ['in_use', 'returned'],
+};
+
+const meterUnits: Record<MeterType, string> = {
+  engine_hours: "h",
+  odometer_km: "km",
+};
+
+async function postHandover(url: string, body: FormData | null, fallback: string) {
+  const response = await fetch(url, {
+    method: 'POST',
+    body,
+    credentials: "include",
+  });
+
+  const result = await response.json();
+  if (!response.ok) {
+    throw new Error(result.error || fallback);
+  }
+  return result;
+}
+
+function useHandoverToasts() {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+
+  const onChanged = (bookingId: number) => {
+    queryClient.invalidateQueries({ queryKey: [`/api/bookings/${bookingId}/handovers`] });
+    queryClient.invalidateQueries({ queryKey: ["/api/owner/bookings"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/bookings"] });
+    queryClient.invalidateQueries({ queryKey: [`/api/bookings/${bookingId}`] });
+  };
+
+  const onError = (error: Error) => {
+    toast({
+      title: t('common.error', "Error"),
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  return { t, toast, onChanged, onError };
+}
+
+function useHandovers(bookingId: number) {
+  return useQuery<Handover[]>({
+    queryKey: [`/api/bookings/${bookingId}/handovers`],
+  });
+}
+
+function Readings({ handover }: { handover: Handover }) {
+  const { t } = useTranslation();
+  return (
+    <ul className="text-sm text-muted-foreground">
+      {handover.meterReading !== null && handover.meterType && (
+        <li>
+          {t('handover.meter', "Meter")}: {handover.meterReading.toLocaleString()} {meterUnits[handover.meterType as MeterType]}
+        </li>
+      )}
+      {handover.fuelLevel !== null && (
+        <li>{t('handover.fuel', "Fuel")}: {handover.fuelLevel}%</li>
+      )}
+      {handover.notes && <li>{handover.notes}</li>}
+    </ul>
+  );
+}
+
+function Photos({ handover }: { handover: Handover }) {
+  if (handover.photos.length === 0) return null;
+  return (
+    <div className="flex flex-wrap gap-2">
+      {handover.photos.map((photo) => (
+        <a key={photo.url} href={photo.url} target="_blank" rel="noreferrer">
+          <img src={photo.url} alt="" className="h-16 w-16 rounded object-cover border" />
+        </a>
+      ))}
+    </div>
+  );
+}
+
+function Signatures({ handover }: { handover: Handover }) {
+  const { t } = useTranslation();
+
+  if (handover.signedAt) {
+    return (
+      <p className="text-sm flex items-center gap-1">
+        <ShieldCheck className={handover.verified ? "h-4 w-4 text-green-600" : "h-4 w-4 text-destructive"} />
+        {handover.verified
+          ? t('handover.sealed', "Signed by both on {{time}}", { time: format(new Date(handover.signedAt), "PPp") })
+          : t('handover.tampered', "This record was changed after it was signed")}
+      </p>
+    );
+  }
+
+  return (
+    <p className="text-sm text-muted-foreground">
+      {t('handover.ownerSigned', "Owner")}: {handover.ownerSignedAt ? "✓" : "—"}
+      {' · '}
+      {t('handover.renterSigned', "Renter")}: {handover.renterSignedAt ? "✓" : "—"}
+    </p>
+  );
+}
+
+function HandoverForm({ bookingId, kind, handover, onSaved }: {
+  bookingId: number;
+  kind: HandoverKind;
+  handover?: Handover;
+  onSaved?: () => void;
+}) {
+  const { t, toast, onChanged, onError } = useHandoverToasts();
+  const [meterType, setMeterType] = useState<string>(handover?.meterType ?? "engine_hours");
+  const [meterReading, setMeterReading] = useState(handover?.meterReading?.toString() ?? "");
+  const [fuelLevel, setFuelLevel] = useState(handover?.fuelLevel?.toString() ?? "");
+  const [notes, setNotes] = useState(handover?.notes ?? "");
+  const [photos, setPhotos] = useState<File[]>([]);
+
+  const record = useMutation({
+    mutationFn: () => {
+      const body = new FormData();
+      if (meterReading !== "") {
+        body.append('meterType', meterType);
+        body.append('meterReading', meterReading);
+      }
+      if (fuelLevel !== "") body.append('fuelLevel', fuelLevel);
+      if (notes.trim()) body.append('notes', notes.trim());
+      photos.forEach((photo) => body.append('photos', photo));
+      return postHandover(`/api/bookings/${bookingId}/handovers/${kind}`, body,
+        t('handover.recordFailed', "Failed to save the handover"));
+    },
+    onSuccess: () => {
+      setPhotos([]);
+      onSaved?.();
+      onChanged(bookingId);
+      toast({
+        title: t('common.success', "Success"),
+        description: t('handover.recorded', "Saved and signed. The other party needs to confirm it."),
+      });
+    },
+    onError,
+  });
+
+  return (
+    <form
+      className="space-y-2"
+      onSubmit={(e) => {
+        e.preventDefault();
+        record.mutate();
+      }}
+    >
+      <div className="flex gap-2">
+        <Select value={meterType} onValueChange={setMeterType}>
+          <SelectTrigger className="w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="engine_hours">{t('handover.engineHours', "Engine hours")}</SelectItem>
+            <SelectItem value="odometer_km">{t('handover.odometer', "Odometer (km)")}</SelectItem>
+          </SelectContent>
+        </Select>
+        <Input
+          type="number"
+          min={0}
+          step="0.1"
+          value={meterReading}
+          onChange={(e) => setMeterReading(e.target.value)}
+          placeholder={t('handover.reading', "Reading")}
+        />
+        <Input
+          type="number"
+          min={0}
+          max={100}
+          className="w-28"
+          value={fuelLevel}
+          onChange={(e) => setFuelLevel(e.target.value)}
+          placeholder={t('handover.fuelPercent', "Fuel %")}
+        />
+      </div>
+      <Textarea
+        value={notes}
+        onChange={(e) => setNotes(e.target.value)}
+        placeholder={t('handover.notes', "Scratches, dents, missing parts…")}
+      />
+      <Input
+        type="file"
+        accept="image/jpeg,image/png,image/webp"
+        multiple
+        onChange={(e) => setPhotos(Array.from(e.target.files ?? []))}
+      />
+      <Button type="submit" size="sm" disabled={record.isPending}>
+        {record.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Camera className="w-4 h-4 mr-2" />}
+        {t('handover.saveAndSign', "Save and sign")}
+      </Button>
+    </form>
+  );
+}
+
+function HandoverCard({ booking, kind, party, handover }: {
+  booking: HandoverBooking;
+  kind: HandoverKind;
+  party: HandoverParty;
+  handover?: Handover;
+}) {
+  const { t, toast, onChanged, onError } = useHandoverToasts();
+  const [isEditing, setIsEditing] = useState(false);
+  const isOpen = openStatuses[kind].includes(booking.status) && !handover?.signedAt;
+  const mySignature = party === 'owner' ? handover?.ownerSignedAt : handover?.renterSignedAt;
+
+  const confirmHandover = useMutation({
+    mutationFn: () => postHandover(`/api/bookings/${booking.id}/handovers/${kind}/confirm`, null,
+      t('handover.confirmFailed', "Failed to confirm the handover")),
+    onSuccess: (result) => {
+      onChanged(booking.id);
+      toast({
+        title: t('common.success', "Success"),
+        description: result.handover.signedAt
+          ? t('handover.complete', "Handover signed by both parties")
+          : t('handover.confirmed', "Confirmed. Waiting for the other party."),
+      });
+    },
+    onError,
+  });
+
+  if (!handover && !isOpen) return null;
+
+  return (
+    <div className="space-y-2 border rounded-md p-3">
+      <p className="font-medium">
+        {kind === 'pickup' ? t('handover.pickup', "Pickup check") : t('handover.return', "Return check")}
+      </p>
+      {handover && (
+        <>
+          <Readings handover={handover} />
+          <Photos handover={handover} />
+          <Signatures handover={handover} />
+        </>
+      )}
+      {isOpen && (!handover || isEditing) && (
+        <HandoverForm bookingId={booking.id} kind={kind} handover={handover} onSaved={() => setIsEditing(false)} />
+      )}
+      {isOpen && handover && !isEditing && (
+        <div className="space-x-2">
+          {!mySignature && (
+            <Button size="sm" onClick={() => confirmHandover.mutate()} disabled={confirmHandover.isPending}>
+              {confirmHandover.isPending
+                ? <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                : <CheckCircle2 className="w-4 h-4 mr-2" />}
+              {t('handover.confirm', "Confirm as recorded")}
+            </Button>
+          )}
+          <Button size="sm" variant="outline" onClick={() => setIsEditing(true)}>
+            {t('handover.edit', "Correct or add photos")}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Owner and renter record and sign the pickup and return checks
+export function HandoverPanel({ booking, party }: { booking: HandoverBooking; party: HandoverParty }) {
+  const { t } = useTranslation();
+  const { data: handovers } = useHandovers(booking.id);
+  if (!handovers) return null;
+
+  const byKind = (kind: HandoverKind) => handovers.find((handover) => handover.kind === kind);
+  const visible = (['pickup', 'return'] as const).filter((kind) =>
+    byKind(kind) || openStatuses[kind].includes(booking.status));
+  if (visible.length === 0) return null;
+
+  return (
+    <div className="mt-4 space-y-2">
+      <h2 className="text-lg font-semibold">{t('handover.title', "Handover")}</h2>
+      {visible.map((kind) => (
+        <HandoverCard key={kind} booking={booking} kind={kind} party={party} handover={byKind(kind)} />
+      ))}
+    </div>
+  );
+}
+
+// Pickup next to return, for settling the deposit or a damage claim
+export function HandoverComparison({ bookingId }: { bookingId: number }) {
+  const { t } = useTranslation();
+  const { data: handovers } = useHandovers(bookingId);
+  if (!handovers || handovers.length === 0) return null;
+
+  return (
+    <div className="mt-2 grid grid-cols-2 gap-2 text-left">
+      {(['pickup', 'return'] as const).map((kind) => {
+        const handover = handovers.find((item) => item.kind === kind);
+        return (
+          <div key={kind} className="space-y-1">
+            <p className="text-sm font-medium">
+              {kind === 'pickup' ? t('handover.pickup', "Pickup check") : t('handover.return', "Return check")}
+            </p>
+            {handover ? (
+              <>
+                <Readings handover={handover} />
+                <Photos handover={handover} />
+                <Signatures handover={handover} />
+              </>
+            ) : (
+              <p className="text-sm text-muted-foreground">{t('handover.none', "Not recorded")}</p>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
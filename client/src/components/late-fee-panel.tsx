@@ -0,0 +1,67 @@
+import { useQuery } from "@tanstack/react-query";
+import { useTranslation } from "react-i18next";
+import { format } from "date-fns";
+import { AlarmClock } from "lucide-react";
+import { PaymentGateway } from "@/components/payment-gateway";
+import { payableLateFeeStatuses, type LateFee, type LateFeeStatus } from "@shared/schema";
+
+const statusLabels: Record<LateFeeStatus, string> = {
+  accruing: "Overdue",
+  due: "Due",
+  awaiting_payment: "Awaiting payment",
+  payment_failed: "Payment failed",
+  paid: "Paid",
+  waived: "Waived",
+};
+
+interface LateFeeNoticeProps {
+  bookingId: number;
+  // The renter's details; when given, a payable fee can be paid from here
+  userData?: {
+    name?: string;
+    email?: string;
+    phone?: string;
+  };
+}
+
+// Overdue warning and late fee for a booking, if it came back late
+export function LateFeeNotice({ bookingId, userData }: LateFeeNoticeProps) {
+  const { t } = useTranslation();
+  const { data: fees } = useQuery<LateFee[]>({
+    queryKey: ["/api/late-fees"],
+  });
+
+  const fee = fees?.find((item) => item.bookingId === bookingId);
+  if (!fee) return null;
+
+  const status = fee.status as LateFeeStatus;
+  const isPayable = (payableLateFeeStatuses as string[]).includes(status);
+
+  return (
+    <div className={`text-sm space-y-1 ${status === 'accruing' || isPayable ? 'text-destructive' : 'text-muted-foreground'}`}>
+      <p className="flex items-center gap-1">
+        <AlarmClock className="h-4 w-4" />
+        {status === 'accruing'
+          ? t('lateFee.overdue', 'Overdue since {{date}}', { date: format(new Date(fee.overdueSince), 'PPp') })
+          : t('lateFee.returnedLate', 'Returned {{days}} day(s) late', { days: fee.days })}
+      </p>
+      <p>
+        {status === 'accruing'
+          ? t('lateFee.accruing', 'Late fee so far ₹{{amount}} (₹{{daily}} per day until returned)', {
+              amount: fee.amount.toLocaleString(),
+              daily: fee.dailyFee.toLocaleString(),
+            })
+          : t('lateFee.summary', 'Late fee ₹{{amount}}', { amount: fee.amount.toLocaleString() })}
+        {status !== 'accruing' && ` · ${t(`lateFee.status.${status}`, statusLabels[status])}`}
+      </p>
+      {userData && isPayable && (
+        <PaymentGateway
+          bookingId={bookingId}
+          lateFeeId={fee.id}
+          totalPrice={fee.amount}
+          userData={userData}
+        />
+      )}
+    </div>
+  );
+}
@@ -1,8 +1,10 @@
 import { Link, useLocation } from "wouter";
 import { useAuth } from "@/hooks/use-auth";
+import { useCart } from "@/hooks/use-cart";
 import { Avatar, AvatarImage, AvatarFallback } from "@/components/ui/avatar";
 import { Button } from "@/components/ui/button";
 import { LanguageSwitcher } from "@/components/language-switcher";
+import { NotificationBell } from "@/components/notification-bell";
 import { useTranslation } from "react-i18next";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogTrigger } from "@/components/ui/dialog";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
@@ -12,13 +14,15 @@ import { useForm } from "react-hook-form";
 import { 
   Menu,
   Search,
+  ShoppingBasket,
   ShoppingCart,
   Tractor,
   User,
   Plus,
   Loader2,
   ChevronDown,
-  ImagePlus
+  ImagePlus,
+  ShieldCheck
 } from "lucide-react";
 import { z } from "zod";
 import { useState } from "react";
@@ -38,11 +42,17 @@ import {
   SheetTrigger,
 } from "@/components/ui/sheet";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { gstStates } from "@shared/gst";
+import { hasAnyPermission, hasPermission, roleLabels, staffPermissions } from "@shared/permissions";
+import { selfServiceRoles, type UserRole } from "@shared/schema";
 
 const profileSchema = z.object({
   name: z.string().min(1, "Name is required"),
   contact: z.string().optional(),
   imageUrl: z.string().optional(),
+  gstin: z.string().optional(),
+  state: z.string().optional(),
+  role: z.enum(selfServiceRoles).optional(),
 });
 
 const equipmentSchema = z.object({
@@ -67,6 +77,7 @@ const categories = [
 
 export function MainNav() {
   const { user, logoutMutation, updateProfileMutation } = useAuth();
+  const { items: cartItems } = useCart();
   const { t } = useTranslation();
   const [isProfileOpen, setIsProfileOpen] = useState(false);
   const [isPostEquipmentOpen, setIsPostEquipmentOpen] = useState(false);
@@ -76,12 +87,21 @@ export function MainNav() {
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
 
+  const canList = hasPermission(user, 'equipment:list');
+  const isStaff = hasAnyPermission(user, staffPermissions);
+  // Renters and owners switch between the two themselves; staff roles are
+  // set by an admin
+  const canSwitchRole = !!user && (selfServiceRoles as readonly string[]).includes(user.role);
+
   const profileForm = useForm<ProfileFormData>({
     resolver: zodResolver(profileSchema),
     defaultValues: {
       name: user?.name || "",
       contact: user?.contact || "",
       imageUrl: user?.imageUrl || "",
+      gstin: user?.gstin || "",
+      state: user?.state || "",
+      role: canSwitchRole ? user?.role as ProfileFormData['role'] : undefined,
     },
   });
 
@@ -108,7 +128,7 @@ export function MainNav() {
     } catch (error) {
       toast({
         title: t('common.error', 'Error'),
-        description: t('profile.errorOccurred', 'An error occurred while updating your profile'),
+        description: error instanceof Error ? error.message : t('profile.errorOccurred', 'An error occurred while updating your profile'),
         variant: "destructive",
       });
     }
@@ -211,9 +231,23 @@ export function MainNav() {
                   <ShoppingCart className="h-5 w-5" />
                   {t('nav.bookings', 'Bookings')}
                 </Link>
-                {user?.isAdmin && (
+                <Link href="/cart" className="flex items-center gap-2 px-2 py-2 rounded-md hover:bg-accent">
+                  <ShoppingBasket className="h-5 w-5" />
+                  {t('nav.cart', 'Cart')} ({cartItems.length})
+                </Link>
+                {canList && (
+                  <Link
+                    href="/dashboard"
+                    className="flex items-center gap-2 px-2 py-2 rounded-md hover:bg-accent"
+                    onClick={() => window.localStorage.setItem('openAddEquipment', 'true')}
+                  >
+                    <Plus className="h-5 w-5" />
+                    {t('equipment.post', 'Post Equipment')}
+                  </Link>
+                )}
+                {isStaff && (
                   <Link href="/admin" className="flex items-center gap-2 px-2 py-2 rounded-md hover:bg-accent">
-                    <User className="h-5 w-5" />
+                    <ShieldCheck className="h-5 w-5" />
                     {t('nav.admin', 'Admin Dashboard')}
                   </Link>
                 )}
@@ -266,19 +300,21 @@ export function MainNav() {
 
           {/* Right Section */}
           <div className="flex items-center gap-4">
-            {/* Post Equipment Button */}
-            <Link href="/dashboard">
-              <Button 
-                variant="default" 
-                className="hidden md:flex items-center gap-2 bg-green-600 hover:bg-green-700"
-                onClick={() => {
-                  window.localStorage.setItem('openAddEquipment', 'true');
-                }}
-              >
-                <Plus className="h-4 w-4" />
-                {t('equipment.post', 'Post Equipment')}
-              </Button>
-            </Link>
+            {/* Post Equipment Button, for users who list equipment */}
+            {canList && (
+              <Link href="/dashboard">
+                <Button 
+                  variant="default" 
+                  className="hidden md:flex items-center gap-2 bg-green-600 hover:bg-green-700"
+                  onClick={() => {
+                    window.localStorage.setItem('openAddEquipment', 'true');
+                  }}
+                >
+                  <Plus className="h-4 w-4" />
+                  {t('equipment.post', 'Post Equipment')}
+                </Button>
+              </Link>
+            )}
               <Dialog>
               <DialogContent className="sm:max-w-[500px] max-h-[90vh] overflow-y-auto">
                 <DialogHeader>
@@ -450,6 +486,22 @@ export function MainNav() {
           <div className="flex items-center gap-4">
             <LanguageSwitcher />
 
+            <NotificationBell />
+
+            {/* Admin console, for staff */}
+            {isStaff && (
+              <Link href="/admin">
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="hidden md:inline-flex"
+                  aria-label={t('nav.admin', 'Admin Dashboard')}
+                >
+                  <ShieldCheck className="h-5 w-5" />
+                </Button>
+              </Link>
+            )}
+
             {/* Bookings */}
             <Link href="/dashboard">
               <Button 
@@ -461,6 +513,23 @@ export function MainNav() {
               </Button>
             </Link>
 
+            {/* Cart */}
+            <Link href="/cart">
+              <Button
+                variant="ghost"
+                size="icon"
+                className="relative"
+                aria-label={t('nav.cart', 'Cart')}
+              >
+                <ShoppingBasket className="h-5 w-5" />
+                {cartItems.length > 0 && (
+                  <span className="absolute -top-1 -right-1 rounded-full bg-green-600 text-white text-xs h-4 min-w-4 px-1 flex items-center justify-center">
+                    {cartItems.length}
+                  </span>
+                )}
+              </Button>
+            </Link>
+
             {/* Profile Menu */}
             <Dialog open={isProfileOpen} onOpenChange={setIsProfileOpen}>
               <DialogTrigger asChild>
@@ -485,6 +554,11 @@ export function MainNav() {
                     {t('profile.editDesc', 'Update your profile information below.')}
                   </DialogDescription>
                 </DialogHeader>
+                {user && !canSwitchRole && (
+                  <p className="text-sm text-muted-foreground">
+                    {t('profile.role', 'Role: {{role}}', { role: t(`roles.${user.role}`, roleLabels[user.role as UserRole] ?? user.role) })}
+                  </p>
+                )}
                 <Form {...profileForm}>
                   <form onSubmit={profileForm.handleSubmit(onProfileSubmit)} className="space-y-4">
                     <FormField
@@ -513,6 +587,68 @@ export function MainNav() {
                         </FormItem>
                       )}
                     />
+                    {canSwitchRole && (
+                      <FormField
+                        control={profileForm.control}
+                        name="role"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>{t('profile.roleLabel', 'I use AgriRent to')}</FormLabel>
+                            <Select value={field.value} onValueChange={field.onChange}>
+                              <FormControl>
+                                <SelectTrigger>
+                                  <SelectValue />
+                                </SelectTrigger>
+                              </FormControl>
+                              <SelectContent>
+                                <SelectItem value="renter">{t('roles.renterDesc', 'Rent equipment')}</SelectItem>
+                                <SelectItem value="owner">{t('roles.ownerDesc', 'Rent and list my own equipment')}</SelectItem>
+                              </SelectContent>
+                            </Select>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    )}
+                    <FormField
+                      control={profileForm.control}
+                      name="gstin"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>{t('profile.gstin', 'GSTIN (optional)')}</FormLabel>
+                          <FormControl>
+                            <Input {...field} onChange={(e) => field.onChange(e.target.value.toUpperCase())} maxLength={15} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={profileForm.control}
+                      name="state"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>{t('profile.state', 'State (for tax invoices)')}</FormLabel>
+                          <Select
+                            value={field.value || "none"}
+                            onValueChange={(value) => field.onChange(value === "none" ? "" : value)}
+                          >
+                            <FormControl>
+                              <SelectTrigger>
+                                <SelectValue />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              <SelectItem value="none">{t('profile.stateNotSet', 'Not set')}</SelectItem>
+                              {Object.entries(gstStates).map(([code, name]) => (
+                                <SelectItem key={code} value={code}>{name}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
                     <FormField
                       control={profileForm.control}
                       name="imageUrl"
@@ -0,0 +1,110 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { useTranslation } from "react-i18next";
+import { formatDistanceToNow } from "date-fns";
+import { Bell } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useAuth } from "@/hooks/use-auth";
+import { queryClient } from "@/lib/queryClient";
+import type { Notification } from "@shared/schema";
+
+const POLL_INTERVAL_MS = 60 * 1000;
+
+async function markRead(ids?: number[]) {
+  const response = await fetch('/api/notifications/read', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(ids ? { ids } : {}),
+    credentials: "include",
+  });
+  if (!response.ok) {
+    throw new Error('Failed to mark notifications read');
+  }
+  return response.json();
+}
+
+// In-app messages, such as waitlist offers, with the unread count
+export function NotificationBell() {
+  const { t } = useTranslation();
+  const { user } = useAuth();
+  const [, setLocation] = useLocation();
+
+  const { data: notifications = [] } = useQuery<Notification[]>({
+    queryKey: ['/api/notifications'],
+    enabled: !!user,
+    refetchInterval: POLL_INTERVAL_MS,
+  });
+
+  const read = useMutation({
+    mutationFn: markRead,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/notifications'] });
+    },
+  });
+
+  if (!user) return null;
+
+  const unread = notifications.filter((notification) => !notification.readAt).length;
+
+  const open = (notification: Notification) => {
+    if (!notification.readAt) read.mutate([notification.id]);
+    if (notification.link) {
+      queryClient.invalidateQueries({ queryKey: ['/api/waitlist'] });
+      setLocation(notification.link);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="icon" className="relative" aria-label={t('notifications.title', 'Notifications')}>
+          <Bell className="h-5 w-5" />
+          {unread > 0 && (
+            <span className="absolute -top-1 -right-1 rounded-full bg-red-600 text-white text-xs h-4 min-w-4 px-1 flex items-center justify-center">
+              {unread}
+            </span>
+          )}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-80">
+        <DropdownMenuLabel className="flex justify-between items-center">
+          {t('notifications.title', 'Notifications')}
+          {unread > 0 && (
+            <Button variant="link" size="sm" className="h-auto p-0" onClick={() => read.mutate(undefined)}>
+              {t('notifications.markAllRead', 'Mark all read')}
+            </Button>
+          )}
+        </DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {notifications.length === 0 ? (
+          <p className="px-2 py-4 text-sm text-center text-muted-foreground">
+            {t('notifications.empty', 'Nothing new')}
+          </p>
+        ) : (
+          notifications.slice(0, 10).map((notification) => (
+            <DropdownMenuItem
+              key={notification.id}
+              className="flex flex-col items-start gap-1 whitespace-normal"
+              onSelect={() => open(notification)}
+            >
+              <span className={notification.readAt ? "text-muted-foreground" : "font-medium"}>
+                {notification.message}
+              </span>
+              <span className="text-xs text-muted-foreground">
+                {formatDistanceToNow(new Date(notification.createdAt), { addSuffix: true })}
+              </span>
+            </DropdownMenuItem>
+          ))
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,189 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useTranslation } from "react-i18next";
+import { format } from "date-fns";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+import type { LedgerEntry } from "@shared/schema";
+
+interface OwnerEarnings {
+  onHold: number;
+  available: number;
+  settled: number;
+  commissionPercent: number;
+  entries: (LedgerEntry & { kind: string; memo: string | null; bookingStatus: string | null })[];
+}
+
+const kindLabels: Record<string, string> = {
+  payment: "Rental income",
+  refund: "Refund",
+  deposit_withheld: "Deposit kept",
+  payout: "Payout",
+};
+
+// Owner balances are ledger credits, so money owed shows as a positive amount
+function formatOwed(amount: number) {
+  const owed = -amount;
+  return `${owed < 0 ? "−" : ""}₹${Math.abs(owed).toLocaleString()}`;
+}
+
+function PayoutDetailsForm({ onSaved }: { onSaved: () => void }) {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const [form, setForm] = useState({
+    payoutAccountName: user?.payoutAccountName ?? "",
+    payoutAccountNumber: user?.payoutAccountNumber ?? "",
+    payoutIfsc: user?.payoutIfsc ?? "",
+  });
+
+  const setField = (field: keyof typeof form) => (e: React.ChangeEvent<HTMLInputElement>) =>
+    setForm((current) => ({ ...current, [field]: e.target.value }));
+
+  const save = useMutation({
+    mutationFn: async () => {
+      const response = await fetch("/api/user/payout-details", {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(form),
+        credentials: "include",
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.details?.[0]?.message || result.error || t('earnings.saveFailed', "Failed to save bank details"));
+      }
+      return result;
+    },
+    onSuccess: (updatedUser) => {
+      queryClient.setQueryData(["/api/user"], updatedUser);
+      onSaved();
+      toast({
+        title: t('common.success', "Success"),
+        description: t('earnings.saved', "Bank details saved"),
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: t('common.error', "Error"),
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <form
+      className="grid grid-cols-1 md:grid-cols-4 gap-2"
+      onSubmit={(e) => {
+        e.preventDefault();
+        save.mutate();
+      }}
+    >
+      <Input value={form.payoutAccountName} onChange={setField("payoutAccountName")}
+        placeholder={t('earnings.accountName', "Account holder name")} />
+      <Input value={form.payoutAccountNumber} onChange={setField("payoutAccountNumber")}
+        placeholder={t('earnings.accountNumber', "Account number")} inputMode="numeric" />
+      <Input value={form.payoutIfsc} onChange={(e) => setForm((current) => ({ ...current, payoutIfsc: e.target.value.toUpperCase() }))}
+        placeholder={t('earnings.ifsc', "IFSC")} maxLength={11} />
+      <Button type="submit" disabled={save.isPending}>
+        {save.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+        {t('earnings.saveBankDetails', "Save bank details")}
+      </Button>
+    </form>
+  );
+}
+
+export function OwnerEarnings() {
+  const { t } = useTranslation();
+  const { user } = useAuth();
+  const [isEditingBank, setIsEditingBank] = useState(false);
+
+  const { data: earnings, isLoading } = useQuery<OwnerEarnings>({
+    queryKey: ["/api/owner/earnings"],
+    enabled: !!user,
+  });
+
+  if (isLoading) return <Loader2 className="h-6 w-6 animate-spin" />;
+  if (!earnings) return null;
+
+  const hasBankDetails = Boolean(user?.payoutAccountNumber && user.payoutIfsc);
+
+  return (
+    <div className="space-y-4 mb-12">
+      <h2 className="text-2xl font-semibold">{t('earnings.title', 'Earnings')}</h2>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <Card>
+          <CardContent className="p-4">
+            <p className="text-sm text-muted-foreground">{t('earnings.onHold', 'Pending: rentals in progress')}</p>
+            <p className="text-2xl font-semibold">₹{earnings.onHold.toLocaleString()}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-4">
+            <p className="text-sm text-muted-foreground">{t('earnings.available', 'Pending: due in next payout')}</p>
+            <p className="text-2xl font-semibold">₹{earnings.available.toLocaleString()}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-4">
+            <p className="text-sm text-muted-foreground">{t('earnings.settled', 'Settled to your bank')}</p>
+            <p className="text-2xl font-semibold">₹{earnings.settled.toLocaleString()}</p>
+          </CardContent>
+        </Card>
+      </div>
+      <p className="text-sm text-muted-foreground">
+        {t('earnings.commissionNote', 'Amounts are after the {{percent}}% platform commission. Kept deposits are paid in full.', {
+          percent: earnings.commissionPercent,
+        })}
+      </p>
+
+      <Card>
+        <CardContent className="p-4 space-y-2">
+          <div className="flex justify-between items-center">
+            <p className="font-medium">
+              {hasBankDetails
+                ? t('earnings.bankOnFile', 'Payouts go to {{name}}, account ending {{last4}} ({{ifsc}})', {
+                    name: user?.payoutAccountName,
+                    last4: user?.payoutAccountNumber?.slice(-4),
+                    ifsc: user?.payoutIfsc,
+                  })
+                : t('earnings.noBank', 'Add your bank details to receive payouts')}
+            </p>
+            {hasBankDetails && (
+              <Button variant="outline" size="sm" onClick={() => setIsEditingBank(!isEditingBank)}>
+                {t('dashboard.actions.edit')}
+              </Button>
+            )}
+          </div>
+          {(!hasBankDetails || isEditingBank) && <PayoutDetailsForm onSaved={() => setIsEditingBank(false)} />}
+        </CardContent>
+      </Card>
+
+      {earnings.entries.length > 0 && (
+        <Card>
+          <CardContent className="p-4">
+            <p className="font-medium mb-2">{t('earnings.activity', 'Recent activity')}</p>
+            <ul className="text-sm space-y-1">
+              {earnings.entries.map((entry) => (
+                <li key={entry.id} className="flex justify-between gap-4">
+                  <span className="text-muted-foreground">
+                    {format(new Date(entry.createdAt), "PP")} · {t(`earnings.kind.${entry.kind}`, kindLabels[entry.kind] ?? entry.kind)}
+                    {entry.bookingId && ` · ${t('booking.number', { id: entry.bookingId })}`}
+                    {entry.payoutBatchId && entry.kind !== 'payout' && ` · ${t('earnings.paidOut', 'paid out')}`}
+                  </span>
+                  <span>{formatOwed(entry.amount)}</span>
+                </li>
+              ))}
+            </ul>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
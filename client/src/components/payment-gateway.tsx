@@ -2,14 +2,29 @@ import { useState, useEffect } from 'react';
 import { useTranslation } from "react-i18next";
 import { useToast } from "@/hooks/use-toast";
 import { useLocation } from "wouter";
-import { Loader2 } from "lucide-react";
+import { Clock, Loader2 } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useQuery } from "@tanstack/react-query";
 import { queryClient } from "@/lib/queryClient";
 
+interface PaymentProviderConfig {
+  provider: 'razorpay' | 'sandbox';
+  keyId: string;
+}
+
 interface PaymentGatewayProps {
-  bookingId: number;
+  // Pays either one booking or, with checkoutOrderId, every booking in a cart checkout.
+  // With extensionId it pays for added time on bookingId instead, and with
+  // lateFeeId the fee for returning it late.
+  bookingId?: number;
+  checkoutOrderId?: number;
+  extensionId?: number;
+  lateFeeId?: number;
   totalPrice: number;
-  razorpayOrderId: string;
+  razorpayOrderId?: string | null;
+  // When the server releases the booking's dates if it is still unpaid
+  holdExpiresAt?: string | Date | null;
   userData: {
     name?: string;
     email?: string;
@@ -20,10 +35,40 @@ interface PaymentGatewayProps {
   showButton?: boolean;
 }
 
+// Milliseconds left on a booking hold, updated every second. Null when the
+// booking has no hold.
+function useHoldCountdown(holdExpiresAt?: string | Date | null) {
+  const expiresAt = holdExpiresAt ? new Date(holdExpiresAt).getTime() : null;
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (expiresAt === null || expiresAt <= Date.now()) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [expiresAt]);
+
+  return expiresAt === null ? null : Math.max(0, expiresAt - now);
+}
+
+function formatRemaining(ms: number) {
+  const totalSeconds = Math.ceil(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor(totalSeconds / 60) % 60;
+  const seconds = totalSeconds % 60;
+  const rest = seconds.toString().padStart(2, '0');
+  return hours > 0
+    ? `${hours}:${minutes.toString().padStart(2, '0')}:${rest}`
+    : `${minutes}:${rest}`;
+}
+
 export function PaymentGateway({
   bookingId,
+  checkoutOrderId,
+  extensionId,
+  lateFeeId,
   totalPrice,
   razorpayOrderId,
+  holdExpiresAt,
   userData,
   onSuccess,
   onError,
@@ -33,9 +78,57 @@ export function PaymentGateway({
   const { toast } = useToast();
   const [isLoadingPayment, setIsLoadingPayment] = useState(false);
   const [isScriptLoaded, setIsScriptLoaded] = useState(false);
+  const [sandboxOrderId, setSandboxOrderId] = useState<string | null>(null);
   const [, setLocation] = useLocation();
 
+  const { data: providerConfig } = useQuery<PaymentProviderConfig>({
+    queryKey: ['/api/payments/config'],
+  });
+  const isSandbox = providerConfig?.provider === 'sandbox';
+
+  const target = checkoutOrderId
+    ? {
+        configUrl: `/api/checkout/${checkoutOrderId}/payment-config`,
+        verifyUrl: '/api/checkout/verify-payment',
+        ids: { checkoutOrderId },
+        queryKey: `/api/checkout/${checkoutOrderId}`,
+      }
+    : extensionId
+    ? {
+        configUrl: `/api/bookings/${bookingId}/extensions/${extensionId}/payment-config`,
+        verifyUrl: '/api/bookings/extensions/verify-payment',
+        ids: { extensionId },
+        queryKey: `/api/bookings/${bookingId}`,
+      }
+    : lateFeeId
+    ? {
+        configUrl: `/api/bookings/${bookingId}/late-fee/payment-config`,
+        verifyUrl: '/api/bookings/late-fees/verify-payment',
+        ids: { lateFeeId },
+        queryKey: '/api/late-fees',
+      }
+    : {
+        configUrl: `/api/bookings/${bookingId}/payment-config`,
+        verifyUrl: '/api/bookings/verify-payment',
+        ids: { bookingId },
+        queryKey: `/api/bookings/${bookingId}`,
+      };
+
+  const holdRemaining = useHoldCountdown(holdExpiresAt);
+  const isHoldExpired = holdRemaining === 0;
+
   useEffect(() => {
+    // Pick up the 'expired' status once the server has released the dates
+    if (isHoldExpired) {
+      queryClient.invalidateQueries({ queryKey: ['/api/bookings'] });
+      queryClient.invalidateQueries({ queryKey: [target.queryKey] });
+    }
+  }, [isHoldExpired, target.queryKey]);
+
+  useEffect(() => {
+    // The sandbox checkout runs entirely against our own server
+    if (!providerConfig || isSandbox) return;
+
     const loadScript = async () => {
       try {
         console.log('Attempting to load Razorpay script...');
@@ -74,12 +167,103 @@ export function PaymentGateway({
     };
 
     loadScript();
-  }, [toast, t]);
+  }, [toast, t, providerConfig, isSandbox]);
+
+  // Confirm a completed checkout with the server, regardless of provider
+  const completePayment = async (response: RazorpayResponse) => {
+    try {
+      const result = await fetch(target.verifyUrl, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          ...target.ids,
+          razorpay_order_id: response.razorpay_order_id,
+          razorpay_payment_id: response.razorpay_payment_id,
+          razorpay_signature: response.razorpay_signature
+        }),
+        credentials: "include",
+      });
+
+      const data = await result.json();
+      if (!result.ok) {
+        throw new Error(data.error || 'Payment verification failed');
+      }
+
+      // Invalidate all relevant queries to ensure fresh data
+      await Promise.all([
+        queryClient.invalidateQueries({ queryKey: ['/api/equipment'] }),
+        queryClient.invalidateQueries({ queryKey: ['/api/bookings'] }),
+        queryClient.invalidateQueries({ queryKey: [target.queryKey] }),
+        ...(extensionId ? [queryClient.invalidateQueries({ queryKey: [`/api/bookings/${bookingId}/extensions`] })] : [])
+      ]);
+
+      toast({
+        title: t('payment.success', "Payment Successful"),
+        description: (checkoutOrderId || extensionId || lateFeeId) && data.message
+          ? data.message
+          : t('payment.confirmed', "Your booking has been confirmed."),
+      });
+
+      onSuccess?.();
+      // A checkout's own page lists each booking it paid for; an extension
+      // or late fee leaves the renter where they paid it
+      if (checkoutOrderId) {
+        setLocation(`/checkout/${checkoutOrderId}`);
+      } else if (!extensionId && !lateFeeId) {
+        setLocation('/dashboard');
+      }
+    } catch (error) {
+      console.error('Payment verification error:', error);
+      onError?.(error as Error);
+      toast({
+        title: t('payment.failed', "Payment Failed"),
+        description: error instanceof Error ? error.message : t('payment.verificationError', "Please try again or contact support."),
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoadingPayment(false);
+    }
+  };
+
+  const handleSandboxCheckout = async (outcome: 'success' | 'failure') => {
+    if (!sandboxOrderId) return;
+
+    const orderId = sandboxOrderId;
+    setSandboxOrderId(null);
+    setIsLoadingPayment(true);
+
+    try {
+      const response = await fetch('/api/payments/sandbox/checkout', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ orderId, outcome }),
+        credentials: "include",
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Sandbox payment failed');
+      }
+
+      await completePayment(data as RazorpayResponse);
+    } catch (error) {
+      console.error('Sandbox payment failed:', error);
+      setIsLoadingPayment(false);
+      onError?.(error as Error);
+      toast({
+        title: t('payment.failed', "Payment Failed"),
+        description: error instanceof Error ? error.message : t('payment.generic', "Failed to initiate payment"),
+        variant: "destructive",
+      });
+    }
+  };
 
   const handlePayment = async () => {
     console.log('Payment initialization started');
 
-    if (!razorpayOrderId) {
+    if (!razorpayOrderId && !checkoutOrderId && !extensionId && !lateFeeId) {
       console.error('Missing razorpayOrderId');
       toast({
         title: t('payment.error', "Error"),
@@ -89,7 +273,7 @@ export function PaymentGateway({
       return;
     }
 
-    if (!isScriptLoaded || !window.Razorpay) {
+    if (!isSandbox && (!isScriptLoaded || !window.Razorpay)) {
       console.error('Razorpay not ready', { isScriptLoaded, hasRazorpay: Boolean(window.Razorpay) });
       toast({
         title: t('payment.error', "Error"),
@@ -103,17 +287,24 @@ export function PaymentGateway({
 
     try {
       // Fetch the payment configuration from the server
-      const response = await fetch(`/api/bookings/${bookingId}/payment-config`, {
+      const response = await fetch(target.configUrl, {
         credentials: "include"
       });
 
       if (!response.ok) {
-        throw new Error('Failed to get payment configuration');
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || 'Failed to get payment configuration');
       }
 
       const config = await response.json();
       console.log('Received payment configuration:', { ...config, keyId: '***' });
 
+      if (config.provider === 'sandbox') {
+        setIsLoadingPayment(false);
+        setSandboxOrderId(config.id);
+        return;
+      }
+
       const options: RazorpayOptions = {
         key: config.keyId,
         amount: config.amount,
@@ -137,51 +328,7 @@ export function PaymentGateway({
         },
         handler: async function(response: RazorpayResponse) {
           console.log('Payment success handler called', response);
-          try {
-            const result = await fetch('/api/bookings/verify-payment', {
-              method: 'POST',
-              headers: {
-                'Content-Type': 'application/json',
-              },
-              body: JSON.stringify({
-                bookingId,
-                razorpay_order_id: response.razorpay_order_id,
-                razorpay_payment_id: response.razorpay_payment_id,
-                razorpay_signature: response.razorpay_signature
-              }),
-              credentials: "include",
-            });
-
-            if (!result.ok) {
-              const errorData = await result.json();
-              throw new Error(errorData.error || 'Payment verification failed');
-            }
-
-            // Invalidate all relevant queries to ensure fresh data
-            await Promise.all([
-              queryClient.invalidateQueries({ queryKey: ['/api/equipment'] }),
-              queryClient.invalidateQueries({ queryKey: ['/api/bookings'] }),
-              queryClient.invalidateQueries({ queryKey: [`/api/bookings/${bookingId}`] })
-            ]);
-
-            toast({
-              title: t('payment.success', "Payment Successful"),
-              description: t('payment.confirmed', "Your booking has been confirmed."),
-            });
-
-            onSuccess?.();
-            setLocation('/dashboard'); // Redirect to dashboard after successful payment
-          } catch (error) {
-            console.error('Payment verification error:', error);
-            onError?.(error as Error);
-            toast({
-              title: t('payment.failed', "Payment Failed"),
-              description: error instanceof Error ? error.message : t('payment.verificationError', "Please try again or contact support."),
-              variant: "destructive",
-            });
-          } finally {
-            setIsLoadingPayment(false);
-          }
+          await completePayment(response);
         }
       };
 
@@ -221,14 +368,46 @@ export function PaymentGateway({
     );
   }
 
-  return showButton ? (
-    <Button
-      variant="outline"
-      className="mt-2 w-full"
-      onClick={handlePayment}
-      disabled={!isScriptLoaded || isLoadingPayment}
-    >
-      {t('payment.payNow', 'Pay Now')}
-    </Button>
-  ) : null;
+  return (
+    <>
+      {holdRemaining !== null && (
+        <p className={`mt-2 flex items-center gap-1 text-sm ${holdRemaining < 2 * 60 * 1000 ? 'text-destructive' : 'text-muted-foreground'}`}>
+          <Clock className="h-4 w-4" />
+          {isHoldExpired
+            ? t('payment.holdExpired', 'Your hold on these dates has expired. Please book again.')
+            : t('payment.holdRemaining', 'Dates held for {{time}}', { time: formatRemaining(holdRemaining) })}
+        </p>
+      )}
+
+      {showButton && (
+        <Button
+          variant="outline"
+          className="mt-2 w-full"
+          onClick={handlePayment}
+          disabled={(!isSandbox && !isScriptLoaded) || isLoadingPayment || isHoldExpired}
+        >
+          {t('payment.payNow', 'Pay Now')}
+        </Button>
+      )}
+
+      <Dialog open={sandboxOrderId !== null} onOpenChange={(open) => !open && setSandboxOrderId(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{t('payment.sandboxTitle', 'Sandbox Checkout')}</DialogTitle>
+            <DialogDescription>
+              {t('payment.sandboxDescription', 'No real money is charged. Choose how this test payment of ₹{{amount}} should end.', { amount: totalPrice })}
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => handleSandboxCheckout('failure')}>
+              {t('payment.sandboxFail', 'Simulate Failure')}
+            </Button>
+            <Button onClick={() => handleSandboxCheckout('success')}>
+              {t('payment.sandboxPay', 'Simulate Success')}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
 }
\ No newline at end of file
@@ -0,0 +1,191 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { useTranslation } from "react-i18next";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import type { OtpPurpose, RegisterWithOtp } from "@shared/schema";
+
+const CODE_LENGTH = 6;
+
+interface SentCode {
+  sentTo: string;
+  expiresAt: string;
+  resendInSeconds: number;
+}
+
+// Sign in or register with a mobile number: the number first, then the
+// code sent to it by SMS
+export function PhoneOtpForm({ purpose }: { purpose: OtpPurpose }) {
+  const { t, i18n } = useTranslation();
+  const { toast } = useToast();
+  const { phoneLoginMutation, phoneRegisterMutation } = useAuth();
+  const [phone, setPhone] = useState("");
+  const [name, setName] = useState("");
+  const [role, setRole] = useState<NonNullable<RegisterWithOtp['role']>>("renter");
+  const [sent, setSent] = useState<SentCode | null>(null);
+  const [code, setCode] = useState("");
+  const [resendIn, setResendIn] = useState(0);
+
+  useEffect(() => {
+    if (resendIn <= 0) return;
+    const timer = setTimeout(() => setResendIn(resendIn - 1), 1000);
+    return () => clearTimeout(timer);
+  }, [resendIn]);
+
+  const sendCode = useMutation({
+    mutationFn: async () => {
+      const response = await fetch("/api/otp/request", {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: "include",
+        body: JSON.stringify({ phone, purpose }),
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        if (result.retryAfterSeconds) setResendIn(result.retryAfterSeconds);
+        throw new Error(result.error || t('auth.otp.sendFailed', "Failed to send the code"));
+      }
+      return result as SentCode;
+    },
+    onSuccess: (result) => {
+      setSent(result);
+      setCode("");
+      setResendIn(result.resendInSeconds);
+      toast({
+        title: t('auth.otp.sent', "Code sent"),
+        description: t('auth.otp.sentTo', "We sent a code to {{phone}}", { phone: result.sentTo }),
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: t('common.error', "Error"),
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const verifying = phoneLoginMutation.isPending || phoneRegisterMutation.isPending;
+
+  const verify = () => {
+    if (purpose === 'login') {
+      phoneLoginMutation.mutate({ phone, code });
+    } else {
+      phoneRegisterMutation.mutate({ phone, code, name, role, language: i18n.language });
+    }
+  };
+
+  if (!sent) {
+    return (
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          sendCode.mutate();
+        }}
+        className="space-y-4 mt-4"
+      >
+        <div className="space-y-2">
+          <Label htmlFor={`${purpose}-phone`}>{t('auth.otp.phone', 'Mobile number')}</Label>
+          <div className="flex items-center gap-2">
+            <span className="text-sm text-muted-foreground">+91</span>
+            <Input
+              id={`${purpose}-phone`}
+              type="tel"
+              inputMode="numeric"
+              autoComplete="tel-national"
+              maxLength={14}
+              value={phone}
+              onChange={(e) => setPhone(e.target.value)}
+            />
+          </div>
+        </div>
+        {purpose === 'register' && (
+          <>
+            <div className="space-y-2">
+              <Label htmlFor="phone-register-name">{t('auth.fullName', 'Full Name')}</Label>
+              <Input
+                id="phone-register-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="phone-register-role">{t('auth.role', 'I want to')}</Label>
+              <Select value={role} onValueChange={(value) => setRole(value as typeof role)}>
+                <SelectTrigger id="phone-register-role">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="renter">{t('roles.renterDesc', 'Rent equipment')}</SelectItem>
+                  <SelectItem value="owner">{t('roles.ownerDesc', 'Rent and list my own equipment')}</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </>
+        )}
+        <Button
+          type="submit"
+          className="w-full"
+          disabled={!phone.trim() || (purpose === 'register' && !name.trim()) || resendIn > 0 || sendCode.isPending}
+        >
+          {sendCode.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          {resendIn > 0
+            ? t('auth.otp.waitToSend', 'Send code in {{seconds}}s', { seconds: resendIn })
+            : t('auth.otp.send', 'Send code')}
+        </Button>
+      </form>
+    );
+  }
+
+  return (
+    <form
+      onSubmit={(e) => {
+        e.preventDefault();
+        verify();
+      }}
+      className="space-y-4 mt-4"
+    >
+      <p className="text-sm text-muted-foreground">
+        {t('auth.otp.enterCode', 'Enter the 6-digit code sent to {{phone}}', { phone: sent.sentTo })}
+      </p>
+      <div className="flex justify-center">
+        <InputOTP maxLength={CODE_LENGTH} value={code} onChange={setCode} inputMode="numeric" autoFocus>
+          <InputOTPGroup>
+            {Array.from({ length: CODE_LENGTH }, (_, index) => (
+              <InputOTPSlot key={index} index={index} />
+            ))}
+          </InputOTPGroup>
+        </InputOTP>
+      </div>
+      <Button type="submit" className="w-full" disabled={code.length !== CODE_LENGTH || verifying}>
+        {verifying && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+        {purpose === 'login'
+          ? t('auth.loginButton', 'Sign In')
+          : t('auth.registerButton', 'Create Account')}
+      </Button>
+      <div className="flex justify-between">
+        <Button type="button" variant="link" className="px-0" onClick={() => setSent(null)}>
+          {t('auth.otp.changeNumber', 'Change number')}
+        </Button>
+        <Button
+          type="button"
+          variant="link"
+          className="px-0"
+          disabled={resendIn > 0 || sendCode.isPending}
+          onClick={() => sendCode.mutate()}
+        >
+          {resendIn > 0
+            ? t('auth.otp.resendIn', 'Resend code in {{seconds}}s', { seconds: resendIn })
+            : t('auth.otp.resend', 'Resend code')}
+        </Button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,71 @@
+import { useTranslation } from "react-i18next";
+import type { Quote, RateUnit } from "@shared/pricing";
+
+const rateUnitLabels: Record<RateUnit, string> = {
+  hour: "Hours",
+  half_day: "Half days",
+  day: "Days",
+  week: "Weeks",
+};
+
+interface PriceBreakdownProps {
+  quote: Quote;
+  // Refundable deposit collected in the same payment
+  depositAmount?: number | null;
+}
+
+// Itemised quote: the base rates, each pricing rule that applied, then the total
+export function PriceBreakdown({ quote, depositAmount }: PriceBreakdownProps) {
+  const { t, i18n } = useTranslation();
+
+  const formatCurrency = (amount: number) =>
+    new Intl.NumberFormat(i18n.language, {
+      style: "currency",
+      currency: "INR",
+      minimumFractionDigits: 0,
+      maximumFractionDigits: 0,
+    }).format(amount);
+
+  return (
+    <div className="space-y-1 text-sm">
+      {quote.base.lines.map((line) => (
+        <div key={line.unit} className="flex justify-between items-center">
+          <span>
+            {line.quantity} × {t(`pricing.unit.${line.unit}`, rateUnitLabels[line.unit])} @ {formatCurrency(line.rate)}
+          </span>
+          <span>{formatCurrency(line.amount)}</span>
+        </div>
+      ))}
+      {quote.adjustments.map((adjustment) => (
+        <div
+          key={adjustment.ruleId}
+          className={`flex justify-between items-center ${adjustment.amount < 0 ? "text-green-600" : "text-amber-700"}`}
+        >
+          <span>
+            {adjustment.name} ({adjustment.percent > 0 ? "+" : ""}{adjustment.percent}%
+            {adjustment.kind !== 'duration' && `, ${t('pricing.days', '{{count}} days', { count: adjustment.days })}`})
+          </span>
+          <span>
+            {adjustment.amount > 0 ? "+" : ""}{formatCurrency(adjustment.amount)}
+          </span>
+        </div>
+      ))}
+      <div className="flex justify-between items-center border-t pt-2 font-semibold">
+        <span>{t("booking.totalPrice")}:</span>
+        <span>{formatCurrency(quote.total)}</span>
+      </div>
+      {!!depositAmount && (
+        <>
+          <div className="flex justify-between items-center text-muted-foreground">
+            <span>{t("deposit.refundable", "Refundable deposit")}</span>
+            <span>{formatCurrency(depositAmount)}</span>
+          </div>
+          <div className="flex justify-between items-center font-semibold">
+            <span>{t("deposit.dueNow", "Due now")}:</span>
+            <span>{formatCurrency(quote.total + depositAmount)}</span>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
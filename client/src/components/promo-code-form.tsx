@@ -0,0 +1,116 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { useTranslation } from "react-i18next";
+import { Loader2, TicketPercent, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+
+interface PromoCodeFormProps {
+  bookingId: number;
+  // Code currently on the booking, if any
+  appliedCode?: string | null;
+  discountAmount?: number;
+}
+
+export function PromoCodeForm({ bookingId, appliedCode, discountAmount = 0 }: PromoCodeFormProps) {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const [code, setCode] = useState("");
+
+  const onChanged = () => {
+    queryClient.invalidateQueries({ queryKey: [`/api/bookings/${bookingId}`] });
+  };
+
+  const onError = (error: Error) => {
+    toast({
+      title: t('common.error', "Error"),
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const applyCode = useMutation({
+    mutationFn: async () => {
+      const response = await fetch(`/api/bookings/${bookingId}/promo`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ code }),
+        credentials: "include",
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || t('promo.applyFailed', "Failed to apply code"));
+      }
+      return result;
+    },
+    onSuccess: () => {
+      setCode("");
+      onChanged();
+      toast({
+        title: t('common.success', "Success"),
+        description: t('promo.applied', "Code applied"),
+      });
+    },
+    onError,
+  });
+
+  const removeCode = useMutation({
+    mutationFn: async () => {
+      const response = await fetch(`/api/bookings/${bookingId}/promo`, {
+        method: 'DELETE',
+        credentials: "include",
+      });
+
+      if (!response.ok) {
+        const result = await response.json();
+        throw new Error(result.error || t('promo.removeFailed', "Failed to remove code"));
+      }
+    },
+    onSuccess: onChanged,
+    onError,
+  });
+
+  if (appliedCode) {
+    return (
+      <div className="mt-4 flex items-center justify-between rounded-md border border-green-200 bg-green-50 px-3 py-2 text-sm">
+        <span className="flex items-center gap-2 text-green-700">
+          <TicketPercent className="h-4 w-4" />
+          {t('promo.appliedSummary', '{{code}} saves you ₹{{amount}}', { code: appliedCode, amount: discountAmount.toLocaleString() })}
+        </span>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => removeCode.mutate()}
+          disabled={removeCode.isPending}
+          aria-label={t('promo.remove', "Remove code")}
+        >
+          {removeCode.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <X className="h-4 w-4" />}
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <form
+      className="mt-4 flex gap-2"
+      onSubmit={(e) => {
+        e.preventDefault();
+        if (code.trim()) applyCode.mutate();
+      }}
+    >
+      <Input
+        value={code}
+        onChange={(e) => setCode(e.target.value.toUpperCase())}
+        placeholder={t('promo.placeholder', "Promo code")}
+        aria-label={t('promo.placeholder', "Promo code")}
+      />
+      <Button type="submit" variant="outline" disabled={!code.trim() || applyCode.isPending}>
+        {applyCode.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+        {t('promo.apply', "Apply")}
+      </Button>
+    </form>
+  );
+}
@@ -1,45 +1,94 @@
 import * as React from "react";
 import { Calendar } from "@/components/ui/calendar";
 import { cn } from "@/lib/utils";
-import { addDays, format, isValid, parseISO, startOfToday, isBefore, isAfter } from "date-fns";
+import { addDays, addHours, format, isValid, parseISO, startOfToday, isBefore, isAfter } from "date-fns";
 import { useQuery } from "@tanstack/react-query";
 import { Loader2, AlertCircle } from "lucide-react";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { DateRange } from "react-day-picker";
 import { useTranslation } from "react-i18next";
+import type { RentalUnit } from "@shared/schema";
 
 interface CalendarHeatmapProps {
   equipmentId: number;
   startDate?: Date;
   endDate?: Date;
   onSelect: (startDate: Date | undefined, endDate: Date | undefined) => void;
+  // Offer an hours mode; only for equipment with an hourly rate
+  allowHourly?: boolean;
+  rentalUnit?: RentalUnit;
+  onRentalUnitChange?: (unit: RentalUnit) => void;
   className?: string;
 }
 
+type DayStatus = 'free' | 'partial' | 'booked' | 'blocked';
+
+interface BookedSlot {
+  startDate: string;
+  endDate: string;
+}
+
+interface BlockedRange {
+  startDate: string;
+  endDate: string;
+  reason: string;
+}
+
 interface AvailabilityResponse {
   available: boolean;
+  listingActive: boolean;
   startDate: string;
   endDate: string;
+  days: { date: string; status: DayStatus }[];
+  blackouts: BlockedRange[];
+  bookedSlots: BookedSlot[];
   message?: string;
 }
 
+const blackoutReasonLabels: Record<string, string> = {
+  maintenance: "Maintenance",
+  personal_use: "Personal use",
+  in_repair: "In repair",
+};
+
+// Blackouts cover whole days, so only the date part of each end matters
+function formatBlockedRange({ startDate, endDate }: BlockedRange) {
+  const start = format(parseISO(startDate.slice(0, 10)), "PP");
+  const end = format(parseISO(endDate.slice(0, 10)), "PP");
+  return start === end ? start : `${start} – ${end}`;
+}
+
 interface AvailabilityData {
   available: boolean;
+  listingActive: boolean;
   startDate: Date;
   endDate: Date;
+  // Keyed by yyyy-MM-dd
+  days: Map<string, DayStatus>;
+  blackouts: BlockedRange[];
+  bookedSlots: { start: Date; end: Date }[];
   message?: string;
 }
 
+const HOURS_IN_DAY = Array.from({ length: 24 }, (_, hour) => hour);
+
 export function CalendarHeatmap({
   equipmentId,
   startDate,
   endDate,
   onSelect,
+  allowHourly = false,
+  rentalUnit = 'day',
+  onRentalUnitChange,
   className,
 }: CalendarHeatmapProps) {
   const { t } = useTranslation();
   const [isChecking, setIsChecking] = React.useState(false);
+  const [slotDay, setSlotDay] = React.useState<Date | undefined>();
+  const [slotStartHour, setSlotStartHour] = React.useState<number | undefined>();
+  const hourly = allowHourly && rentalUnit === 'hour';
   const today = startOfToday();
   const initialEndDate = addDays(today, 90);
 
@@ -91,8 +140,15 @@ export function CalendarHeatmap({
 
         const parsedData = {
           available: data.available,
+          listingActive: data.listingActive,
           startDate: parsedStartDate,
           endDate: parsedEndDate,
+          days: new Map((data.days ?? []).map((day) => [day.date, day.status])),
+          blackouts: data.blackouts ?? [],
+          bookedSlots: (data.bookedSlots ?? []).map((slot) => ({
+            start: parseISO(slot.startDate),
+            end: parseISO(slot.endDate),
+          })),
           message: data.message
         };
 
@@ -109,6 +165,11 @@ export function CalendarHeatmap({
     retryDelay: 1000
   });
 
+  const getDayStatus = React.useCallback((date: Date): DayStatus | undefined => {
+    if (!isValid(date) || !availability) return undefined;
+    return availability.days.get(format(date, "yyyy-MM-dd"));
+  }, [availability]);
+
   const isDateAvailable = React.useCallback((date: Date): boolean => {
     if (!isValid(date) || !availability) return false;
 
@@ -116,8 +177,50 @@ export function CalendarHeatmap({
                          !isAfter(date, availability.endDate);
     const isNotPastDate = !isBefore(date, today);
 
-    return isWithinRange && isNotPastDate && availability.available;
-  }, [availability, today]);
+    const status = getDayStatus(date);
+    // Partly booked days still have hours to rent, but not a whole day
+    return isWithinRange && isNotPastDate && (status === 'free' || (hourly && status === 'partial'));
+  }, [availability, today, getDayStatus, hourly]);
+
+  const isHourFree = React.useCallback((start: Date): boolean => {
+    if (!availability || isBefore(start, new Date())) return false;
+    const end = addHours(start, 1);
+    return !availability.bookedSlots.some((slot) => slot.start < end && slot.end > start);
+  }, [availability]);
+
+  // Durations on offer run until the next booked or past hour of the day
+  const slotDurations = React.useMemo(() => {
+    if (!slotDay || slotStartHour === undefined) return [];
+    const durations: number[] = [];
+    for (let hour = slotStartHour; hour < 24 && isHourFree(addHours(slotDay, hour)); hour++) {
+      durations.push(hour - slotStartHour + 1);
+    }
+    return durations;
+  }, [slotDay, slotStartHour, isHourFree]);
+
+  const changeRentalUnit = (unit: RentalUnit) => {
+    setSlotDay(undefined);
+    setSlotStartHour(undefined);
+    onSelect(undefined, undefined);
+    onRentalUnitChange?.(unit);
+  };
+
+  const handleDaySelect = React.useCallback((day: Date | undefined) => {
+    setSlotDay(day && isDateAvailable(day) ? day : undefined);
+    setSlotStartHour(undefined);
+    onSelect(undefined, undefined);
+  }, [onSelect, isDateAvailable]);
+
+  const handleStartHourChange = (value: string) => {
+    setSlotStartHour(Number(value));
+    onSelect(undefined, undefined);
+  };
+
+  const handleDurationChange = (value: string) => {
+    if (!slotDay || slotStartHour === undefined) return;
+    const start = addHours(slotDay, slotStartHour);
+    onSelect(start, addHours(start, Number(value)));
+  };
 
   const handleSelect = React.useCallback((range: DateRange | undefined) => {
     if (!range) {
@@ -185,52 +288,138 @@ export function CalendarHeatmap({
     );
   }
 
-  const handleDateChange = (range: DateRange | undefined) => {
-    if (!range) {
-      onSelect(undefined, undefined);
-      return;
-    }
-
-    const { from, to } = range;
-    onSelect(from ?? undefined, to ?? undefined);
-  };
-
   return (
     <div className="space-y-4">
-      <Calendar
-        mode="range"
-        selected={selectedDateRange}
-        onSelect={handleDateChange}
-        className={cn("rounded-md border", className)}
-        disabled={(date) => isBefore(date, today) || !isDateAvailable(date)}
-        modifiersStyles={{
-          selected: {
-            backgroundColor: "rgb(34 197 94 / 0.2)",
-            color: "rgb(34 197 94)",
-            fontWeight: "bold",
-            cursor: "pointer"
-          },
-          today: {
-            backgroundColor: "rgb(34 197 94 / 0.1)",
-            color: "rgb(34 197 94)",
-          },
-          disabled: {
-            backgroundColor: "rgb(244 244 245)",
-            color: "rgb(161 161 170)",
-            cursor: "not-allowed"
-          }
-        }}
-        fromDate={today}
-        toDate={initialEndDate}
-      />
+      {allowHourly && (
+        <div className="grid grid-cols-2 gap-2">
+          <Button
+            type="button"
+            variant={hourly ? "outline" : "default"}
+            size="sm"
+            onClick={() => changeRentalUnit('day')}
+          >
+            {t('calendar.byDay', 'By the day')}
+          </Button>
+          <Button
+            type="button"
+            variant={hourly ? "default" : "outline"}
+            size="sm"
+            onClick={() => changeRentalUnit('hour')}
+          >
+            {t('calendar.byHour', 'By the hour')}
+          </Button>
+        </div>
+      )}
+      {hourly ? (
+        <Calendar
+          mode="single"
+          selected={slotDay}
+          onSelect={handleDaySelect}
+          className={cn("rounded-md border", className)}
+          disabled={(date) => isBefore(date, today) || !isDateAvailable(date)}
+          modifiers={{
+            booked: (date) => getDayStatus(date) === 'booked',
+            blocked: (date) => getDayStatus(date) === 'blocked',
+            partial: (date) => getDayStatus(date) === 'partial',
+          }}
+          modifiersClassNames={{
+            booked: "!bg-red-100 !text-red-700",
+            blocked: "!bg-zinc-200 !text-zinc-500 line-through",
+            partial: "!bg-amber-100 !text-amber-700",
+          }}
+          fromDate={today}
+          toDate={initialEndDate}
+        />
+      ) : (
+        <Calendar
+          mode="range"
+          selected={selectedDateRange}
+          onSelect={handleSelect}
+          className={cn("rounded-md border", className)}
+          disabled={(date) => isBefore(date, today) || !isDateAvailable(date)}
+          modifiers={{
+            booked: (date) => getDayStatus(date) === 'booked',
+            blocked: (date) => getDayStatus(date) === 'blocked',
+            partial: (date) => getDayStatus(date) === 'partial',
+          }}
+          modifiersStyles={{
+            selected: {
+              backgroundColor: "rgb(34 197 94 / 0.2)",
+              color: "rgb(34 197 94)",
+              fontWeight: "bold",
+              cursor: "pointer"
+            },
+            today: {
+              backgroundColor: "rgb(34 197 94 / 0.1)",
+              color: "rgb(34 197 94)",
+            },
+            disabled: {
+              backgroundColor: "rgb(244 244 245)",
+              color: "rgb(161 161 170)",
+              cursor: "not-allowed"
+            }
+          }}
+          // Important so they win over the generic disabled style
+          modifiersClassNames={{
+            booked: "!bg-red-100 !text-red-700",
+            blocked: "!bg-zinc-200 !text-zinc-500 line-through",
+            partial: "!bg-amber-100 !text-amber-700",
+          }}
+          fromDate={today}
+          toDate={initialEndDate}
+        />
+      )}
+      {hourly && slotDay && (
+        <div className="grid grid-cols-2 gap-2">
+          <Select
+            value={slotStartHour === undefined ? "" : String(slotStartHour)}
+            onValueChange={handleStartHourChange}
+          >
+            <SelectTrigger aria-label={t('calendar.startTime', 'Start time')}>
+              <SelectValue placeholder={t('calendar.startTime', 'Start time')} />
+            </SelectTrigger>
+            <SelectContent>
+              {HOURS_IN_DAY.filter((hour) => isHourFree(addHours(slotDay, hour))).map((hour) => (
+                <SelectItem key={hour} value={String(hour)}>
+                  {format(addHours(slotDay, hour), "p")}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select
+            key={slotStartHour}
+            onValueChange={handleDurationChange}
+            disabled={slotDurations.length === 0}
+          >
+            <SelectTrigger aria-label={t('calendar.duration', 'Duration')}>
+              <SelectValue placeholder={t('calendar.duration', 'Duration')} />
+            </SelectTrigger>
+            <SelectContent>
+              {slotDurations.map((hours) => (
+                <SelectItem key={hours} value={String(hours)}>
+                  {t('calendar.hours', '{{count}} h', { count: hours })}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
       <div className="flex gap-2 text-sm text-muted-foreground justify-center">
         <div className="flex items-center">
           <div className="mr-1 h-3 w-3 rounded-sm bg-green-100" />
           <span>{t('calendar.available')}</span>
         </div>
         <div className="flex items-center">
-          <div className="mr-1 h-3 w-3 rounded-sm bg-gray-100" />
-          <span>{t('calendar.unavailable')}</span>
+          <div className="mr-1 h-3 w-3 rounded-sm bg-red-100" />
+          <span>{t('calendar.booked', 'Booked')}</span>
+        </div>
+        <div className="flex items-center">
+          <div className="mr-1 h-3 w-3 rounded-sm bg-amber-100" />
+          <span>{t('calendar.partial', 'Partly booked')}</span>
+        </div>
+        <div className="flex items-center">
+          <div className="mr-1 h-3 w-3 rounded-sm bg-zinc-200" />
+          <span>{t('calendar.blocked', 'Blocked')}</span>
         </div>
         {selectedDateRange?.from && (
           <div className="flex items-center">
@@ -239,7 +428,21 @@ export function CalendarHeatmap({
           </div>
         )}
       </div>
-      {availability?.message && (
+      {availability && availability.blackouts.length > 0 && (
+        <div className="text-sm">
+          <p className="font-medium">{t('calendar.blockedByOwner', 'Blocked by the owner')}</p>
+          <ul className="text-muted-foreground">
+            {availability.blackouts.map((blackout) => (
+              <li key={`${blackout.startDate}-${blackout.endDate}`}>
+                {formatBlockedRange(blackout)}
+                {' · '}
+                {t(`blackout.reason.${blackout.reason}`, blackoutReasonLabels[blackout.reason] ?? blackout.reason)}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+      {availability?.message && !availability.available && (
         <Alert>
           <AlertDescription>{availability.message}</AlertDescription>
         </Alert>
@@ -0,0 +1,185 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { useTranslation } from "react-i18next";
+import { Clock, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+import { formatBookingPeriod } from "@/lib/booking-period";
+import type { WaitlistEntry, WaitlistStatus } from "@shared/schema";
+
+type WaitlistEntryWithEquipment = WaitlistEntry & { equipmentName: string | null };
+
+const statusLabels: Record<WaitlistStatus, string> = {
+  waiting: "Waiting",
+  offered: "Dates held for you",
+  booked: "Booked",
+  expired: "Expired",
+  cancelled: "Left",
+};
+
+async function sendWaitlist(url: string, method: string, body: object | undefined, fallback: string) {
+  const response = await fetch(url, {
+    method,
+    headers: body ? { 'Content-Type': 'application/json' } : {},
+    body: body ? JSON.stringify(body) : undefined,
+    credentials: "include",
+  });
+
+  const result = await response.json();
+  if (!response.ok) {
+    throw new Error(result.error || fallback);
+  }
+  return result;
+}
+
+// Renter asks to be told when booked-out days on an equipment free up
+export function JoinWaitlist({ equipmentId }: { equipmentId: number }) {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const [isOpen, setIsOpen] = useState(false);
+  const [firstDay, setFirstDay] = useState("");
+  const [lastDay, setLastDay] = useState("");
+
+  const join = useMutation({
+    mutationFn: () => sendWaitlist('/api/waitlist', 'POST', {
+      equipmentId,
+      rentalUnit: 'day',
+      startDate: firstDay,
+      endDate: lastDay || firstDay,
+    }, t('waitlist.joinFailed', "Failed to join the waitlist")),
+    onSuccess: () => {
+      setIsOpen(false);
+      setFirstDay("");
+      setLastDay("");
+      queryClient.invalidateQueries({ queryKey: ['/api/waitlist'] });
+      toast({
+        title: t('common.success', "Success"),
+        description: t('waitlist.joined', "You're on the waitlist. We'll let you know if these dates free up."),
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: t('common.error', "Error"),
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!isOpen) {
+    return (
+      <Button variant="link" className="w-full mt-2" onClick={() => setIsOpen(true)}>
+        {t('waitlist.prompt', "Dates you need already booked? Join the waitlist")}
+      </Button>
+    );
+  }
+
+  return (
+    <form
+      className="mt-4 space-y-2 border rounded-md p-4"
+      onSubmit={(e) => {
+        e.preventDefault();
+        join.mutate();
+      }}
+    >
+      <p className="text-sm text-muted-foreground">
+        {t('waitlist.description', "If these days free up, they are held for you for a short while before anyone else can book them.")}
+      </p>
+      <div className="flex gap-2">
+        <label className="text-sm flex-1">
+          {t('waitlist.firstDay', "First day")}
+          <Input type="date" value={firstDay} onChange={(e) => setFirstDay(e.target.value)} className="mt-1" />
+        </label>
+        <label className="text-sm flex-1">
+          {t('waitlist.lastDay', "Last day")}
+          <Input type="date" value={lastDay} min={firstDay} onChange={(e) => setLastDay(e.target.value)} className="mt-1" />
+        </label>
+      </div>
+      <div className="flex gap-2">
+        <Button type="submit" size="sm" disabled={!firstDay || join.isPending}>
+          {join.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          {t('waitlist.join', "Join waitlist")}
+        </Button>
+        <Button type="button" size="sm" variant="ghost" onClick={() => setIsOpen(false)}>
+          {t('common.cancel', "Cancel")}
+        </Button>
+      </div>
+    </form>
+  );
+}
+
+// The renter's open waitlist entries, with offers to act on first
+export function MyWaitlist() {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+
+  const { data: entries = [] } = useQuery<WaitlistEntryWithEquipment[]>({
+    queryKey: ['/api/waitlist'],
+  });
+
+  const leave = useMutation({
+    mutationFn: (id: number) => sendWaitlist(`/api/waitlist/${id}`, 'DELETE', undefined,
+      t('waitlist.leaveFailed', "Failed to leave the waitlist")),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/waitlist'] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: t('common.error', "Error"),
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const open = entries
+    .filter((entry) => entry.status === 'waiting' || entry.status === 'offered')
+    .sort((a, b) => (a.status === 'offered' ? 0 : 1) - (b.status === 'offered' ? 0 : 1));
+  if (open.length === 0) return null;
+
+  return (
+    <div className="space-y-4 mb-12">
+      <h2 className="text-2xl font-semibold">{t('waitlist.title', 'Your waitlist')}</h2>
+      {open.map((entry) => (
+        <Card key={entry.id} className={entry.status === 'offered' ? "border-green-600" : undefined}>
+          <CardContent className="p-4 flex justify-between items-start gap-4">
+            <div>
+              <Link href={`/equipment/${entry.equipmentId}`} className="font-medium hover:underline">
+                {entry.equipmentName ?? t('waitlist.equipment', 'Equipment #{{id}}', { id: entry.equipmentId })}
+              </Link>
+              <p className="text-sm text-muted-foreground">{formatBookingPeriod(entry)}</p>
+              <p className="text-sm">{t(`waitlist.status.${entry.status}`, statusLabels[entry.status as WaitlistStatus])}</p>
+              {entry.status === 'offered' && entry.holdExpiresAt && (
+                <p className="text-sm flex items-center gap-1 text-green-700">
+                  <Clock className="h-4 w-4" />
+                  {t('waitlist.heldUntil', 'Book before {{time}}', {
+                    time: new Date(entry.holdExpiresAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }),
+                  })}
+                </p>
+              )}
+            </div>
+            <div className="flex flex-col gap-2 shrink-0">
+              {entry.status === 'offered' && (
+                <Link href={`/equipment/${entry.equipmentId}`}>
+                  <Button size="sm" className="w-full">{t('waitlist.bookNow', 'Book now')}</Button>
+                </Link>
+              )}
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => leave.mutate(entry.id)}
+                disabled={leave.isPending}
+              >
+                {t('waitlist.leave', 'Leave waitlist')}
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  );
+}
@@ -4,7 +4,7 @@ import {
   useMutation,
   UseMutationResult,
 } from "@tanstack/react-query";
-import { insertUserSchema, User as SelectUser, InsertUser, UpdateProfile } from "@shared/schema";
+import { insertUserSchema, User as SelectUser, InsertUser, UpdateProfile, VerifyOtp, RegisterWithOtp } from "@shared/schema";
 import { getQueryFn, apiRequest, queryClient } from "../lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 
@@ -15,6 +15,8 @@ type AuthContextType = {
   loginMutation: UseMutationResult<SelectUser, Error, LoginData>;
   logoutMutation: UseMutationResult<void, Error, void>;
   registerMutation: UseMutationResult<SelectUser, Error, InsertUser>;
+  phoneLoginMutation: UseMutationResult<SelectUser, Error, VerifyOtp>;
+  phoneRegisterMutation: UseMutationResult<SelectUser, Error, RegisterWithOtp>;
   updateProfileMutation: UseMutationResult<SelectUser, Error, UpdateProfile>;
 };
 
@@ -66,6 +68,41 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     },
   });
 
+  // Sign in or register with a code sent to a mobile number
+  const phoneLoginMutation = useMutation({
+    mutationFn: async (data: VerifyOtp) => {
+      const res = await apiRequest("POST", "/api/otp/login", data);
+      return await res.json();
+    },
+    onSuccess: (user: SelectUser) => {
+      queryClient.setQueryData(["/api/user"], user);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Login failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const phoneRegisterMutation = useMutation({
+    mutationFn: async (data: RegisterWithOtp) => {
+      const res = await apiRequest("POST", "/api/otp/register", data);
+      return await res.json();
+    },
+    onSuccess: (user: SelectUser) => {
+      queryClient.setQueryData(["/api/user"], user);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Registration failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   const updateProfileMutation = useMutation({
     mutationFn: async (data: UpdateProfile) => {
       const res = await apiRequest("PATCH", "/api/user/profile", data);
@@ -112,6 +149,8 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         loginMutation,
         logoutMutation,
         registerMutation,
+        phoneLoginMutation,
+        phoneRegisterMutation,
         updateProfileMutation,
       }}
     >
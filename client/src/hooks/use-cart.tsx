@@ -0,0 +1,72 @@
+import { createContext, ReactNode, useCallback, useContext, useEffect, useState } from "react";
+import { MAX_CHECKOUT_ITEMS, type RentalUnit } from "@shared/schema";
+
+// An equipment rental waiting in the cart. Dates are in the form the
+// booking API takes; the price is the quote shown when it was added and is
+// worked out again at checkout.
+export interface CartItem {
+  key: string;
+  equipmentId: number;
+  equipmentName: string;
+  rentalUnit: RentalUnit;
+  startDate: string;
+  endDate: string;
+  quotedTotal: number;
+  depositAmount: number;
+}
+
+type CartContextType = {
+  items: CartItem[];
+  addItem: (item: Omit<CartItem, "key">) => boolean;
+  removeItem: (key: string) => void;
+  clear: () => void;
+};
+
+const STORAGE_KEY = "cart";
+
+function loadCart(): CartItem[] {
+  try {
+    const saved = window.localStorage.getItem(STORAGE_KEY);
+    return saved ? JSON.parse(saved) : [];
+  } catch {
+    return [];
+  }
+}
+
+export const CartContext = createContext<CartContextType | null>(null);
+
+export function CartProvider({ children }: { children: ReactNode }) {
+  const [items, setItems] = useState<CartItem[]>(loadCart);
+
+  useEffect(() => {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(items));
+  }, [items]);
+
+  // Returns false when the cart is already full
+  const addItem = useCallback((item: Omit<CartItem, "key">) => {
+    if (items.length >= MAX_CHECKOUT_ITEMS) return false;
+    const key = `${item.equipmentId}-${item.startDate}-${item.endDate}-${Date.now()}`;
+    setItems((current) => [...current, { ...item, key }]);
+    return true;
+  }, [items.length]);
+
+  const removeItem = useCallback((key: string) => {
+    setItems((current) => current.filter((item) => item.key !== key));
+  }, []);
+
+  const clear = useCallback(() => setItems([]), []);
+
+  return (
+    <CartContext.Provider value={{ items, addItem, removeItem, clear }}>
+      {children}
+    </CartContext.Provider>
+  );
+}
+
+export function useCart() {
+  const context = useContext(CartContext);
+  if (!context) {
+    throw new Error("useCart must be used within a CartProvider");
+  }
+  return context;
+}
@@ -0,0 +1,25 @@
+import { format, parseISO } from "date-fns";
+
+interface BookingPeriod {
+  startDate: string | Date;
+  endDate: string | Date;
+  rentalUnit?: string;
+}
+
+// Day bookings run from the first day's midnight to the midnight after the
+// last day, so the last day shown is the one just before the stored end.
+// Hour bookings show their exact times.
+export function formatBookingPeriod({ startDate, endDate, rentalUnit }: BookingPeriod): string {
+  const start = new Date(startDate);
+  const end = new Date(endDate);
+
+  if (rentalUnit === 'hour') {
+    return `${format(start, "PPp")} – ${format(end, "p")}`;
+  }
+
+  const firstDay = parseISO(start.toISOString().slice(0, 10));
+  const lastDay = parseISO(new Date(end.getTime() - 1).toISOString().slice(0, 10));
+  const first = format(firstDay, "PP");
+  const last = format(lastDay, "PP");
+  return first === last ? first : `${first} – ${last}`;
+}
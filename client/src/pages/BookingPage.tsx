@@ -1,25 +1,58 @@
-import { useParams, useLocation } from "wouter";
+import { useParams, useLocation, Link } from "wouter";
 import { useQuery } from "@tanstack/react-query";
 import { useTranslation } from "react-i18next";
-import { Equipment } from "@shared/schema";
+import { Equipment, cancellableBookingStatuses } from "@shared/schema";
+import { hasPermission } from "@shared/permissions";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Loader2, Star } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { format } from 'date-fns';
 import { useAuth } from "@/hooks/use-auth";
+import { formatBookingPeriod } from "@/lib/booking-period";
 import { PaymentGateway } from "@/components/payment-gateway";
 import { ReviewForm } from "@/components/review-form";
+import { CancelBookingDialog } from "@/components/cancel-booking-dialog";
+import { PromoCodeForm } from "@/components/promo-code-form";
+import { DepositSummary } from "@/components/deposit-panel";
+import { LateFeeNotice } from "@/components/late-fee-panel";
+import { ExtendBookingPanel } from "@/components/extend-booking-panel";
+import { RequestPendingNote } from "@/components/booking-request-actions";
+import { RequestEarlyReturn } from "@/components/early-return-panel";
+import { HandoverPanel, type HandoverParty } from "@/components/handover-panel";
+import { BookingDisputes } from "@/components/dispute-panel";
 import { useState } from "react";
 
 interface BookingDetails {
   id: number;
+  userId: number;
   equipmentId: number;
   startDate: string;
   endDate: string;
+  rentalUnit?: string;
   totalPrice: number;
+  discountAmount?: number;
+  promoCode?: string | null;
+  depositAmount: number;
+  depositStatus: string | null;
+  depositWithheld: number;
+  depositClaimAmount: number | null;
+  depositClaimReason: string | null;
+  depositResolutionNote: string | null;
   status: string;
   razorpayOrderId?: string;
+  checkoutOrderId?: number | null;
+  holdExpiresAt?: string | null;
+  respondBy?: string | null;
+  returnRequestedAt?: string | null;
+  returnedAt?: string | null;
+  amountRefunded?: number;
+  refunds?: {
+    id: number;
+    amount: number;
+    status: string;
+    createdAt: string;
+  }[];
   user?: {
     name?: string;
     email?: string;
@@ -79,6 +112,9 @@ export default function BookingPage() {
     );
   }
 
+  const isRenter = booking.userId === user?.id;
+  const party: HandoverParty | null = isRenter ? 'renter' : equipment.ownerId === user?.id ? 'owner' : null;
+
   return (
     <div className="min-h-screen p-4">
       <div className="container mx-auto">
@@ -94,23 +130,65 @@ export default function BookingPage() {
               </p>
               <p>
                 <span className="font-semibold">{t('booking.dates')}:</span>{' '}
-                {format(new Date(booking.startDate), 'PP')} - {format(new Date(booking.endDate), 'PP')}
+                {formatBookingPeriod(booking)}
               </p>
               <p>
                 <span className="font-semibold">{t('booking.totalPrice')}:</span>{' '}
                 {t('common.price', { price: booking.totalPrice })}
+                {!!booking.discountAmount && (
+                  <span className="ml-2 text-sm text-muted-foreground line-through">
+                    {t('common.price', { price: booking.totalPrice + booking.discountAmount })}
+                  </span>
+                )}
               </p>
+              <DepositSummary booking={booking} />
+              <LateFeeNotice bookingId={booking.id} userData={isRenter ? booking.user || {} : undefined} />
+              {booking.checkoutOrderId && (
+                <p className="text-sm">
+                  {t('checkout.partOf', 'Paid together with the other bookings in')}{' '}
+                  <Link href={`/checkout/${booking.checkoutOrderId}`} className="underline">
+                    {t('checkout.number', 'Checkout #{{id}}', { id: booking.checkoutOrderId })}
+                  </Link>
+                </p>
+              )}
               <p>
                 <span className="font-semibold">{t('booking.status')}:</span>{' '}
                 <span className="capitalize">{t(`booking.status.${booking.status}`)}</span>
               </p>
+              {booking.refunds && booking.refunds.length > 0 && (
+                <div>
+                  <p className="font-semibold">
+                    {t('booking.refunds', 'Refunds')}:{' '}
+                    {t('common.price', { price: booking.amountRefunded ?? 0 })}
+                  </p>
+                  <ul className="text-sm text-muted-foreground">
+                    {booking.refunds.map((refund) => (
+                      <li key={refund.id}>
+                        {format(new Date(refund.createdAt), 'PP')} — ₹{refund.amount.toLocaleString()}{' '}
+                        <span className="capitalize">({t(`refund.status.${refund.status}`, refund.status)})</span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
             </div>
 
-            {booking.status === 'awaiting_payment' && booking.razorpayOrderId && (
+            <RequestPendingNote booking={booking} />
+
+            {isRenter && (booking.status === 'awaiting_payment' || booking.status === 'payment_failed') && !booking.checkoutOrderId && (
+              <PromoCodeForm
+                bookingId={booking.id}
+                appliedCode={booking.promoCode}
+                discountAmount={booking.discountAmount}
+              />
+            )}
+
+            {isRenter && booking.status === 'awaiting_payment' && booking.razorpayOrderId && (
               <PaymentGateway
                 bookingId={booking.id}
-                totalPrice={booking.totalPrice}
+                totalPrice={booking.totalPrice + booking.depositAmount}
                 razorpayOrderId={booking.razorpayOrderId}
+                holdExpiresAt={booking.holdExpiresAt}
                 userData={booking.user || {}}
                 onSuccess={() => setShowRatingDialog(true)}
                 onError={(error: Error) => {
@@ -123,7 +201,22 @@ export default function BookingPage() {
               />
             )}
 
-            {booking.status === 'paid' && (
+            {isRenter && (cancellableBookingStatuses as string[]).includes(booking.status) && (
+              <CancelBookingDialog bookingId={booking.id} />
+            )}
+
+            {party && <HandoverPanel booking={booking} party={party} />}
+
+            {(party || hasPermission(user, 'disputes:moderate')) && <BookingDisputes booking={booking} canOpen={!!party} />}
+
+            {isRenter && (
+              <>
+                <ExtendBookingPanel booking={booking} userData={booking.user || {}} />
+                <RequestEarlyReturn booking={booking} />
+              </>
+            )}
+
+            {isRenter && booking.status === 'paid' && (
               <Button
                 variant="outline"
                 className="mt-4"
@@ -1,23 +1,45 @@
 import { useAuth } from "@/hooks/use-auth";
 import { useQuery, useMutation } from "@tanstack/react-query";
-import { Booking } from "@shared/schema";
+import { Booking, PaymentEvent } from "@shared/schema";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
 import { Loader2 } from "lucide-react";
 import { format } from "date-fns";
 import { useLocation } from "wouter";
 import { useToast } from "@/hooks/use-toast";
 import { queryClient } from "@/lib/queryClient";
+import { formatBookingPeriod } from "@/lib/booking-period";
+import { AdminPromoCodes } from "@/components/admin-promo-codes";
+import { AdminPayouts } from "@/components/admin-payouts";
+import { AdminReconciliation } from "@/components/admin-reconciliation";
+import { AdminDisputes } from "@/components/dispute-panel";
+import { AdminUsers } from "@/components/admin-users";
+import { DepositSummary, DepositClaimResolution } from "@/components/deposit-panel";
 import { useTranslation } from "react-i18next";
+import { hasAnyPermission, hasPermission, staffPermissions } from "@shared/permissions";
 
 export default function AdminPage() {
   const { user } = useAuth();
   const { toast } = useToast();
   const { t } = useTranslation();
   const [, setLocation] = useLocation();
+  // Each section shows only for staff whose role covers it
+  const can = {
+    viewBookings: hasPermission(user, 'bookings:view_any'),
+    manageBookings: hasPermission(user, 'bookings:manage_any'),
+    resolveDisputes: hasPermission(user, 'disputes:resolve'),
+    moderateDisputes: hasPermission(user, 'disputes:moderate'),
+    viewPayments: hasPermission(user, 'payments:view'),
+    managePayments: hasPermission(user, 'payments:manage'),
+    managePromotions: hasPermission(user, 'promotions:manage'),
+    managePayouts: hasPermission(user, 'payouts:manage'),
+    manageUsers: hasPermission(user, 'users:manage'),
+  };
 
   const { data: bookings, isLoading } = useQuery<Booking[]>({
     queryKey: ["/api/bookings"],
+    enabled: can.viewBookings,
   });
 
   const updateBookingStatus = useMutation({
@@ -30,7 +52,7 @@ export default function AdminPage() {
 
       if (!response.ok) {
         const error = await response.json();
-        throw new Error(error.message || t('booking.updateError'));
+        throw new Error(error.error || error.message || t('booking.updateError'));
       }
 
       return response.json();
@@ -51,7 +73,43 @@ export default function AdminPage() {
     },
   });
 
-  if (!user?.isAdmin) {
+  const { data: paymentEvents } = useQuery<PaymentEvent[]>({
+    queryKey: ["/api/admin/payment-events"],
+    enabled: can.viewPayments,
+  });
+
+  const retryPaymentEvent = useMutation({
+    mutationFn: async (eventId: number) => {
+      const response = await fetch(`/api/admin/payment-events/${eventId}/retry`, {
+        method: 'POST',
+        credentials: 'include'
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || t('admin.retryError', 'Failed to retry event'));
+      }
+
+      return response.json();
+    },
+    onSuccess: (event: PaymentEvent) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/payment-events"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/bookings"] });
+      toast({
+        title: t('common.success'),
+        description: t('admin.retryResult', 'Event {{id}} is now {{status}}', { id: event.eventId, status: event.status }),
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: t('common.error'),
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!hasAnyPermission(user, staffPermissions)) {
     setLocation("/");
     return null;
   }
@@ -68,71 +126,130 @@ export default function AdminPage() {
     <div className="container mx-auto px-4 py-8">
       <h1 className="text-4xl font-bold mb-8">{t('admin.dashboard')}</h1>
 
-      <div className="space-y-6">
-        <h2 className="text-2xl font-semibold">{t('admin.allBookings')}</h2>
-        {bookings?.map((booking) => (
-          <Card key={booking.id}>
-            <CardContent className="p-6">
-              <div className="flex justify-between items-start">
-                <div>
-                  <h3 className="text-xl font-medium mb-2">
-                    {t('booking.number', { id: booking.id })}
-                  </h3>
-                  <p className="text-muted-foreground">
-                    {t('booking.userId', { id: booking.userId })}
-                  </p>
-                  <p className="text-muted-foreground">
-                    {format(new Date(booking.startDate), "PP")} - 
-                    {format(new Date(booking.endDate), "PP")}
-                  </p>
-                  <p className="text-muted-foreground mt-2">
-                    {t('booking.currentStatus')}: <span className="capitalize">{t(`booking.status.${booking.status}`)}</span>
-                  </p>
+      {can.viewBookings && (
+        <div className="space-y-6">
+          <h2 className="text-2xl font-semibold">{t('admin.allBookings')}</h2>
+          {bookings?.map((booking) => (
+            <Card key={booking.id}>
+              <CardContent className="p-6">
+                <div className="flex justify-between items-start">
+                  <div>
+                    <h3 className="text-xl font-medium mb-2">
+                      {t('booking.number', { id: booking.id })}
+                    </h3>
+                    <p className="text-muted-foreground">
+                      {t('booking.userId', { id: booking.userId })}
+                    </p>
+                    <p className="text-muted-foreground">
+                      {formatBookingPeriod(booking)}
+                    </p>
+                    <p className="text-muted-foreground mt-2">
+                      {t('booking.currentStatus')}: <span className="capitalize">{t(`booking.status.${booking.status}`)}</span>
+                    </p>
+                    <DepositSummary booking={booking} />
+                    {can.resolveDisputes && <DepositClaimResolution booking={booking} />}
+                  </div>
+                  <div className="text-right">
+                    {can.manageBookings && booking.status === 'paid' && (
+                      <div className="space-x-2">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => 
+                            updateBookingStatus.mutate({ 
+                              bookingId: booking.id, 
+                              status: 'approved' 
+                            })
+                          }
+                          disabled={updateBookingStatus.isPending}
+                        >
+                          {updateBookingStatus.isPending ? (
+                            <Loader2 className="h-4 w-4 animate-spin mr-2" />
+                          ) : null}
+                          {t('booking.approve')}
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => 
+                            updateBookingStatus.mutate({ 
+                              bookingId: booking.id, 
+                              status: 'rejected' 
+                            })
+                          }
+                          disabled={updateBookingStatus.isPending}
+                        >
+                          {updateBookingStatus.isPending ? (
+                            <Loader2 className="h-4 w-4 animate-spin mr-2" />
+                          ) : null}
+                          {t('booking.reject')}
+                        </Button>
+                      </div>
+                    )}
+                    <p className="mt-2 font-medium">
+                      {t('common.total')}: {t('common.price', { price: booking.totalPrice })}
+                    </p>
+                    {booking.discountAmount > 0 && (
+                      <p className="text-sm text-muted-foreground">
+                        {t('admin.promo.bookingDiscount', 'Promo discount')}: {t('common.price', { price: booking.discountAmount })}
+                      </p>
+                    )}
+                  </div>
                 </div>
-                <div className="text-right">
-                  <div className="space-x-2">
-                    <Button
-                      variant="outline"
-                      size="sm"
-                      onClick={() => 
-                        updateBookingStatus.mutate({ 
-                          bookingId: booking.id, 
-                          status: 'approved' 
-                        })
-                      }
-                      disabled={updateBookingStatus.isPending}
-                    >
-                      {updateBookingStatus.isPending ? (
-                        <Loader2 className="h-4 w-4 animate-spin mr-2" />
-                      ) : null}
-                      {t('booking.approve')}
-                    </Button>
-                    <Button
-                      variant="outline"
-                      size="sm"
-                      onClick={() => 
-                        updateBookingStatus.mutate({ 
-                          bookingId: booking.id, 
-                          status: 'rejected' 
-                        })
-                      }
-                      disabled={updateBookingStatus.isPending}
-                    >
-                      {updateBookingStatus.isPending ? (
-                        <Loader2 className="h-4 w-4 animate-spin mr-2" />
-                      ) : null}
-                      {t('booking.reject')}
-                    </Button>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      {can.viewPayments && (
+        <div className="space-y-4 mt-12">
+          <h2 className="text-2xl font-semibold">{t('admin.paymentEvents', 'Payment Events')}</h2>
+          {paymentEvents?.length === 0 && (
+            <p className="text-muted-foreground">{t('admin.noPaymentEvents', 'No webhook events received yet')}</p>
+          )}
+          {paymentEvents?.map((event) => (
+            <Card key={event.id}>
+              <CardContent className="p-4">
+                <div className="flex justify-between items-start gap-4">
+                  <div className="min-w-0">
+                    <p className="font-medium">
+                      {event.eventType}{' '}
+                      <span className="text-sm text-muted-foreground break-all">{event.eventId}</span>
+                    </p>
+                    <p className="text-sm text-muted-foreground">
+                      {format(new Date(event.receivedAt), "PPpp")} · {t('admin.attempts', 'Attempts')}: {event.attempts}
+                    </p>
+                    {event.outcome && <p className="text-sm mt-1">{event.outcome}</p>}
+                    {event.lastError && <p className="text-sm mt-1 text-destructive">{event.lastError}</p>}
+                  </div>
+                  <div className="flex flex-col items-end gap-2 shrink-0">
+                    <Badge variant={event.status === 'failed' ? 'destructive' : event.status === 'processed' ? 'default' : 'secondary'}>
+                      {event.status}
+                    </Badge>
+                    {can.managePayments && (event.status === 'failed' || event.status === 'ignored') && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => retryPaymentEvent.mutate(event.id)}
+                        disabled={retryPaymentEvent.isPending}
+                      >
+                        {t('admin.retry', 'Retry')}
+                      </Button>
+                    )}
                   </div>
-                  <p className="mt-2 font-medium">
-                    {t('common.total')}: {t('common.price', { price: booking.totalPrice })}
-                  </p>
                 </div>
-              </div>
-            </CardContent>
-          </Card>
-        ))}
-      </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      {can.moderateDisputes && <AdminDisputes />}
+      {can.viewPayments && <AdminReconciliation />}
+      {can.managePromotions && <AdminPromoCodes />}
+      {can.managePayouts && <AdminPayouts />}
+      {can.manageUsers && <AdminUsers />}
     </div>
   );
 }
\ No newline at end of file
@@ -1,9 +1,10 @@
-import { useEffect } from "react";
+import { useEffect, useState } from "react";
 import { useLocation } from "wouter";
 import { useAuth } from "@/hooks/use-auth";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Card, CardContent } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useForm } from "react-hook-form";
@@ -12,11 +13,13 @@ import { insertUserSchema, type InsertUser } from "@shared/schema";
 import { Loader2 } from "lucide-react";
 import { useTranslation } from "react-i18next";
 import { LanguageSwitcher } from "@/components/language-switcher";
+import { PhoneOtpForm } from "@/components/phone-otp-form";
 
 export default function AuthPage() {
   const [_, setLocation] = useLocation();
   const { user, loginMutation, registerMutation } = useAuth();
   const { t } = useTranslation();
+  const [method, setMethod] = useState<'phone' | 'password'>('phone');
 
   useEffect(() => {
     if (user) setLocation("/");
@@ -29,7 +32,7 @@ export default function AuthPage() {
 
   const registerForm = useForm<InsertUser>({
     resolver: zodResolver(insertUserSchema),
-    defaultValues: { username: "", password: "", name: "" },
+    defaultValues: { username: "", password: "", name: "", role: "renter" },
   });
 
   return (
@@ -48,85 +51,117 @@ export default function AuthPage() {
               </TabsList>
 
               <TabsContent value="login">
-                <form 
-                  onSubmit={loginForm.handleSubmit((data) => loginMutation.mutate(data))}
-                  className="space-y-4 mt-4"
-                >
-                  <div className="space-y-2">
-                    <Label htmlFor="login-username">{t('auth.username', 'Username')}</Label>
-                    <Input 
-                      id="login-username"
-                      {...loginForm.register("username")}
-                    />
-                  </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="login-password">{t('auth.password', 'Password')}</Label>
-                    <Input 
-                      id="login-password"
-                      type="password"
-                      {...loginForm.register("password")}
-                    />
-                  </div>
-                  <Button 
-                    type="submit" 
-                    className="w-full"
-                    disabled={loginMutation.isPending}
-                  >
-                    {loginMutation.isPending && (
-                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                    )}
-                    {t('auth.loginButton', 'Sign In')}
-                  </Button>
-                  <Button
-                    variant="link"
-                    className="w-full"
-                    onClick={() => {/* TODO: Implement password reset */}}
+                {method === 'phone' ? (
+                  <PhoneOtpForm purpose="login" />
+                ) : (
+                  <form 
+                    onSubmit={loginForm.handleSubmit((data) => loginMutation.mutate(data))}
+                    className="space-y-4 mt-4"
                   >
-                    {t('auth.forgotPassword', 'Forgot Password?')}
-                  </Button>
-                </form>
+                    <div className="space-y-2">
+                      <Label htmlFor="login-username">{t('auth.username', 'Username')}</Label>
+                      <Input 
+                        id="login-username"
+                        {...loginForm.register("username")}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="login-password">{t('auth.password', 'Password')}</Label>
+                      <Input 
+                        id="login-password"
+                        type="password"
+                        {...loginForm.register("password")}
+                      />
+                    </div>
+                    <Button 
+                      type="submit" 
+                      className="w-full"
+                      disabled={loginMutation.isPending}
+                    >
+                      {loginMutation.isPending && (
+                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      )}
+                      {t('auth.loginButton', 'Sign In')}
+                    </Button>
+                    <Button
+                      variant="link"
+                      className="w-full"
+                      onClick={() => {/* TODO: Implement password reset */}}
+                    >
+                      {t('auth.forgotPassword', 'Forgot Password?')}
+                    </Button>
+                  </form>
+                )}
               </TabsContent>
 
               <TabsContent value="register">
-                <form 
-                  onSubmit={registerForm.handleSubmit((data) => registerMutation.mutate(data))}
-                  className="space-y-4 mt-4"
-                >
-                  <div className="space-y-2">
-                    <Label htmlFor="register-username">{t('auth.username', 'Username')}</Label>
-                    <Input 
-                      id="register-username"
-                      {...registerForm.register("username")}
-                    />
-                  </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="register-password">{t('auth.password', 'Password')}</Label>
-                    <Input 
-                      id="register-password"
-                      type="password"
-                      {...registerForm.register("password")}
-                    />
-                  </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="register-name">{t('auth.fullName', 'Full Name')}</Label>
-                    <Input 
-                      id="register-name"
-                      {...registerForm.register("name")}
-                    />
-                  </div>
-                  <Button 
-                    type="submit" 
-                    className="w-full"
-                    disabled={registerMutation.isPending}
+                {method === 'phone' ? (
+                  <PhoneOtpForm purpose="register" />
+                ) : (
+                  <form 
+                    onSubmit={registerForm.handleSubmit((data) => registerMutation.mutate(data))}
+                    className="space-y-4 mt-4"
                   >
-                    {registerMutation.isPending && (
-                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                    )}
-                    {t('auth.registerButton', 'Create Account')}
-                  </Button>
-                </form>
+                    <div className="space-y-2">
+                      <Label htmlFor="register-username">{t('auth.username', 'Username')}</Label>
+                      <Input 
+                        id="register-username"
+                        {...registerForm.register("username")}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="register-password">{t('auth.password', 'Password')}</Label>
+                      <Input 
+                        id="register-password"
+                        type="password"
+                        {...registerForm.register("password")}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="register-name">{t('auth.fullName', 'Full Name')}</Label>
+                      <Input 
+                        id="register-name"
+                        {...registerForm.register("name")}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="register-role">{t('auth.role', 'I want to')}</Label>
+                      <Select
+                        value={registerForm.watch("role")}
+                        onValueChange={(role) => registerForm.setValue("role", role as InsertUser["role"])}
+                      >
+                        <SelectTrigger id="register-role">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="renter">{t('roles.renterDesc', 'Rent equipment')}</SelectItem>
+                          <SelectItem value="owner">{t('roles.ownerDesc', 'Rent and list my own equipment')}</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <Button 
+                      type="submit" 
+                      className="w-full"
+                      disabled={registerMutation.isPending}
+                    >
+                      {registerMutation.isPending && (
+                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      )}
+                      {t('auth.registerButton', 'Create Account')}
+                    </Button>
+                  </form>
+                )}
               </TabsContent>
             </Tabs>
+            <Button
+              variant="link"
+              className="w-full mt-2"
+              onClick={() => setMethod(method === 'phone' ? 'password' : 'phone')}
+            >
+              {method === 'phone'
+                ? t('auth.usePassword', 'Use username and password instead')
+                : t('auth.usePhone', 'Use mobile number instead')}
+            </Button>
           </CardContent>
         </Card>
       </div>
@@ -0,0 +1,160 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { useLocation, Link } from "wouter";
+import { useTranslation } from "react-i18next";
+import { format, parseISO } from "date-fns";
+import { Loader2, Trash2 } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { MainNav } from "@/components/main-nav";
+import { useCart, type CartItem } from "@/hooks/use-cart";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+
+// Cart dates are kept as sent to the API: calendar days for day rentals,
+// exact times for hour rentals
+function formatCartPeriod(item: CartItem) {
+  if (item.rentalUnit === "hour") {
+    return `${format(new Date(item.startDate), "PPp")} – ${format(new Date(item.endDate), "p")}`;
+  }
+  const first = format(parseISO(item.startDate), "PP");
+  const last = format(parseISO(item.endDate), "PP");
+  return first === last ? first : `${first} – ${last}`;
+}
+
+export default function CartPage() {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const [, setLocation] = useLocation();
+  const { items, removeItem, clear } = useCart();
+  // Cart item the server rejected, with the reason
+  const [itemError, setItemError] = useState<{ key: string; message: string } | null>(null);
+
+  const rentalTotal = items.reduce((sum, item) => sum + item.quotedTotal, 0);
+  const depositTotal = items.reduce((sum, item) => sum + item.depositAmount, 0);
+
+  const checkout = useMutation({
+    mutationFn: async () => {
+      const response = await fetch("/api/checkout", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({
+          items: items.map(({ equipmentId, rentalUnit, startDate, endDate }) => ({
+            equipmentId,
+            rentalUnit,
+            startDate,
+            endDate,
+          })),
+        }),
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        const failed = typeof result.itemIndex === "number"
+          ? items[result.itemIndex]
+          : items.find((item) => item.equipmentId === result.equipmentId);
+        setItemError(failed ? { key: failed.key, message: result.error } : null);
+        throw new Error(result.error || t("checkout.failed", "Checkout failed"));
+      }
+      return result;
+    },
+    onSuccess: (result) => {
+      clear();
+      setItemError(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/bookings"] });
+      toast({
+        title: t("common.success"),
+        description: t("checkout.placed", "Your dates are held. Pay now to confirm every booking."),
+      });
+      setLocation(`/checkout/${result.order.id}`);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: t("common.error"),
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div>
+      <MainNav />
+      <div className="container mx-auto px-4 py-8 max-w-3xl">
+        <h1 className="text-4xl font-bold mb-8">{t("cart.title", "Cart")}</h1>
+
+        {items.length === 0 ? (
+          <Card>
+            <CardContent className="p-6 text-center space-y-4">
+              <p className="text-muted-foreground">{t("cart.empty", "Your cart is empty")}</p>
+              <Link href="/equipment">
+                <Button variant="outline">{t("cart.browse", "Browse equipment")}</Button>
+              </Link>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="space-y-4">
+            {items.map((item) => (
+              <Card key={item.key} className={itemError?.key === item.key ? "border-destructive" : undefined}>
+                <CardContent className="p-4 flex justify-between items-start gap-4">
+                  <div>
+                    <Link href={`/equipment/${item.equipmentId}`} className="font-medium hover:underline">
+                      {item.equipmentName}
+                    </Link>
+                    <p className="text-sm text-muted-foreground">{formatCartPeriod(item)}</p>
+                    {item.depositAmount > 0 && (
+                      <p className="text-sm text-muted-foreground">
+                        {t("deposit.refundable", "Refundable deposit")}: ₹{item.depositAmount.toLocaleString()}
+                      </p>
+                    )}
+                    {itemError?.key === item.key && (
+                      <p className="text-sm text-destructive mt-1">{itemError.message}</p>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-2 shrink-0">
+                    <span className="font-medium">₹{item.quotedTotal.toLocaleString()}</span>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => removeItem(item.key)}
+                      aria-label={t("cart.remove", "Remove from cart")}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+
+            <Card>
+              <CardContent className="p-4 space-y-1">
+                <div className="flex justify-between">
+                  <span>{t("cart.rentals", "Rentals")}</span>
+                  <span>₹{rentalTotal.toLocaleString()}</span>
+                </div>
+                {depositTotal > 0 && (
+                  <div className="flex justify-between">
+                    <span>{t("cart.deposits", "Refundable deposits")}</span>
+                    <span>₹{depositTotal.toLocaleString()}</span>
+                  </div>
+                )}
+                <div className="flex justify-between font-semibold border-t pt-1">
+                  <span>{t("cart.total", "Total due now")}</span>
+                  <span>₹{(rentalTotal + depositTotal).toLocaleString()}</span>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {t("cart.priceNote", "Prices are checked again when you check out.")}
+                </p>
+                <Button className="w-full mt-4" onClick={() => checkout.mutate()} disabled={checkout.isPending}>
+                  {checkout.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  {t("cart.checkout", "Book all and pay")}
+                </Button>
+              </CardContent>
+            </Card>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,115 @@
+import { useQuery } from "@tanstack/react-query";
+import { useParams, Link } from "wouter";
+import { useTranslation } from "react-i18next";
+import { format } from "date-fns";
+import { FileText, Loader2 } from "lucide-react";
+import type { Booking, CheckoutOrder } from "@shared/schema";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { MainNav } from "@/components/main-nav";
+import { PaymentGateway } from "@/components/payment-gateway";
+import { useAuth } from "@/hooks/use-auth";
+import { formatBookingPeriod } from "@/lib/booking-period";
+
+interface CheckoutDetails {
+  order: CheckoutOrder;
+  bookings: (Booking & { equipmentName: string | null })[];
+}
+
+const payableStatuses = ["awaiting_payment", "payment_failed"];
+
+export default function CheckoutPage() {
+  const { id } = useParams<{ id: string }>();
+  const { t } = useTranslation();
+  const { user } = useAuth();
+
+  const { data, isLoading } = useQuery<CheckoutDetails>({
+    queryKey: [`/api/checkout/${id}`],
+    enabled: !!id && !!user,
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <Loader2 className="h-8 w-8 animate-spin" />
+      </div>
+    );
+  }
+
+  if (!data) {
+    return (
+      <div>
+        <MainNav />
+        <div className="container mx-auto px-4 py-8">
+          <p className="text-muted-foreground">{t("checkout.notFound", "Checkout not found")}</p>
+        </div>
+      </div>
+    );
+  }
+
+  const { order, bookings } = data;
+  const payable = bookings.filter((booking) => payableStatuses.includes(booking.status));
+  const amountDue = payable.reduce((sum, booking) => sum + booking.totalPrice + booking.depositAmount, 0);
+  const holdExpiresAt = payable.find((booking) => booking.holdExpiresAt)?.holdExpiresAt;
+
+  return (
+    <div>
+      <MainNav />
+      <div className="container mx-auto px-4 py-8 max-w-3xl space-y-4">
+        <h1 className="text-4xl font-bold">{t("checkout.number", "Checkout #{{id}}", { id: order.id })}</h1>
+        <p className="text-muted-foreground">
+          {format(new Date(order.createdAt), "PPp")}
+          {order.razorpayPaymentId && ` · ${t("checkout.payment", "Payment {{id}}", { id: order.razorpayPaymentId })}`}
+        </p>
+
+        {bookings.map((booking) => (
+          <Card key={booking.id}>
+            <CardContent className="p-4 flex justify-between items-start gap-4">
+              <div>
+                <Link href={`/booking/${booking.id}`} className="font-medium hover:underline">
+                  {booking.equipmentName ?? t("booking.number", { id: booking.id })}
+                </Link>
+                <p className="text-sm text-muted-foreground">{formatBookingPeriod(booking)}</p>
+                <p className="text-sm capitalize">{t(`booking.status.${booking.status}`, booking.status)}</p>
+              </div>
+              <div className="text-right shrink-0 space-y-1">
+                <p className="font-medium">₹{booking.totalPrice.toLocaleString()}</p>
+                {booking.depositAmount > 0 && (
+                  <p className="text-sm text-muted-foreground">
+                    + ₹{booking.depositAmount.toLocaleString()} {t("deposit.short", "deposit")}
+                  </p>
+                )}
+                {booking.razorpayPaymentId && (
+                  <Button variant="outline" size="sm" asChild>
+                    <a href={`/api/bookings/${booking.id}/invoice.pdf`} download>
+                      <FileText className="w-4 h-4 mr-2" />
+                      {t("booking.downloadInvoice", "Download invoice")}
+                    </a>
+                  </Button>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+        ))}
+
+        {payable.length > 0 && (
+          <Card>
+            <CardContent className="p-4">
+              <div className="flex justify-between font-semibold">
+                <span>{t("cart.total", "Total due now")}</span>
+                <span>₹{amountDue.toLocaleString()}</span>
+              </div>
+              <PaymentGateway
+                checkoutOrderId={order.id}
+                totalPrice={amountDue}
+                razorpayOrderId={order.razorpayOrderId}
+                holdExpiresAt={holdExpiresAt}
+                userData={{ name: user?.name, phone: user?.contact ?? undefined }}
+              />
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,9 +1,10 @@
 import { useAuth } from "@/hooks/use-auth";
 import { useQuery, useMutation } from "@tanstack/react-query";
-import { Booking, Equipment, insertEquipmentSchema, type InsertEquipment } from "@shared/schema";
+import { Link } from "wouter";
+import { Booking, Equipment, insertEquipmentSchema, cancellableBookingStatuses, reviewableBookingStatuses, type InsertEquipment, type BookingMode } from "@shared/schema";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Loader2, Plus, Pencil, Star } from "lucide-react";
+import { Loader2, Plus, Pencil, Star, FileText } from "lucide-react";
 import { format } from "date-fns";
 import { MainNav } from "@/components/main-nav";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger, DialogDescription } from "@/components/ui/dialog";
@@ -19,11 +20,32 @@ import { useState, useEffect } from "react";
 import { useToast } from "@/hooks/use-toast";
 import { PaymentGateway } from "@/components/payment-gateway";
 import { ReviewForm } from "@/components/review-form";
+import { CancelBookingDialog } from "@/components/cancel-booking-dialog";
+import { EquipmentBlackouts } from "@/components/equipment-blackouts";
+import { EquipmentPricingRules } from "@/components/equipment-pricing-rules";
+import { DepositSummary, OwnerDepositActions } from "@/components/deposit-panel";
+import { OwnerReturnActions } from "@/components/early-return-panel";
+import { OwnerRequestActions } from "@/components/booking-request-actions";
+import { LateFeeNotice } from "@/components/late-fee-panel";
+import { MyWaitlist } from "@/components/waitlist-panel";
+import { OwnerEarnings } from "@/components/owner-earnings";
+import { formatBookingPeriod } from "@/lib/booking-period";
+import { hasPermission } from "@shared/permissions";
+
+const optionalAmountFields = ['hourlyRate', 'halfDayRate', 'weeklyRate', 'depositAmount'];
+
+const optionalRateLabels = {
+  hourlyRate: "Hourly rate (optional)",
+  halfDayRate: "Half-day rate (optional)",
+  weeklyRate: "Weekly rate (optional)",
+} as const;
 
 export default function DashboardPage() {
   const { user } = useAuth();
   const { t } = useTranslation();
   const { toast } = useToast();
+  // Listings and bookings on them are for users who list equipment
+  const canList = hasPermission(user, 'equipment:list');
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [editingEquipment, setEditingEquipment] = useState<Equipment | null>(null);
   const [showRatingDialog, setShowRatingDialog] = useState(false);
@@ -41,7 +63,7 @@ export default function DashboardPage() {
       }
       return res.json();
     },
-    enabled: !!user,
+    enabled: canList,
     staleTime: 30000,
     retry: 1,
   });
@@ -67,6 +89,11 @@ export default function DashboardPage() {
     enabled: !!user
   });
 
+  const { data: ownerBookings } = useQuery<Booking[]>({
+    queryKey: ["/api/owner/bookings"],
+    enabled: canList
+  });
+
   const form = useForm<InsertEquipment>({
     resolver: zodResolver(insertEquipmentSchema),
     defaultValues: {
@@ -74,6 +101,11 @@ export default function DashboardPage() {
       description: "",
       category: "",
       dailyRate: 0,
+      hourlyRate: null,
+      halfDayRate: null,
+      weeklyRate: null,
+      depositAmount: null,
+      bookingMode: "instant",
       location: "",
       imageUrl: "",
       ownerId: user?.id || 0,
@@ -94,6 +126,11 @@ export default function DashboardPage() {
         description: editingEquipment.description,
         category: editingEquipment.category,
         dailyRate: editingEquipment.dailyRate,
+        hourlyRate: editingEquipment.hourlyRate,
+        halfDayRate: editingEquipment.halfDayRate,
+        weeklyRate: editingEquipment.weeklyRate,
+        depositAmount: editingEquipment.depositAmount,
+        bookingMode: editingEquipment.bookingMode as BookingMode,
         location: editingEquipment.location,
         imageUrl: editingEquipment.imageUrl,
         ownerId: editingEquipment.ownerId,
@@ -105,6 +142,11 @@ export default function DashboardPage() {
         description: "",
         category: "",
         dailyRate: 0,
+        hourlyRate: null,
+        halfDayRate: null,
+        weeklyRate: null,
+        depositAmount: null,
+        bookingMode: "instant",
         location: "",
         imageUrl: "",
         ownerId: user?.id || 0,
@@ -118,9 +160,10 @@ export default function DashboardPage() {
       try {
         const formData = new FormData();
         Object.entries(data).forEach(([key, value]) => {
-          if (key === 'specs') {
+          if (value === null || value === undefined) return;
+          if (key === 'specs' || key === 'cancellationPolicy') {
             formData.append(key, JSON.stringify(value));
-          } else if (key === 'dailyRate') {
+          } else if (key === 'dailyRate' || optionalAmountFields.includes(key)) {
             formData.append(key, value.toString());
           } else {
             formData.append(key, value as string);
@@ -173,9 +216,15 @@ export default function DashboardPage() {
       try {
         const formData = new FormData();
         Object.entries(updateData).forEach(([key, value]) => {
-          if (key === 'specs') {
+          // An empty rate or deposit clears it on the server
+          if (value === null && optionalAmountFields.includes(key)) {
+            formData.append(key, '');
+            return;
+          }
+          if (value === null || value === undefined) return;
+          if (key === 'specs' || key === 'cancellationPolicy') {
             formData.append(key, JSON.stringify(value));
-          } else if (key === 'dailyRate') {
+          } else if (key === 'dailyRate' || optionalAmountFields.includes(key)) {
             formData.append(key, value.toString());
           } else {
             formData.append(key, value as string);
@@ -329,210 +378,330 @@ export default function DashboardPage() {
           </div>
         </div>
 
-        <div className="mb-12">
-          <div className="flex justify-between items-center mb-6">
-            <h2 className="text-2xl font-semibold">
-              {t('dashboard.myEquipment')}
-            </h2>
-            <Dialog open={isDialogOpen} onOpenChange={(open) => {
-              setIsDialogOpen(open);
-              if (!open) {
-                setEditingEquipment(null);
-                form.reset();
-              }
-            }}>
-              <DialogTrigger asChild>
-                <Button>
+        {canList && (
+          <div className="mb-12">
+            <div className="flex justify-between items-center mb-6">
+              <h2 className="text-2xl font-semibold">
+                {t('dashboard.myEquipment')}
+              </h2>
+              <Dialog open={isDialogOpen} onOpenChange={(open) => {
+                setIsDialogOpen(open);
+                if (!open) {
+                  setEditingEquipment(null);
+                  form.reset();
+                }
+              }}>
+                <DialogTrigger asChild>
+                  <Button>
+                    <Plus className="w-4 h-4 mr-2" />
+                    {t('dashboard.addEquipment')}
+                  </Button>
+                </DialogTrigger>
+                <DialogContent className="sm:max-w-[500px]">
+                  <DialogHeader>
+                    <DialogTitle>
+                      {editingEquipment ? t('dashboard.editEquipment') : t('dashboard.addEquipment')}
+                    </DialogTitle>
+                    <p className="text-sm text-muted-foreground">
+                      {editingEquipment
+                        ? t('equipment.editDescription')
+                        : t('equipment.addDescription')}
+                    </p>
+                  </DialogHeader>
+                  <Form {...form}>
+                    <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+                      <FormField
+                        control={form.control}
+                        name="name"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>{t('equipment.name')}</FormLabel>
+                            <FormControl>
+                              <Input {...field} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={form.control}
+                        name="description"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>{t('equipment.description')}</FormLabel>
+                            <FormControl>
+                              <Textarea {...field} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={form.control}
+                        name="category"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>{t('equipment.category')}</FormLabel>
+                            <Select
+                              onValueChange={field.onChange}
+                              defaultValue={field.value}
+                            >
+                              <FormControl>
+                                <SelectTrigger>
+                                  <SelectValue placeholder={t('equipment.selectCategory')} />
+                                </SelectTrigger>
+                              </FormControl>
+                              <SelectContent>
+                                <SelectItem value="tractors">{t('categories.tractors')}</SelectItem>
+                                <SelectItem value="harvesters">{t('categories.harvesters')}</SelectItem>
+                                <SelectItem value="irrigation">{t('categories.irrigation')}</SelectItem>
+                                <SelectItem value="seeders">{t('categories.seeders')}</SelectItem>
+                                <SelectItem value="sprayers">{t('categories.sprayers')}</SelectItem>
+                                <SelectItem value="plows">{t('categories.plows')}</SelectItem>
+                                <SelectItem value="cultivators">{t('categories.cultivators')}</SelectItem>
+                                <SelectItem value="fertilizer">{t('categories.fertilizer')}</SelectItem>
+                                <SelectItem value="other">{t('categories.other')}</SelectItem>
+                              </SelectContent>
+                            </Select>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={form.control}
+                        name="dailyRate"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>{t('equipment.dailyRate')}</FormLabel>
+                            <FormControl>
+                              <Input
+                                type="number"
+                                {...field}
+                                onChange={(e) => field.onChange(Number(e.target.value))}
+                              />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <div className="grid grid-cols-3 gap-2">
+                        {(Object.keys(optionalRateLabels) as (keyof typeof optionalRateLabels)[]).map((name) => (
+                          <FormField
+                            key={name}
+                            control={form.control}
+                            name={name}
+                            render={({ field }) => (
+                              <FormItem>
+                                <FormLabel>{t(`equipment.${name}`, optionalRateLabels[name])}</FormLabel>
+                                <FormControl>
+                                  <Input
+                                    type="number"
+                                    min={1}
+                                    value={field.value ?? ""}
+                                    onChange={(e) => field.onChange(e.target.value === "" ? null : Number(e.target.value))}
+                                  />
+                                </FormControl>
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+                        ))}
+                      </div>
+                      <FormField
+                        control={form.control}
+                        name="depositAmount"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>{t('equipment.depositAmount', "Refundable security deposit (optional)")}</FormLabel>
+                            <FormControl>
+                              <Input
+                                type="number"
+                                min={1}
+                                value={field.value ?? ""}
+                                onChange={(e) => field.onChange(e.target.value === "" ? null : Number(e.target.value))}
+                              />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={form.control}
+                        name="bookingMode"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>{t('equipment.bookingMode', "How renters book")}</FormLabel>
+                            <Select onValueChange={field.onChange} value={field.value ?? "instant"}>
+                              <FormControl>
+                                <SelectTrigger>
+                                  <SelectValue />
+                                </SelectTrigger>
+                              </FormControl>
+                              <SelectContent>
+                                <SelectItem value="instant">{t('equipment.bookingModes.instant', "Instant booking")}</SelectItem>
+                                <SelectItem value="request">{t('equipment.bookingModes.request', "I approve each request first")}</SelectItem>
+                              </SelectContent>
+                            </Select>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={form.control}
+                        name="location"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>{t('equipment.location')}</FormLabel>
+                            <FormControl>
+                              <Input {...field} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <div>
+                        <FormLabel>{t('equipment.image')}</FormLabel>
+                        <Input
+                          type="file"
+                          accept="image/*"
+                          className="mt-1"
+                        />
+                      </div>
+                      <Button
+                        type="submit"
+                        className="w-full"
+                        disabled={createEquipmentMutation.isPending || updateEquipmentMutation.isPending}
+                      >
+                        {(createEquipmentMutation.isPending || updateEquipmentMutation.isPending) && (
+                          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                        )}
+                        {editingEquipment ? t('equipment.update') : t('equipment.create')}
+                      </Button>
+                    </form>
+                  </Form>
+                </DialogContent>
+              </Dialog>
+            </div>
+
+            {myEquipment?.length === 0 ? (
+              <Card className="p-6 text-center">
+                <p className="text-muted-foreground mb-4">
+                  {t('dashboard.noEquipment')}
+                </p>
+                <Button
+                  variant="outline"
+                  onClick={() => setIsDialogOpen(true)}
+                >
                   <Plus className="w-4 h-4 mr-2" />
-                  {t('dashboard.addEquipment')}
+                  {t('dashboard.addFirstEquipment')}
                 </Button>
-              </DialogTrigger>
-              <DialogContent className="sm:max-w-[500px]">
-                <DialogHeader>
-                  <DialogTitle>
-                    {editingEquipment ? t('dashboard.editEquipment') : t('dashboard.addEquipment')}
-                  </DialogTitle>
-                  <p className="text-sm text-muted-foreground">
-                    {editingEquipment
-                      ? t('equipment.editDescription')
-                      : t('equipment.addDescription')}
-                  </p>
-                </DialogHeader>
-                <Form {...form}>
-                  <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
-                    <FormField
-                      control={form.control}
-                      name="name"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>{t('equipment.name')}</FormLabel>
-                          <FormControl>
-                            <Input {...field} />
-                          </FormControl>
-                          <FormMessage />
-                        </FormItem>
-                      )}
+              </Card>
+            ) : (
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                {myEquipment?.map((equipment) => (
+                  <Card key={equipment.id}>
+                    <img
+                      src={equipment.imageUrl}
+                      alt={equipment.name}
+                      className="w-full h-48 object-cover"
                     />
-                    <FormField
-                      control={form.control}
-                      name="description"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>{t('equipment.description')}</FormLabel>
-                          <FormControl>
-                            <Textarea {...field} />
-                          </FormControl>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-                    <FormField
-                      control={form.control}
-                      name="category"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>{t('equipment.category')}</FormLabel>
-                          <Select
-                            onValueChange={field.onChange}
-                            defaultValue={field.value}
+                    <CardContent className="p-6">
+                      <h3 className="text-xl font-semibold mb-2">{equipment.name}</h3>
+                      <p className="text-muted-foreground mb-4">
+                        {equipment.description.slice(0, 100)}...
+                      </p>
+                      <div className="flex justify-between items-center">
+                        <span className="text-lg font-medium">
+                          ₹{equipment.dailyRate} {t('equipment.perDay')}
+                        </span>
+                        <div className="space-x-2">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => {
+                              setEditingEquipment(equipment);
+                              setIsDialogOpen(true);
+                            }}
                           >
-                            <FormControl>
-                              <SelectTrigger>
-                                <SelectValue placeholder={t('equipment.selectCategory')} />
-                              </SelectTrigger>
-                            </FormControl>
-                            <SelectContent>
-                              <SelectItem value="tractors">{t('categories.tractors')}</SelectItem>
-                              <SelectItem value="harvesters">{t('categories.harvesters')}</SelectItem>
-                              <SelectItem value="irrigation">{t('categories.irrigation')}</SelectItem>
-                              <SelectItem value="seeders">{t('categories.seeders')}</SelectItem>
-                              <SelectItem value="sprayers">{t('categories.sprayers')}</SelectItem>
-                              <SelectItem value="plows">{t('categories.plows')}</SelectItem>
-                              <SelectItem value="cultivators">{t('categories.cultivators')}</SelectItem>
-                              <SelectItem value="fertilizer">{t('categories.fertilizer')}</SelectItem>
-                              <SelectItem value="other">{t('categories.other')}</SelectItem>
-                            </SelectContent>
-                          </Select>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-                    <FormField
-                      control={form.control}
-                      name="dailyRate"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>{t('equipment.dailyRate')}</FormLabel>
-                          <FormControl>
-                            <Input
-                              type="number"
-                              {...field}
-                              onChange={(e) => field.onChange(Number(e.target.value))}
-                            />
-                          </FormControl>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-                    <FormField
-                      control={form.control}
-                      name="location"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>{t('equipment.location')}</FormLabel>
-                          <FormControl>
-                            <Input {...field} />
-                          </FormControl>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-                    <div>
-                      <FormLabel>{t('equipment.image')}</FormLabel>
-                      <Input
-                        type="file"
-                        accept="image/*"
-                        className="mt-1"
-                      />
-                    </div>
-                    <Button
-                      type="submit"
-                      className="w-full"
-                      disabled={createEquipmentMutation.isPending || updateEquipmentMutation.isPending}
-                    >
-                      {(createEquipmentMutation.isPending || updateEquipmentMutation.isPending) && (
-                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                      )}
-                      {editingEquipment ? t('equipment.update') : t('equipment.create')}
-                    </Button>
-                  </form>
-                </Form>
-              </DialogContent>
-            </Dialog>
+                            <Pencil className="w-4 h-4 mr-2" />
+                            {t('dashboard.actions.edit')}
+                          </Button>
+                          <Button
+                            variant="destructive"
+                            size="sm"
+                            onClick={() => {
+                              if (confirm(t('equipment.confirmDelete'))) {
+                                deleteEquipmentMutation.mutate(equipment.id);
+                              }
+                            }}
+                          >
+                            {t('dashboard.actions.delete')}
+                          </Button>
+                        </div>
+                      </div>
+                      <EquipmentBlackouts equipmentId={equipment.id} />
+                      <EquipmentPricingRules equipmentId={equipment.id} />
+                    </CardContent>
+                  </Card>
+                ))}
+              </div>
+            )}
           </div>
+        )}
 
-          {myEquipment?.length === 0 ? (
-            <Card className="p-6 text-center">
-              <p className="text-muted-foreground mb-4">
-                {t('dashboard.noEquipment')}
-              </p>
-              <Button
-                variant="outline"
-                onClick={() => setIsDialogOpen(true)}
-              >
-                <Plus className="w-4 h-4 mr-2" />
-                {t('dashboard.addFirstEquipment')}
-              </Button>
-            </Card>
-          ) : (
-            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-              {myEquipment?.map((equipment) => (
-                <Card key={equipment.id}>
-                  <img
-                    src={equipment.imageUrl}
-                    alt={equipment.name}
-                    className="w-full h-48 object-cover"
-                  />
-                  <CardContent className="p-6">
-                    <h3 className="text-xl font-semibold mb-2">{equipment.name}</h3>
-                    <p className="text-muted-foreground mb-4">
-                      {equipment.description.slice(0, 100)}...
+        {canList && myEquipment && myEquipment.length > 0 && <OwnerEarnings />}
+
+        {canList && ownerBookings && ownerBookings.length > 0 && (
+          <div className="space-y-6 mb-12">
+            <h2 className="text-2xl font-semibold">{t('dashboard.bookingsOnYourEquipment', 'Bookings on your equipment')}</h2>
+            {ownerBookings.map((booking) => (
+              <Card key={booking.id}>
+                <CardContent className="p-6 flex justify-between items-start gap-4">
+                  <div>
+                    <h3 className="text-xl font-medium mb-2">
+                      <Link href={`/booking/${booking.id}`} className="hover:underline">
+                        {t('dashboard.booking')} #{booking.id}
+                      </Link>
+                    </h3>
+                    <p className="text-muted-foreground">
+                      {formatBookingPeriod(booking)}
                     </p>
-                    <div className="flex justify-between items-center">
-                      <span className="text-lg font-medium">
-                        ₹{equipment.dailyRate} {t('equipment.perDay')}
-                      </span>
-                      <div className="space-x-2">
-                        <Button
-                          variant="outline"
-                          size="sm"
-                          onClick={() => {
-                            setEditingEquipment(equipment);
-                            setIsDialogOpen(true);
-                          }}
-                        >
-                          <Pencil className="w-4 h-4 mr-2" />
-                          {t('dashboard.actions.edit')}
-                        </Button>
-                        <Button
-                          variant="destructive"
-                          size="sm"
-                          onClick={() => {
-                            if (confirm(t('equipment.confirmDelete'))) {
-                              deleteEquipmentMutation.mutate(equipment.id);
-                            }
-                          }}
-                        >
-                          {t('dashboard.actions.delete')}
-                        </Button>
-                      </div>
-                    </div>
-                  </CardContent>
-                </Card>
-              ))}
-            </div>
-          )}
-        </div>
+                    <DepositSummary booking={booking} />
+                    <LateFeeNotice bookingId={booking.id} />
+                    {['paid', 'approved', 'in_use'].includes(booking.status) && (
+                      <Link href={`/booking/${booking.id}`} className="text-sm text-primary hover:underline">
+                        {booking.status === 'in_use'
+                          ? t('handover.recordReturn', 'Record the return')
+                          : t('handover.recordPickup', 'Record the pickup')}
+                      </Link>
+                    )}
+                  </div>
+                  <div className="text-right">
+                    <span className="inline-block px-3 py-1 rounded-full bg-primary/10 text-primary">
+                      {t(`dashboard.status.${booking.status.toLowerCase()}`)}
+                    </span>
+                    <p className="mt-2 font-medium">
+                      {t('dashboard.totalPrice')}: ₹{booking.totalPrice.toLocaleString()}
+                    </p>
+                    <OwnerRequestActions booking={booking} />
+                    <OwnerReturnActions booking={booking} />
+                    <OwnerDepositActions booking={booking} />
+                    {booking.razorpayPaymentId && (
+                      <Button variant="outline" size="sm" className="mt-2" asChild>
+                        <a href={`/api/bookings/${booking.id}/invoice.pdf`} download>
+                          <FileText className="w-4 h-4 mr-2" />
+                          {t('booking.downloadInvoice', 'Download invoice')}
+                        </a>
+                      </Button>
+                    )}
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+
+        <MyWaitlist />
 
         <div className="space-y-6">
           <h2 className="text-2xl font-semibold">{t('dashboard.yourBookings')}</h2>
@@ -545,9 +714,22 @@ export default function DashboardPage() {
                       {t('dashboard.booking')} #{booking.id}
                     </h3>
                     <p className="text-muted-foreground">
-                      {format(new Date(booking.startDate), "PP")} -
-                      {format(new Date(booking.endDate), "PP")}
+                      {formatBookingPeriod(booking)}
                     </p>
+                    <DepositSummary booking={booking} />
+                    <LateFeeNotice
+                      bookingId={booking.id}
+                      userData={{
+                        name: user?.name ?? undefined,
+                        email: user?.contact ?? undefined,
+                        phone: user?.contact ?? undefined,
+                      }}
+                    />
+                    {booking.checkoutOrderId && (
+                      <Link href={`/checkout/${booking.checkoutOrderId}`} className="text-sm text-primary hover:underline">
+                        {t('checkout.number', 'Checkout #{{id}}', { id: booking.checkoutOrderId })}
+                      </Link>
+                    )}
                   </div>
                   <div className="text-right">
                     <span className="inline-block px-3 py-1 rounded-full bg-primary/10 text-primary">
@@ -559,8 +741,9 @@ export default function DashboardPage() {
                     {booking.status === 'awaiting_payment' && booking.razorpayOrderId && (
                       <PaymentGateway
                         bookingId={booking.id}
-                        totalPrice={booking.totalPrice}
+                        totalPrice={booking.totalPrice + booking.depositAmount}
                         razorpayOrderId={booking.razorpayOrderId}
+                        holdExpiresAt={booking.holdExpiresAt}
                         userData={{
                           name: user?.name ?? undefined,
                           email: user?.contact ?? undefined,
@@ -583,7 +766,18 @@ export default function DashboardPage() {
                     <p className="mt-2 text-sm text-muted-foreground">
                       {t('booking.totalPrice')}: ₹{booking.totalPrice.toLocaleString()}
                     </p>
-                    {booking.status === 'paid' && !booking.isRated && (
+                    {(cancellableBookingStatuses as string[]).includes(booking.status) && (
+                      <CancelBookingDialog bookingId={booking.id} />
+                    )}
+                    {booking.razorpayPaymentId && (
+                      <Button variant="outline" size="sm" className="mt-2" asChild>
+                        <a href={`/api/bookings/${booking.id}/invoice.pdf`} download>
+                          <FileText className="w-4 h-4 mr-2" />
+                          {t('booking.downloadInvoice', 'Download invoice')}
+                        </a>
+                      </Button>
+                    )}
+                    {(reviewableBookingStatuses as string[]).includes(booking.status) && !booking.isRated && (
                       <Button
                         variant="outline"
                         size="sm"
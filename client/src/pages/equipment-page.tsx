@@ -1,12 +1,13 @@
 import { useState, useEffect } from "react";
 import { useParams, useLocation } from "wouter";
 import { useQuery, useMutation } from "@tanstack/react-query";
-import { Equipment } from "@shared/schema";
+import { Equipment, type RentalUnit } from "@shared/schema";
+import type { Quote } from "@shared/pricing";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Loader2, Star, CheckCircle, XCircle } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
-import { format, differenceInDays } from "date-fns";
+import { format } from "date-fns";
 import { enUS, hi } from "date-fns/locale";
 import { useTranslation } from "react-i18next";
 import { VoiceAssistant } from "@/components/voice-assistant";
@@ -21,7 +22,10 @@ import {
 } from "@/components/ui/dialog";
 import { CalendarHeatmap } from "@/components/ui/calendar-heatmap";
 import { useAuth } from "@/hooks/use-auth";
+import { useCart } from "@/hooks/use-cart";
 import { Badge } from "@/components/ui/badge";
+import { PriceBreakdown } from "@/components/price-breakdown";
+import { JoinWaitlist } from "@/components/waitlist-panel";
 
 // Define the Review interface for this component
 interface ReviewType {
@@ -33,14 +37,22 @@ interface ReviewType {
   equipmentId: number;
 }
 
+// Hour rentals carry exact times; day rentals name calendar days, matching
+// the keys of the availability map
+function formatRentalDate(date: Date, unit: RentalUnit) {
+  return unit === "hour" ? date.toISOString() : format(date, "yyyy-MM-dd");
+}
+
 export default function EquipmentPage() {
   const [, params] = useRoute("/equipment/:id");
   const { user } = useAuth();
+  const { addItem } = useCart();
   const { toast } = useToast();
   const { t, i18n } = useTranslation();
   const [, setLocation] = useLocation();
   const [startDate, setStartDate] = useState<Date | undefined>();
   const [endDate, setEndDate] = useState<Date | undefined>();
+  const [rentalUnit, setRentalUnit] = useState<RentalUnit>("day");
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [dialogKey, setDialogKey] = useState(0);
 
@@ -49,6 +61,7 @@ export default function EquipmentPage() {
     if (!isDialogOpen) {
       setStartDate(undefined);
       setEndDate(undefined);
+      setRentalUnit("day");
       setDialogKey((prev) => prev + 1);
     }
   }, [isDialogOpen]);
@@ -71,6 +84,64 @@ export default function EquipmentPage() {
     enabled: !!params?.id,
   });
 
+  // Quote the selected dates with the owner's pricing rules applied
+  const quoteQuery = startDate && endDate
+    ? new URLSearchParams({
+        unit: rentalUnit,
+        start: formatRentalDate(startDate, rentalUnit),
+        end: formatRentalDate(endDate, rentalUnit),
+      }).toString()
+    : undefined;
+
+  const {
+    data: quote,
+    isFetching: isQuoting,
+    error: quoteError,
+  } = useQuery<Quote>({
+    queryKey: [`/api/equipment/${params?.id}/quote?${quoteQuery}`],
+    enabled: !!params?.id && !!quoteQuery,
+    queryFn: async () => {
+      const response = await fetch(`/api/equipment/${params?.id}/quote?${quoteQuery}`, {
+        credentials: "include",
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || t("booking.quoteFailed", "Could not price these dates"));
+      }
+      return result;
+    },
+    staleTime: 30000,
+  });
+
+  // Keep the chosen dates to book together with other equipment later
+  const addToCart = () => {
+    if (!equipment || !startDate || !endDate || !quote) return;
+
+    const added = addItem({
+      equipmentId: equipment.id,
+      equipmentName: equipment.name,
+      rentalUnit,
+      startDate: formatRentalDate(startDate, rentalUnit),
+      endDate: formatRentalDate(endDate, rentalUnit),
+      quotedTotal: quote.total,
+      depositAmount: equipment.depositAmount ?? 0,
+    });
+    if (!added) {
+      toast({
+        title: t("common.error"),
+        description: t("cart.full", "Your cart is full. Check out before adding more."),
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsDialogOpen(false);
+    toast({
+      title: t("common.success"),
+      description: t("cart.added", "Added to your cart"),
+    });
+  };
+
   // Create booking mutation
   const createBookingMutation = useMutation({
     mutationFn: async () => {
@@ -92,15 +163,16 @@ export default function EquipmentPage() {
           credentials: "include",
           body: JSON.stringify({
             equipmentId: equipment.id,
-            startDate: startDate.toISOString(),
-            endDate: endDate.toISOString(),
+            rentalUnit,
+            startDate: formatRentalDate(startDate, rentalUnit),
+            endDate: formatRentalDate(endDate, rentalUnit),
             status: "pending",
           }),
         });
 
         if (!response.ok) {
           const error = await response.json();
-          throw new Error(error.message || t("booking.failed"));
+          throw new Error(error.error || error.message || t("booking.failed"));
         }
 
         return response.json();
@@ -118,7 +190,9 @@ export default function EquipmentPage() {
         setLocation(`/booking/${data.booking.id}`);
         toast({
           title: t("common.success"),
-          description: t("booking.success"),
+          description: data.requiresApproval
+            ? t("bookingRequest.sent", "Request sent. We'll let you know when the owner answers.")
+            : t("booking.success"),
         });
       } else {
         toast({
@@ -166,6 +240,8 @@ export default function EquipmentPage() {
   }
 
   const canEdit = user?.id === equipment.ownerId;
+  const needsApproval = equipment.bookingMode === 'request';
+  const confirmLabel = needsApproval ? t('bookingRequest.send', 'Request to book') : t('booking.confirm');
 
   const handleDateSelect = (
     newStartDate: Date | undefined,
@@ -275,6 +351,12 @@ export default function EquipmentPage() {
     });
   };
 
+  const formatLocalDateTime = (date: Date) => {
+    return format(date, "PPp", {
+      locale: i18n.language === "hi" ? hi : enUS,
+    });
+  };
+
   return (
     <div className="container mx-auto px-4 py-8">
       <div className="grid md:grid-cols-2 gap-8">
@@ -354,6 +436,30 @@ export default function EquipmentPage() {
                   {formatCurrency(equipment.dailyRate)} {t('equipment.perDay')}
                 </span>
               </div>
+              {equipment.hourlyRate && (
+                <div className="flex justify-between items-center">
+                  <span className="font-medium">{t('equipment.hourlyRate', "Hourly rate")}</span>
+                  <span>{formatCurrency(equipment.hourlyRate)} {t('equipment.perHour', "/ hour")}</span>
+                </div>
+              )}
+              {equipment.halfDayRate && (
+                <div className="flex justify-between items-center">
+                  <span className="font-medium">{t('equipment.halfDayRate', "Half-day rate")}</span>
+                  <span>{formatCurrency(equipment.halfDayRate)} {t('equipment.perHalfDay', "/ half day")}</span>
+                </div>
+              )}
+              {equipment.weeklyRate && (
+                <div className="flex justify-between items-center">
+                  <span className="font-medium">{t('equipment.weeklyRate', "Weekly rate")}</span>
+                  <span>{formatCurrency(equipment.weeklyRate)} {t('equipment.perWeek', "/ week")}</span>
+                </div>
+              )}
+              {equipment.depositAmount && (
+                <div className="flex justify-between items-center">
+                  <span className="font-medium">{t('equipment.depositAmount', "Refundable deposit")}</span>
+                  <span>{formatCurrency(equipment.depositAmount)}</span>
+                </div>
+              )}
               <div className="flex justify-between items-center">
                 <span className="font-medium">{t('equipment.location')}</span>
                 <span>{equipment.location}</span>
@@ -384,6 +490,9 @@ export default function EquipmentPage() {
                       startDate={startDate}
                       endDate={endDate}
                       onSelect={handleDateSelect}
+                      allowHourly={!!equipment.hourlyRate}
+                      rentalUnit={rentalUnit}
+                      onRentalUnitChange={setRentalUnit}
                       className="rounded-md border"
                     />
                   </div>
@@ -391,29 +500,33 @@ export default function EquipmentPage() {
                     <div className="space-y-2 border-t pt-4">
                       <div className="flex justify-between items-center py-2 text-sm">
                         <span>{t("booking.startDate")}:</span>
-                        <span>{formatLocalDate(startDate)}</span>
+                        <span>{rentalUnit === "hour" ? formatLocalDateTime(startDate) : formatLocalDate(startDate)}</span>
                       </div>
                       {endDate && (
                         <>
                           <div className="flex justify-between items-center py-2 text-sm">
                             <span>{t("booking.endDate")}:</span>
-                            <span>{formatLocalDate(endDate)}</span>
+                            <span>{rentalUnit === "hour" ? formatLocalDateTime(endDate) : formatLocalDate(endDate)}</span>
                           </div>
                           <div className="flex justify-between items-center py-2 text-sm">
-                            <span>{t("booking.totalDays")}:</span>
                             <span>
-                              {differenceInDays(endDate, startDate) + 1}
+                              {rentalUnit === "hour" ? t("booking.totalHours", "Total hours") : t("booking.totalDays")}:
                             </span>
-                          </div>
-                          <div className="flex justify-between items-center py-2 text-sm font-semibold">
-                            <span>{t("booking.totalPrice")}:</span>
                             <span>
-                              {formatCurrency(
-                                (differenceInDays(endDate, startDate) + 1) *
-                                  equipment.dailyRate,
-                              )}
+                              {quote ? (rentalUnit === "hour" ? quote.hours : quote.hours / 24) : "–"}
                             </span>
                           </div>
+                          {isQuoting ? (
+                            <div className="flex justify-center py-2">
+                              <Loader2 className="h-4 w-4 animate-spin" />
+                            </div>
+                          ) : quoteError ? (
+                            <p className="text-sm text-destructive">
+                              {quoteError instanceof Error ? quoteError.message : t("common.loadError")}
+                            </p>
+                          ) : quote && (
+                            <PriceBreakdown quote={quote} depositAmount={equipment.depositAmount} />
+                          )}
                         </>
                       )}
                     </div>
@@ -421,7 +534,7 @@ export default function EquipmentPage() {
                   <Button
                     className="w-full mt-4"
                     disabled={
-                      !startDate || !endDate || createBookingMutation.isPending
+                      !startDate || !endDate || !quote || createBookingMutation.isPending
                     }
                     onClick={() => {
                       if (startDate && endDate) {
@@ -435,19 +548,32 @@ export default function EquipmentPage() {
                         <Loader2 className="mr-2 h-4 w-4 animate-spin" />
                         {t('common.processing')}
                       </>
-                    ) : startDate && endDate ? (
-                      `${t('booking.confirm')} (${formatCurrency(
-                        (differenceInDays(endDate, startDate) + 1) *
-                          equipment.dailyRate
-                      )})`
+                    ) : startDate && endDate && quote ? (
+                      `${confirmLabel} (${formatCurrency(quote.total)})`
                     ) : (
-                      t('booking.confirm')
+                      confirmLabel
                     )}
                   </Button>
+                  {needsApproval ? (
+                    <p className="text-sm text-muted-foreground mt-2">
+                      {t('bookingRequest.note', "The owner accepts each booking first. You pay only once they do.")}
+                    </p>
+                  ) : (
+                    <Button
+                      variant="outline"
+                      className="w-full mt-2"
+                      disabled={!startDate || !endDate || !quote || createBookingMutation.isPending}
+                      onClick={addToCart}
+                    >
+                      {t('cart.add', 'Add to cart')}
+                    </Button>
+                  )}
                 </DialogContent>
               </Dialog>
             )}
 
+            {!canEdit && equipment.availability && user && <JoinWaitlist equipmentId={equipment.id} />}
+
             {!canEdit && !equipment.availability && (
               <div className="mt-6 space-y-4 flex flex-col items-center">
                 <div className="p-4 rounded-lg bg-red-50 border border-red-200 w-full max-w-md mx-auto">
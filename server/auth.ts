@@ -1,11 +1,12 @@
 import passport from "passport";
 import { Strategy as LocalStrategy } from "passport-local";
-import { Express } from "express";
+import { Express, Response } from "express";
 import session from "express-session";
 import { scrypt, randomBytes, timingSafeEqual } from "crypto";
 import { promisify } from "util";
 import { storage } from "./storage";
-import { User as SelectUser } from "@shared/schema";
+import { requestOtp, verifyOtp, OtpError, OtpThrottleError } from "./otp";
+import { User as SelectUser, insertUserSchema, requestOtpSchema, verifyOtpSchema, registerWithOtpSchema } from "@shared/schema";
 
 declare global {
   namespace Express {
@@ -28,6 +29,25 @@ async function comparePasswords(supplied: string, stored: string) {
   return timingSafeEqual(hashedBuf, suppliedBuf);
 }
 
+// Users who sign in by phone never get a password; this one is random and
+// never shown, so password sign-in is closed to them
+async function unusablePassword() {
+  return hashPassword(randomBytes(32).toString("hex"));
+}
+
+function sendOtpError(res: Response, error: unknown): boolean {
+  if (error instanceof OtpThrottleError) {
+    res.setHeader('Retry-After', String(error.retryAfterSeconds));
+    res.status(429).json({ error: error.message, retryAfterSeconds: error.retryAfterSeconds });
+    return true;
+  }
+  if (error instanceof OtpError) {
+    res.status(422).json({ error: error.message });
+    return true;
+  }
+  return false;
+}
+
 export function setupAuth(app: Express) {
   const sessionSettings: session.SessionOptions = {
     secret: process.env.SESSION_SECRET!,
@@ -97,15 +117,22 @@ export function setupAuth(app: Express) {
   });
 
   app.post("/api/register", async (req, res, next) => {
+    // Only renter and owner can be chosen here; staff roles are assigned
+    // by an admin
+    const parsed = insertUserSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json(parsed.error);
+    }
+
     try {
-      const existingUser = await storage.getUserByUsername(req.body.username);
+      const existingUser = await storage.getUserByUsername(parsed.data.username);
       if (existingUser) {
         return res.status(400).send("Username already exists");
       }
 
       const user = await storage.createUser({
-        ...req.body,
-        password: await hashPassword(req.body.password),
+        ...parsed.data,
+        password: await hashPassword(parsed.data.password),
       });
 
       req.login(user, (err) => {
@@ -124,6 +151,82 @@ export function setupAuth(app: Express) {
     res.status(200).json(req.user);
   });
 
+  // Mobile number sign-in: a code is sent by SMS, then exchanged for a
+  // session on /api/otp/login or /api/otp/register
+  app.post("/api/otp/request", async (req, res) => {
+    const parsed = requestOtpSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({ error: parsed.error.errors[0]?.message ?? "Invalid request", details: parsed.error.errors });
+    }
+
+    try {
+      res.status(201).json(await requestOtp(parsed.data.phone, parsed.data.purpose));
+    } catch (error) {
+      if (sendOtpError(res, error)) return;
+      console.error('Error sending sign-in code:', error);
+      res.status(500).json({ error: "Failed to send the code" });
+    }
+  });
+
+  app.post("/api/otp/login", async (req, res, next) => {
+    const parsed = verifyOtpSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({ error: parsed.error.errors[0]?.message ?? "Invalid request", details: parsed.error.errors });
+    }
+
+    try {
+      await verifyOtp(parsed.data.phone, 'login', parsed.data.code);
+      const user = await storage.getUserByPhone(parsed.data.phone);
+      if (!user) {
+        return res.status(404).json({ error: "No account uses this number" });
+      }
+
+      req.login(user, (err) => {
+        if (err) return next(err);
+        res.status(200).json(user);
+      });
+    } catch (error) {
+      if (sendOtpError(res, error)) return;
+      console.error('Phone login error:', error);
+      next(error);
+    }
+  });
+
+  app.post("/api/otp/register", async (req, res, next) => {
+    const parsed = registerWithOtpSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({ error: parsed.error.errors[0]?.message ?? "Invalid request", details: parsed.error.errors });
+    }
+
+    try {
+      const { phone, code, name, role, language } = parsed.data;
+      await verifyOtp(phone, 'register', code);
+
+      // The number doubles as the username
+      if (await storage.getUserByPhone(phone) || await storage.getUserByUsername(phone)) {
+        return res.status(409).json({ error: "This number is already registered" });
+      }
+
+      const user = await storage.createUser({
+        username: phone,
+        password: await unusablePassword(),
+        name,
+        role,
+        language,
+        phone,
+      });
+
+      req.login(user, (err) => {
+        if (err) return next(err);
+        res.status(201).json(user);
+      });
+    } catch (error) {
+      if (sendOtpError(res, error)) return;
+      console.error('Phone registration error:', error);
+      next(error);
+    }
+  });
+
   app.post("/api/logout", (req, res, next) => {
     const userId = req.user?.id;
     req.logout((err) => {
@@ -0,0 +1,142 @@
+import { storage } from "./storage";
+import { activeBookingStatuses, type Booking, type Equipment, type RentalUnit } from "@shared/schema";
+
+// `partial` days have some hours booked and can still take hourly rentals
+export type DayStatus = 'free' | 'partial' | 'booked' | 'blocked';
+
+export interface AvailabilityDay {
+  date: string; // yyyy-MM-dd
+  status: DayStatus;
+}
+
+export class InvalidRentalPeriodError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidRentalPeriodError';
+  }
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// Longest range a single availability request may cover
+export const MAX_AVAILABILITY_DAYS = 366;
+
+// Longest a single rental may run. Pricing works through a rental hour by
+// hour and day by day, so this also bounds the work one quote can ask for.
+export const MAX_RENTAL_DAYS = MAX_AVAILABILITY_DAYS;
+
+// Calendar days are UTC dates, the same way storage compares booking ranges
+export function startOfUtcDay(date: Date): Date {
+  const day = new Date(date);
+  day.setUTCHours(0, 0, 0, 0);
+  return day;
+}
+
+export function toDayKey(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+// Half-open time range covering calendar days `startDate` to `endDate` inclusive
+export function wholeDays(startDate: Date, endDate: Date): [Date, Date] {
+  return [startOfUtcDay(startDate), new Date(startOfUtcDay(endDate).getTime() + DAY_MS)];
+}
+
+// Blackouts name whole days, both ends included
+function blackoutCoversDay(blackout: { startDate: Date; endDate: Date }, dayStart: number): boolean {
+  return new Date(blackout.startDate).getTime() < dayStart + DAY_MS &&
+    new Date(blackout.endDate).getTime() >= dayStart;
+}
+
+export function exceedsMaxRental(startDate: Date, endDate: Date): boolean {
+  return endDate.getTime() - startDate.getTime() > MAX_RENTAL_DAYS * DAY_MS;
+}
+
+// Turn a requested rental into the half-open time range a booking holds.
+// Day rentals name calendar days and run from the first day's midnight to
+// the midnight after the last day; hour rentals carry exact times.
+export function resolveRentalPeriod(
+  equipment: Equipment,
+  unit: RentalUnit,
+  start: Date,
+  end: Date,
+  now: Date = new Date(),
+): { startDate: Date; endDate: Date; hours: number } {
+  if (isNaN(start.getTime()) || isNaN(end.getTime())) {
+    throw new InvalidRentalPeriodError('Invalid start or end date');
+  }
+
+  if (unit === 'hour') {
+    if (!equipment.hourlyRate) {
+      throw new InvalidRentalPeriodError('This equipment is not offered by the hour');
+    }
+    const duration = end.getTime() - start.getTime();
+    if (duration <= 0 || duration % HOUR_MS !== 0) {
+      throw new InvalidRentalPeriodError('Hourly rentals must last a whole number of hours');
+    }
+    if (exceedsMaxRental(start, end)) {
+      throw new InvalidRentalPeriodError(`Rentals cannot be longer than ${MAX_RENTAL_DAYS} days`);
+    }
+    if (start < now) {
+      throw new InvalidRentalPeriodError('Rental cannot start in the past');
+    }
+    return { startDate: start, endDate: end, hours: duration / HOUR_MS };
+  }
+
+  const [startDate, endDate] = wholeDays(start, end);
+  if (endDate <= startDate) {
+    throw new InvalidRentalPeriodError('End date must be on or after the start date');
+  }
+  if (exceedsMaxRental(startDate, endDate)) {
+    throw new InvalidRentalPeriodError(`Rentals cannot be longer than ${MAX_RENTAL_DAYS} days`);
+  }
+  if (startDate < startOfUtcDay(now)) {
+    throw new InvalidRentalPeriodError('Rental cannot start in the past');
+  }
+  return { startDate, endDate, hours: (endDate.getTime() - startDate.getTime()) / HOUR_MS };
+}
+
+// Active bookings on an equipment that overlap the half-open range [startDate, endDate)
+export async function findBookingConflicts(equipmentId: number, startDate: Date, endDate: Date): Promise<Booking[]> {
+  const bookings = await storage.getBookingsByDateRange(equipmentId, startDate, endDate);
+  return bookings.filter(booking =>
+    (activeBookingStatuses as string[]).includes(booking.status)
+  );
+}
+
+// Status of every day from startDate to endDate inclusive. A day is booked
+// when active bookings cover all of it and partial when they cover some of
+// it; it is blocked when it falls in an owner blackout or the listing is
+// paused.
+export async function getAvailabilityMap(
+  equipment: Equipment,
+  startDate: Date,
+  endDate: Date,
+): Promise<AvailabilityDay[]> {
+  const first = startOfUtcDay(startDate).getTime();
+  const last = startOfUtcDay(endDate).getTime();
+
+  const [activeBookings, blackouts] = await Promise.all([
+    findBookingConflicts(equipment.id, new Date(first), new Date(last + DAY_MS)),
+    storage.listBlackouts(equipment.id, new Date(first), new Date(last + DAY_MS - 1)),
+  ]);
+
+  const days: AvailabilityDay[] = [];
+  for (let day = first; day <= last; day += DAY_MS) {
+    const overlapping = activeBookings.filter(booking =>
+      booking.startDate.getTime() < day + DAY_MS && booking.endDate.getTime() > day
+    );
+
+    let status: DayStatus = 'free';
+    if (overlapping.some(booking => booking.startDate.getTime() <= day && booking.endDate.getTime() >= day + DAY_MS)) {
+      status = 'booked';
+    } else if (!equipment.availability || blackouts.some(blackout => blackoutCoversDay(blackout, day))) {
+      status = 'blocked';
+    } else if (overlapping.length > 0) {
+      status = 'partial';
+    }
+    days.push({ date: toDayKey(new Date(day)), status });
+  }
+
+  return days;
+}
@@ -0,0 +1,148 @@
+import { storage, type NewBooking } from "./storage";
+import { issueInvoice } from "./invoices";
+import { recordPayment } from "./ledger";
+import { offerFreedDates } from "./waitlist";
+import { hasPermission } from "@shared/permissions";
+import { canTransition } from "@shared/booking-transitions";
+import { activeBookingStatuses, type Booking, type BookingStatus, type Equipment } from "@shared/schema";
+
+// Who caused a status change. `system` covers background jobs,
+// `webhook` covers events pushed by the payment provider.
+export type BookingActorType = 'user' | 'owner' | 'admin' | 'system' | 'webhook';
+
+export interface BookingActor {
+  id: number | null;
+  type: BookingActorType;
+}
+
+// A signed-in user; staff who may act on any booking are recorded as admins
+export function userActor(user: Express.User): BookingActor {
+  return { id: user.id, type: hasPermission(user, 'bookings:manage_any') ? 'admin' : 'user' };
+}
+
+// The equipment owner acting on a booking of their equipment
+export function ownerActor(user: Express.User): BookingActor {
+  return { id: user.id, type: 'owner' };
+}
+
+// Someone acting on a booking of a listing they manage: the owner, or staff
+// acting for them
+export function listingActor(user: Express.User, equipment: Equipment): BookingActor {
+  return equipment.ownerId === user.id ? ownerActor(user) : { id: user.id, type: 'admin' };
+}
+
+// The two sides of a rental
+export type BookingParty = 'owner' | 'renter';
+
+export function bookingParty(booking: Booking, equipment: Equipment, userId: number): BookingParty | null {
+  if (equipment.ownerId === userId) return 'owner';
+  if (booking.userId === userId) return 'renter';
+  return null;
+}
+
+export const systemActor: BookingActor = { id: null, type: 'system' };
+export const webhookActor: BookingActor = { id: null, type: 'webhook' };
+
+export class InvalidBookingTransitionError extends Error {
+  constructor(
+    public readonly bookingId: number,
+    public readonly from: string,
+    public readonly to: string,
+  ) {
+    super(`Booking ${bookingId} cannot move from '${from}' to '${to}'`);
+    this.name = 'InvalidBookingTransitionError';
+  }
+}
+
+export class BookingNotFoundError extends Error {
+  constructor(public readonly bookingId: number) {
+    super(`Booking ${bookingId} not found`);
+    this.name = 'BookingNotFoundError';
+  }
+}
+
+// Create a booking in its initial state and record it in the history.
+// Throws BookingOverlapError when its dates are already booked or blocked.
+export async function openBooking(
+  data: NewBooking,
+  actor: BookingActor,
+): Promise<Booking> {
+  const depositStatus = data.depositAmount ? 'pending' : null;
+  return storage.createBookingExclusive({ ...data, depositStatus, status: 'pending' }, {
+    fromStatus: null,
+    toStatus: 'pending',
+    actorId: actor.id,
+    actorType: actor.type,
+    reason: 'Booking created',
+  });
+}
+
+// Move a booking to a new state, applying any extra field changes atomically
+// with the status update. Throws InvalidBookingTransitionError when the move
+// is not allowed from the booking's current state, and BookingOverlapError
+// when it would retake dates that are no longer free.
+export async function transitionBooking(
+  bookingId: number,
+  to: BookingStatus,
+  actor: BookingActor,
+  options: { reason?: string; data?: Partial<Omit<Booking, 'id' | 'status'>> } = {},
+): Promise<Booking> {
+  const booking = await storage.getBooking(bookingId);
+  if (!booking) {
+    throw new BookingNotFoundError(bookingId);
+  }
+
+  if (!canTransition(booking.status, to)) {
+    throw new InvalidBookingTransitionError(bookingId, booking.status, to);
+  }
+
+  // The deposit is held from the moment the payment that carries it lands
+  const depositData = to === 'paid' && booking.depositStatus === 'pending' ? { depositStatus: 'held' } : {};
+
+  const updated = await storage.applyBookingTransition(
+    bookingId,
+    booking.status,
+    { ...options.data, ...depositData, status: to },
+    {
+      bookingId,
+      fromStatus: booking.status,
+      toStatus: to,
+      actorId: actor.id,
+      actorType: actor.type,
+      reason: options.reason ?? null,
+    },
+  );
+
+  // Someone else moved the booking between our read and write
+  if (!updated) {
+    const current = await storage.getBooking(bookingId);
+    throw new InvalidBookingTransitionError(bookingId, current?.status ?? booking.status, to);
+  }
+
+  // Issue the tax invoice as the payment lands so invoice numbers follow
+  // payment order. Any that fail here are issued on first download.
+  if (to === 'paid') {
+    try {
+      await issueInvoice(updated);
+    } catch (error) {
+      console.error(`Failed to issue invoice for booking ${bookingId}:`, error);
+    }
+    // A payment missing from the ledger is posted with its first refund
+    try {
+      await recordPayment(updated);
+    } catch (error) {
+      console.error(`Failed to post payment for booking ${bookingId} to the ledger:`, error);
+    }
+  }
+
+  // Dates a booking no longer holds go to whoever is waiting for them
+  if ((activeBookingStatuses as string[]).includes(booking.status) && !(activeBookingStatuses as string[]).includes(to)) {
+    try {
+      await offerFreedDates(updated.equipmentId);
+    } catch (error) {
+      console.error(`Failed to offer dates freed by booking ${bookingId} to the waitlist:`, error);
+    }
+  }
+
+  return updated;
+}
@@ -0,0 +1,115 @@
+import { storage } from "./storage";
+import { createPaymentSession } from "./payment";
+import { amountDue } from "./deposits";
+import { notify } from "./notifications";
+import { transitionBooking, systemActor, InvalidBookingTransitionError, type BookingActor } from "./booking-lifecycle";
+import type { Booking, Equipment } from "@shared/schema";
+
+export class BookingRequestError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BookingRequestError';
+  }
+}
+
+const DEFAULT_REQUEST_HOURS = 24;
+
+// How long an owner has to answer a booking request, and the renter then
+// has to pay for it, from BOOKING_REQUEST_HOURS
+export function requestWindowMs(): number {
+  const hours = Number(process.env.BOOKING_REQUEST_HOURS);
+  return (Number.isFinite(hours) && hours > 0 ? hours : DEFAULT_REQUEST_HOURS) * 60 * 60 * 1000;
+}
+
+export function requiresApproval(equipment: Equipment): boolean {
+  return equipment.bookingMode === 'request';
+}
+
+// End of the request window, brought forward to the rental's start when
+// that comes sooner and is still ahead
+function windowEnd(booking: Booking, now: number = Date.now()): Date {
+  const end = now + requestWindowMs();
+  const start = booking.startDate.getTime();
+  return new Date(start > now ? Math.min(end, start) : end);
+}
+
+// Send a new booking to the owner to approve. The request holds its dates
+// until the owner answers or the deadline passes.
+export async function placeRequest(booking: Booking, equipment: Equipment, actor: BookingActor): Promise<Booking> {
+  const respondBy = windowEnd(booking);
+  const requested = await transitionBooking(booking.id, 'requested', actor, {
+    reason: 'Waiting for owner approval',
+    data: { respondBy },
+  });
+
+  await notify(
+    equipment.ownerId,
+    'booking_requested',
+    `New booking request #${booking.id} for ${equipment.name}. Approve or decline it before ${respondBy.toUTCString()}.`,
+    '/dashboard',
+  );
+  return requested;
+}
+
+// Owner accepts a request. A payment order is opened and the renter has
+// the request window to pay; until then the dates stay held.
+export async function approveRequest(booking: Booking, equipment: Equipment, actor: BookingActor): Promise<Booking> {
+  if (booking.status !== 'requested') {
+    throw new BookingRequestError(`Booking is ${booking.status}, not waiting for approval`);
+  }
+
+  const order = await createPaymentSession(booking.id, amountDue(booking), equipment.name);
+  const holdExpiresAt = windowEnd(booking);
+  const approved = await transitionBooking(booking.id, 'awaiting_payment', actor, {
+    reason: 'Approved by owner',
+    data: { razorpayOrderId: order.id, holdExpiresAt },
+  });
+
+  await notify(
+    booking.userId,
+    'booking_request_approved',
+    `Your request to book ${equipment.name} was approved. Pay to confirm it.`,
+    `/booking/${booking.id}`,
+  );
+  return approved;
+}
+
+// Owner turns a request down, or it lapses unanswered. Nothing was paid,
+// so nothing is refunded.
+export async function declineRequest(booking: Booking, actor: BookingActor, reason?: string): Promise<Booking> {
+  if (booking.status !== 'requested') {
+    throw new BookingRequestError(`Booking is ${booking.status}, not waiting for approval`);
+  }
+
+  const declined = await transitionBooking(booking.id, 'declined', actor, {
+    reason: reason || 'Declined by owner',
+  });
+
+  const equipment = await storage.getEquipment(booking.equipmentId);
+  await notify(
+    booking.userId,
+    'booking_request_declined',
+    `Your request to book ${equipment?.name ?? 'the equipment'} was declined${reason ? `: ${reason}` : '.'}`,
+    `/booking/${booking.id}`,
+  );
+  return declined;
+}
+
+// Decline every request the owner left unanswered past its deadline.
+// Returns the number declined.
+export async function declineLapsedRequests(now: Date = new Date()): Promise<number> {
+  const lapsed = await storage.listLapsedRequests(now);
+  let declined = 0;
+
+  for (const booking of lapsed) {
+    try {
+      await declineRequest(booking, systemActor, 'The owner did not respond in time');
+      declined++;
+    } catch (error) {
+      // The owner answered between listing and declining
+      if (error instanceof InvalidBookingTransitionError) continue;
+      console.error(`Failed to decline lapsed request ${booking.id}:`, error);
+    }
+  }
+  return declined;
+}
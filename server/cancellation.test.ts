@@ -0,0 +1,143 @@
+// Cancellation refund quotes. Run with `npm test`.
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { quoteCancellation, platformCancellationPolicy } from "./cancellation";
+import type { Booking, CancellationPolicy, Equipment } from "@shared/schema";
+
+const HOUR_MS = 60 * 60 * 1000;
+const START = new Date('2026-06-10T00:00:00Z');
+
+function hoursBefore(hours: number): Date {
+  return new Date(START.getTime() - hours * HOUR_MS);
+}
+
+function equipmentWith(cancellationPolicy: CancellationPolicy | null = null): Equipment {
+  return {
+    id: 1,
+    ownerId: 1,
+    name: 'Test tractor',
+    description: 'Used by the cancellation tests',
+    category: 'tractors',
+    dailyRate: 1000,
+    hourlyRate: null,
+    halfDayRate: null,
+    weeklyRate: null,
+    depositAmount: 500,
+    imageUrl: '/uploads/test.jpg',
+    location: 'Test',
+    availability: true,
+    bookingMode: 'instant',
+    specs: {},
+    features: [],
+    createdAt: new Date(0),
+    popularity: 0,
+    cancellationPolicy,
+  };
+}
+
+// A paid three-day booking with its deposit held
+function bookingWith(fields: Partial<Booking> = {}): Booking {
+  return {
+    id: 1,
+    equipmentId: 1,
+    userId: 2,
+    startDate: START,
+    endDate: new Date(START.getTime() + 72 * HOUR_MS),
+    rentalUnit: 'day',
+    totalPrice: 3000,
+    discountAmount: 0,
+    promoCodeId: null,
+    depositAmount: 500,
+    depositStatus: 'held',
+    depositWithheld: 0,
+    depositClaimAmount: null,
+    depositClaimReason: null,
+    depositResolutionNote: null,
+    status: 'paid',
+    razorpayOrderId: 'order_test',
+    razorpayPaymentId: 'pay_test',
+    checkoutOrderId: null,
+    holdExpiresAt: null,
+    respondBy: null,
+    returnRequestedAt: null,
+    returnedAt: null,
+    isRated: false,
+    createdAt: new Date(0),
+    lastStatusUpdate: new Date(0),
+    ...fields,
+  };
+}
+
+test('quoteCancellation refunds in full early under the platform policy', () => {
+  const quote = quoteCancellation(bookingWith(), equipmentWith(), hoursBefore(72));
+
+  assert.deepEqual(quote, {
+    cancellable: true,
+    policy: platformCancellationPolicy,
+    hoursBeforeStart: 72,
+    refundPercent: 100,
+    depositRefund: 500,
+    refundAmount: 3500,
+  });
+});
+
+test('quoteCancellation refunds half inside the last 48 hours', () => {
+  const quote = quoteCancellation(bookingWith(), equipmentWith(), hoursBefore(24));
+
+  assert.equal(quote.refundPercent, 50);
+  assert.equal(quote.refundAmount, 1500 + 500);
+});
+
+test('quoteCancellation returns only the deposit once the rental has started', () => {
+  const quote = quoteCancellation(bookingWith(), equipmentWith(), new Date(START.getTime() + HOUR_MS));
+
+  assert.equal(quote.refundPercent, 0);
+  assert.equal(quote.refundAmount, 500);
+});
+
+test("quoteCancellation uses the owner's policy, whatever order its tiers are in", () => {
+  const policy: CancellationPolicy = {
+    tiers: [
+      { hoursBeforeStart: 24, refundPercent: 50 },
+      { hoursBeforeStart: 168, refundPercent: 100 },
+      { hoursBeforeStart: 0, refundPercent: 10 },
+    ],
+  };
+  const equipment = equipmentWith(policy);
+
+  assert.equal(quoteCancellation(bookingWith(), equipment, hoursBefore(200)).refundPercent, 100);
+  assert.equal(quoteCancellation(bookingWith(), equipment, hoursBefore(48)).refundPercent, 50);
+  assert.equal(quoteCancellation(bookingWith(), equipment, hoursBefore(2)).refundPercent, 10);
+  assert.equal(quoteCancellation(bookingWith(), equipment, hoursBefore(2)).policy, policy);
+});
+
+test('quoteCancellation rounds the refund down to whole rupees', () => {
+  const quote = quoteCancellation(bookingWith({ totalPrice: 999, depositAmount: 0, depositStatus: null }), equipmentWith(), hoursBefore(24));
+
+  assert.equal(quote.refundAmount, 499);
+});
+
+test('quoteCancellation refunds nothing on a booking that was never paid', () => {
+  const unpaid = quoteCancellation(
+    bookingWith({ status: 'awaiting_payment', razorpayPaymentId: null, depositStatus: 'pending' }),
+    equipmentWith(),
+    hoursBefore(72),
+  );
+  assert.deepEqual([unpaid.cancellable, unpaid.refundPercent, unpaid.depositRefund, unpaid.refundAmount], [true, 0, 0, 0]);
+
+  // Paid status without a captured payment has nothing to refund either
+  const uncaptured = quoteCancellation(bookingWith({ razorpayPaymentId: null }), equipmentWith(), hoursBefore(72));
+  assert.equal(uncaptured.refundAmount, 0);
+});
+
+test('quoteCancellation leaves out a deposit that is no longer held', () => {
+  const quote = quoteCancellation(bookingWith({ depositStatus: 'released' }), equipmentWith(), hoursBefore(72));
+
+  assert.equal(quote.depositRefund, 0);
+  assert.equal(quote.refundAmount, 3000);
+});
+
+test('quoteCancellation marks bookings past cancelling as not cancellable', () => {
+  assert.equal(quoteCancellation(bookingWith({ status: 'in_use' }), equipmentWith(), hoursBefore(72)).cancellable, false);
+  assert.equal(quoteCancellation(bookingWith({ status: 'completed' }), equipmentWith(), hoursBefore(72)).cancellable, false);
+});
@@ -0,0 +1,60 @@
+import type { Booking, CancellationPolicy, Equipment } from "@shared/schema";
+import { canTransition } from "@shared/booking-transitions";
+
+// Applied to equipment whose owner has not set a policy of their own:
+// full refund more than 48 hours before the start, half refund after that,
+// nothing once the rental has started. Half of the days left unused on an
+// early return are refunded.
+export const platformCancellationPolicy: CancellationPolicy = {
+  tiers: [
+    { hoursBeforeStart: 48, refundPercent: 100 },
+    { hoursBeforeStart: 0, refundPercent: 50 },
+  ],
+  earlyReturnRefundPercent: 50,
+};
+
+// Statuses in which money has been captured for the booking
+const paidStatuses = ['paid', 'approved'];
+
+export interface CancellationQuote {
+  cancellable: boolean;
+  policy: CancellationPolicy;
+  hoursBeforeStart: number;
+  refundPercent: number;
+  // The deposit always goes back in full on top of the policy refund
+  depositRefund: number;
+  refundAmount: number;
+}
+
+export function getCancellationPolicy(equipment: Equipment): CancellationPolicy {
+  return equipment.cancellationPolicy ?? platformCancellationPolicy;
+}
+
+export function quoteCancellation(
+  booking: Booking,
+  equipment: Equipment,
+  now: Date = new Date(),
+): CancellationQuote {
+  const policy = getCancellationPolicy(equipment);
+  const hoursBeforeStart = (new Date(booking.startDate).getTime() - now.getTime()) / (1000 * 3600);
+
+  const paid = paidStatuses.includes(booking.status) && !!booking.razorpayPaymentId;
+  const depositRefund = paid && booking.depositStatus === 'held' ? booking.depositAmount : 0;
+
+  let refundPercent = 0;
+  if (hoursBeforeStart >= 0 && paid) {
+    const tier = [...policy.tiers]
+      .sort((a, b) => b.hoursBeforeStart - a.hoursBeforeStart)
+      .find(t => hoursBeforeStart >= t.hoursBeforeStart);
+    refundPercent = tier?.refundPercent ?? 0;
+  }
+
+  return {
+    cancellable: canTransition(booking.status, 'cancelled'),
+    policy,
+    hoursBeforeStart: Math.floor(hoursBeforeStart),
+    refundPercent,
+    depositRefund,
+    refundAmount: Math.floor(booking.totalPrice * refundPercent / 100) + depositRefund,
+  };
+}
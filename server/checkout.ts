@@ -0,0 +1,189 @@
+import { storage, BookingOverlapError, type NewBooking } from "./storage";
+import { createCheckoutPaymentSession } from "./payment";
+import { amountDue } from "./deposits";
+import { quoteRental } from "./quotes";
+import { resolveRentalPeriod, InvalidRentalPeriodError } from "./availability";
+import { holdExpiresAt, isHoldExpired, refundLateCapture } from "./hold-expiry";
+import { requiresApproval } from "./booking-requests";
+import { transitionBooking, InvalidBookingTransitionError, type BookingActor } from "./booking-lifecycle";
+import { canTransition } from "@shared/booking-transitions";
+import type { Booking, CheckoutItem, CheckoutOrder, Refund } from "@shared/schema";
+
+// Why a cart cannot be checked out. `itemIndex` points at the cart item at
+// fault, when there is one.
+export class CheckoutError extends Error {
+  constructor(message: string, public readonly itemIndex?: number) {
+    super(message);
+    this.name = 'CheckoutError';
+  }
+}
+
+// Statuses in which a checkout booking still waits for the shared payment
+const payableStatuses = ['awaiting_payment', 'payment_failed'];
+
+// Price one cart item the same way a single booking is priced
+async function prepareItem(userId: number, item: CheckoutItem, index: number): Promise<NewBooking & { equipmentName: string }> {
+  const equipment = await storage.getEquipment(item.equipmentId);
+  if (!equipment) {
+    throw new CheckoutError('Equipment not found', index);
+  }
+  if (!equipment.availability) {
+    throw new CheckoutError(`${equipment.name} is currently paused by its owner`, index);
+  }
+  if (requiresApproval(equipment)) {
+    throw new CheckoutError(`${equipment.name} needs the owner's approval. Request it on its own instead.`, index);
+  }
+
+  let period;
+  try {
+    period = resolveRentalPeriod(equipment, item.rentalUnit, new Date(item.startDate), new Date(item.endDate));
+  } catch (error) {
+    if (error instanceof InvalidRentalPeriodError) {
+      throw new CheckoutError(`${equipment.name}: ${error.message}`, index);
+    }
+    throw error;
+  }
+
+  const quote = await quoteRental(equipment, period.startDate, period.endDate);
+  if (quote.total <= 0) {
+    throw new CheckoutError(`${equipment.name}: the pricing rules for these dates leave nothing to charge`, index);
+  }
+
+  return {
+    equipmentId: equipment.id,
+    equipmentName: equipment.name,
+    userId,
+    status: 'pending',
+    rentalUnit: item.rentalUnit,
+    startDate: period.startDate,
+    endDate: period.endDate,
+    totalPrice: quote.total,
+    depositAmount: equipment.depositAmount ?? 0,
+    depositStatus: equipment.depositAmount ? 'pending' : null,
+  };
+}
+
+// Book every cart item at once and open one payment order for all of them.
+// Either every booking is created or none is: BookingOverlapError names the
+// equipment whose dates were taken.
+export async function placeCheckout(userId: number, items: CheckoutItem[], actor: BookingActor) {
+  const prepared: (NewBooking & { equipmentName: string })[] = [];
+  for (let index = 0; index < items.length; index++) {
+    prepared.push(await prepareItem(userId, items[index], index));
+  }
+
+  const totalAmount = prepared.reduce((sum, item) => sum + item.totalPrice + (item.depositAmount ?? 0), 0);
+  const { order, bookings } = await storage.createCheckoutOrder(
+    { userId, totalAmount },
+    prepared.map(({ equipmentName, ...item }) => item),
+    {
+      fromStatus: null,
+      toStatus: 'pending',
+      actorId: actor.id,
+      actorType: actor.type,
+      reason: 'Booking created in cart checkout',
+    },
+  );
+
+  try {
+    const session = await createCheckoutPaymentSession(order.id, totalAmount, bookings.length);
+    const updatedOrder = await storage.updateCheckoutOrder(order.id, { razorpayOrderId: session.id });
+
+    // Every booking in the cart keeps its dates for the same window
+    const holdUntil = holdExpiresAt();
+    const updatedBookings: Booking[] = [];
+    for (const booking of bookings) {
+      updatedBookings.push(await transitionBooking(booking.id, 'awaiting_payment', actor, {
+        reason: 'Payment order created',
+        data: { holdExpiresAt: holdUntil }
+      }));
+    }
+
+    return { order: updatedOrder, bookings: updatedBookings, session };
+  } catch (error) {
+    console.error(`Error creating payment order for checkout ${order.id}:`, error);
+    for (const booking of bookings) {
+      await transitionBooking(booking.id, 'payment_failed', actor, {
+        reason: 'Payment order creation failed'
+      }).catch(() => undefined);
+    }
+    throw error;
+  }
+}
+
+// Open a fresh payment order for whatever in the checkout is still unpaid,
+// e.g. after a failed attempt or once a booking in it has been cancelled
+export async function renewCheckoutPayment(order: CheckoutOrder) {
+  const bookings = await storage.listCheckoutBookings(order.id);
+  const payable = bookings.filter(booking => payableStatuses.includes(booking.status));
+
+  if (payable.length === 0) {
+    throw new CheckoutError('Nothing in this checkout is waiting for payment');
+  }
+  if (payable.some(booking => isHoldExpired(booking))) {
+    throw new CheckoutError('The hold on this checkout has expired. Please book again.');
+  }
+
+  const totalAmount = payable.reduce((sum, booking) => sum + amountDue(booking), 0);
+  const session = await createCheckoutPaymentSession(order.id, totalAmount, payable.length);
+  await storage.updateCheckoutOrder(order.id, { razorpayOrderId: session.id, totalAmount });
+  return session;
+}
+
+// Apply a captured checkout payment to each of its bookings. Bookings that
+// can no longer be paid (expired, cancelled, or their dates were taken) get
+// their share of the payment refunded. Safe to call again for the same
+// payment: bookings that already carry it are skipped.
+export async function applyCheckoutPayment(
+  order: CheckoutOrder,
+  paymentId: string,
+  actor: BookingActor,
+): Promise<{ paid: Booking[]; refunds: Refund[] }> {
+  if (order.razorpayPaymentId !== paymentId) {
+    await storage.updateCheckoutOrder(order.id, { razorpayPaymentId: paymentId });
+  }
+
+  const paid: Booking[] = [];
+  const refunds: Refund[] = [];
+
+  for (const booking of await storage.listCheckoutBookings(order.id)) {
+    if (booking.razorpayPaymentId === paymentId) continue;
+
+    if (!canTransition(booking.status, 'paid')) {
+      refunds.push(await refundLateCapture(booking, paymentId, actor,
+        `Payment received after the booking was ${booking.status}`));
+      continue;
+    }
+
+    try {
+      paid.push(await transitionBooking(booking.id, 'paid', actor, {
+        reason: 'Checkout payment captured',
+        data: { razorpayPaymentId: paymentId }
+      }));
+    } catch (error) {
+      // Paid by a concurrent delivery of the same payment
+      if (error instanceof InvalidBookingTransitionError) continue;
+      if (!(error instanceof BookingOverlapError)) throw error;
+      refunds.push(await refundLateCapture(booking, paymentId, actor,
+        'Dates were booked by someone else before payment completed'));
+    }
+  }
+
+  return { paid, refunds };
+}
+
+// Mark the bookings still waiting on a checkout payment as failed. Returns
+// how many moved.
+export async function failCheckoutPayment(order: CheckoutOrder, reason: string, actor: BookingActor): Promise<number> {
+  let failed = 0;
+  for (const booking of await storage.listCheckoutBookings(order.id)) {
+    if (booking.status !== 'awaiting_payment') continue;
+    try {
+      await transitionBooking(booking.id, 'payment_failed', actor, { reason });
+      failed++;
+    } catch (error) {
+      if (!(error instanceof InvalidBookingTransitionError)) throw error;
+    }
+  }
+  return failed;
+}
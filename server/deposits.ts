@@ -0,0 +1,159 @@
+import { storage } from "./storage";
+import { issueRefund } from "./refunds";
+import { recordDepositWithheld } from "./ledger";
+import type { BookingActor } from "./booking-lifecycle";
+import type { Booking, DepositStatus, Refund } from "@shared/schema";
+
+export class DepositError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DepositError';
+  }
+}
+
+// Bookings in these statuses have been handed back, so the owner can settle
+// the deposit
+const settleableStatuses = ['returned', 'completed'];
+
+// What the renter pays: the rental price and the deposit, in one payment
+export function amountDue(booking: Booking): number {
+  return booking.totalPrice + booking.depositAmount;
+}
+
+function assertDepositState(booking: Booking, expected: DepositStatus) {
+  if (!booking.depositAmount || !booking.depositStatus) {
+    throw new DepositError('This booking has no deposit');
+  }
+  if (booking.depositStatus !== expected) {
+    throw new DepositError(`The deposit is ${booking.depositStatus.replace('_', ' ')}`);
+  }
+}
+
+// Move the deposit out of `from`, refund `refundAmount` of it, and put it
+// back in `from` if the refund cannot be issued so it can be settled again
+async function settleDeposit(
+  booking: Booking,
+  from: DepositStatus,
+  data: Partial<Booking>,
+  refundAmount: number,
+  reason: string,
+  actor: BookingActor,
+): Promise<{ booking: Booking; refund: Refund | null }> {
+  const updated = await storage.updateDepositState(booking.id, from, data);
+  if (!updated) {
+    throw new DepositError('The deposit was settled by someone else');
+  }
+
+  let refund: Refund | null = null;
+  if (refundAmount > 0) {
+    try {
+      refund = await issueRefund(updated, { amount: refundAmount, depositAmount: refundAmount, reason, actor });
+    } catch (error) {
+      await storage.updateDepositState(booking.id, data.depositStatus!, {
+        depositStatus: from,
+        depositWithheld: booking.depositWithheld,
+      });
+      throw error;
+    }
+  }
+
+  return { booking: (await storage.getBooking(booking.id)) ?? updated, refund };
+}
+
+// Owner returns the whole deposit after the equipment came back undamaged
+export async function releaseDeposit(booking: Booking, actor: BookingActor) {
+  assertDepositState(booking, 'held');
+  if (!settleableStatuses.includes(booking.status)) {
+    throw new DepositError('The deposit can only be settled after the equipment is returned');
+  }
+
+  return settleDeposit(booking, 'held', { depositStatus: 'released' },
+    booking.depositAmount, 'Deposit released by owner', actor);
+}
+
+// Owner asks to keep part or all of the deposit. Nothing moves until an
+// admin resolves the claim.
+export async function claimDeposit(booking: Booking, amount: number, reason: string): Promise<Booking> {
+  assertDepositState(booking, 'held');
+  if (!settleableStatuses.includes(booking.status)) {
+    throw new DepositError('The deposit can only be settled after the equipment is returned');
+  }
+  if (!Number.isInteger(amount) || amount <= 0 || amount > booking.depositAmount) {
+    throw new DepositError(`Claim must be a whole amount between ₹1 and ₹${booking.depositAmount}`);
+  }
+  if (!reason.trim()) {
+    throw new DepositError('A reason is required to claim a deposit');
+  }
+
+  const updated = await storage.updateDepositState(booking.id, 'held', {
+    depositStatus: 'claimed',
+    depositClaimAmount: amount,
+    depositClaimReason: reason.trim(),
+  });
+  if (!updated) {
+    throw new DepositError('The deposit was settled by someone else');
+  }
+  return updated;
+}
+
+// Keep `withheldAmount` of the deposit for the owner and return the rest
+async function withholdDeposit(
+  booking: Booking,
+  from: DepositStatus,
+  withheldAmount: number,
+  note: string | null,
+  reason: string,
+  actor: BookingActor,
+) {
+  if (!Number.isInteger(withheldAmount) || withheldAmount < 0 || withheldAmount > booking.depositAmount) {
+    throw new DepositError(`Withheld amount must be between ₹0 and ₹${booking.depositAmount}`);
+  }
+
+  const depositStatus: DepositStatus = withheldAmount === 0 ? 'released'
+    : withheldAmount === booking.depositAmount ? 'withheld'
+    : 'partially_withheld';
+
+  const result = await settleDeposit(booking, from, {
+    depositStatus,
+    depositWithheld: withheldAmount,
+    depositResolutionNote: note,
+  }, booking.depositAmount - withheldAmount, reason, actor);
+
+  try {
+    await recordDepositWithheld(result.booking, withheldAmount);
+  } catch (error) {
+    console.error(`Failed to post withheld deposit for booking ${booking.id} to the ledger:`, error);
+  }
+  return result;
+}
+
+// Admin decides how much of a claimed deposit the owner keeps; the rest goes
+// back to the renter
+export async function resolveDepositClaim(
+  booking: Booking,
+  withheldAmount: number,
+  note: string | null,
+  actor: BookingActor,
+) {
+  assertDepositState(booking, 'claimed');
+  return withholdDeposit(booking, 'claimed', withheldAmount, note,
+    `Deposit claim resolved, ₹${withheldAmount} withheld`, actor);
+}
+
+// Settle the deposit as the outcome of a dispute, whether or not the owner
+// had claimed it
+export async function settleDepositInDispute(
+  booking: Booking,
+  withheldAmount: number,
+  note: string | null,
+  actor: BookingActor,
+) {
+  if (booking.depositStatus !== 'claimed') {
+    assertDepositState(booking, 'held');
+  }
+  if (!settleableStatuses.includes(booking.status)) {
+    throw new DepositError('The deposit can only be settled after the equipment is returned');
+  }
+  return withholdDeposit(booking, booking.depositStatus as DepositStatus, withheldAmount, note,
+    `Dispute resolved, ₹${withheldAmount} of the deposit withheld`, actor);
+}
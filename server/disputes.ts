@@ -0,0 +1,260 @@
+import { storage, type DisputeWithBooking } from "./storage";
+import { notify } from "./notifications";
+import { issueRefund, rentalRefundable } from "./refunds";
+import { settleDepositInDispute } from "./deposits";
+import { recordOwnerPenalty } from "./ledger";
+import { bookingParty, userActor } from "./booking-lifecycle";
+import { hasPermission } from "@shared/permissions";
+import {
+  unresolvedDisputeStatuses,
+  type Booking,
+  type Dispute,
+  type DisputeMessage,
+  type DisputeMessageKind,
+  type Equipment,
+  type OpenDispute,
+  type ResolveDispute,
+} from "@shared/schema";
+
+export class DisputeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DisputeError';
+  }
+}
+
+// A dispute can be raised once the equipment has changed hands
+const disputableStatuses = ['in_use', 'returned', 'completed'];
+
+// The deposit can be settled once the equipment is back
+const returnedStatuses = ['returned', 'completed'];
+
+// `admin` covers all staff who moderate disputes, support agents included
+export type DisputeRole = 'owner' | 'renter' | 'admin';
+
+// How `user` takes part in a dispute, or null when they may not see it
+export function disputeRole(dispute: DisputeWithBooking, user: Express.User): DisputeRole | null {
+  if (dispute.ownerId === user.id) return 'owner';
+  if (dispute.renterId === user.id) return 'renter';
+  return hasPermission(user, 'disputes:moderate') ? 'admin' : null;
+}
+
+// Let the other side, or both sides when an admin acts, know about a change
+async function notifyParties(
+  dispute: DisputeWithBooking,
+  except: number | null,
+  kind: 'dispute_opened' | 'dispute_message' | 'dispute_resolved',
+  message: string,
+) {
+  const recipients = [dispute.renterId, dispute.ownerId]
+    .filter((userId): userId is number => userId !== null && userId !== except);
+  for (const userId of recipients) {
+    await notify(userId, kind, message, `/booking/${dispute.bookingId}`);
+  }
+}
+
+export async function openDispute(
+  booking: Booking,
+  equipment: Equipment,
+  user: Express.User,
+  input: OpenDispute,
+  photoUrls: string[],
+): Promise<Dispute> {
+  const party = bookingParty(booking, equipment, user.id);
+  if (!party) {
+    throw new DisputeError('Only the owner and the renter can open a dispute');
+  }
+  if (!disputableStatuses.includes(booking.status)) {
+    throw new DisputeError('A dispute can only be opened once the equipment has been picked up');
+  }
+
+  const dispute = await storage.createDispute({
+    bookingId: booking.id,
+    openedBy: user.id,
+    openedByParty: party,
+    description: input.description,
+    claimedAmount: input.claimedAmount,
+  }, photoUrls);
+  if (!dispute) {
+    throw new DisputeError('This booking already has an open dispute');
+  }
+
+  const otherUserId = party === 'owner' ? booking.userId : equipment.ownerId;
+  await notify(
+    otherUserId,
+    'dispute_opened',
+    `A dispute was opened on booking #${booking.id} for ${equipment.name}. Please respond.`,
+    `/booking/${booking.id}`,
+  );
+  return dispute;
+}
+
+// Add to the timeline. The first reply from the party the dispute was
+// raised against is their response, which puts it in front of an admin.
+export async function postDisputeMessage(
+  dispute: DisputeWithBooking,
+  user: Express.User,
+  message: string,
+  photoUrls: string[],
+): Promise<DisputeMessage> {
+  const role = disputeRole(dispute, user);
+  if (!role) {
+    throw new DisputeError('Only the parties and admins can take part in a dispute');
+  }
+  if (!(unresolvedDisputeStatuses as string[]).includes(dispute.status)) {
+    throw new DisputeError(`This dispute is ${dispute.status}`);
+  }
+  if (!message.trim()) {
+    throw new DisputeError('Write a message');
+  }
+
+  let kind: DisputeMessageKind = 'comment';
+  if (dispute.status === 'open' && role !== 'admin' && role !== dispute.openedByParty) {
+    const responded = await storage.updateDisputeState(dispute.id, ['open'], { status: 'responded' });
+    if (responded) kind = 'response';
+  }
+
+  const posted = await storage.addDisputeMessage({
+    disputeId: dispute.id,
+    authorId: user.id,
+    authorRole: role,
+    kind,
+    message: message.trim(),
+    photos: photoUrls,
+  });
+
+  await notifyParties(dispute, user.id, 'dispute_message',
+    `New message in the dispute on booking #${dispute.bookingId}`);
+  return posted;
+}
+
+// The party who opened a dispute may drop it until it is resolved
+export async function withdrawDispute(dispute: DisputeWithBooking, user: Express.User): Promise<Dispute> {
+  if (dispute.openedBy !== user.id) {
+    throw new DisputeError('Only the party who opened the dispute can withdraw it');
+  }
+
+  const withdrawn = await storage.updateDisputeState(dispute.id, unresolvedDisputeStatuses, { status: 'withdrawn' });
+  if (!withdrawn) {
+    throw new DisputeError('This dispute has already been closed');
+  }
+
+  await storage.addDisputeMessage({
+    disputeId: dispute.id,
+    authorId: user.id,
+    authorRole: dispute.openedByParty,
+    kind: 'withdrawal',
+    message: 'Dispute withdrawn',
+    photos: [],
+  });
+  await notifyParties(dispute, user.id, 'dispute_resolved',
+    `The dispute on booking #${dispute.bookingId} was withdrawn`);
+  return withdrawn;
+}
+
+// Check an outcome against what the booking still allows before anything
+// is applied
+async function assertOutcomePossible(booking: Booking, outcome: ResolveDispute) {
+  if (outcome.depositWithheld > 0) {
+    if (outcome.depositWithheld > booking.depositAmount) {
+      throw new DisputeError(`Only ₹${booking.depositAmount} was paid as deposit`);
+    }
+    if (booking.depositStatus !== 'held' && booking.depositStatus !== 'claimed') {
+      throw new DisputeError('The deposit has already been settled');
+    }
+    if (!returnedStatuses.includes(booking.status)) {
+      throw new DisputeError('The deposit can only be withheld once the equipment is returned');
+    }
+  }
+  if (outcome.refundAmount > 0) {
+    const refundable = rentalRefundable(booking, await storage.listRefunds(booking.id));
+    if (outcome.refundAmount > refundable) {
+      throw new DisputeError(`At most ₹${refundable} of the rental can still be refunded`);
+    }
+  }
+}
+
+// Admin closes the dispute. The decision is recorded first; the deposit,
+// refund and penalty are then applied in turn, and any step that fails is
+// noted on the timeline for the admin to finish by hand.
+export async function resolveDispute(
+  dispute: DisputeWithBooking,
+  booking: Booking,
+  admin: Express.User,
+  outcome: ResolveDispute,
+): Promise<{ dispute: Dispute; failures: string[] }> {
+  await assertOutcomePossible(booking, outcome);
+
+  const resolved = await storage.updateDisputeState(dispute.id, unresolvedDisputeStatuses, {
+    status: 'resolved',
+    depositWithheld: outcome.depositWithheld,
+    refundAmount: outcome.refundAmount,
+    penaltyAmount: outcome.penaltyAmount,
+    penaltyParty: outcome.penaltyAmount > 0 ? outcome.penaltyParty ?? null : null,
+    resolutionNote: outcome.note,
+    resolvedBy: admin.id,
+    resolvedAt: new Date(),
+  });
+  if (!resolved) {
+    throw new DisputeError('This dispute has already been closed');
+  }
+
+  const actor = userActor(admin);
+  const reason = `Dispute #${dispute.id}: ${outcome.note}`;
+  const failures: string[] = [];
+  const attempt = async (step: string, action: () => Promise<unknown>) => {
+    try {
+      await action();
+    } catch (error) {
+      console.error(`Dispute ${dispute.id}: ${step} failed:`, error);
+      failures.push(`${step} failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  // With the equipment back, the decision settles the deposit either way
+  const depositOpen = booking.depositStatus === 'held' || booking.depositStatus === 'claimed';
+  if (depositOpen && returnedStatuses.includes(booking.status)) {
+    const step = outcome.depositWithheld > 0
+      ? `Withholding ₹${outcome.depositWithheld} of the deposit`
+      : 'Releasing the deposit';
+    await attempt(step, () => settleDepositInDispute(booking, outcome.depositWithheld, outcome.note, actor));
+  }
+  if (outcome.refundAmount > 0) {
+    const current = (await storage.getBooking(booking.id)) ?? booking;
+    await attempt(`Refunding ₹${outcome.refundAmount}`, () =>
+      issueRefund(current, { amount: outcome.refundAmount, depositAmount: 0, reason, actor }));
+  }
+  if (outcome.penaltyAmount > 0 && outcome.penaltyParty === 'owner') {
+    await attempt(`Recording the ₹${outcome.penaltyAmount} penalty`, () =>
+      recordOwnerPenalty(booking, dispute.id, outcome.penaltyAmount));
+  }
+
+  const summary = [
+    outcome.note,
+    outcome.depositWithheld > 0 && `Deposit withheld: ₹${outcome.depositWithheld}`,
+    outcome.refundAmount > 0 && `Refunded to the renter: ₹${outcome.refundAmount}`,
+    outcome.penaltyAmount > 0 && `Penalty against the ${outcome.penaltyParty}: ₹${outcome.penaltyAmount}`,
+  ].filter(Boolean).join('\n');
+  await storage.addDisputeMessage({
+    disputeId: dispute.id,
+    authorId: admin.id,
+    authorRole: 'admin',
+    kind: 'resolution',
+    message: summary,
+    photos: [],
+  });
+  for (const failure of failures) {
+    await storage.addDisputeMessage({
+      disputeId: dispute.id,
+      authorId: null,
+      authorRole: 'system',
+      kind: 'system',
+      message: failure,
+      photos: [],
+    });
+  }
+
+  await notifyParties(dispute, null, 'dispute_resolved',
+    `The dispute on booking #${dispute.bookingId} was resolved`);
+  return { dispute: resolved, failures };
+}
@@ -0,0 +1,184 @@
+// Concurrent bookings of one piece of equipment against a real database.
+// Needs DATABASE_URL pointing at a test database; the run fails without it.
+// Run with `npm test`.
+import { test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import type { AddressInfo } from "node:net";
+import type { Booking, Equipment, User } from "@shared/schema";
+
+const CONCURRENT_REQUESTS = 8;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Loaded lazily: importing the database module without DATABASE_URL throws
+let app: {
+  db: typeof import("./db");
+  storage: typeof import("./storage");
+  lifecycle: typeof import("./booking-lifecycle");
+  schema: typeof import("@shared/schema");
+  orm: typeof import("drizzle-orm");
+};
+
+let renter: User;
+let owner: User;
+let equipment: Equipment;
+// Users signed up through the API by the route test
+const registeredUserIds: number[] = [];
+
+// A day-aligned rental `offset` days from now, `days` long
+function period(offset: number, days: number) {
+  const start = new Date(Math.ceil(Date.now() / DAY_MS) * DAY_MS + offset * DAY_MS);
+  return { startDate: start, endDate: new Date(start.getTime() + days * DAY_MS) };
+}
+
+function bookingFor(dates: { startDate: Date; endDate: Date }) {
+  return {
+    equipmentId: equipment.id,
+    userId: renter.id,
+    ...dates,
+    rentalUnit: 'day',
+    status: 'pending',
+    totalPrice: equipment.dailyRate,
+  };
+}
+
+async function activeBookings(): Promise<Booking[]> {
+  const { db } = app.db;
+  const { bookings, activeBookingStatuses } = app.schema;
+  const { and, eq, inArray } = app.orm;
+  return db.select().from(bookings).where(
+    and(eq(bookings.equipmentId, equipment.id), inArray(bookings.status, activeBookingStatuses))
+  );
+}
+
+before(async () => {
+  assert.ok(process.env.DATABASE_URL, 'DATABASE_URL must point at a test database');
+  process.env.SESSION_SECRET ??= 'double-booking-test';
+  app = {
+    db: await import("./db"),
+    storage: await import("./storage"),
+    lifecycle: await import("./booking-lifecycle"),
+    schema: await import("@shared/schema"),
+    orm: await import("drizzle-orm"),
+  };
+  await (await import("./migrations")).createTables();
+
+  const suffix = `${Date.now()}-${process.pid}`;
+  const { storage } = app.storage;
+  owner = await storage.createUser({ username: `owner-${suffix}`, password: 'x', name: 'Test owner', role: 'owner' });
+  renter = await storage.createUser({ username: `renter-${suffix}`, password: 'x', name: 'Test renter', role: 'renter' });
+  equipment = await storage.createEquipment({
+    ownerId: owner.id,
+    name: 'Test tractor',
+    description: 'Used by the double-booking tests',
+    category: 'tractor',
+    dailyRate: 1000,
+    imageUrl: '/uploads/test.jpg',
+    location: 'Test',
+    specs: {},
+    features: [],
+  });
+});
+
+after(async () => {
+  if (!app) return;
+  const { db, pool } = app.db;
+  const { bookings, bookingStatusHistory, equipment: equipmentTable, users } = app.schema;
+  const { eq, inArray } = app.orm;
+
+  const created = await db.select({ id: bookings.id }).from(bookings).where(eq(bookings.equipmentId, equipment.id));
+  if (created.length > 0) {
+    await db.delete(bookingStatusHistory).where(inArray(bookingStatusHistory.bookingId, created.map(b => b.id)));
+  }
+  await db.delete(bookings).where(eq(bookings.equipmentId, equipment.id));
+  await db.delete(equipmentTable).where(eq(equipmentTable.id, equipment.id));
+  await db.delete(users).where(inArray(users.id, [owner.id, renter.id, ...registeredUserIds]));
+  await pool.end();
+});
+
+test('only one of several concurrent overlapping bookings is created', async () => {
+  const { openBooking, systemActor } = app.lifecycle;
+  const { BookingOverlapError } = app.storage;
+
+  const results = await Promise.allSettled(
+    Array.from({ length: CONCURRENT_REQUESTS }, (_, i) =>
+      // Each request overlaps every other one by at least a day
+      openBooking(bookingFor(period(10 + (i % 2), 3)), systemActor)
+    )
+  );
+
+  const created = results.filter(result => result.status === 'fulfilled');
+  const refused = results.filter((result): result is PromiseRejectedResult => result.status === 'rejected');
+  assert.equal(created.length, 1);
+  for (const result of refused) {
+    assert.ok(result.reason instanceof BookingOverlapError, `unexpected error: ${result.reason}`);
+  }
+  assert.equal((await activeBookings()).length, 1);
+});
+
+test('back-to-back bookings do not conflict', async () => {
+  const { openBooking, systemActor } = app.lifecycle;
+
+  const results = await Promise.allSettled([
+    openBooking(bookingFor(period(20, 2)), systemActor),
+    openBooking(bookingFor(period(22, 2)), systemActor),
+  ]);
+
+  assert.deepEqual(results.map(result => result.status), ['fulfilled', 'fulfilled']);
+});
+
+test('the exclusion constraint refuses overlaps that skip the row lock', async () => {
+  const { db } = app.db;
+  const { bookings } = app.schema;
+
+  // Plain inserts, as a code path that forgot to lock the equipment would make
+  const results = await Promise.allSettled(
+    Array.from({ length: CONCURRENT_REQUESTS }, () =>
+      db.insert(bookings).values(bookingFor(period(30, 3))).returning()
+    )
+  );
+
+  const created = results.filter(result => result.status === 'fulfilled');
+  const refused = results.filter((result): result is PromiseRejectedResult => result.status === 'rejected');
+  assert.equal(created.length, 1);
+  for (const result of refused) {
+    assert.equal(result.reason?.code, '23P01', `unexpected error: ${result.reason}`);
+  }
+});
+
+test('only one of several concurrent booking requests for the same dates gets a 201', async () => {
+  const express = (await import("express")).default;
+  const { registerRoutes } = await import("./routes");
+
+  const server = registerRoutes(express().use(express.json()));
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  try {
+    const signup = await fetch(`${baseUrl}/api/register`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ username: `route-renter-${Date.now()}-${process.pid}`, password: 'x', name: 'Route test renter' }),
+    });
+    assert.equal(signup.status, 201);
+    registeredUserIds.push((await signup.json()).id);
+    const cookie = signup.headers.get('set-cookie')!.split(';')[0];
+
+    const { startDate, endDate } = period(40, 3);
+    const responses = await Promise.all(
+      Array.from({ length: CONCURRENT_REQUESTS }, () =>
+        fetch(`${baseUrl}/api/bookings`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json', Cookie: cookie },
+          body: JSON.stringify({ equipmentId: equipment.id, startDate, endDate, rentalUnit: 'day' }),
+        })
+      )
+    );
+
+    const statuses = responses.map(response => response.status);
+    assert.equal(statuses.filter(status => status === 201).length, 1, `statuses: ${statuses}`);
+    assert.ok(statuses.every(status => status === 201 || status === 409), `statuses: ${statuses}`);
+  } finally {
+    server.closeAllConnections();
+    await new Promise(resolve => server.close(resolve));
+  }
+});
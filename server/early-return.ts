@@ -0,0 +1,133 @@
+import { storage } from "./storage";
+import { getCancellationPolicy, platformCancellationPolicy } from "./cancellation";
+import { issueRefund, refundExtension, rentalRefundable, extensionRefundable } from "./refunds";
+import { transitionBooking, InvalidBookingTransitionError, type BookingActor } from "./booking-lifecycle";
+import { canTransition } from "@shared/booking-transitions";
+import type { Booking, BookingExtension, Equipment, Refund, RentalUnit } from "@shared/schema";
+
+export class EarlyReturnError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'EarlyReturnError';
+  }
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+const UNUSED_TIME_REASON = 'Unused time after early return';
+
+export interface EarlyReturnQuote {
+  returnedAt: Date;
+  unit: RentalUnit;
+  totalUnits: number;
+  // Whole days (or hours, for hour rentals) not yet started at return
+  unusedUnits: number;
+  // Rental paid for the booking and its paid extensions, deposit excluded
+  rentalPaid: number;
+  refundPercent: number;
+  refundAmount: number;
+}
+
+// What the renter gets back for the time left when the equipment comes
+// back at `returnedAt`. A day or hour that has started counts as used.
+export function quoteEarlyReturn(
+  booking: Booking,
+  equipment: Equipment,
+  extensions: BookingExtension[],
+  returnedAt: Date = new Date(),
+): EarlyReturnQuote {
+  const unit: RentalUnit = booking.rentalUnit === 'hour' ? 'hour' : 'day';
+  const unitMs = unit === 'hour' ? HOUR_MS : DAY_MS;
+  const start = booking.startDate.getTime();
+
+  const totalUnits = Math.round((booking.endDate.getTime() - start) / unitMs);
+  const usedUnits = Math.max(0, Math.ceil((returnedAt.getTime() - start) / unitMs));
+  const unusedUnits = Math.max(0, totalUnits - usedUnits);
+
+  const rentalPaid = booking.totalPrice + extensions
+    .filter(extension => extension.status === 'paid')
+    .reduce((sum, extension) => sum + extension.amount, 0);
+  const refundPercent = getCancellationPolicy(equipment).earlyReturnRefundPercent
+    ?? platformCancellationPolicy.earlyReturnRefundPercent ?? 0;
+
+  return {
+    returnedAt,
+    unit,
+    totalUnits,
+    unusedUnits,
+    rentalPaid,
+    refundPercent,
+    refundAmount: totalUnits > 0 ? Math.floor(rentalPaid * unusedUnits / totalUnits * refundPercent / 100) : 0,
+  };
+}
+
+// Renter asks to hand the equipment back before the rental ends. Nothing
+// changes until the owner confirms the return.
+export async function requestEarlyReturn(booking: Booking, now: Date = new Date()): Promise<Booking> {
+  if (booking.status !== 'in_use') {
+    throw new EarlyReturnError('Only rentals that are in use can be returned early');
+  }
+  if (booking.returnRequestedAt) {
+    throw new EarlyReturnError('An early return has already been requested');
+  }
+  if (booking.endDate <= now) {
+    throw new EarlyReturnError('This rental has already ended');
+  }
+
+  return storage.updateBooking(booking.id, { returnRequestedAt: now });
+}
+
+// Throws unless the owner can confirm the early return the renter asked for
+export function assertEarlyReturnConfirmable(booking: Booking) {
+  if (!booking.returnRequestedAt) {
+    throw new EarlyReturnError('The renter has not asked to return this booking early');
+  }
+  if (!canTransition(booking.status, 'returned')) {
+    throw new InvalidBookingTransitionError(booking.id, booking.status, 'returned');
+  }
+}
+
+// Owner confirms the equipment is back, which ends the rental. Unused time
+// is refunded before this, so a failed refund leaves the rental open to
+// confirm again.
+export async function confirmEarlyReturn(booking: Booking, actor: BookingActor, now: Date = new Date()): Promise<Booking> {
+  assertEarlyReturnConfirmable(booking);
+
+  return transitionBooking(booking.id, 'returned', actor, {
+    reason: 'Returned early',
+    data: { returnedAt: now },
+  });
+}
+
+// Refund `amount` of the rental for unused time. The last days of the
+// rental are the unused ones, so the newest extension payments go back
+// first and the booking's own payment last; the deposit is left alone.
+// What earlier attempts already refunded is not refunded again.
+export async function refundUnusedTime(
+  booking: Booking,
+  extensions: BookingExtension[],
+  amount: number,
+  actor: BookingActor,
+): Promise<Refund[]> {
+  const existing = await storage.listRefunds(booking.id);
+  const reason = UNUSED_TIME_REASON;
+  const refunds: Refund[] = [];
+  let remaining = amount - existing
+    .filter(refund => refund.reason === UNUSED_TIME_REASON && refund.status !== 'failed')
+    .reduce((sum, refund) => sum + refund.amount, 0);
+
+  const paid = extensions.filter(extension => extension.status === 'paid').sort((a, b) => b.id - a.id);
+  for (const extension of paid) {
+    const share = Math.min(remaining, extensionRefundable(extension, existing));
+    if (share <= 0) continue;
+    refunds.push(await refundExtension(booking, extension, { amount: share, reason, actor }));
+    remaining -= share;
+  }
+
+  const share = Math.min(remaining, rentalRefundable(booking, existing));
+  if (share > 0) {
+    refunds.push(await issueRefund(booking, { amount: share, depositAmount: 0, reason, actor }));
+  }
+  return refunds;
+}
@@ -0,0 +1,187 @@
+import { storage, BookingOverlapError } from "./storage";
+import { createExtensionPaymentSession } from "./payment";
+import { quoteRental } from "./quotes";
+import { wholeDays, exceedsMaxRental, MAX_RENTAL_DAYS } from "./availability";
+import { holdExpiresAt } from "./hold-expiry";
+import { refundExtension } from "./refunds";
+import { recordExtensionPayment } from "./ledger";
+import type { BookingActor } from "./booking-lifecycle";
+import {
+  extendableBookingStatuses,
+  unpaidExtensionStatuses,
+  type Booking,
+  type BookingExtension,
+  type Refund,
+} from "@shared/schema";
+
+export class ExtensionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ExtensionError';
+  }
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export interface ExtensionQuote {
+  previousEndDate: Date;
+  newEndDate: Date;
+  amount: number;
+}
+
+export function isExtensionHoldExpired(extension: BookingExtension, now: Date = new Date()): boolean {
+  if (extension.status === 'expired') return true;
+  if (!(unpaidExtensionStatuses as string[]).includes(extension.status)) return false;
+  return !!extension.holdExpiresAt && extension.holdExpiresAt.getTime() <= now.getTime();
+}
+
+// Where the booking ends once extended to `requestedEnd`. Day rentals name
+// the new last day; hour rentals carry the exact new end.
+function resolveNewEnd(booking: Booking, requestedEnd: Date): Date {
+  if (isNaN(requestedEnd.getTime())) {
+    throw new ExtensionError('Invalid end date');
+  }
+  if (booking.rentalUnit === 'hour') {
+    if ((requestedEnd.getTime() - booking.endDate.getTime()) % HOUR_MS !== 0) {
+      throw new ExtensionError('Hourly rentals must be extended by whole hours');
+    }
+    return requestedEnd;
+  }
+  return wholeDays(booking.startDate, requestedEnd)[1];
+}
+
+// Price of running the booking until `requestedEnd`: the longer rental's
+// price less the current one's, so duration discounts carry over
+export async function quoteExtension(booking: Booking, requestedEnd: Date, now: Date = new Date()): Promise<ExtensionQuote> {
+  if (!(extendableBookingStatuses as string[]).includes(booking.status)) {
+    throw new ExtensionError(`Bookings in status '${booking.status}' cannot be extended`);
+  }
+  if (booking.endDate <= now) {
+    throw new ExtensionError('This rental has already ended');
+  }
+  if (booking.returnRequestedAt) {
+    throw new ExtensionError('An early return has been requested for this booking');
+  }
+
+  const newEndDate = resolveNewEnd(booking, requestedEnd);
+  if (newEndDate <= booking.endDate) {
+    throw new ExtensionError('The new end must be after the current end of the rental');
+  }
+  if (exceedsMaxRental(booking.startDate, newEndDate)) {
+    throw new ExtensionError(`Rentals cannot be longer than ${MAX_RENTAL_DAYS} days`);
+  }
+
+  const equipment = await storage.getEquipment(booking.equipmentId);
+  if (!equipment) {
+    throw new ExtensionError('Equipment not found');
+  }
+
+  const [current, extended] = await Promise.all([
+    quoteRental(equipment, booking.startDate, booking.endDate),
+    quoteRental(equipment, booking.startDate, newEndDate),
+  ]);
+  const amount = extended.total - current.total;
+  if (amount <= 0) {
+    throw new ExtensionError('The pricing rules for these dates leave nothing to charge');
+  }
+
+  return { previousEndDate: booking.endDate, newEndDate, amount };
+}
+
+// Hold the added time while the renter pays for it. Fails with
+// BookingOverlapError when the time is already booked, held or blocked.
+export async function requestExtension(booking: Booking, requestedEnd: Date): Promise<BookingExtension> {
+  const extensions = await storage.listBookingExtensions(booking.id);
+  if (extensions.some(extension => !isExtensionHoldExpired(extension) &&
+      (unpaidExtensionStatuses as string[]).includes(extension.status))) {
+    throw new ExtensionError('This booking already has an extension waiting for payment');
+  }
+
+  const quote = await quoteExtension(booking, requestedEnd);
+  const extension = await storage.createBookingExtension({
+    bookingId: booking.id,
+    ...quote,
+    holdExpiresAt: holdExpiresAt(),
+  });
+
+  return extension;
+}
+
+// Open a payment order for an unpaid extension and keep it on the extension,
+// so the webhook, verification and reconciliation see the order being paid
+export async function openExtensionPayment(booking: Booking, extension: BookingExtension) {
+  if (isExtensionHoldExpired(extension)) {
+    throw new ExtensionError('The hold on this extension has expired. Please request it again.');
+  }
+  if (!(unpaidExtensionStatuses as string[]).includes(extension.status)) {
+    throw new ExtensionError(`Extension is ${extension.status} and cannot be paid`);
+  }
+
+  const equipment = await storage.getEquipment(booking.equipmentId);
+  const session = await createExtensionPaymentSession(extension.id, booking.id, extension.amount, equipment?.name ?? 'Equipment');
+  await storage.updateBookingExtension(extension.id, { razorpayOrderId: session.id, status: 'awaiting_payment' });
+  return session;
+}
+
+// Apply a captured extension payment by moving the booking's end date. When
+// the time can no longer be added (it was taken after the hold ran out, or
+// the booking was cancelled or returned meanwhile) the payment is refunded
+// in full. Returns undefined if this payment was already applied.
+export async function applyExtensionPayment(
+  extension: BookingExtension,
+  paymentId: string,
+  actor: BookingActor,
+): Promise<{ booking: Booking; extension: BookingExtension; refund: Refund | null } | undefined> {
+  if (extension.razorpayPaymentId === paymentId) return undefined;
+
+  let applied;
+  try {
+    applied = await storage.applyBookingExtension(extension.id, paymentId, {
+      actorId: actor.id,
+      actorType: actor.type,
+      reason: `Extended until ${extension.newEndDate.toISOString()}`,
+    });
+  } catch (error) {
+    if (!(error instanceof BookingOverlapError)) throw error;
+  }
+
+  if (applied) {
+    try {
+      await recordExtensionPayment(applied.booking, applied.extension);
+    } catch (error) {
+      console.error(`Failed to post extension ${extension.id} payment to the ledger:`, error);
+    }
+    return { ...applied, refund: null };
+  }
+
+  // Another delivery of the same payment may have got here first
+  const current = await storage.getBookingExtension(extension.id);
+  if (!current || current.razorpayPaymentId === paymentId) return undefined;
+  if (current.status === 'paid' || current.status === 'refunded') {
+    throw new Error(`Extension ${extension.id} was already settled by payment ${current.razorpayPaymentId}`);
+  }
+
+  const booking = await storage.getBooking(extension.bookingId);
+  if (!booking) {
+    throw new Error(`Booking ${extension.bookingId} not found`);
+  }
+
+  const refunding = await storage.updateBookingExtension(extension.id, {
+    status: 'refunded',
+    razorpayPaymentId: paymentId,
+    paidAt: new Date(),
+  });
+  const refund = await refundExtension(booking, refunding, {
+    reason: 'The extra time could no longer be added to the booking',
+    actor,
+  });
+  return { booking, extension: refunding, refund };
+}
+
+// Mark an extension whose payment attempt failed. The renter may retry
+// while its hold lasts. Returns false when it was not waiting for payment.
+export async function failExtensionPayment(extension: BookingExtension): Promise<boolean> {
+  if (extension.status !== 'awaiting_payment') return false;
+  await storage.updateBookingExtension(extension.id, { status: 'payment_failed' });
+  return true;
+}
@@ -0,0 +1,194 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import { storage } from "./storage";
+import { notify } from "./notifications";
+import { transitionBooking, ownerActor, userActor, bookingParty, type BookingParty } from "./booking-lifecycle";
+import type { Booking, BookingHandover, Equipment, HandoverKind, RecordHandover } from "@shared/schema";
+
+export class HandoverError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'HandoverError';
+  }
+}
+
+// Statuses a booking can be in while each handover is recorded. The return
+// can still be recorded after an early return was confirmed.
+const openStatuses: Record<HandoverKind, string[]> = {
+  pickup: ['paid', 'approved'],
+  return: ['in_use', 'returned'],
+};
+
+// Key the sealed records are signed with, from HANDOVER_SIGNING_SECRET or
+// else the session secret
+function signingKey(): string {
+  const key = process.env.HANDOVER_SIGNING_SECRET || process.env.SESSION_SECRET;
+  if (!key) {
+    throw new Error('HANDOVER_SIGNING_SECRET is not set');
+  }
+  return key;
+}
+
+// HMAC over everything both parties agreed to, so a sealed record that was
+// edited afterwards no longer verifies
+function signHandover(handover: BookingHandover): string {
+  const content = JSON.stringify([
+    handover.bookingId,
+    handover.kind,
+    handover.meterType,
+    handover.meterReading,
+    handover.fuelLevel,
+    handover.notes,
+    handover.photos.map(photo => photo.url),
+    handover.recordedBy,
+    handover.ownerSignedAt?.toISOString() ?? null,
+    handover.renterSignedAt?.toISOString() ?? null,
+  ]);
+  return createHmac('sha256', signingKey()).update(content).digest('hex');
+}
+
+export function verifyHandover(handover: BookingHandover): boolean {
+  if (!handover.signature) return false;
+  const expected = Buffer.from(signHandover(handover), 'hex');
+  const actual = Buffer.from(handover.signature, 'hex');
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+function assertOpen(booking: Booking, kind: HandoverKind) {
+  if (!openStatuses[kind].includes(booking.status)) {
+    throw new HandoverError(`A ${kind} handover cannot be recorded while the booking is ${booking.status.replace('_', ' ')}`);
+  }
+}
+
+function requireParty(booking: Booking, equipment: Equipment, userId: number): BookingParty {
+  const party = bookingParty(booking, equipment, userId);
+  if (!party) {
+    throw new HandoverError('Only the owner and the renter can sign a handover');
+  }
+  return party;
+}
+
+// The meter cannot run backwards between pickup and return
+async function assertReadingAfterPickup(booking: Booking, input: RecordHandover) {
+  if (input.meterReading === undefined) return;
+  const pickup = await storage.getBookingHandover(booking.id, 'pickup');
+  if (!pickup?.signature || pickup.meterReading === null) return;
+  if ((input.meterType ?? pickup.meterType) !== pickup.meterType) return;
+
+  if (input.meterReading < pickup.meterReading) {
+    throw new HandoverError(`The meter read ${pickup.meterReading} at pickup; the return reading cannot be lower`);
+  }
+}
+
+// Record readings and condition photos for a handover. The one recording
+// signs this version; the other party has to confirm it again.
+export async function recordHandover(
+  booking: Booking,
+  equipment: Equipment,
+  user: Express.User,
+  kind: HandoverKind,
+  input: RecordHandover,
+  photoUrls: string[],
+  now: Date = new Date(),
+): Promise<BookingHandover> {
+  const party = requireParty(booking, equipment, user.id);
+  assertOpen(booking, kind);
+  if (kind === 'return') {
+    await assertReadingAfterPickup(booking, input);
+  }
+
+  const current = await storage.getBookingHandover(booking.id, kind);
+  if (current?.signature) {
+    throw new HandoverError(`The ${kind} handover is already signed by both parties`);
+  }
+
+  const values = {
+    meterType: input.meterType ?? current?.meterType ?? null,
+    meterReading: input.meterReading ?? current?.meterReading ?? null,
+    fuelLevel: input.fuelLevel ?? current?.fuelLevel ?? null,
+    notes: input.notes || current?.notes || null,
+    photos: [
+      ...(current?.photos ?? []),
+      ...photoUrls.map(url => ({ url, uploadedBy: user.id, uploadedAt: now.toISOString() })),
+    ],
+    recordedBy: user.id,
+    ownerSignedAt: party === 'owner' ? now : null,
+    renterSignedAt: party === 'renter' ? now : null,
+    updatedAt: now,
+  };
+  if (values.meterReading !== null && !values.meterType) {
+    throw new HandoverError('Say whether the reading is engine hours or kilometres');
+  }
+
+  const saved = current
+    ? await storage.updateBookingHandover(current.id, current.updatedAt, values)
+    : await storage.createBookingHandover({ bookingId: booking.id, kind, ...values });
+  if (!saved) {
+    throw new HandoverError('The handover was changed by the other party meanwhile. Reload it and try again.');
+  }
+
+  const otherUserId = party === 'owner' ? booking.userId : equipment.ownerId;
+  await notify(
+    otherUserId,
+    'handover_recorded',
+    `The ${kind} check for ${equipment.name} (booking #${booking.id}) was updated. Check it and confirm.`,
+    `/booking/${booking.id}`,
+  );
+  return saved;
+}
+
+// Sign the handover as it stands. When both parties have signed, the record
+// is sealed and the booking moves on: pickup starts the rental and return
+// ends it.
+export async function confirmHandover(
+  booking: Booking,
+  equipment: Equipment,
+  user: Express.User,
+  kind: HandoverKind,
+  now: Date = new Date(),
+): Promise<{ handover: BookingHandover; booking: Booking }> {
+  const party = requireParty(booking, equipment, user.id);
+  assertOpen(booking, kind);
+
+  const current = await storage.getBookingHandover(booking.id, kind);
+  if (!current) {
+    throw new HandoverError(`Nothing has been recorded for the ${kind} yet`);
+  }
+  if (current.signature) {
+    throw new HandoverError(`The ${kind} handover is already signed by both parties`);
+  }
+  if (current.photos.length === 0) {
+    throw new HandoverError('Add at least one condition photo before confirming');
+  }
+
+  const signed = {
+    ...current,
+    ownerSignedAt: party === 'owner' ? now : current.ownerSignedAt,
+    renterSignedAt: party === 'renter' ? now : current.renterSignedAt,
+  };
+  const sealing = !!signed.ownerSignedAt && !!signed.renterSignedAt;
+
+  const handover = await storage.updateBookingHandover(current.id, current.updatedAt, {
+    ownerSignedAt: signed.ownerSignedAt,
+    renterSignedAt: signed.renterSignedAt,
+    updatedAt: now,
+    ...(sealing ? { signature: signHandover(signed), signedAt: now } : {}),
+  });
+  if (!handover) {
+    throw new HandoverError('The handover was changed by the other party meanwhile. Reload it and try again.');
+  }
+  if (!sealing) {
+    return { handover, booking };
+  }
+
+  const actor = party === 'owner' ? ownerActor(user) : userActor(user);
+  let updated = booking;
+  if (kind === 'pickup') {
+    updated = await transitionBooking(booking.id, 'in_use', actor, { reason: 'Picked up, handover signed' });
+  } else if (booking.status === 'in_use') {
+    updated = await transitionBooking(booking.id, 'returned', actor, {
+      reason: 'Returned, handover signed',
+      data: { returnedAt: now },
+    });
+  }
+  return { handover, booking: updated };
+}
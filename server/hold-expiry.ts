@@ -0,0 +1,105 @@
+import { storage } from "./storage";
+import { issueRefund } from "./refunds";
+import { expireLapsedOffers } from "./waitlist";
+import { declineLapsedRequests } from "./booking-requests";
+import { transitionBooking, systemActor, InvalidBookingTransitionError, type BookingActor } from "./booking-lifecycle";
+import { unpaidBookingStatuses, type Booking } from "@shared/schema";
+
+const DEFAULT_HOLD_MINUTES = 15;
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+// How long an unpaid booking keeps its dates, from BOOKING_HOLD_MINUTES
+export function holdWindowMs(): number {
+  const minutes = Number(process.env.BOOKING_HOLD_MINUTES);
+  return (Number.isFinite(minutes) && minutes > 0 ? minutes : DEFAULT_HOLD_MINUTES) * 60 * 1000;
+}
+
+export function holdExpiresAt(from: Date = new Date()): Date {
+  return new Date(from.getTime() + holdWindowMs());
+}
+
+export function isHoldExpired(booking: Booking, now: Date = new Date()): boolean {
+  if (booking.status === 'expired') return true;
+  if (!(unpaidBookingStatuses as string[]).includes(booking.status)) return false;
+  const expiresAt = booking.holdExpiresAt ?? holdExpiresAt(booking.createdAt);
+  return expiresAt.getTime() <= now.getTime();
+}
+
+// Expire every unpaid booking whose hold has run out. Expired bookings no
+// longer count against availability. Returns the number of bookings expired.
+export async function expireLapsedHolds(now: Date = new Date()): Promise<number> {
+  const lapsed = await storage.listLapsedHolds(now, new Date(now.getTime() - holdWindowMs()));
+  let expired = 0;
+
+  for (const booking of lapsed) {
+    try {
+      await transitionBooking(booking.id, 'expired', systemActor, {
+        reason: 'Payment hold expired'
+      });
+      expired++;
+    } catch (error) {
+      // A payment landed between listing and expiring; the booking stays as it is
+      if (error instanceof InvalidBookingTransitionError) continue;
+      console.error(`Failed to expire hold for booking ${booking.id}:`, error);
+    }
+  }
+
+  // Unpaid extensions give the time they held back the same way
+  await storage.expireLapsedExtensions(now);
+
+  // Requests the owner never answered are declined
+  await declineLapsedRequests(now);
+
+  // And waitlist offers nobody booked in time pass to the next in line
+  await expireLapsedOffers(now);
+  return expired;
+}
+
+// A capture that arrives after the hold expired, or after the dates went to
+// someone else, has nothing to attach to. The payment is recorded on the
+// booking and returned in full.
+export async function refundLateCapture(
+  booking: Booking,
+  paymentId: string,
+  actor: BookingActor,
+  reason: string = 'Payment received after the booking hold expired',
+) {
+  // Both the browser callback and the webhook may report the same capture
+  const existing = (await storage.listRefunds(booking.id))
+    .find(refund => refund.razorpayPaymentId === paymentId && refund.status !== 'failed');
+  if (existing) return existing;
+
+  const updated = await storage.updateBooking(booking.id, { razorpayPaymentId: paymentId });
+  return issueRefund(updated, { reason, actor });
+}
+
+let sweepTimer: NodeJS.Timeout | undefined;
+
+export function startHoldExpiryScheduler() {
+  if (sweepTimer) return;
+
+  let running = false;
+  const sweep = async () => {
+    // Skip a tick rather than overlap with a slow sweep
+    if (running) return;
+    running = true;
+    try {
+      await expireLapsedHolds();
+    } catch (error) {
+      console.error('Booking hold sweep failed:', error);
+    } finally {
+      running = false;
+    }
+  };
+
+  sweepTimer = setInterval(sweep, SWEEP_INTERVAL_MS);
+  sweepTimer.unref();
+  void sweep();
+}
+
+export function stopHoldExpiryScheduler() {
+  if (sweepTimer) {
+    clearInterval(sweepTimer);
+    sweepTimer = undefined;
+  }
+}
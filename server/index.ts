@@ -5,6 +5,9 @@ import fs from 'fs';
 import path from 'path';
 import { setupAuth } from './auth';
 import { createTables } from './migrations';
+import { startHoldExpiryScheduler, stopHoldExpiryScheduler } from './hold-expiry';
+import { startReconciliationScheduler, stopReconciliationScheduler } from './reconciliation';
+import { startLateReturnScheduler, stopLateReturnScheduler } from './late-returns';
 
 // Create uploads directory if it doesn't exist
 const uploadsDir = path.join(process.cwd(), 'uploads');
@@ -12,8 +15,19 @@ if (!fs.existsSync(uploadsDir)) {
   fs.mkdirSync(uploadsDir, { recursive: true });
 }
 
+declare module 'http' {
+  interface IncomingMessage {
+    rawBody?: Buffer;
+  }
+}
+
 const app = express();
-app.use(express.json());
+// Keep the raw body around so webhook signatures can be verified
+app.use(express.json({
+  verify: (req, _res, buf) => {
+    req.rawBody = buf;
+  }
+}));
 app.use(express.urlencoded({ extended: false }));
 
 // Add request logging middleware with better error handling
@@ -143,6 +157,9 @@ createTables().catch(err => {
 
     server.listen(port, "0.0.0.0", () => {
       log(`Server ready and listening on port ${port}`);
+      startHoldExpiryScheduler();
+      startReconciliationScheduler();
+      startLateReturnScheduler();
       if (process.send) {
         process.send('ready');
       }
@@ -151,6 +168,9 @@ createTables().catch(err => {
     // Enhanced graceful shutdown
     const cleanup = async () => {
       console.log('Initiating graceful shutdown...');
+      stopHoldExpiryScheduler();
+      stopReconciliationScheduler();
+      stopLateReturnScheduler();
 
       // Close the server first
       await new Promise<void>((resolve) => {
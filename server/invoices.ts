@@ -0,0 +1,197 @@
+import { storage } from "./storage";
+import { PdfPage, textWidth } from "./pdf";
+import { formatGstState, splitGst } from "@shared/gst";
+import type { Booking, Invoice } from "@shared/schema";
+
+export class InvoiceError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvoiceError';
+  }
+}
+
+interface TaxCode {
+  sacCode: string;
+  gstRate: number;
+}
+
+// SAC 997312 covers renting agricultural machinery with or without an
+// operator. Leasing goods is taxed at the rate of the goods themselves.
+const categoryTaxCodes: Record<string, TaxCode> = {
+  tractors: { sacCode: '997312', gstRate: 5 },
+  harvesters: { sacCode: '997312', gstRate: 5 },
+  irrigation: { sacCode: '997312', gstRate: 5 },
+  seeders: { sacCode: '997312', gstRate: 5 },
+  sprayers: { sacCode: '997312', gstRate: 5 },
+  plows: { sacCode: '997312', gstRate: 5 },
+  cultivators: { sacCode: '997312', gstRate: 5 },
+  fertilizer: { sacCode: '997312', gstRate: 5 },
+};
+
+const otherEquipmentTaxCode: TaxCode = { sacCode: '997319', gstRate: 18 };
+
+export function taxCodeFor(category: string): TaxCode {
+  return categoryTaxCodes[category] ?? otherEquipmentTaxCode;
+}
+
+// Indian financial years run April to March, e.g. '2026-27'
+export function financialYearOf(date: Date): string {
+  const ist = new Date(date.getTime() + 330 * 60 * 1000);
+  const startYear = ist.getUTCMonth() >= 3 ? ist.getUTCFullYear() : ist.getUTCFullYear() - 1;
+  return `${startYear}-${String((startYear + 1) % 100).padStart(2, '0')}`;
+}
+
+export function formatInvoiceNumber(financialYear: string, sequence: number): string {
+  return `AR/${financialYear}/${String(sequence).padStart(5, '0')}`;
+}
+
+const dayFormat = new Intl.DateTimeFormat('en-IN', { day: '2-digit', month: 'short', year: 'numeric', timeZone: 'UTC' });
+const issueFormat = new Intl.DateTimeFormat('en-IN', { day: '2-digit', month: 'short', year: 'numeric', timeZone: 'Asia/Kolkata' });
+
+// Day bookings end at midnight after their last day
+function describePeriod(booking: Booking): string {
+  const start = new Date(booking.startDate);
+  const end = new Date(booking.endDate);
+  if (booking.rentalUnit === 'hour') {
+    const hours = Math.round((end.getTime() - start.getTime()) / (60 * 60 * 1000));
+    return `${dayFormat.format(start)}, ${hours} hour${hours === 1 ? '' : 's'}`;
+  }
+  const lastDay = new Date(end.getTime() - 1);
+  return `${dayFormat.format(start)} to ${dayFormat.format(lastDay)}`;
+}
+
+// Issue the tax invoice for a paid booking, or return the one already
+// issued. The supplier is the equipment owner and the recipient the renter;
+// the place of supply is the renter's state, or the owner's when the renter
+// has not set one. The refundable deposit is not a supply and is left out.
+export async function issueInvoice(booking: Booking): Promise<Invoice> {
+  const existing = await storage.getInvoiceByBooking(booking.id);
+  if (existing) return existing;
+
+  if (!booking.razorpayPaymentId) {
+    throw new InvoiceError('An invoice is issued once the booking is paid');
+  }
+
+  const equipment = await storage.getEquipment(booking.equipmentId);
+  if (!equipment) {
+    throw new InvoiceError('Equipment not found');
+  }
+  const [owner, renter] = await Promise.all([
+    storage.getUser(equipment.ownerId),
+    storage.getUser(booking.userId),
+  ]);
+  if (!owner || !renter) {
+    throw new InvoiceError('The owner or renter of this booking no longer exists');
+  }
+
+  const { sacCode, gstRate } = taxCodeFor(equipment.category);
+  const placeOfSupply = renter.state ?? owner.state ?? null;
+  const intraState = !owner.state || !placeOfSupply || owner.state === placeOfSupply;
+  const total = booking.totalPrice * 100;
+
+  return storage.createInvoice({
+    bookingId: booking.id,
+    financialYear: financialYearOf(new Date()),
+    supplierId: owner.id,
+    supplierName: owner.name,
+    supplierGstin: owner.gstin,
+    supplierState: owner.state,
+    recipientId: renter.id,
+    recipientName: renter.name,
+    recipientGstin: renter.gstin,
+    recipientState: renter.state,
+    placeOfSupply,
+    description: `Rental of ${equipment.name}, ${describePeriod(booking)}`,
+    sacCode,
+    gstRate,
+    ...splitGst(total, gstRate, intraState),
+    total,
+  }, formatInvoiceNumber);
+}
+
+// Break text into lines no wider than `width` points
+function wrapText(value: string, width: number, size = 10): string[] {
+  const lines: string[] = [];
+  for (const word of value.split(' ')) {
+    const last = lines[lines.length - 1];
+    if (last !== undefined && textWidth(`${last} ${word}`, size) <= width) {
+      lines[lines.length - 1] = `${last} ${word}`;
+    } else {
+      lines.push(word);
+    }
+  }
+  return lines;
+}
+
+function rupees(paise: number): string {
+  return `Rs. ${(paise / 100).toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+export function renderInvoicePdf(invoice: Invoice, booking: Booking): Buffer {
+  const page = new PdfPage();
+  const left = 50;
+  const right = page.width - 50;
+
+  page.text(left, 60, 'TAX INVOICE', { size: 18, bold: true });
+  page.text(right, 52, `Invoice No. ${invoice.invoiceNumber}`, { bold: true, align: 'right' });
+  page.text(right, 66, `Date: ${issueFormat.format(new Date(invoice.issuedAt))}`, { align: 'right' });
+  page.text(right, 80, `Booking #${invoice.bookingId}`, { align: 'right' });
+  page.line(left, 95, right, 95);
+
+  const party = (x: number, heading: string, name: string, gstin: string | null, state: string | null) => {
+    page.text(x, 115, heading, { bold: true });
+    page.text(x, 131, name);
+    page.text(x, 145, `GSTIN: ${gstin ?? 'Unregistered'}`);
+    if (state) page.text(x, 159, `State: ${formatGstState(state)}`);
+  };
+  party(left, 'Supplier (equipment owner)', invoice.supplierName, invoice.supplierGstin, invoice.supplierState);
+  party(310, 'Recipient (renter)', invoice.recipientName, invoice.recipientGstin, invoice.recipientState);
+
+  page.text(left, 185, `Place of supply: ${formatGstState(invoice.placeOfSupply) || 'Not stated'}`);
+
+  // Line item table
+  const columns = { sac: 330, rate: 400, value: right };
+  page.line(left, 200, right, 200);
+  page.text(left, 214, 'Description', { bold: true });
+  page.text(columns.sac, 214, 'SAC', { bold: true });
+  page.text(columns.rate, 214, 'GST rate', { bold: true });
+  page.text(columns.value, 214, 'Taxable value', { bold: true, align: 'right' });
+  page.line(left, 222, right, 222);
+  const descriptionLines = wrapText(invoice.description, columns.sac - left - 15);
+  descriptionLines.forEach((line, index) => page.text(left, 238 + index * 13, line));
+  page.text(columns.sac, 238, invoice.sacCode);
+  page.text(columns.rate, 238, `${invoice.gstRate}%`);
+  page.text(columns.value, 238, rupees(invoice.taxableValue), { align: 'right' });
+  const tableEnd = 238 + descriptionLines.length * 13;
+  page.line(left, tableEnd, right, tableEnd);
+
+  // Totals
+  const halfRate = invoice.gstRate / 2;
+  const taxLines: [string, number][] = invoice.igst > 0
+    ? [[`IGST @ ${invoice.gstRate}%`, invoice.igst]]
+    : [[`CGST @ ${halfRate}%`, invoice.cgst], [`SGST @ ${halfRate}%`, invoice.sgst]];
+  let y = tableEnd + 20;
+  for (const [label, amount] of [['Taxable value', invoice.taxableValue] as [string, number], ...taxLines]) {
+    page.text(columns.rate, y, label);
+    page.text(columns.value, y, rupees(amount), { align: 'right' });
+    y += 16;
+  }
+  page.line(columns.rate, y - 6, right, y - 6);
+  page.text(columns.rate, y + 8, 'Total', { bold: true });
+  page.text(columns.value, y + 8, rupees(invoice.total), { bold: true, align: 'right' });
+
+  y += 40;
+  if (booking.discountAmount > 0) {
+    page.text(left, y, `Includes a promotional discount of ${rupees(booking.discountAmount * 100)}.`, { size: 9 });
+    y += 14;
+  }
+  if (booking.depositAmount > 0) {
+    page.text(left, y, `Refundable security deposit of ${rupees(booking.depositAmount * 100)} collected alongside; not part of this invoice.`, { size: 9 });
+    y += 14;
+  }
+  page.text(left, y, 'Prices are inclusive of GST. Tax is not payable on reverse charge.', { size: 9 });
+
+  page.text(left, page.height - 50, 'This is a computer-generated invoice and needs no signature.', { size: 8 });
+
+  return page.toBuffer();
+}
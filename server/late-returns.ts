@@ -0,0 +1,224 @@
+import { storage } from "./storage";
+import { notify } from "./notifications";
+import { createLateFeePaymentSession } from "./payment";
+import { recordLateFeePayment } from "./ledger";
+import { payableLateFeeStatuses, type Booking, type LateFee } from "@shared/schema";
+
+export class LateFeeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LateFeeError';
+  }
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_CHECK_INTERVAL_MINUTES = 15;
+const DEFAULT_GRACE_MINUTES = 60;
+const DEFAULT_LATE_FEE_PERCENT = 100;
+
+// How often overdue rentals are looked for, from LATE_RETURN_CHECK_INTERVAL_MINUTES
+function checkIntervalMs(): number {
+  const minutes = Number(process.env.LATE_RETURN_CHECK_INTERVAL_MINUTES);
+  return (Number.isFinite(minutes) && minutes > 0 ? minutes : DEFAULT_CHECK_INTERVAL_MINUTES) * 60 * 1000;
+}
+
+// How long after its end a rental may still come back without a fee, from
+// LATE_RETURN_GRACE_MINUTES
+function graceMs(): number {
+  const minutes = Number(process.env.LATE_RETURN_GRACE_MINUTES);
+  return (Number.isFinite(minutes) && minutes >= 0 ? minutes : DEFAULT_GRACE_MINUTES) * 60 * 1000;
+}
+
+// Fee for each day late as a share of the equipment's daily rate, from
+// LATE_FEE_PERCENT
+export function lateFeePercent(): number {
+  const percent = Number(process.env.LATE_FEE_PERCENT);
+  return Number.isFinite(percent) && percent >= 0 ? percent : DEFAULT_LATE_FEE_PERCENT;
+}
+
+// Days late at `until` for a rental due back at `dueAt`. A day that has
+// started counts in full.
+function daysLate(dueAt: Date, until: Date): number {
+  return Math.max(1, Math.ceil((until.getTime() - dueAt.getTime()) / DAY_MS));
+}
+
+// Flag a rental that was not back by its end date, and let both sides know
+async function flagOverdue(booking: Booking, now: Date): Promise<LateFee | undefined> {
+  const equipment = await storage.getEquipment(booking.equipmentId);
+  if (!equipment) {
+    throw new Error(`Equipment ${booking.equipmentId} not found for booking ${booking.id}`);
+  }
+
+  const dailyFee = Math.round(equipment.dailyRate * lateFeePercent() / 100);
+  const days = daysLate(booking.endDate, now);
+  const fee = await storage.createLateFee({
+    bookingId: booking.id,
+    overdueSince: booking.endDate,
+    dailyFee,
+    days,
+    amount: days * dailyFee,
+  });
+  if (!fee) return undefined;
+
+  const accrues = dailyFee > 0 ? ` A late fee of ₹${dailyFee} is charged for each day until it is returned.` : '';
+  await notify(
+    booking.userId,
+    'booking_overdue',
+    `${equipment.name} (booking #${booking.id}) was due back on ${booking.endDate.toDateString()}.${accrues}`,
+    `/booking/${booking.id}`,
+  );
+  await notify(
+    equipment.ownerId,
+    'booking_overdue',
+    `${equipment.name} (booking #${booking.id}) has not been returned and is now overdue`,
+    `/booking/${booking.id}`,
+  );
+  return fee;
+}
+
+// Bring an accruing fee up to date. Once the rental has ended the fee stops
+// at the day the equipment came back and becomes payable.
+async function accrueLateFee(fee: LateFee, now: Date): Promise<void> {
+  const booking = await storage.getBooking(fee.bookingId);
+  if (!booking) {
+    throw new Error(`Booking ${fee.bookingId} not found for late fee ${fee.id}`);
+  }
+
+  if (booking.status === 'in_use') {
+    const days = daysLate(fee.overdueSince, now);
+    if (days !== fee.days) {
+      await storage.updateLateFeeState(fee.id, ['accruing'], { days, amount: days * fee.dailyFee });
+    }
+    return;
+  }
+
+  const settledAt = booking.returnedAt ?? booking.lastStatusUpdate;
+  const days = daysLate(fee.overdueSince, settledAt);
+  const amount = days * fee.dailyFee;
+  const settled = await storage.updateLateFeeState(fee.id, ['accruing'], {
+    days,
+    amount,
+    settledAt,
+    status: amount > 0 ? 'due' : 'waived',
+  });
+  if (!settled || amount === 0) return;
+
+  await notify(
+    booking.userId,
+    'late_fee_due',
+    `A late return fee of ₹${amount} for ${days} day${days === 1 ? '' : 's'} is due on booking #${booking.id}. Pay it from your dashboard.`,
+    '/dashboard',
+  );
+}
+
+// Flag rentals that are past their end without a confirmed return and bring
+// the fees of those already flagged up to date. Returns how many rentals
+// were newly flagged.
+export async function checkLateReturns(now: Date = new Date()): Promise<number> {
+  let flagged = 0;
+  const overdue = await storage.listOverdueBookings(new Date(now.getTime() - graceMs()));
+  for (const booking of overdue) {
+    try {
+      if (await flagOverdue(booking, now)) flagged++;
+    } catch (error) {
+      console.error(`Failed to flag booking ${booking.id} as overdue:`, error);
+    }
+  }
+
+  for (const fee of await storage.listLateFees({ statuses: ['accruing'] })) {
+    try {
+      await accrueLateFee(fee, now);
+    } catch (error) {
+      console.error(`Failed to update late fee ${fee.id}:`, error);
+    }
+  }
+
+  return flagged;
+}
+
+// Open a payment order for a late fee and keep it on the fee, so the
+// webhook, verification and reconciliation see the order being paid
+export async function openLateFeePayment(booking: Booking, fee: LateFee) {
+  if (fee.status === 'accruing') {
+    throw new LateFeeError('The late fee can be paid once the return has been confirmed');
+  }
+  if (!(payableLateFeeStatuses as string[]).includes(fee.status)) {
+    throw new LateFeeError(`Late fee is ${fee.status} and cannot be paid`);
+  }
+
+  const equipment = await storage.getEquipment(booking.equipmentId);
+  const session = await createLateFeePaymentSession(fee.id, booking.id, fee.amount, equipment?.name ?? 'Equipment');
+  const updated = await storage.updateLateFeeState(fee.id, payableLateFeeStatuses, {
+    razorpayOrderId: session.id,
+    status: 'awaiting_payment',
+  });
+  if (!updated) {
+    throw new LateFeeError('This late fee has already been paid');
+  }
+  return session;
+}
+
+// Record a captured late fee payment. Returns undefined if this payment was
+// already applied.
+export async function applyLateFeePayment(fee: LateFee, paymentId: string): Promise<LateFee | undefined> {
+  if (fee.razorpayPaymentId === paymentId) return undefined;
+
+  const paid = await storage.updateLateFeeState(fee.id, payableLateFeeStatuses, {
+    status: 'paid',
+    razorpayPaymentId: paymentId,
+    paidAt: new Date(),
+  });
+  if (!paid) {
+    // Another delivery of the same payment may have got here first
+    const current = await storage.getLateFee(fee.id);
+    if (!current || current.razorpayPaymentId === paymentId) return undefined;
+    throw new Error(`Late fee ${fee.id} is ${current.status} and cannot take payment ${paymentId}`);
+  }
+
+  const booking = await storage.getBooking(fee.bookingId);
+  if (booking) {
+    try {
+      await recordLateFeePayment(booking, paid);
+    } catch (error) {
+      console.error(`Failed to post late fee ${fee.id} payment to the ledger:`, error);
+    }
+  }
+  return paid;
+}
+
+// Mark a late fee whose payment attempt failed; the renter may try again.
+// Returns false when it was not waiting for payment.
+export async function failLateFeePayment(fee: LateFee): Promise<boolean> {
+  const failed = await storage.updateLateFeeState(fee.id, ['awaiting_payment'], { status: 'payment_failed' });
+  return !!failed;
+}
+
+let checkTimer: NodeJS.Timeout | undefined;
+
+export function startLateReturnScheduler() {
+  if (checkTimer) return;
+
+  let running = false;
+  const check = async () => {
+    if (running) return;
+    running = true;
+    try {
+      await checkLateReturns();
+    } catch (error) {
+      console.error('Late return check failed:', error);
+    } finally {
+      running = false;
+    }
+  };
+
+  checkTimer = setInterval(check, checkIntervalMs());
+  checkTimer.unref();
+  void check();
+}
+
+export function stopLateReturnScheduler() {
+  if (checkTimer) {
+    clearInterval(checkTimer);
+    checkTimer = undefined;
+  }
+}
@@ -0,0 +1,197 @@
+import { storage, type OwnerLedgerEntry } from "./storage";
+import type { Booking, BookingExtension, BookingStatus, LateFee, Refund } from "@shared/schema";
+
+const DEFAULT_COMMISSION_PERCENT = 10;
+
+// Share of each rental the platform keeps, from PLATFORM_COMMISSION_PERCENT
+export function commissionPercent(): number {
+  const percent = Number(process.env.PLATFORM_COMMISSION_PERCENT);
+  return Number.isFinite(percent) && percent >= 0 && percent <= 100 ? percent : DEFAULT_COMMISSION_PERCENT;
+}
+
+// Owner earnings become payable once the rental is over and can no longer
+// be cancelled for a refund
+export const payoutReadyStatuses: BookingStatus[] = ['returned', 'completed', 'cancelled', 'refunded', 'rejected'];
+
+async function ownerOf(booking: Booking): Promise<number> {
+  const equipment = await storage.getEquipment(booking.equipmentId);
+  if (!equipment) {
+    throw new Error(`Equipment ${booking.equipmentId} not found for booking ${booking.id}`);
+  }
+  return equipment.ownerId;
+}
+
+// Post the captured payment: the rental less commission is owed to the
+// owner and the deposit is owed back to the renter until it is settled.
+// Posting is idempotent, so this is safe to call again for the same booking.
+export async function recordPayment(booking: Booking): Promise<void> {
+  const ownerId = await ownerOf(booking);
+  const commission = Math.round(booking.totalPrice * commissionPercent() / 100);
+
+  await storage.postLedgerTransaction({
+    reference: `payment:${booking.id}`,
+    kind: 'payment',
+    bookingId: booking.id,
+    memo: `Payment for booking #${booking.id}`,
+  }, [
+    { account: 'gateway', amount: booking.totalPrice + booking.depositAmount },
+    { account: 'owner_payable', ownerId, amount: -(booking.totalPrice - commission) },
+    { account: 'platform_commission', amount: -commission },
+    { account: 'deposits_held', amount: -booking.depositAmount },
+  ].filter(entry => entry.amount !== 0));
+}
+
+// Post the payment for extra time on a booking, split between the owner
+// and the platform the same way as the booking's own payment
+export async function recordExtensionPayment(booking: Booking, extension: BookingExtension): Promise<void> {
+  const ownerId = await ownerOf(booking);
+  const commission = Math.round(extension.amount * commissionPercent() / 100);
+
+  await storage.postLedgerTransaction({
+    reference: `extension:${extension.id}`,
+    kind: 'payment',
+    bookingId: booking.id,
+    memo: `Extension payment for booking #${booking.id}`,
+  }, [
+    { account: 'gateway', amount: extension.amount },
+    { account: 'owner_payable', ownerId, amount: -(extension.amount - commission) },
+    { account: 'platform_commission', amount: -commission },
+  ].filter(entry => entry.amount !== 0));
+}
+
+// Post a late return fee, split between the owner and the platform like
+// the rental it was charged on
+export async function recordLateFeePayment(booking: Booking, fee: LateFee): Promise<void> {
+  const ownerId = await ownerOf(booking);
+  const commission = Math.round(fee.amount * commissionPercent() / 100);
+
+  await storage.postLedgerTransaction({
+    reference: `late_fee:${fee.id}`,
+    kind: 'payment',
+    bookingId: booking.id,
+    memo: `Late return fee for booking #${booking.id}`,
+  }, [
+    { account: 'gateway', amount: fee.amount },
+    { account: 'owner_payable', ownerId, amount: -(fee.amount - commission) },
+    { account: 'platform_commission', amount: -commission },
+  ].filter(entry => entry.amount !== 0));
+}
+
+// Post money that went back to the renter. The rental part is taken from
+// the owner and the platform in the same proportion the payment it came
+// from was split.
+export async function recordRefund(refund: Refund): Promise<void> {
+  const booking = await storage.getBooking(refund.bookingId);
+  if (!booking) return;
+
+  // Payments made before the ledger existed get posted first
+  const extension = refund.razorpayPaymentId !== booking.razorpayPaymentId
+    ? await storage.findBookingExtensionByRazorpayPaymentId(refund.razorpayPaymentId)
+    : undefined;
+  if (extension) {
+    await recordExtensionPayment(booking, extension);
+  } else {
+    await recordPayment(booking);
+  }
+  const rentalPaid = extension ? extension.amount : booking.totalPrice;
+
+  const payment = await storage.listLedgerEntries(extension ? `extension:${extension.id}` : `payment:${booking.id}`);
+  const commission = -payment
+    .filter(entry => entry.account === 'platform_commission')
+    .reduce((sum, entry) => sum + entry.amount, 0);
+  const ownerId = payment.find(entry => entry.account === 'owner_payable')?.ownerId ?? await ownerOf(booking);
+
+  const rental = refund.amount - refund.depositAmount;
+  const commissionBack = rentalPaid > 0 ? Math.round(commission * rental / rentalPaid) : 0;
+
+  await storage.postLedgerTransaction({
+    reference: `refund:${refund.id}`,
+    kind: 'refund',
+    bookingId: booking.id,
+    memo: refund.reason,
+  }, [
+    { account: 'owner_payable', ownerId, amount: rental - commissionBack },
+    { account: 'platform_commission', amount: commissionBack },
+    { account: 'deposits_held', amount: refund.depositAmount },
+    { account: 'gateway', amount: -refund.amount },
+  ].filter(entry => entry.amount !== 0));
+}
+
+// Deposit kept after a damage claim goes to the owner in full
+export async function recordDepositWithheld(booking: Booking, amount: number): Promise<void> {
+  if (amount <= 0) return;
+  const ownerId = await ownerOf(booking);
+
+  await storage.postLedgerTransaction({
+    reference: `deposit_withheld:${booking.id}`,
+    kind: 'deposit_withheld',
+    bookingId: booking.id,
+    memo: `Deposit withheld for damage on booking #${booking.id}`,
+  }, [
+    { account: 'deposits_held', amount },
+    { account: 'owner_payable', ownerId, amount: -amount },
+  ]);
+}
+
+// Penalty an admin set against the owner in a dispute, taken from what the
+// platform owes them. Penalties against renters are not collected through
+// the ledger.
+export async function recordOwnerPenalty(booking: Booking, disputeId: number, amount: number): Promise<void> {
+  if (amount <= 0) return;
+  const ownerId = await ownerOf(booking);
+
+  await storage.postLedgerTransaction({
+    reference: `penalty:${disputeId}`,
+    kind: 'penalty',
+    bookingId: booking.id,
+    memo: `Penalty from dispute #${disputeId} on booking #${booking.id}`,
+  }, [
+    { account: 'owner_payable', ownerId, amount },
+    { account: 'platform_commission', amount: -amount },
+  ]);
+}
+
+export interface OwnerEarnings {
+  // Earned on rentals that are still running or could still be refunded
+  onHold: number;
+  // Earned on finished rentals, due in the next payout batch
+  available: number;
+  // Paid out to the owner's bank account so far
+  settled: number;
+}
+
+// Owner entries are credits (negative) when owed and debits when paid out
+export function summariseOwnerLedger(entries: OwnerLedgerEntry[]): OwnerEarnings {
+  const earnings: OwnerEarnings = { onHold: 0, available: 0, settled: 0 };
+  for (const entry of entries) {
+    if (entry.kind === 'payout') {
+      earnings.settled += entry.amount;
+    } else if (entry.payoutBatchId === null) {
+      const ready = (payoutReadyStatuses as string[]).includes(entry.bookingStatus ?? '');
+      earnings[ready ? 'available' : 'onHold'] -= entry.amount;
+    }
+  }
+  return earnings;
+}
+
+// Text that spreadsheets would read as a formula is prefixed with a quote,
+// since names and bank details come from owners
+function csvField(value: string | number): string {
+  const text = typeof value === 'string' && /^[=+\-@\t\r]/.test(value) ? `'${value}` : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// Bank-transfer file for a payout batch, one row per owner
+export async function payoutBatchCsv(batchId: number): Promise<string> {
+  const rows = await storage.listPayouts(batchId);
+  const header = ['Beneficiary Name', 'Account Number', 'IFSC', 'Amount', 'Reference', 'Owner ID'];
+  const lines = rows.map(payout => [
+    payout.accountName,
+    payout.accountNumber,
+    payout.ifsc,
+    payout.amount.toFixed(2),
+    `AGRIRENT-PAYOUT-${batchId}-${payout.ownerId}`,
+    payout.ownerId,
+  ].map(csvField).join(','));
+  return [header.join(','), ...lines].join('\n') + '\n';
+}
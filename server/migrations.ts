@@ -1,6 +1,6 @@
 
 import { db } from './db';
-import { users, equipment, bookings, reviews, comparisons, recommendations } from '@shared/schema';
+import { users, equipment, bookings, reviews, comparisons, recommendations, activeBookingStatuses } from '@shared/schema';
 
 async function createTables() {
   try {
@@ -11,11 +11,17 @@ async function createTables() {
         id SERIAL PRIMARY KEY,
         username TEXT NOT NULL UNIQUE,
         password TEXT NOT NULL,
-        is_admin BOOLEAN NOT NULL DEFAULT false,
+        role TEXT NOT NULL DEFAULT 'renter',
         name TEXT NOT NULL,
+        phone TEXT UNIQUE,
         contact TEXT,
         language TEXT NOT NULL DEFAULT 'en',
         image_url TEXT,
+        gstin TEXT,
+        state TEXT,
+        payout_account_name TEXT,
+        payout_account_number TEXT,
+        payout_ifsc TEXT,
         preferences JSONB NOT NULL DEFAULT '{"preferredCategories": [], "preferredLocations": [], "priceRange": {"min": 0, "max": 100000}, "features": []}'
       );
 
@@ -26,30 +32,434 @@ async function createTables() {
         description TEXT NOT NULL,
         category TEXT NOT NULL,
         daily_rate INTEGER NOT NULL,
+        hourly_rate INTEGER,
+        half_day_rate INTEGER,
+        weekly_rate INTEGER,
+        deposit_amount INTEGER,
         image_url TEXT NOT NULL,
         location TEXT NOT NULL,
         availability BOOLEAN NOT NULL DEFAULT true,
+        booking_mode TEXT NOT NULL DEFAULT 'instant',
         specs JSONB NOT NULL DEFAULT '{}',
         features JSONB NOT NULL DEFAULT '[]',
         created_at TIMESTAMP NOT NULL DEFAULT NOW(),
-        popularity INTEGER NOT NULL DEFAULT 0
+        popularity INTEGER NOT NULL DEFAULT 0,
+        cancellation_policy JSONB
       );
 
+      ALTER TABLE users ADD COLUMN IF NOT EXISTS gstin TEXT;
+      ALTER TABLE users ADD COLUMN IF NOT EXISTS state TEXT;
+      ALTER TABLE users ADD COLUMN IF NOT EXISTS payout_account_name TEXT;
+      ALTER TABLE users ADD COLUMN IF NOT EXISTS payout_account_number TEXT;
+      ALTER TABLE users ADD COLUMN IF NOT EXISTS payout_ifsc TEXT;
+      ALTER TABLE users ADD COLUMN IF NOT EXISTS phone TEXT UNIQUE;
+      ALTER TABLE equipment ADD COLUMN IF NOT EXISTS cancellation_policy JSONB;
+      ALTER TABLE equipment ADD COLUMN IF NOT EXISTS hourly_rate INTEGER;
+      ALTER TABLE equipment ADD COLUMN IF NOT EXISTS half_day_rate INTEGER;
+      ALTER TABLE equipment ADD COLUMN IF NOT EXISTS weekly_rate INTEGER;
+      ALTER TABLE equipment ADD COLUMN IF NOT EXISTS deposit_amount INTEGER;
+      ALTER TABLE equipment ADD COLUMN IF NOT EXISTS booking_mode TEXT NOT NULL DEFAULT 'instant';
+
+      -- Users used to carry only an is_admin flag. Admins keep their access
+      -- and anyone with a listing becomes an owner when role arrives.
+      DO $$
+      BEGIN
+        IF NOT EXISTS (
+          SELECT 1 FROM information_schema.columns
+          WHERE table_name = 'users' AND column_name = 'role'
+        ) THEN
+          ALTER TABLE users ADD COLUMN role TEXT NOT NULL DEFAULT 'renter';
+          UPDATE users SET role = 'owner' WHERE id IN (SELECT owner_id FROM equipment);
+          UPDATE users SET role = 'admin' WHERE is_admin;
+          ALTER TABLE users DROP COLUMN is_admin;
+        END IF;
+      END
+      $$;
+
       CREATE TABLE IF NOT EXISTS bookings (
         id SERIAL PRIMARY KEY,
         equipment_id INTEGER NOT NULL,
         user_id INTEGER NOT NULL,
         start_date TIMESTAMP NOT NULL,
         end_date TIMESTAMP NOT NULL,
+        rental_unit TEXT NOT NULL DEFAULT 'day',
         total_price INTEGER NOT NULL,
+        discount_amount INTEGER NOT NULL DEFAULT 0,
+        promo_code_id INTEGER,
+        deposit_amount INTEGER NOT NULL DEFAULT 0,
+        deposit_status TEXT,
+        deposit_withheld INTEGER NOT NULL DEFAULT 0,
+        deposit_claim_amount INTEGER,
+        deposit_claim_reason TEXT,
+        deposit_resolution_note TEXT,
         status TEXT NOT NULL DEFAULT 'pending',
         razorpay_order_id TEXT,
         razorpay_payment_id TEXT,
+        checkout_order_id INTEGER,
+        hold_expires_at TIMESTAMP,
+        respond_by TIMESTAMP,
+        return_requested_at TIMESTAMP,
+        returned_at TIMESTAMP,
         is_rated BOOLEAN NOT NULL DEFAULT false,
         created_at TIMESTAMP NOT NULL DEFAULT NOW(),
         last_status_update TIMESTAMP NOT NULL DEFAULT NOW()
       );
 
+      ALTER TABLE bookings ADD COLUMN IF NOT EXISTS hold_expires_at TIMESTAMP;
+      ALTER TABLE bookings ADD COLUMN IF NOT EXISTS checkout_order_id INTEGER;
+      ALTER TABLE bookings ADD COLUMN IF NOT EXISTS respond_by TIMESTAMP;
+      ALTER TABLE bookings ADD COLUMN IF NOT EXISTS return_requested_at TIMESTAMP;
+      ALTER TABLE bookings ADD COLUMN IF NOT EXISTS returned_at TIMESTAMP;
+      ALTER TABLE bookings ADD COLUMN IF NOT EXISTS discount_amount INTEGER NOT NULL DEFAULT 0;
+      ALTER TABLE bookings ADD COLUMN IF NOT EXISTS promo_code_id INTEGER;
+      ALTER TABLE bookings ADD COLUMN IF NOT EXISTS deposit_amount INTEGER NOT NULL DEFAULT 0;
+      ALTER TABLE bookings ADD COLUMN IF NOT EXISTS deposit_status TEXT;
+      ALTER TABLE bookings ADD COLUMN IF NOT EXISTS deposit_withheld INTEGER NOT NULL DEFAULT 0;
+      ALTER TABLE bookings ADD COLUMN IF NOT EXISTS deposit_claim_amount INTEGER;
+      ALTER TABLE bookings ADD COLUMN IF NOT EXISTS deposit_claim_reason TEXT;
+      ALTER TABLE bookings ADD COLUMN IF NOT EXISTS deposit_resolution_note TEXT;
+
+      -- Bookings used to store their last day as end_date. They now end at
+      -- the midnight after it, which is done once when rental_unit arrives.
+      DO $$
+      BEGIN
+        IF NOT EXISTS (
+          SELECT 1 FROM information_schema.columns
+          WHERE table_name = 'bookings' AND column_name = 'rental_unit'
+        ) THEN
+          ALTER TABLE bookings ADD COLUMN rental_unit TEXT NOT NULL DEFAULT 'day';
+          -- Its inclusive ranges would see back-to-back bookings collide
+          -- once shifted; bookings_no_time_overlap replaces it below
+          ALTER TABLE bookings DROP CONSTRAINT IF EXISTS bookings_no_overlap;
+          UPDATE bookings SET end_date = date_trunc('day', end_date) + INTERVAL '1 day';
+        END IF;
+      END
+      $$;
+
+      CREATE TABLE IF NOT EXISTS checkout_orders (
+        id SERIAL PRIMARY KEY,
+        user_id INTEGER NOT NULL,
+        total_amount INTEGER NOT NULL,
+        razorpay_order_id TEXT,
+        razorpay_payment_id TEXT,
+        created_at TIMESTAMP NOT NULL DEFAULT NOW()
+      );
+
+      CREATE TABLE IF NOT EXISTS booking_extensions (
+        id SERIAL PRIMARY KEY,
+        booking_id INTEGER NOT NULL,
+        previous_end_date TIMESTAMP NOT NULL,
+        new_end_date TIMESTAMP NOT NULL,
+        amount INTEGER NOT NULL,
+        status TEXT NOT NULL DEFAULT 'awaiting_payment',
+        razorpay_order_id TEXT,
+        razorpay_payment_id TEXT,
+        hold_expires_at TIMESTAMP,
+        created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+        paid_at TIMESTAMP
+      );
+
+      CREATE INDEX IF NOT EXISTS booking_extensions_booking_id_idx ON booking_extensions (booking_id);
+
+      CREATE TABLE IF NOT EXISTS late_fees (
+        id SERIAL PRIMARY KEY,
+        booking_id INTEGER NOT NULL UNIQUE,
+        overdue_since TIMESTAMP NOT NULL,
+        daily_fee INTEGER NOT NULL,
+        days INTEGER NOT NULL DEFAULT 0,
+        amount INTEGER NOT NULL DEFAULT 0,
+        status TEXT NOT NULL DEFAULT 'accruing',
+        settled_at TIMESTAMP,
+        razorpay_order_id TEXT,
+        razorpay_payment_id TEXT,
+        paid_at TIMESTAMP,
+        created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+        updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+      );
+
+      CREATE INDEX IF NOT EXISTS late_fees_status_idx ON late_fees (status);
+
+      CREATE TABLE IF NOT EXISTS booking_handovers (
+        id SERIAL PRIMARY KEY,
+        booking_id INTEGER NOT NULL,
+        kind TEXT NOT NULL,
+        meter_type TEXT,
+        meter_reading DOUBLE PRECISION,
+        fuel_level INTEGER,
+        notes TEXT,
+        photos JSON NOT NULL DEFAULT '[]',
+        recorded_by INTEGER NOT NULL,
+        owner_signed_at TIMESTAMP,
+        renter_signed_at TIMESTAMP,
+        signature TEXT,
+        signed_at TIMESTAMP,
+        created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+        updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+      );
+
+      CREATE UNIQUE INDEX IF NOT EXISTS booking_handovers_booking_kind_idx ON booking_handovers (booking_id, kind);
+
+      CREATE TABLE IF NOT EXISTS disputes (
+        id SERIAL PRIMARY KEY,
+        booking_id INTEGER NOT NULL,
+        opened_by INTEGER NOT NULL,
+        opened_by_party TEXT NOT NULL,
+        description TEXT NOT NULL,
+        claimed_amount INTEGER NOT NULL DEFAULT 0,
+        status TEXT NOT NULL DEFAULT 'open',
+        deposit_withheld INTEGER,
+        refund_amount INTEGER,
+        penalty_amount INTEGER,
+        penalty_party TEXT,
+        resolution_note TEXT,
+        resolved_by INTEGER,
+        resolved_at TIMESTAMP,
+        created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+        updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+      );
+
+      CREATE UNIQUE INDEX IF NOT EXISTS disputes_one_unresolved_idx ON disputes (booking_id)
+        WHERE status IN ('open', 'responded');
+      CREATE INDEX IF NOT EXISTS disputes_status_idx ON disputes (status);
+
+      CREATE TABLE IF NOT EXISTS dispute_messages (
+        id SERIAL PRIMARY KEY,
+        dispute_id INTEGER NOT NULL,
+        author_id INTEGER,
+        author_role TEXT NOT NULL,
+        kind TEXT NOT NULL,
+        message TEXT NOT NULL,
+        photos JSON NOT NULL DEFAULT '[]',
+        created_at TIMESTAMP NOT NULL DEFAULT NOW()
+      );
+
+      CREATE INDEX IF NOT EXISTS dispute_messages_dispute_id_idx ON dispute_messages (dispute_id);
+
+      CREATE TABLE IF NOT EXISTS booking_status_history (
+        id SERIAL PRIMARY KEY,
+        booking_id INTEGER NOT NULL,
+        from_status TEXT,
+        to_status TEXT NOT NULL,
+        actor_id INTEGER,
+        actor_type TEXT NOT NULL,
+        reason TEXT,
+        created_at TIMESTAMP NOT NULL DEFAULT NOW()
+      );
+
+      CREATE TABLE IF NOT EXISTS refunds (
+        id SERIAL PRIMARY KEY,
+        booking_id INTEGER NOT NULL,
+        razorpay_payment_id TEXT NOT NULL,
+        razorpay_refund_id TEXT UNIQUE,
+        amount INTEGER NOT NULL,
+        deposit_amount INTEGER NOT NULL DEFAULT 0,
+        status TEXT NOT NULL DEFAULT 'pending',
+        reason TEXT,
+        created_by INTEGER,
+        created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+        updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+      );
+
+      ALTER TABLE refunds ADD COLUMN IF NOT EXISTS deposit_amount INTEGER NOT NULL DEFAULT 0;
+
+      CREATE TABLE IF NOT EXISTS payment_events (
+        id SERIAL PRIMARY KEY,
+        event_id TEXT NOT NULL UNIQUE,
+        event_type TEXT NOT NULL,
+        payload JSONB NOT NULL,
+        status TEXT NOT NULL DEFAULT 'received',
+        attempts INTEGER NOT NULL DEFAULT 0,
+        outcome TEXT,
+        last_error TEXT,
+        received_at TIMESTAMP NOT NULL DEFAULT NOW(),
+        processed_at TIMESTAMP
+      );
+
+      CREATE TABLE IF NOT EXISTS equipment_blackouts (
+        id SERIAL PRIMARY KEY,
+        equipment_id INTEGER NOT NULL,
+        start_date TIMESTAMP NOT NULL,
+        end_date TIMESTAMP NOT NULL,
+        reason TEXT NOT NULL,
+        note TEXT,
+        created_by INTEGER NOT NULL,
+        created_at TIMESTAMP NOT NULL DEFAULT NOW()
+      );
+
+      CREATE TABLE IF NOT EXISTS waitlist_entries (
+        id SERIAL PRIMARY KEY,
+        user_id INTEGER NOT NULL,
+        equipment_id INTEGER NOT NULL,
+        rental_unit TEXT NOT NULL DEFAULT 'day',
+        start_date TIMESTAMP NOT NULL,
+        end_date TIMESTAMP NOT NULL,
+        status TEXT NOT NULL DEFAULT 'waiting',
+        offered_at TIMESTAMP,
+        hold_expires_at TIMESTAMP,
+        booking_id INTEGER,
+        created_at TIMESTAMP NOT NULL DEFAULT NOW()
+      );
+
+      CREATE INDEX IF NOT EXISTS waitlist_entries_equipment_idx ON waitlist_entries (equipment_id, status);
+
+      CREATE TABLE IF NOT EXISTS pricing_rules (
+        id SERIAL PRIMARY KEY,
+        equipment_id INTEGER NOT NULL,
+        kind TEXT NOT NULL,
+        name TEXT NOT NULL,
+        adjustment_percent INTEGER NOT NULL,
+        start_date TIMESTAMP,
+        end_date TIMESTAMP,
+        min_days INTEGER,
+        created_at TIMESTAMP NOT NULL DEFAULT NOW()
+      );
+
+      CREATE TABLE IF NOT EXISTS promo_codes (
+        id SERIAL PRIMARY KEY,
+        code TEXT NOT NULL UNIQUE,
+        description TEXT,
+        discount_type TEXT NOT NULL,
+        discount_value INTEGER NOT NULL,
+        max_discount_amount INTEGER,
+        min_order_amount INTEGER,
+        valid_from TIMESTAMP,
+        valid_until TIMESTAMP,
+        max_redemptions INTEGER,
+        max_redemptions_per_user INTEGER,
+        categories TEXT[],
+        owner_ids INTEGER[],
+        active BOOLEAN NOT NULL DEFAULT true,
+        created_by INTEGER NOT NULL,
+        created_at TIMESTAMP NOT NULL DEFAULT NOW()
+      );
+
+      CREATE TABLE IF NOT EXISTS promo_redemptions (
+        id SERIAL PRIMARY KEY,
+        promo_code_id INTEGER NOT NULL,
+        booking_id INTEGER NOT NULL,
+        user_id INTEGER NOT NULL,
+        discount_amount INTEGER NOT NULL,
+        status TEXT NOT NULL DEFAULT 'applied',
+        created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+        updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+      );
+
+      CREATE INDEX IF NOT EXISTS promo_redemptions_code_idx ON promo_redemptions (promo_code_id, status);
+
+      CREATE TABLE IF NOT EXISTS invoices (
+        id SERIAL PRIMARY KEY,
+        booking_id INTEGER NOT NULL UNIQUE,
+        invoice_number TEXT NOT NULL UNIQUE,
+        financial_year TEXT NOT NULL,
+        sequence INTEGER NOT NULL,
+        issued_at TIMESTAMP NOT NULL DEFAULT NOW(),
+        supplier_id INTEGER NOT NULL,
+        supplier_name TEXT NOT NULL,
+        supplier_gstin TEXT,
+        supplier_state TEXT,
+        recipient_id INTEGER NOT NULL,
+        recipient_name TEXT NOT NULL,
+        recipient_gstin TEXT,
+        recipient_state TEXT,
+        place_of_supply TEXT,
+        description TEXT NOT NULL,
+        sac_code TEXT NOT NULL,
+        gst_rate INTEGER NOT NULL,
+        taxable_value INTEGER NOT NULL,
+        cgst INTEGER NOT NULL DEFAULT 0,
+        sgst INTEGER NOT NULL DEFAULT 0,
+        igst INTEGER NOT NULL DEFAULT 0,
+        total INTEGER NOT NULL
+      );
+
+      CREATE TABLE IF NOT EXISTS invoice_counters (
+        financial_year TEXT PRIMARY KEY,
+        last_sequence INTEGER NOT NULL
+      );
+
+      CREATE TABLE IF NOT EXISTS ledger_transactions (
+        id SERIAL PRIMARY KEY,
+        reference TEXT NOT NULL UNIQUE,
+        kind TEXT NOT NULL,
+        booking_id INTEGER,
+        memo TEXT,
+        created_at TIMESTAMP NOT NULL DEFAULT NOW()
+      );
+
+      CREATE TABLE IF NOT EXISTS ledger_entries (
+        id SERIAL PRIMARY KEY,
+        transaction_id INTEGER NOT NULL,
+        account TEXT NOT NULL,
+        owner_id INTEGER,
+        booking_id INTEGER,
+        amount INTEGER NOT NULL,
+        payout_batch_id INTEGER,
+        created_at TIMESTAMP NOT NULL DEFAULT NOW()
+      );
+
+      CREATE INDEX IF NOT EXISTS ledger_entries_owner_idx ON ledger_entries (account, owner_id, payout_batch_id);
+
+      CREATE TABLE IF NOT EXISTS payout_batches (
+        id SERIAL PRIMARY KEY,
+        total_amount INTEGER NOT NULL,
+        created_by INTEGER NOT NULL,
+        created_at TIMESTAMP NOT NULL DEFAULT NOW()
+      );
+
+      CREATE TABLE IF NOT EXISTS payouts (
+        id SERIAL PRIMARY KEY,
+        batch_id INTEGER NOT NULL,
+        owner_id INTEGER NOT NULL,
+        amount INTEGER NOT NULL,
+        account_name TEXT NOT NULL,
+        account_number TEXT NOT NULL,
+        ifsc TEXT NOT NULL
+      );
+
+      CREATE TABLE IF NOT EXISTS reconciliation_runs (
+        id SERIAL PRIMARY KEY,
+        trigger TEXT NOT NULL,
+        triggered_by INTEGER,
+        checked INTEGER NOT NULL DEFAULT 0,
+        fixed INTEGER NOT NULL DEFAULT 0,
+        discrepancies JSONB NOT NULL,
+        started_at TIMESTAMP NOT NULL,
+        finished_at TIMESTAMP NOT NULL DEFAULT NOW()
+      );
+
+      CREATE TABLE IF NOT EXISTS notifications (
+        id SERIAL PRIMARY KEY,
+        user_id INTEGER NOT NULL,
+        kind TEXT NOT NULL,
+        message TEXT NOT NULL,
+        link TEXT,
+        read_at TIMESTAMP,
+        created_at TIMESTAMP NOT NULL DEFAULT NOW()
+      );
+
+      CREATE INDEX IF NOT EXISTS notifications_user_idx ON notifications (user_id, read_at);
+
+      CREATE TABLE IF NOT EXISTS phone_otps (
+        id SERIAL PRIMARY KEY,
+        phone TEXT NOT NULL,
+        purpose TEXT NOT NULL,
+        code_hash TEXT NOT NULL,
+        attempts INTEGER NOT NULL DEFAULT 0,
+        expires_at TIMESTAMP NOT NULL,
+        consumed_at TIMESTAMP,
+        created_at TIMESTAMP NOT NULL DEFAULT NOW()
+      );
+
+      CREATE INDEX IF NOT EXISTS phone_otps_phone_idx ON phone_otps (phone, created_at);
+
+      CREATE TABLE IF NOT EXISTS sms_messages (
+        id SERIAL PRIMARY KEY,
+        phone TEXT NOT NULL,
+        body TEXT NOT NULL,
+        transport TEXT NOT NULL,
+        created_at TIMESTAMP NOT NULL DEFAULT NOW()
+      );
+
       CREATE TABLE IF NOT EXISTS reviews (
         id SERIAL PRIMARY KEY,
         user_id INTEGER NOT NULL,
@@ -76,6 +486,41 @@ async function createTables() {
       );
     `);
 
+    // No two active bookings of one equipment may overlap in time. Bookings
+    // are half-open ranges, so one may start when another ends. If existing
+    // rows already overlap the constraint is skipped with a warning; booking
+    // creation still serialises on the equipment row lock.
+    const activeStatusList = activeBookingStatuses.map(status => `'${status}'`).join(', ');
+    await db.execute(`
+      CREATE EXTENSION IF NOT EXISTS btree_gist;
+
+      -- Replaced by bookings_no_time_overlap when bookings gained hour slots
+      ALTER TABLE bookings DROP CONSTRAINT IF EXISTS bookings_no_overlap;
+
+      DO $$
+      BEGIN
+        -- Built before requests held dates; rebuilt below with the current list
+        IF EXISTS (
+          SELECT 1 FROM pg_constraint
+          WHERE conname = 'bookings_no_time_overlap'
+            AND pg_get_constraintdef(oid) NOT LIKE '%''requested''%'
+        ) THEN
+          ALTER TABLE bookings DROP CONSTRAINT bookings_no_time_overlap;
+        END IF;
+
+        IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'bookings_no_time_overlap') THEN
+          ALTER TABLE bookings ADD CONSTRAINT bookings_no_time_overlap EXCLUDE USING gist (
+            equipment_id WITH =,
+            tsrange(start_date, end_date, '[)') WITH &&
+          ) WHERE (status IN (${activeStatusList}));
+        END IF;
+      EXCEPTION
+        WHEN exclusion_violation THEN
+          RAISE WARNING 'bookings_no_time_overlap not added: existing bookings overlap';
+      END
+      $$;
+    `);
+
     console.log('Database tables created successfully');
   } catch (error) {
     console.error('Error creating tables:', error);
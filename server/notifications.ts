@@ -0,0 +1,18 @@
+import { storage } from "./storage";
+import type { Notification, NotificationKind } from "@shared/schema";
+
+// Leave an in-app message for a user. A message that cannot be saved is
+// logged rather than failing whatever caused it.
+export async function notify(
+  userId: number,
+  kind: NotificationKind,
+  message: string,
+  link: string | null = null,
+): Promise<Notification | undefined> {
+  try {
+    return await storage.createNotification({ userId, kind, message, link });
+  } catch (error) {
+    console.error(`Failed to notify user ${userId} (${kind}):`, error);
+    return undefined;
+  }
+}
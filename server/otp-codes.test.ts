@@ -0,0 +1,84 @@
+// Sign-in code hashing and throttling. Run with `npm test`.
+import { test, beforeEach } from "node:test";
+import assert from "node:assert/strict";
+import { codesMatch, hashCode, throttleWait } from "./otp-codes";
+
+const PHONE = '+919876543210';
+const NOW = new Date('2026-06-10T12:00:00Z');
+
+function sentAgo(seconds: number) {
+  return { createdAt: new Date(NOW.getTime() - seconds * 1000) };
+}
+
+beforeEach(() => {
+  process.env.OTP_SECRET = 'otp-test-secret';
+  delete process.env.OTP_RESEND_SECONDS;
+  delete process.env.OTP_MAX_PER_HOUR;
+});
+
+test('hashCode gives the same hash for the same number and code', () => {
+  const hash = hashCode(PHONE, '123456');
+
+  assert.match(hash, /^[0-9a-f]{64}$/);
+  assert.equal(hashCode(PHONE, '123456'), hash);
+  assert.notEqual(hashCode(PHONE, '123457'), hash);
+  assert.notEqual(hashCode('+919876543211', '123456'), hash);
+});
+
+test('hashCode depends on the server secret', () => {
+  const hash = hashCode(PHONE, '123456');
+  process.env.OTP_SECRET = 'another-secret';
+
+  assert.notEqual(hashCode(PHONE, '123456'), hash);
+});
+
+test('hashCode falls back to the session secret and refuses to hash without one', () => {
+  const sessionSecret = process.env.SESSION_SECRET;
+  delete process.env.OTP_SECRET;
+  try {
+    process.env.SESSION_SECRET = 'session-secret';
+    assert.match(hashCode(PHONE, '123456'), /^[0-9a-f]{64}$/);
+
+    delete process.env.SESSION_SECRET;
+    assert.throws(() => hashCode(PHONE, '123456'), /OTP_SECRET is not set/);
+  } finally {
+    if (sessionSecret === undefined) delete process.env.SESSION_SECRET;
+    else process.env.SESSION_SECRET = sessionSecret;
+  }
+});
+
+test('codesMatch compares hashes', () => {
+  const hash = hashCode(PHONE, '123456');
+
+  assert.equal(codesMatch(hash, hashCode(PHONE, '123456')), true);
+  assert.equal(codesMatch(hash, hashCode(PHONE, '654321')), false);
+  assert.equal(codesMatch(hash, hash.slice(1)), false);
+});
+
+test('throttleWait lets a number with no recent codes have one', () => {
+  assert.equal(throttleWait([], NOW), 0);
+});
+
+test('throttleWait holds back a new code until the resend wait is over', () => {
+  assert.equal(throttleWait([sentAgo(20)], NOW), 40);
+  assert.equal(throttleWait([sentAgo(60)], NOW), 0);
+
+  process.env.OTP_RESEND_SECONDS = '30';
+  assert.equal(throttleWait([sentAgo(20)], NOW), 10);
+});
+
+test('throttleWait caps the codes sent to a number in an hour', () => {
+  // Five codes over the last 50 minutes: the next can go once the oldest is an hour old
+  const recent = [sentAgo(600), sentAgo(1200), sentAgo(1800), sentAgo(2400), sentAgo(3000)];
+  assert.equal(throttleWait(recent, NOW), 600);
+  assert.equal(throttleWait(recent.slice(0, 4), NOW), 0);
+
+  process.env.OTP_MAX_PER_HOUR = '6';
+  assert.equal(throttleWait(recent, NOW), 0);
+});
+
+test('throttleWait still refuses a code when the oldest one is just an hour old', () => {
+  const recent = [sentAgo(600), sentAgo(1200), sentAgo(1800), sentAgo(2400), sentAgo(3600)];
+
+  assert.equal(throttleWait(recent, NOW), 1);
+});
@@ -0,0 +1,70 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import type { PhoneOtp } from "@shared/schema";
+
+const DEFAULT_EXPIRY_MINUTES = 10;
+const DEFAULT_MAX_ATTEMPTS = 5;
+const DEFAULT_RESEND_SECONDS = 60;
+const DEFAULT_MAX_PER_HOUR = 5;
+export const HOUR_MS = 60 * 60 * 1000;
+
+function positiveSetting(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+// How long a code can be used for, from OTP_EXPIRY_MINUTES
+export function expiryMs(): number {
+  return positiveSetting('OTP_EXPIRY_MINUTES', DEFAULT_EXPIRY_MINUTES) * 60 * 1000;
+}
+
+// Wrong guesses allowed before a code stops working, from OTP_MAX_ATTEMPTS
+export function maxAttempts(): number {
+  return positiveSetting('OTP_MAX_ATTEMPTS', DEFAULT_MAX_ATTEMPTS);
+}
+
+// Wait before another code goes to the same number, from OTP_RESEND_SECONDS
+export function resendSeconds(): number {
+  return positiveSetting('OTP_RESEND_SECONDS', DEFAULT_RESEND_SECONDS);
+}
+
+// Codes a number can be sent in an hour, from OTP_MAX_PER_HOUR
+function maxPerHour(): number {
+  return positiveSetting('OTP_MAX_PER_HOUR', DEFAULT_MAX_PER_HOUR);
+}
+
+// Key codes are hashed with, from OTP_SECRET or else the session secret
+function hashKey(): string {
+  const key = process.env.OTP_SECRET || process.env.SESSION_SECRET;
+  if (!key) {
+    throw new Error('OTP_SECRET is not set');
+  }
+  return key;
+}
+
+// Codes are short, so they are hashed with a server secret rather than
+// stored in a form that could be matched against all million candidates
+export function hashCode(phone: string, code: string): string {
+  return createHmac('sha256', hashKey()).update(`${phone}:${code}`).digest('hex');
+}
+
+export function codesMatch(expected: string, received: string): boolean {
+  const a = Buffer.from(expected);
+  const b = Buffer.from(received);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+// Seconds a number must wait before it is sent another code, or 0 when it
+// can have one now. `recent` are the codes sent to it in the last hour,
+// newest first.
+export function throttleWait(recent: Pick<PhoneOtp, 'createdAt'>[], now: Date): number {
+  const last = recent[0];
+  if (last) {
+    const wait = Math.ceil((last.createdAt.getTime() + resendSeconds() * 1000 - now.getTime()) / 1000);
+    if (wait > 0) return wait;
+  }
+  if (recent.length >= maxPerHour()) {
+    const oldest = recent[recent.length - 1];
+    return Math.max(1, Math.ceil((oldest.createdAt.getTime() + HOUR_MS - now.getTime()) / 1000));
+  }
+  return 0;
+}
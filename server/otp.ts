@@ -0,0 +1,87 @@
+import { randomInt } from "crypto";
+import { storage } from "./storage";
+import { getSmsTransport } from "./sms";
+import { HOUR_MS, codesMatch, expiryMs, hashCode, maxAttempts, resendSeconds, throttleWait } from "./otp-codes";
+import { maskPhone } from "@shared/phone";
+import type { OtpPurpose } from "@shared/schema";
+
+export class OtpError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'OtpError';
+  }
+}
+
+// Thrown when a number has been sent codes too often; it may ask again
+// after `retryAfterSeconds`
+export class OtpThrottleError extends Error {
+  constructor(public readonly retryAfterSeconds: number) {
+    super(`Too many codes requested. Try again in ${retryAfterSeconds} seconds.`);
+    this.name = 'OtpThrottleError';
+  }
+}
+
+const CODE_LENGTH = 6;
+
+// Refuse a new code while the last one is recent or the number has had
+// its share for the hour
+async function assertCanSend(phone: string, now: Date) {
+  const recent = await storage.listPhoneOtpsSince(phone, new Date(now.getTime() - HOUR_MS));
+  const wait = throttleWait(recent, now);
+  if (wait > 0) throw new OtpThrottleError(wait);
+}
+
+// Send a sign-in code to `phone`. Signing in needs an account with the
+// number; registering needs it to be free.
+export async function requestOtp(phone: string, purpose: OtpPurpose, now: Date = new Date()) {
+  const user = await storage.getUserByPhone(phone);
+  if (purpose === 'login' && !user) {
+    throw new OtpError('No account uses this number. Register instead.');
+  }
+  if (purpose === 'register' && user) {
+    throw new OtpError('This number is already registered. Sign in instead.');
+  }
+  await assertCanSend(phone, now);
+
+  const code = randomInt(0, 10 ** CODE_LENGTH).toString().padStart(CODE_LENGTH, '0');
+  const otp = await storage.createPhoneOtp({
+    phone,
+    purpose,
+    codeHash: hashCode(phone, code),
+    expiresAt: new Date(now.getTime() + expiryMs()),
+  });
+
+  const minutes = Math.round(expiryMs() / 60000);
+  await getSmsTransport().send(phone,
+    `${code} is your AgriRent code. It expires in ${minutes} minutes. Do not share it with anyone.`);
+
+  return {
+    sentTo: maskPhone(phone),
+    expiresAt: otp.expiresAt,
+    resendInSeconds: resendSeconds(),
+  };
+}
+
+// Check a code against the latest one sent for `purpose` and use it up.
+// Each wrong guess counts towards the code's attempt limit.
+export async function verifyOtp(phone: string, purpose: OtpPurpose, code: string, now: Date = new Date()): Promise<void> {
+  const otp = await storage.getActivePhoneOtp(phone, purpose, now);
+  if (!otp) {
+    throw new OtpError('This code has expired. Request a new one.');
+  }
+
+  const attempted = await storage.recordPhoneOtpAttempt(otp.id, maxAttempts());
+  if (!attempted) {
+    throw new OtpError('Too many wrong codes. Request a new one.');
+  }
+  if (!codesMatch(otp.codeHash, hashCode(phone, code))) {
+    const left = maxAttempts() - attempted.attempts;
+    throw new OtpError(left > 0
+      ? `Wrong code. ${left} attempt${left === 1 ? '' : 's'} left.`
+      : 'Too many wrong codes. Request a new one.');
+  }
+
+  if (!(await storage.consumePhoneOtp(otp.id))) {
+    throw new OtpError('This code has already been used. Request a new one.');
+  }
+}
@@ -0,0 +1,211 @@
+import { storage, BookingOverlapError } from "./storage";
+import { handleWebhookEvent } from "./payment";
+import { applyRefundUpdate } from "./refunds";
+import { refundLateCapture } from "./hold-expiry";
+import { applyCheckoutPayment, failCheckoutPayment } from "./checkout";
+import { applyExtensionPayment, failExtensionPayment } from "./extensions";
+import { applyLateFeePayment, failLateFeePayment } from "./late-returns";
+import { transitionBooking, webhookActor, InvalidBookingTransitionError } from "./booking-lifecycle";
+import type { PaymentEvent } from "@shared/schema";
+
+// Thrown inside event handling when the event is valid but has nothing left
+// to do, e.g. a capture for a booking that is already paid.
+class EventIgnored extends Error {}
+
+// Apply a provider event to bookings and refunds. Returns a short description
+// of what changed, which is stored as the event's outcome.
+async function applyEvent(event: any): Promise<string> {
+  const result = await handleWebhookEvent(event);
+  if (!result) {
+    throw new EventIgnored(`Unhandled event type '${event.event}'`);
+  }
+
+  switch (result.status) {
+    case 'success': {
+      if (result.lateFeeId) {
+        const fee = await storage.getLateFee(result.lateFeeId);
+        if (!fee) {
+          throw new Error(`Late fee ${result.lateFeeId} not found`);
+        }
+        if (!await applyLateFeePayment(fee, result.paymentId)) {
+          throw new EventIgnored(`Late fee ${fee.id} already paid`);
+        }
+        return `Late fee ${fee.id} on booking ${fee.bookingId} marked paid`;
+      }
+
+      if (result.extensionId) {
+        const extension = await storage.getBookingExtension(result.extensionId);
+        if (!extension) {
+          throw new Error(`Extension ${result.extensionId} not found`);
+        }
+        const applied = await applyExtensionPayment(extension, result.paymentId, webhookActor);
+        if (!applied) {
+          throw new EventIgnored(`Extension ${extension.id} already paid`);
+        }
+        return applied.refund
+          ? `Extension ${extension.id} could not be added, refund ${applied.refund.id} ${applied.refund.status}`
+          : `Booking ${applied.booking.id} extended by extension ${extension.id}`;
+      }
+
+      if (result.checkoutOrderId) {
+        const order = await storage.getCheckoutOrder(result.checkoutOrderId);
+        if (!order) {
+          throw new Error(`Checkout ${result.checkoutOrderId} not found`);
+        }
+        const { paid, refunds } = await applyCheckoutPayment(order, result.paymentId, webhookActor);
+        if (paid.length === 0 && refunds.length === 0) {
+          throw new EventIgnored(`Checkout ${order.id} already paid`);
+        }
+        return `Checkout ${order.id}: ${paid.length} booking(s) marked paid, ${refunds.length} refunded`;
+      }
+
+      if (!result.bookingId) {
+        throw new EventIgnored(`Payment ${result.paymentId} is not tied to a booking`);
+      }
+      const booking = await storage.getBooking(result.bookingId);
+      if (!booking) {
+        throw new Error(`Booking ${result.bookingId} not found`);
+      }
+      if (booking.status === 'paid' && booking.razorpayPaymentId === result.paymentId) {
+        throw new EventIgnored(`Booking ${booking.id} already paid`);
+      }
+      if (booking.status === 'expired') {
+        const refund = await refundLateCapture(booking, result.paymentId, webhookActor);
+        return `Booking ${booking.id} hold had expired, refund ${refund.id} ${refund.status}`;
+      }
+
+      try {
+        await transitionBooking(booking.id, 'paid', webhookActor, {
+          reason: event.event,
+          data: { razorpayPaymentId: result.paymentId }
+        });
+      } catch (error) {
+        if (!(error instanceof BookingOverlapError)) throw error;
+        const refund = await refundLateCapture(booking, result.paymentId, webhookActor,
+          'Dates were booked by someone else before payment completed');
+        return `Booking ${booking.id} dates were taken, refund ${refund.id} ${refund.status}`;
+      }
+      return `Booking ${booking.id} marked paid`;
+    }
+
+    case 'failed': {
+      if (result.lateFeeId) {
+        const fee = await storage.getLateFee(result.lateFeeId);
+        if (!fee) {
+          throw new Error(`Late fee ${result.lateFeeId} not found`);
+        }
+        if (!await failLateFeePayment(fee)) {
+          throw new EventIgnored(`Late fee ${fee.id} is not awaiting payment`);
+        }
+        return `Late fee ${fee.id} marked payment_failed`;
+      }
+
+      if (result.extensionId) {
+        const extension = await storage.getBookingExtension(result.extensionId);
+        if (!extension) {
+          throw new Error(`Extension ${result.extensionId} not found`);
+        }
+        if (!await failExtensionPayment(extension)) {
+          throw new EventIgnored(`Extension ${extension.id} is not awaiting payment`);
+        }
+        return `Extension ${extension.id} marked payment_failed`;
+      }
+
+      if (result.checkoutOrderId) {
+        const order = await storage.getCheckoutOrder(result.checkoutOrderId);
+        if (!order) {
+          throw new Error(`Checkout ${result.checkoutOrderId} not found`);
+        }
+        const failed = await failCheckoutPayment(order, result.error || event.event, webhookActor);
+        if (failed === 0) {
+          throw new EventIgnored(`Checkout ${order.id} has no bookings awaiting payment`);
+        }
+        return `Checkout ${order.id}: ${failed} booking(s) marked payment_failed`;
+      }
+
+      if (!result.bookingId) {
+        throw new EventIgnored('Failed payment is not tied to a booking');
+      }
+      const booking = await transitionBooking(result.bookingId, 'payment_failed', webhookActor, {
+        reason: result.error || event.event
+      });
+      return `Booking ${booking.id} marked payment_failed`;
+    }
+
+    case 'refund_processed':
+    case 'refund_failed': {
+      const refund = await applyRefundUpdate({
+        refundId: result.refundId,
+        paymentId: result.paymentId,
+        bookingId: result.bookingId,
+        refundRecordId: result.refundRecordId,
+        amount: result.amount,
+        status: result.status === 'refund_processed' ? 'processed' : 'failed'
+      }, webhookActor);
+      if (!refund) {
+        throw new EventIgnored(`Refund ${result.refundId} does not match any booking`);
+      }
+      return `Refund ${refund.id} for booking ${refund.bookingId} ${refund.status}`;
+    }
+  }
+}
+
+// Process a stored event and record the outcome on it. Events that arrive
+// out of order (e.g. a failure after the booking was already paid) are
+// rejected by the booking lifecycle and stored as ignored rather than failed.
+export async function processPaymentEvent(record: PaymentEvent): Promise<PaymentEvent> {
+  const attempts = record.attempts + 1;
+
+  try {
+    const outcome = await applyEvent(record.payload);
+    return await storage.updatePaymentEvent(record.id, {
+      status: 'processed',
+      attempts,
+      outcome,
+      lastError: null,
+      processedAt: new Date(),
+    });
+  } catch (error) {
+    if (error instanceof EventIgnored || error instanceof InvalidBookingTransitionError) {
+      return await storage.updatePaymentEvent(record.id, {
+        status: 'ignored',
+        attempts,
+        outcome: error.message,
+        lastError: null,
+        processedAt: new Date(),
+      });
+    }
+
+    console.error(`Processing payment event ${record.eventId} failed:`, error);
+    return await storage.updatePaymentEvent(record.id, {
+      status: 'failed',
+      attempts,
+      lastError: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
+// Store an incoming delivery and process it. Redeliveries of an event that
+// was already processed or ignored are acknowledged without side effects;
+// redeliveries of a failed event are processed again.
+export async function receivePaymentEvent(eventId: string, event: any) {
+  const { event: record, duplicate } = await storage.recordPaymentEvent({
+    eventId,
+    eventType: event.event ?? 'unknown',
+    payload: event,
+    status: 'received',
+  });
+
+  if (duplicate && (record.status === 'processed' || record.status === 'ignored')) {
+    return { event: record, duplicate };
+  }
+
+  return { event: await processPaymentEvent(record), duplicate };
+}
+
+export async function retryPaymentEvent(id: number): Promise<PaymentEvent | undefined> {
+  const record = await storage.getPaymentEvent(id);
+  if (!record) return undefined;
+  if (record.status === 'processed') return record;
+  return processPaymentEvent(record);
+}
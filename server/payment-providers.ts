@@ -0,0 +1,308 @@
+import Razorpay from 'razorpay';
+import type { Payments } from 'razorpay/dist/types/payments';
+import crypto from 'crypto';
+
+// All amounts exchanged with a provider are in paise, as Razorpay expects.
+
+export interface ProviderOrder {
+  id: string;
+  amount: number;
+  currency: string;
+  receipt: string;
+  status: string;
+}
+
+export interface ProviderPayment {
+  id: string;
+  orderId: string;
+  status: string;
+  amount: number;
+  currency: string;
+  createdAt: number; // Unix timestamp in seconds
+  method: string;
+}
+
+export interface ProviderRefund {
+  id: string;
+  paymentId: string;
+  amount: number;
+  status: 'pending' | 'processed' | 'failed';
+}
+
+export interface PaymentProvider {
+  readonly name: 'razorpay' | 'sandbox';
+  // Public key handed to the checkout widget
+  readonly keyId: string;
+  createOrder(params: { amount: number; currency: string; receipt: string; notes: Record<string, string> }): Promise<ProviderOrder>;
+  verifySignature(orderId: string, paymentId: string, signature: string): boolean;
+  fetchPayment(paymentId: string): Promise<ProviderPayment>;
+  // Every payment attempted against an order, in any state
+  fetchOrderPayments(orderId: string): Promise<ProviderPayment[]>;
+  refund(paymentId: string, amount: number, notes: Record<string, string>): Promise<ProviderRefund>;
+  // Verify a webhook delivery and return the parsed event. Throws
+  // WebhookSignatureError when the signature does not match.
+  parseWebhook(rawBody: Buffer, signature: string | undefined): any;
+}
+
+export class WebhookSignatureError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WebhookSignatureError';
+  }
+}
+
+function hmac(secret: string, payload: string | Buffer): string {
+  return crypto.createHmac('sha256', secret).update(payload).digest('hex');
+}
+
+function signaturesMatch(expected: string, received: string): boolean {
+  const a = Buffer.from(expected);
+  const b = Buffer.from(received);
+  return a.length === b.length && crypto.timingSafeEqual(a, b);
+}
+
+export class RazorpayProvider implements PaymentProvider {
+  readonly name = 'razorpay' as const;
+  private client: Razorpay;
+
+  constructor(
+    readonly keyId: string,
+    private keySecret: string,
+    private webhookSecret?: string,
+  ) {
+    this.client = new Razorpay({ key_id: keyId, key_secret: keySecret });
+  }
+
+  async createOrder(params: { amount: number; currency: string; receipt: string; notes: Record<string, string> }): Promise<ProviderOrder> {
+    const order = await this.client.orders.create(params);
+    return {
+      id: order.id,
+      amount: Number(order.amount),
+      currency: order.currency,
+      receipt: order.receipt ?? params.receipt,
+      status: order.status,
+    };
+  }
+
+  verifySignature(orderId: string, paymentId: string, signature: string): boolean {
+    return signaturesMatch(hmac(this.keySecret, `${orderId}|${paymentId}`), signature);
+  }
+
+  private toPayment(payment: Payments.RazorpayPayment): ProviderPayment {
+    return {
+      id: payment.id,
+      orderId: payment.order_id,
+      status: payment.status,
+      amount: Number(payment.amount),
+      currency: payment.currency,
+      createdAt: payment.created_at,
+      method: payment.method,
+    };
+  }
+
+  async fetchPayment(paymentId: string): Promise<ProviderPayment> {
+    return this.toPayment(await this.client.payments.fetch(paymentId));
+  }
+
+  async fetchOrderPayments(orderId: string): Promise<ProviderPayment[]> {
+    const { items } = await this.client.orders.fetchPayments(orderId);
+    return items.map(payment => this.toPayment(payment));
+  }
+
+  async refund(paymentId: string, amount: number, notes: Record<string, string>): Promise<ProviderRefund> {
+    const refund = await this.client.payments.refund(paymentId, { amount, notes });
+    return {
+      id: refund.id,
+      paymentId,
+      amount: Number(refund.amount),
+      status: refund.status,
+    };
+  }
+
+  parseWebhook(rawBody: Buffer, signature: string | undefined): any {
+    // Webhooks settle payments and refunds, so nothing is accepted unverified
+    if (!this.webhookSecret) {
+      throw new WebhookSignatureError('RAZORPAY_WEBHOOK_SECRET is not set');
+    }
+    if (!signature) {
+      throw new WebhookSignatureError('Missing signature');
+    }
+    if (!signaturesMatch(hmac(this.webhookSecret, rawBody), signature)) {
+      throw new WebhookSignatureError('Invalid signature');
+    }
+    return JSON.parse(rawBody.toString());
+  }
+}
+
+// Offline provider for local development and tests. Orders, payments and
+// refunds live in memory and get sequential ids, signatures use the same
+// HMAC scheme as Razorpay with a fixed secret, so a given sequence of calls
+// always produces the same results.
+export class SandboxProvider implements PaymentProvider {
+  readonly name = 'sandbox' as const;
+  readonly keyId = 'rzp_sandbox';
+  private sequence = 0;
+  private orders = new Map<string, ProviderOrder & { notes: Record<string, string> }>();
+  private payments = new Map<string, ProviderPayment & { notes: Record<string, string> }>();
+
+  constructor(private secret: string = 'sandbox_secret') {}
+
+  private nextId(prefix: string): string {
+    this.sequence += 1;
+    return `${prefix}_sandbox_${this.sequence.toString().padStart(6, '0')}`;
+  }
+
+  sign(orderId: string, paymentId: string): string {
+    return hmac(this.secret, `${orderId}|${paymentId}`);
+  }
+
+  async createOrder(params: { amount: number; currency: string; receipt: string; notes: Record<string, string> }): Promise<ProviderOrder> {
+    const order = {
+      id: this.nextId('order'),
+      amount: params.amount,
+      currency: params.currency,
+      receipt: params.receipt,
+      status: 'created',
+      notes: params.notes,
+    };
+    this.orders.set(order.id, order);
+    return order;
+  }
+
+  // Stand-in for the hosted checkout: pays (or fails) an order and returns
+  // what the Razorpay widget would hand back to the browser.
+  completeCheckout(orderId: string, outcome: 'success' | 'failure') {
+    const order = this.orders.get(orderId);
+    if (!order) {
+      throw new Error(`Unknown sandbox order ${orderId}`);
+    }
+
+    const payment = {
+      id: this.nextId('pay'),
+      orderId,
+      status: outcome === 'success' ? 'captured' : 'failed',
+      amount: order.amount,
+      currency: order.currency,
+      createdAt: Math.floor(Date.now() / 1000),
+      method: 'sandbox',
+      notes: order.notes,
+    };
+    this.payments.set(payment.id, payment);
+    if (outcome === 'success') {
+      order.status = 'paid';
+    }
+
+    return {
+      payment,
+      response: {
+        razorpay_order_id: orderId,
+        razorpay_payment_id: payment.id,
+        razorpay_signature: this.sign(orderId, payment.id),
+      },
+    };
+  }
+
+  // Build a signed webhook delivery in Razorpay's payload format
+  buildWebhook(event: string, entityType: 'payment' | 'refund', entity: Record<string, unknown>) {
+    const eventId = this.nextId('evt');
+    const body = Buffer.from(JSON.stringify({
+      entity: 'event',
+      event,
+      id: eventId,
+      created_at: Math.floor(Date.now() / 1000),
+      payload: { [entityType]: { entity } },
+    }));
+    return { body, signature: hmac(this.secret, body), eventId };
+  }
+
+  paymentWebhook(paymentId: string) {
+    const payment = this.payments.get(paymentId);
+    if (!payment) {
+      throw new Error(`Unknown sandbox payment ${paymentId}`);
+    }
+
+    return this.buildWebhook(
+      payment.status === 'captured' ? 'payment.captured' : 'payment.failed',
+      'payment',
+      {
+        id: payment.id,
+        order_id: payment.orderId,
+        amount: payment.amount,
+        currency: payment.currency,
+        status: payment.status,
+        notes: payment.notes,
+        error_description: payment.status === 'failed' ? 'Sandbox payment declined' : null,
+      },
+    );
+  }
+
+  verifySignature(orderId: string, paymentId: string, signature: string): boolean {
+    return signaturesMatch(this.sign(orderId, paymentId), signature);
+  }
+
+  async fetchPayment(paymentId: string): Promise<ProviderPayment> {
+    const payment = this.payments.get(paymentId);
+    if (!payment) {
+      throw new Error(`Unknown sandbox payment ${paymentId}`);
+    }
+    return payment;
+  }
+
+  async fetchOrderPayments(orderId: string): Promise<ProviderPayment[]> {
+    if (!this.orders.has(orderId)) {
+      throw new Error(`Unknown sandbox order ${orderId}`);
+    }
+    return Array.from(this.payments.values()).filter(payment => payment.orderId === orderId);
+  }
+
+  async refund(paymentId: string, amount: number, notes: Record<string, string>): Promise<ProviderRefund> {
+    const payment = await this.fetchPayment(paymentId);
+    if (amount > payment.amount) {
+      throw new Error('Refund amount exceeds payment amount');
+    }
+    return {
+      id: this.nextId('rfnd'),
+      paymentId,
+      amount,
+      status: 'processed',
+    };
+  }
+
+  parseWebhook(rawBody: Buffer, signature: string | undefined): any {
+    if (!signature || !signaturesMatch(hmac(this.secret, rawBody), signature)) {
+      throw new WebhookSignatureError('Invalid signature');
+    }
+    return JSON.parse(rawBody.toString());
+  }
+}
+
+let provider: PaymentProvider | undefined;
+
+// PAYMENT_PROVIDER selects the implementation. When unset, Razorpay is used
+// if its keys are configured and the sandbox otherwise (never in production).
+export function getPaymentProvider(): PaymentProvider {
+  if (provider) return provider;
+
+  const hasRazorpayKeys = Boolean(process.env.RAZORPAY_KEY_ID && process.env.RAZORPAY_KEY_SECRET);
+  const selected = process.env.PAYMENT_PROVIDER ?? (hasRazorpayKeys ? 'razorpay' : 'sandbox');
+
+  if (selected === 'razorpay') {
+    if (!hasRazorpayKeys) {
+      throw new Error('RAZORPAY_KEY_ID and RAZORPAY_KEY_SECRET are required');
+    }
+    provider = new RazorpayProvider(
+      process.env.RAZORPAY_KEY_ID!,
+      process.env.RAZORPAY_KEY_SECRET!,
+      process.env.RAZORPAY_WEBHOOK_SECRET,
+    );
+  } else if (selected === 'sandbox') {
+    if (process.env.NODE_ENV === 'production' && !process.env.PAYMENT_PROVIDER) {
+      throw new Error('Refusing to fall back to the sandbox payment provider in production');
+    }
+    provider = new SandboxProvider(process.env.SANDBOX_PAYMENT_SECRET);
+  } else {
+    throw new Error(`Unknown PAYMENT_PROVIDER '${selected}'`);
+  }
+
+  return provider;
+}
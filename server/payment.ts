@@ -1,18 +1,10 @@
-import Razorpay from 'razorpay';
-import crypto from 'crypto';
+import { getPaymentProvider } from './payment-providers';
 
-if (!process.env.RAZORPAY_KEY_ID || !process.env.RAZORPAY_KEY_SECRET) {
-  throw new Error('RAZORPAY_KEY_ID and RAZORPAY_KEY_SECRET are required');
-}
-
-const razorpay = new Razorpay({
-  key_id: process.env.RAZORPAY_KEY_ID,
-  key_secret: process.env.RAZORPAY_KEY_SECRET
-});
-
-export async function createPaymentSession(bookingId: number, amount: number, equipmentName: string) {
+// Open a provider order for `amount` rupees and return the configuration
+// the checkout widget needs to pay it
+async function openPaymentSession(receipt: string, notes: Record<string, string>, amount: number, description: string) {
   try {
-    console.log('Creating payment session for booking:', bookingId, 'amount:', amount);
+    console.log('Creating payment session for', receipt, 'amount:', amount);
 
     // Validate amount
     if (amount <= 0) {
@@ -26,29 +18,28 @@ export async function createPaymentSession(bookingId: number, amount: number, eq
     const orderOptions = {
       amount: amountInPaise,
       currency: 'INR',
-      receipt: `booking_${bookingId}`,
-      notes: {
-        bookingId: bookingId.toString(),
-        equipmentName,
-      },
+      receipt,
+      notes,
     };
-    console.log('Creating Razorpay order with options:', orderOptions);
+    console.log('Creating payment order with options:', orderOptions);
 
-    const order = await razorpay.orders.create(orderOptions);
-    console.log('Razorpay order created:', order);
+    const provider = getPaymentProvider();
+    const order = await provider.createOrder(orderOptions);
+    console.log(`${provider.name} order created:`, order);
 
     if (!order?.id) {
-      throw new Error('Failed to create Razorpay order');
+      throw new Error('Failed to create payment order');
     }
 
     // Return configuration for frontend
     const config = {
       id: order.id,
-      keyId: process.env.RAZORPAY_KEY_ID,
+      provider: provider.name,
+      keyId: provider.keyId,
       amount: amountInPaise,
       currency: 'INR',
       name: "AgriRent Equipment",
-      description: `Booking for ${equipmentName}`,
+      description,
       prefill: {
         name: '',  // Will be filled by frontend
         email: '', // Will be filled by frontend
@@ -63,33 +54,51 @@ export async function createPaymentSession(bookingId: number, amount: number, eq
   }
 }
 
+export async function createPaymentSession(bookingId: number, amount: number, equipmentName: string) {
+  return openPaymentSession(`booking_${bookingId}`, {
+    bookingId: bookingId.toString(),
+    equipmentName,
+  }, amount, `Booking for ${equipmentName}`);
+}
+
+// One order covering every booking in a cart checkout
+export async function createCheckoutPaymentSession(checkoutOrderId: number, amount: number, itemCount: number) {
+  return openPaymentSession(`checkout_${checkoutOrderId}`, {
+    checkoutOrderId: checkoutOrderId.toString(),
+  }, amount, `Checkout of ${itemCount} equipment booking${itemCount === 1 ? '' : 's'}`);
+}
+
+// Extra time on a paid booking is charged with its own order
+export async function createExtensionPaymentSession(extensionId: number, bookingId: number, amount: number, equipmentName: string) {
+  return openPaymentSession(`extension_${extensionId}`, {
+    bookingId: bookingId.toString(),
+    extensionId: extensionId.toString(),
+    equipmentName,
+  }, amount, `Extension of booking for ${equipmentName}`);
+}
+
+// A fee for returning the equipment late is charged with its own order
+export async function createLateFeePaymentSession(lateFeeId: number, bookingId: number, amount: number, equipmentName: string) {
+  return openPaymentSession(`late_fee_${lateFeeId}`, {
+    bookingId: bookingId.toString(),
+    lateFeeId: lateFeeId.toString(),
+    equipmentName,
+  }, amount, `Late return fee for ${equipmentName}`);
+}
+
 export async function verifyPaymentSignature(orderId: string, paymentId: string, signature: string): Promise<boolean> {
   try {
-    const text = orderId + "|" + paymentId;
-    const expectedSignature = crypto
-      .createHmac("sha256", process.env.RAZORPAY_KEY_SECRET!)
-      .update(text)
-      .digest("hex");
-
-    return expectedSignature === signature;
+    return getPaymentProvider().verifySignature(orderId, paymentId, signature);
   } catch (error) {
     console.error('Error verifying payment signature:', error);
     return false;
   }
 }
 
-interface RazorpayPayment {
-  status: string;
-  amount: number;
-  currency: string;
-  created_at: number;
-  method: string;
-}
-
 export async function generateReceipt(bookingId: number, paymentId: string) {
   try {
-    // Get payment details from Razorpay
-    const payment = await razorpay.payments.fetch(paymentId) as RazorpayPayment;
+    // Get payment details from the provider
+    const payment = await getPaymentProvider().fetchPayment(paymentId);
 
     return {
       bookingId,
@@ -97,9 +106,9 @@ export async function generateReceipt(bookingId: number, paymentId: string) {
       status: payment.status,
       amount: Number(payment.amount) / 100, // Convert paise to rupees
       currency: payment.currency,
-      timestamp: new Date(payment.created_at * 1000).toISOString(),
+      timestamp: new Date(payment.createdAt * 1000).toISOString(),
       method: payment.method,
-      receipt_url: null // Razorpay doesn't provide a receipt URL by default
+      receipt_url: `/api/bookings/${bookingId}/invoice.pdf`
     };
   } catch (error) {
     console.error('Error generating receipt:', error);
@@ -107,48 +116,121 @@ export async function generateReceipt(bookingId: number, paymentId: string) {
   }
 }
 
-interface WebhookSuccessResult {
+export async function refundPayment(paymentId: string, amount: number, notes: Record<string, string> = {}) {
+  try {
+    if (amount <= 0) {
+      throw new Error('Invalid refund amount. Amount must be greater than 0');
+    }
+
+    // Providers expect the refund amount in paise
+    const refund = await getPaymentProvider().refund(paymentId, Math.floor(amount * 100), notes);
+
+    return {
+      id: refund.id,
+      paymentId,
+      amount: Number(refund.amount) / 100,
+      status: refund.status,
+    };
+  } catch (error) {
+    console.error('Error creating refund:', error);
+    throw new Error('Failed to create refund');
+  }
+}
+
+// Verify a webhook delivery with the active provider and parse its payload
+export function parseWebhook(rawBody: Buffer, signature: string | undefined) {
+  return getPaymentProvider().parseWebhook(rawBody, signature);
+}
+
+// Payment events name a single booking, a cart checkout, or an extension or
+// late fee of a booking, taken from the notes the order was created with
+interface PaymentTarget {
+  bookingId: number | null;
+  checkoutOrderId: number | null;
+  extensionId: number | null;
+  lateFeeId: number | null;
+}
+
+interface WebhookSuccessResult extends PaymentTarget {
   status: 'success';
-  bookingId: number;
   orderId: string;
   paymentId: string;
 }
 
-interface WebhookFailureResult {
+interface WebhookFailureResult extends PaymentTarget {
   status: 'failed';
-  bookingId: number;
   error: string;
 }
 
-type WebhookResult = WebhookSuccessResult | WebhookFailureResult | null;
+function paymentTarget(notes: Record<string, string> | undefined): PaymentTarget {
+  const bookingId = parseInt(notes?.bookingId ?? '');
+  const checkoutOrderId = parseInt(notes?.checkoutOrderId ?? '');
+  const extensionId = parseInt(notes?.extensionId ?? '');
+  const lateFeeId = parseInt(notes?.lateFeeId ?? '');
+  return {
+    bookingId: isNaN(bookingId) ? null : bookingId,
+    checkoutOrderId: isNaN(checkoutOrderId) ? null : checkoutOrderId,
+    extensionId: isNaN(extensionId) ? null : extensionId,
+    lateFeeId: isNaN(lateFeeId) ? null : lateFeeId,
+  };
+}
+
+interface WebhookRefundResult {
+  status: 'refund_processed' | 'refund_failed';
+  bookingId: number | null;
+  // Our refund record, when the refund was started from the app
+  refundRecordId: number | null;
+  refundId: string;
+  paymentId: string;
+  amount: number;
+}
+
+type WebhookResult = WebhookSuccessResult | WebhookFailureResult | WebhookRefundResult | null;
 
 export async function handleWebhookEvent(event: any): Promise<WebhookResult> {
   try {
     switch (event.event) {
-      case 'payment.captured':
+      case 'payment.captured': {
         // Payment successful
-        const { order_id, id: payment_id } = event.payload.payment.entity;
-        const bookingId = parseInt(event.payload.payment.entity.notes.bookingId);
+        const { order_id, id: payment_id, notes } = event.payload.payment.entity;
+        const target = paymentTarget(notes);
 
-        if (!bookingId) {
+        if (!target.bookingId && !target.checkoutOrderId) {
           throw new Error('Booking ID not found in payment notes');
         }
 
         return {
           status: 'success',
-          bookingId,
+          ...target,
           orderId: order_id,
           paymentId: payment_id
         };
+      }
 
       case 'payment.failed':
         // Payment failed
         return {
           status: 'failed',
-          bookingId: parseInt(event.payload.payment.entity.notes.bookingId),
+          ...paymentTarget(event.payload.payment.entity.notes),
           error: event.payload.payment.entity.error_description
         };
 
+      case 'refund.processed':
+      case 'refund.failed': {
+        const refund = event.payload.refund.entity;
+        const refundBookingId = parseInt(refund.notes?.bookingId);
+        const refundRecordId = parseInt(refund.notes?.refundRecordId);
+
+        return {
+          status: event.event === 'refund.processed' ? 'refund_processed' : 'refund_failed',
+          bookingId: isNaN(refundBookingId) ? null : refundBookingId,
+          refundRecordId: isNaN(refundRecordId) ? null : refundRecordId,
+          refundId: refund.id,
+          paymentId: refund.payment_id,
+          amount: Number(refund.amount) / 100, // Convert paise to rupees
+        };
+      }
+
       default:
         // Unhandled event
         console.log('Unhandled webhook event:', event.event);
@@ -0,0 +1,86 @@
+// Minimal single-page PDF writer for documents the server generates, such
+// as tax invoices. Text uses the standard Helvetica fonts every PDF reader
+// ships with, so only Latin-1 characters can be printed.
+
+export interface PdfTextOptions {
+  size?: number;
+  bold?: boolean;
+  align?: 'left' | 'right';
+}
+
+// Helvetica advance widths for ASCII 32-126, in thousandths of the font size
+const helveticaWidths = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+
+// The rupee sign is outside Latin-1, so it is spelled out
+function toLatin1(value: string): string {
+  return value.replace(/₹\s?/g, 'Rs. ').replace(/[^\x20-\xff]/g, '?');
+}
+
+function escapeText(value: string): string {
+  return value.replace(/[\\()]/g, (char) => `\\${char}`);
+}
+
+export function textWidth(value: string, size: number, bold = false): number {
+  const units = Array.from(toLatin1(value)).reduce((sum, char) => {
+    const code = char.charCodeAt(0);
+    return sum + (code >= 32 && code <= 126 ? helveticaWidths[code - 32] : 556);
+  }, 0);
+  // Bold glyphs run a little wider than the regular widths above
+  return units * size / 1000 * (bold ? 1.05 : 1);
+}
+
+// An A4 page. Coordinates are in points from the top-left corner.
+export class PdfPage {
+  readonly width = 595;
+  readonly height = 842;
+  private operations: string[] = [];
+
+  text(x: number, y: number, value: string, options: PdfTextOptions = {}) {
+    const size = options.size ?? 10;
+    const left = options.align === 'right' ? x - textWidth(value, size, options.bold) : x;
+    const font = options.bold ? 'F2' : 'F1';
+    this.operations.push(
+      `BT /${font} ${size} Tf ${left.toFixed(2)} ${(this.height - y).toFixed(2)} Td (${escapeText(toLatin1(value))}) Tj ET`
+    );
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, width = 0.5) {
+    this.operations.push(
+      `${width} w ${x1} ${this.height - y1} m ${x2} ${this.height - y2} l S`
+    );
+  }
+
+  toBuffer(): Buffer {
+    const content = this.operations.join('\n');
+    const objects = [
+      '<< /Type /Catalog /Pages 2 0 R >>',
+      '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${this.width} ${this.height}] ` +
+        '/Resources << /Font << /F1 4 0 R /F2 5 0 R >> >> /Contents 6 0 R >>',
+      '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+      '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>',
+      `<< /Length ${Buffer.byteLength(content, 'latin1')} >>\nstream\n${content}\nendstream`,
+    ];
+
+    let pdf = '%PDF-1.4\n';
+    const offsets: number[] = [];
+    objects.forEach((object, index) => {
+      offsets.push(Buffer.byteLength(pdf, 'latin1'));
+      pdf += `${index + 1} 0 obj\n${object}\nendobj\n`;
+    });
+
+    const xrefOffset = Buffer.byteLength(pdf, 'latin1');
+    pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+    pdf += offsets.map((offset) => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+    pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+    return Buffer.from(pdf, 'latin1');
+  }
+}
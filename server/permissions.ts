@@ -0,0 +1,39 @@
+import type { NextFunction, Request, Response } from "express";
+import { hasAnyPermission, hasPermission, type Permission } from "@shared/permissions";
+import type { Booking, CheckoutOrder, Equipment } from "@shared/schema";
+
+// Route guard: signed in and holding at least one of `permissions`.
+// Handlers still check ownership of the record they act on.
+export function requirePermission(...permissions: Permission[]) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    if (!hasAnyPermission(req.user, permissions)) {
+      return res.status(403).json({ error: "Not authorized" });
+    }
+    next();
+  };
+}
+
+// The owner of a listing, or staff who manage listings for owners
+export function canManageEquipment(user: Express.User, equipment: Pick<Equipment, 'ownerId'>): boolean {
+  if (hasPermission(user, 'equipment:manage_any')) return true;
+  return equipment.ownerId === user.id && hasPermission(user, 'equipment:list');
+}
+
+// Either side of a booking, or staff who can see it
+export function canViewBooking(user: Express.User, booking: Booking, equipment: Pick<Equipment, 'ownerId'> | undefined): boolean {
+  if (booking.userId === user.id) return true;
+  if (equipment && canManageEquipment(user, equipment)) return true;
+  return hasPermission(user, 'bookings:view_any');
+}
+
+// A cart checkout spans several owners' equipment, so only the renter who
+// placed it, or staff, see it whole
+export function canViewCheckout(user: Express.User, order: Pick<CheckoutOrder, 'userId'>): boolean {
+  return order.userId === user.id || hasPermission(user, 'bookings:view_any');
+}
+
+// The renter, or staff who act on bookings for them
+export function canManageBooking(user: Express.User, booking: Booking): boolean {
+  return booking.userId === user.id || hasPermission(user, 'bookings:manage_any');
+}
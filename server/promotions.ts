@@ -0,0 +1,91 @@
+import { storage, PromoCodeLimitError } from "./storage";
+import { isHoldExpired } from "./hold-expiry";
+import { promoDiscount } from "@shared/pricing";
+import type { Booking, Equipment, PromoCode } from "@shared/schema";
+
+// Why a code cannot be used on a booking. The message is shown to the renter.
+export class PromoCodeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PromoCodeError';
+  }
+}
+
+// Throws PromoCodeError unless the code can be used on this equipment for
+// an order of `subtotal` right now. Usage limits are checked when the code
+// is applied, under a lock.
+export function checkPromoEligibility(promo: PromoCode, equipment: Equipment, subtotal: number, now: Date = new Date()) {
+  if (!promo.active) {
+    throw new PromoCodeError('This code is no longer active');
+  }
+  if (promo.validFrom && now < promo.validFrom) {
+    throw new PromoCodeError('This code is not valid yet');
+  }
+  if (promo.validUntil && now > promo.validUntil) {
+    throw new PromoCodeError('This code has expired');
+  }
+  if (promo.minOrderAmount !== null && subtotal < promo.minOrderAmount) {
+    throw new PromoCodeError(`This code needs an order of at least ₹${promo.minOrderAmount}`);
+  }
+  if (promo.categories?.length && !promo.categories.includes(equipment.category)) {
+    throw new PromoCodeError('This code cannot be used on this type of equipment');
+  }
+  if (promo.ownerIds?.length && !promo.ownerIds.includes(equipment.ownerId)) {
+    throw new PromoCodeError("This code cannot be used on this owner's equipment");
+  }
+}
+
+function assertPayable(booking: Booking) {
+  if (isHoldExpired(booking)) {
+    throw new PromoCodeError('The hold on this booking has expired');
+  }
+  if (booking.status !== 'awaiting_payment' && booking.status !== 'payment_failed') {
+    throw new PromoCodeError(`Codes cannot be applied to a ${booking.status} booking`);
+  }
+  // The cart's payment order covers every booking in it at a fixed amount
+  if (booking.checkoutOrderId) {
+    throw new PromoCodeError('Codes cannot be applied to bookings in a cart checkout');
+  }
+}
+
+// Apply a code to an unpaid booking, replacing any code already on it, and
+// return the booking at its discounted price
+export async function applyPromoCode(booking: Booking, code: string, now: Date = new Date()): Promise<Booking> {
+  assertPayable(booking);
+
+  const promo = await storage.getPromoCodeByCode(code.trim());
+  if (!promo) {
+    throw new PromoCodeError('This code does not exist');
+  }
+
+  const equipment = await storage.getEquipment(booking.equipmentId);
+  if (!equipment) {
+    throw new PromoCodeError('Equipment not found');
+  }
+
+  const subtotal = booking.totalPrice + booking.discountAmount;
+  checkPromoEligibility(promo, equipment, subtotal, now);
+
+  try {
+    const updated = await storage.applyPromoRedemption(booking.id, promo, promoDiscount(promo, subtotal));
+    if (!updated) {
+      throw new PromoCodeError('This booking can no longer be changed');
+    }
+    return updated;
+  } catch (error) {
+    if (error instanceof PromoCodeLimitError) {
+      throw new PromoCodeError(error.message);
+    }
+    throw error;
+  }
+}
+
+export async function removePromoCode(booking: Booking): Promise<Booking> {
+  assertPayable(booking);
+
+  const updated = await storage.releasePromoRedemption(booking.id);
+  if (!updated) {
+    throw new PromoCodeError('This booking can no longer be changed');
+  }
+  return updated;
+}
@@ -0,0 +1,31 @@
+import { storage } from "./storage";
+import { startOfUtcDay } from "./availability";
+import { applyPricingRules, type Quote } from "@shared/pricing";
+import type { Equipment, InsertPricingRule, PricingRule } from "@shared/schema";
+
+export async function quoteRental(equipment: Equipment, startDate: Date, endDate: Date): Promise<Quote> {
+  const rules = await storage.listPricingRules(equipment.id);
+  return applyPricingRules(equipment, rules, startDate, endDate);
+}
+
+// An existing rule that `candidate` would contradict: an overlapping season,
+// a second weekend rule, or another duration tier with the same minimum.
+export function findConflictingRule(
+  rules: PricingRule[],
+  candidate: InsertPricingRule,
+  ignoreId?: number,
+): PricingRule | undefined {
+  return rules.find(rule => {
+    if (rule.id === ignoreId || rule.kind !== candidate.kind) return false;
+    switch (candidate.kind) {
+      case 'season':
+        return !!rule.startDate && !!rule.endDate && !!candidate.startDate && !!candidate.endDate &&
+          startOfUtcDay(rule.startDate) <= startOfUtcDay(candidate.endDate) &&
+          startOfUtcDay(rule.endDate) >= startOfUtcDay(candidate.startDate);
+      case 'weekend':
+        return true;
+      case 'duration':
+        return rule.minDays === candidate.minDays;
+    }
+  });
+}
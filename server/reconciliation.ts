@@ -0,0 +1,346 @@
+import { storage, BookingOverlapError } from "./storage";
+import { getPaymentProvider, type ProviderPayment } from "./payment-providers";
+import { amountDue } from "./deposits";
+import { refundLateCapture } from "./hold-expiry";
+import { applyCheckoutPayment, failCheckoutPayment } from "./checkout";
+import { applyExtensionPayment, failExtensionPayment } from "./extensions";
+import { applyLateFeePayment, failLateFeePayment } from "./late-returns";
+import { transitionBooking, systemActor, InvalidBookingTransitionError, type BookingActor } from "./booking-lifecycle";
+import {
+  unpaidBookingStatuses,
+  type Booking,
+  type BookingExtension,
+  type BookingStatus,
+  type CheckoutOrder,
+  type LateFee,
+  type ReconciliationDiscrepancy,
+  type ReconciliationRun,
+  type ReconciliationTrigger,
+} from "@shared/schema";
+
+const DEFAULT_INTERVAL_MINUTES = 15;
+const DEFAULT_LOOKBACK_DAYS = 7;
+
+// Expired bookings are checked too: a capture that landed after the hold
+// ran out has to be refunded
+const reconciledStatuses: BookingStatus[] = [...unpaidBookingStatuses, 'expired'];
+
+const fixingActions: ReconciliationDiscrepancy['action'][] = ['marked_paid', 'marked_failed', 'refunded'];
+
+// How often the scheduled run happens, from PAYMENT_RECONCILE_INTERVAL_MINUTES
+function intervalMs(): number {
+  const minutes = Number(process.env.PAYMENT_RECONCILE_INTERVAL_MINUTES);
+  return (Number.isFinite(minutes) && minutes > 0 ? minutes : DEFAULT_INTERVAL_MINUTES) * 60 * 1000;
+}
+
+// How far back bookings are checked, from PAYMENT_RECONCILE_LOOKBACK_DAYS
+function lookbackMs(): number {
+  const days = Number(process.env.PAYMENT_RECONCILE_LOOKBACK_DAYS);
+  return (Number.isFinite(days) && days > 0 ? days : DEFAULT_LOOKBACK_DAYS) * 24 * 60 * 60 * 1000;
+}
+
+// Compare one booking with its payment order and bring the booking in line.
+// Returns undefined when the two already agree.
+async function reconcileBooking(booking: Booking, actor: BookingActor): Promise<ReconciliationDiscrepancy | undefined> {
+  const orderId = booking.razorpayOrderId!;
+  const found = (payment: ProviderPayment | null, action: ReconciliationDiscrepancy['action'], detail: string) => ({
+    bookingId: booking.id,
+    orderId,
+    bookingStatus: booking.status,
+    providerStatus: payment?.status ?? null,
+    paymentId: payment?.id ?? null,
+    action,
+    detail,
+  });
+
+  let payments: ProviderPayment[];
+  try {
+    payments = await getPaymentProvider().fetchOrderPayments(orderId);
+  } catch (error) {
+    return found(null, 'error', `Could not fetch order: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+
+  const captured = payments.find(payment => payment.status === 'captured');
+  if (captured) {
+    const expected = Math.floor(amountDue(booking) * 100);
+    if (captured.amount !== expected) {
+      return found(captured, 'amount_mismatch',
+        `Captured ₹${captured.amount / 100} but the booking owes ₹${expected / 100}; left for review`);
+    }
+
+    try {
+      if (booking.status === 'expired') {
+        const refund = await refundLateCapture(booking, captured.id, actor);
+        return found(captured, 'refunded', `Captured after the hold expired, refund ${refund.id} ${refund.status}`);
+      }
+
+      try {
+        await transitionBooking(booking.id, 'paid', actor, {
+          reason: 'Payment reconciled with provider',
+          data: { razorpayPaymentId: captured.id }
+        });
+        return found(captured, 'marked_paid', 'Captured at the provider but not recorded');
+      } catch (error) {
+        if (!(error instanceof BookingOverlapError)) throw error;
+        const refund = await refundLateCapture(booking, captured.id, actor,
+          'Dates were booked by someone else before payment completed');
+        return found(captured, 'refunded', `Dates were taken, refund ${refund.id} ${refund.status}`);
+      }
+    } catch (error) {
+      // The browser callback or webhook got there first
+      if (error instanceof InvalidBookingTransitionError) return undefined;
+      return found(captured, 'error', error instanceof Error ? error.message : 'Unknown error');
+    }
+  }
+
+  const authorized = payments.find(payment => payment.status === 'authorized');
+  if (authorized) {
+    return found(authorized, 'not_captured', 'Authorized but not captured; the provider will void it if it is never captured');
+  }
+
+  const failed = payments[payments.length - 1];
+  if (booking.status === 'awaiting_payment' && failed && payments.every(payment => payment.status === 'failed')) {
+    try {
+      await transitionBooking(booking.id, 'payment_failed', actor, {
+        reason: 'Payment reconciled with provider'
+      });
+      return found(failed, 'marked_failed', `${payments.length} failed attempt(s) at the provider`);
+    } catch (error) {
+      if (error instanceof InvalidBookingTransitionError) return undefined;
+      return found(failed, 'error', error instanceof Error ? error.message : 'Unknown error');
+    }
+  }
+
+  return undefined;
+}
+
+// The same comparison for a cart checkout, whose one order pays for all of
+// its bookings
+async function reconcileCheckout(order: CheckoutOrder, actor: BookingActor): Promise<ReconciliationDiscrepancy | undefined> {
+  const orderId = order.razorpayOrderId!;
+  const found = (payment: ProviderPayment | null, action: ReconciliationDiscrepancy['action'], detail: string) => ({
+    bookingId: null,
+    checkoutOrderId: order.id,
+    orderId,
+    bookingStatus: 'checkout',
+    providerStatus: payment?.status ?? null,
+    paymentId: payment?.id ?? null,
+    action,
+    detail,
+  });
+
+  let payments: ProviderPayment[];
+  try {
+    payments = await getPaymentProvider().fetchOrderPayments(orderId);
+  } catch (error) {
+    return found(null, 'error', `Could not fetch order: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+
+  try {
+    const captured = payments.find(payment => payment.status === 'captured');
+    if (captured) {
+      if (captured.amount !== order.totalAmount * 100) {
+        return found(captured, 'amount_mismatch',
+          `Captured ₹${captured.amount / 100} but the checkout owes ₹${order.totalAmount}; left for review`);
+      }
+      const { paid, refunds } = await applyCheckoutPayment(order, captured.id, actor);
+      if (refunds.length > 0) {
+        return found(captured, 'refunded', `${paid.length} booking(s) marked paid, ${refunds.length} refunded`);
+      }
+      return paid.length > 0
+        ? found(captured, 'marked_paid', `Captured at the provider but not recorded; ${paid.length} booking(s) marked paid`)
+        : undefined;
+    }
+
+    const authorized = payments.find(payment => payment.status === 'authorized');
+    if (authorized) {
+      return found(authorized, 'not_captured', 'Authorized but not captured; the provider will void it if it is never captured');
+    }
+
+    const failed = payments[payments.length - 1];
+    if (failed && payments.every(payment => payment.status === 'failed')) {
+      const moved = await failCheckoutPayment(order, 'Payment reconciled with provider', actor);
+      if (moved > 0) {
+        return found(failed, 'marked_failed', `${payments.length} failed attempt(s); ${moved} booking(s) marked failed`);
+      }
+    }
+  } catch (error) {
+    return found(null, 'error', error instanceof Error ? error.message : 'Unknown error');
+  }
+
+  return undefined;
+}
+
+// The same comparison for the payment order of a booking extension
+async function reconcileExtension(extension: BookingExtension, actor: BookingActor): Promise<ReconciliationDiscrepancy | undefined> {
+  const orderId = extension.razorpayOrderId!;
+  const found = (payment: ProviderPayment | null, action: ReconciliationDiscrepancy['action'], detail: string) => ({
+    bookingId: extension.bookingId,
+    extensionId: extension.id,
+    orderId,
+    bookingStatus: `extension ${extension.status}`,
+    providerStatus: payment?.status ?? null,
+    paymentId: payment?.id ?? null,
+    action,
+    detail,
+  });
+
+  let payments: ProviderPayment[];
+  try {
+    payments = await getPaymentProvider().fetchOrderPayments(orderId);
+  } catch (error) {
+    return found(null, 'error', `Could not fetch order: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+
+  try {
+    const captured = payments.find(payment => payment.status === 'captured');
+    if (captured) {
+      if (captured.amount !== extension.amount * 100) {
+        return found(captured, 'amount_mismatch',
+          `Captured ₹${captured.amount / 100} but the extension costs ₹${extension.amount}; left for review`);
+      }
+      const applied = await applyExtensionPayment(extension, captured.id, actor);
+      if (!applied) return undefined;
+      return applied.refund
+        ? found(captured, 'refunded', `The time could no longer be added, refund ${applied.refund.id} ${applied.refund.status}`)
+        : found(captured, 'marked_paid', 'Captured at the provider but not recorded; booking extended');
+    }
+
+    const authorized = payments.find(payment => payment.status === 'authorized');
+    if (authorized) {
+      return found(authorized, 'not_captured', 'Authorized but not captured; the provider will void it if it is never captured');
+    }
+
+    const failed = payments[payments.length - 1];
+    if (failed && payments.every(payment => payment.status === 'failed') &&
+        await failExtensionPayment(extension)) {
+      return found(failed, 'marked_failed', `${payments.length} failed attempt(s) at the provider`);
+    }
+  } catch (error) {
+    return found(null, 'error', error instanceof Error ? error.message : 'Unknown error');
+  }
+
+  return undefined;
+}
+
+// The same comparison for the payment order of a late return fee
+async function reconcileLateFee(fee: LateFee): Promise<ReconciliationDiscrepancy | undefined> {
+  const orderId = fee.razorpayOrderId!;
+  const found = (payment: ProviderPayment | null, action: ReconciliationDiscrepancy['action'], detail: string) => ({
+    bookingId: fee.bookingId,
+    lateFeeId: fee.id,
+    orderId,
+    bookingStatus: `late fee ${fee.status}`,
+    providerStatus: payment?.status ?? null,
+    paymentId: payment?.id ?? null,
+    action,
+    detail,
+  });
+
+  let payments: ProviderPayment[];
+  try {
+    payments = await getPaymentProvider().fetchOrderPayments(orderId);
+  } catch (error) {
+    return found(null, 'error', `Could not fetch order: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+
+  try {
+    const captured = payments.find(payment => payment.status === 'captured');
+    if (captured) {
+      if (captured.amount !== fee.amount * 100) {
+        return found(captured, 'amount_mismatch',
+          `Captured ₹${captured.amount / 100} but the late fee is ₹${fee.amount}; left for review`);
+      }
+      return await applyLateFeePayment(fee, captured.id)
+        ? found(captured, 'marked_paid', 'Captured at the provider but not recorded; late fee marked paid')
+        : undefined;
+    }
+
+    const authorized = payments.find(payment => payment.status === 'authorized');
+    if (authorized) {
+      return found(authorized, 'not_captured', 'Authorized but not captured; the provider will void it if it is never captured');
+    }
+
+    const failed = payments[payments.length - 1];
+    if (failed && payments.every(payment => payment.status === 'failed') &&
+        await failLateFeePayment(fee)) {
+      return found(failed, 'marked_failed', `${payments.length} failed attempt(s) at the provider`);
+    }
+  } catch (error) {
+    return found(null, 'error', error instanceof Error ? error.message : 'Unknown error');
+  }
+
+  return undefined;
+}
+
+// Check every recent booking, checkout, extension and late fee that has a
+// payment order but no recorded payment against the provider, fix what can
+// be fixed and store the report
+export async function reconcilePayments(
+  trigger: ReconciliationTrigger,
+  actor: BookingActor = systemActor,
+  now: Date = new Date(),
+): Promise<ReconciliationRun> {
+  const since = new Date(now.getTime() - lookbackMs());
+  const bookings = await storage.listBookingsToReconcile(reconciledStatuses, since);
+  const checkouts = await storage.listCheckoutOrdersToReconcile(since);
+  const extensions = await storage.listExtensionsToReconcile(since);
+  const fees = await storage.listLateFeesToReconcile(since);
+  const discrepancies: ReconciliationDiscrepancy[] = [];
+
+  for (const booking of bookings) {
+    const discrepancy = await reconcileBooking(booking, actor);
+    if (discrepancy) discrepancies.push(discrepancy);
+  }
+  for (const order of checkouts) {
+    const discrepancy = await reconcileCheckout(order, actor);
+    if (discrepancy) discrepancies.push(discrepancy);
+  }
+  for (const extension of extensions) {
+    const discrepancy = await reconcileExtension(extension, actor);
+    if (discrepancy) discrepancies.push(discrepancy);
+  }
+  for (const fee of fees) {
+    const discrepancy = await reconcileLateFee(fee);
+    if (discrepancy) discrepancies.push(discrepancy);
+  }
+
+  const run = await storage.createReconciliationRun({
+    trigger,
+    triggeredBy: actor.id,
+    checked: bookings.length + checkouts.length + extensions.length + fees.length,
+    fixed: discrepancies.filter(item => fixingActions.includes(item.action)).length,
+    discrepancies,
+    startedAt: now,
+  });
+  return run;
+}
+
+let reconcileTimer: NodeJS.Timeout | undefined;
+
+export function startReconciliationScheduler() {
+  if (reconcileTimer) return;
+
+  let running = false;
+  const run = async () => {
+    if (running) return;
+    running = true;
+    try {
+      await reconcilePayments('scheduled');
+    } catch (error) {
+      console.error('Payment reconciliation failed:', error);
+    } finally {
+      running = false;
+    }
+  };
+
+  reconcileTimer = setInterval(run, intervalMs());
+  reconcileTimer.unref();
+}
+
+export function stopReconciliationScheduler() {
+  if (reconcileTimer) {
+    clearInterval(reconcileTimer);
+    reconcileTimer = undefined;
+  }
+}
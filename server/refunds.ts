@@ -0,0 +1,288 @@
+import { storage } from "./storage";
+import { refundPayment } from "./payment";
+import { transitionBooking, InvalidBookingTransitionError, type BookingActor } from "./booking-lifecycle";
+import { canTransition } from "@shared/booking-transitions";
+import { recordRefund } from "./ledger";
+import type { Booking, BookingExtension, Refund } from "@shared/schema";
+
+export class RefundError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RefundError';
+  }
+}
+
+// Refunds that count against one payment. Failed refunds do not count.
+function refundsOf(paymentId: string | null, existing: Refund[]): Refund[] {
+  return existing.filter(refund => refund.razorpayPaymentId === paymentId && refund.status !== 'failed');
+}
+
+// Amount still refundable on a booking: the rental price and deposit that
+// were captured together, less earlier refunds. Extensions are paid, and
+// refunded, separately.
+export function refundableAmount(booking: Booking, existing: Refund[]): number {
+  const refunded = refundsOf(booking.razorpayPaymentId, existing).reduce((sum, refund) => sum + refund.amount, 0);
+  return Math.max(0, booking.totalPrice + booking.depositAmount - refunded);
+}
+
+// Rental part of a booking's payment that has not been refunded yet
+export function rentalRefundable(booking: Booking, existing: Refund[]): number {
+  const rentalRefunded = refundsOf(booking.razorpayPaymentId, existing)
+    .reduce((sum, refund) => sum + refund.amount - refund.depositAmount, 0);
+  return Math.max(0, booking.totalPrice - rentalRefunded);
+}
+
+// Amount of an extension's payment that has not been refunded yet
+export function extensionRefundable(extension: BookingExtension, existing: Refund[]): number {
+  if (!extension.razorpayPaymentId) return 0;
+  const refunded = refundsOf(extension.razorpayPaymentId, existing).reduce((sum, refund) => sum + refund.amount, 0);
+  return Math.max(0, extension.amount - refunded);
+}
+
+// How much of a refund returns the deposit. Rental money goes back first,
+// so only the part beyond what is left of the rental is drawn from the
+// deposit, unless the caller is returning the deposit itself.
+export function depositShare(booking: Booking, existing: Refund[], amount: number, requested = 0): number {
+  const depositRefunded = refundsOf(booking.razorpayPaymentId, existing)
+    .reduce((sum, refund) => sum + refund.depositAmount, 0);
+  const rentalLeft = rentalRefundable(booking, existing);
+  const depositLeft = Math.max(0, booking.depositAmount - depositRefunded);
+  return Math.min(amount, depositLeft, Math.max(requested, amount - rentalLeft));
+}
+
+// Post a refund to the ledger once the money has gone back. Failures are
+// logged, since the refund itself has already happened.
+async function postRefund(record: Refund) {
+  try {
+    await recordRefund(record);
+  } catch (error) {
+    console.error(`Failed to post refund ${record.id} to the ledger:`, error);
+  }
+}
+
+// A deposit still held against the booking is released once refunds that
+// return all of it have actually gone through
+async function releaseRefundedDeposit(record: Refund) {
+  if (record.depositAmount <= 0) return;
+  const booking = await storage.getBooking(record.bookingId);
+  if (!booking || booking.depositStatus !== 'held') return;
+
+  const returned = refundsOf(booking.razorpayPaymentId, await storage.listRefunds(booking.id))
+    .filter(refund => refund.status === 'processed')
+    .reduce((sum, refund) => sum + refund.depositAmount, 0);
+  if (returned >= booking.depositAmount) {
+    await storage.updateDepositState(booking.id, 'held', { depositStatus: 'released' });
+  }
+}
+
+export async function getRefundSummary(bookingId: number) {
+  const records = await storage.listRefunds(bookingId);
+  const amountRefunded = records
+    .filter(refund => refund.status === 'processed')
+    .reduce((sum, refund) => sum + refund.amount, 0);
+
+  return { refunds: records, amountRefunded };
+}
+
+// Once money has actually gone back, a cancelled or rejected booking is done
+async function settleBooking(bookingId: number, actor: BookingActor) {
+  const booking = await storage.getBooking(bookingId);
+  if (booking && canTransition(booking.status, 'refunded')) {
+    await transitionBooking(bookingId, 'refunded', actor, { reason: 'Refund processed' });
+  }
+}
+
+// Refund all or part of a booking's captured payment. Without an amount the
+// whole remaining refundable balance is returned. `depositAmount` is how much
+// of it returns the security deposit.
+export async function issueRefund(
+  booking: Booking,
+  options: { amount?: number; depositAmount?: number; reason: string; actor: BookingActor },
+): Promise<Refund> {
+  if (!booking.razorpayPaymentId) {
+    throw new RefundError('No captured payment found for this booking');
+  }
+
+  const existing = await storage.listRefunds(booking.id);
+  const available = refundableAmount(booking, existing);
+  const amount = options.amount ?? available;
+
+  if (!Number.isInteger(amount) || amount <= 0) {
+    throw new RefundError('Refund amount must be a positive whole number');
+  }
+  if (amount > available) {
+    throw new RefundError(`Refund amount exceeds the refundable balance of ₹${available}`);
+  }
+
+  const record = await sendRefund(booking, booking.razorpayPaymentId, amount,
+    depositShare(booking, existing, amount, options.depositAmount), options.reason, options.actor);
+
+  if (record.status === 'processed') {
+    await settleBooking(booking.id, options.actor);
+  }
+  return record;
+}
+
+// Refund a paid booking and then close it as cancelled or rejected. The
+// money goes back first, so a refund that fails leaves the booking as it
+// was and the request can simply be repeated.
+export async function refundAndClose(
+  booking: Booking,
+  to: 'cancelled' | 'rejected',
+  options: {
+    reason: string;
+    refund: { amount?: number; depositAmount?: number; reason: string };
+    actor: BookingActor;
+  },
+): Promise<{ booking: Booking; refund: Refund }> {
+  if (!canTransition(booking.status, to)) {
+    throw new InvalidBookingTransitionError(booking.id, booking.status, to);
+  }
+
+  const refund = await issueRefund(booking, { ...options.refund, actor: options.actor });
+  const closed = await transitionBooking(booking.id, to, options.actor, { reason: options.reason });
+
+  // The refund may have completed, here or by webhook, before the booking
+  // could be settled
+  const current = (await storage.listRefunds(booking.id)).find(record => record.id === refund.id) ?? refund;
+  if (current.status === 'processed') {
+    await settleBooking(booking.id, options.actor);
+  }
+
+  return { booking: (await storage.getBooking(booking.id)) ?? closed, refund: current };
+}
+
+// Refund all or part of what was paid for an extension of the booking
+export async function refundExtension(
+  booking: Booking,
+  extension: BookingExtension,
+  options: { amount?: number; reason: string; actor: BookingActor },
+): Promise<Refund> {
+  if (!extension.razorpayPaymentId) {
+    throw new RefundError('No captured payment found for this extension');
+  }
+
+  const available = extensionRefundable(extension, await storage.listRefunds(booking.id));
+  const amount = options.amount ?? available;
+
+  if (!Number.isInteger(amount) || amount <= 0) {
+    throw new RefundError('Refund amount must be a positive whole number');
+  }
+  if (amount > available) {
+    throw new RefundError(`Refund amount exceeds the refundable balance of ₹${available}`);
+  }
+
+  return sendRefund(booking, extension.razorpayPaymentId, amount, 0, options.reason, options.actor);
+}
+
+// Record a refund of `amount` from one of the booking's payments, ask the
+// provider for it and post it once the money has gone back
+async function sendRefund(
+  booking: Booking,
+  paymentId: string,
+  amount: number,
+  depositAmount: number,
+  reason: string,
+  actor: BookingActor,
+): Promise<Refund> {
+  let record = await storage.createRefund({
+    bookingId: booking.id,
+    razorpayPaymentId: paymentId,
+    amount,
+    depositAmount,
+    status: 'pending',
+    reason,
+    createdBy: actor.id,
+  });
+
+  let refund;
+  try {
+    refund = await refundPayment(paymentId, amount, {
+      bookingId: booking.id.toString(),
+      refundRecordId: record.id.toString(),
+    });
+  } catch (error) {
+    await storage.updateRefund(record.id, { status: 'failed' });
+    throw error;
+  }
+
+  // The provider's webhook can land before its reply; the outcome it
+  // recorded is newer than what the reply says
+  const current = await storage.getRefund(record.id);
+  if (current?.razorpayRefundId === refund.id) {
+    return current;
+  }
+
+  record = await storage.updateRefund(record.id, {
+    razorpayRefundId: refund.id,
+    status: refund.status,
+  });
+  if (record.status === 'processed') {
+    await postRefund(record);
+    await releaseRefundedDeposit(record);
+  }
+  return record;
+}
+
+// Apply a refund.processed / refund.failed notification from the provider.
+// Refunds started outside the app (e.g. from the Razorpay dashboard) are
+// recorded against the booking that owns the payment.
+export async function applyRefundUpdate(
+  update: {
+    refundId: string;
+    paymentId: string;
+    bookingId: number | null;
+    refundRecordId: number | null;
+    amount: number;
+    status: 'processed' | 'failed';
+  },
+  actor: BookingActor,
+): Promise<Refund | undefined> {
+  let record = await storage.getRefundByRazorpayId(update.refundId);
+
+  // A refund started from the app names its record in the notes. The
+  // webhook can arrive before the provider's reply, while the record does
+  // not have the refund id yet.
+  if (!record && update.refundRecordId) {
+    const started = await storage.getRefund(update.refundRecordId);
+    if (started && !started.razorpayRefundId && started.razorpayPaymentId === update.paymentId) {
+      record = await storage.updateRefund(started.id, { razorpayRefundId: update.refundId });
+    }
+  }
+
+  if (!record) {
+    // Extension payments never carry the deposit
+    const extension = await storage.findBookingExtensionByRazorpayPaymentId(update.paymentId);
+    const bookingId = update.bookingId ?? extension?.bookingId;
+    const booking = bookingId
+      ? await storage.getBooking(bookingId)
+      : await storage.findBookingByRazorpayPaymentId(update.paymentId);
+
+    if (!booking) {
+      console.error(`Refund ${update.refundId} does not match any booking, ignoring`);
+      return undefined;
+    }
+
+    const amount = Math.round(update.amount);
+    record = await storage.createRefund({
+      bookingId: booking.id,
+      razorpayPaymentId: update.paymentId,
+      razorpayRefundId: update.refundId,
+      amount,
+      depositAmount: extension ? 0 : depositShare(booking, await storage.listRefunds(booking.id), amount),
+      status: update.status,
+      reason: 'Created outside the app',
+      createdBy: null,
+    });
+  } else if (record.status !== update.status) {
+    record = await storage.updateRefund(record.id, { status: update.status });
+  }
+
+  if (record.status === 'processed') {
+    await postRefund(record);
+    await releaseRefundedDeposit(record);
+    await settleBooking(record.bookingId, actor);
+  }
+
+  return record;
+}
@@ -2,15 +2,67 @@ import type { Express } from "express";
 import { createServer, type Server } from "http";
 import { setupAuth } from "./auth";
 import { storage } from "./storage";
-import { insertEquipmentSchema, insertBookingSchema, updateProfileSchema, reviewSchema } from "@shared/schema";
+import { type Booking, type Refund, insertEquipmentSchema, insertBookingSchema, insertEquipmentBlackoutSchema, insertPricingRuleSchema, insertPromoCodeSchema, rentalUnits, updateProfileSchema, selfServiceRoles, userRoles, payoutDetailsSchema, checkoutSchema, extendBookingSchema, joinWaitlistSchema, bookingModes, handoverKinds, recordHandoverSchema, type HandoverKind, openDisputeSchema, resolveDisputeSchema, disputeStatuses, unresolvedDisputeStatuses, type DisputeStatus, reviewSchema, reviewableBookingStatuses, cancellationPolicySchema } from "@shared/schema";
 import multer from "multer";
 import path from "path";
 import { nanoid } from "nanoid";
 import express from 'express';
 import fs from 'fs';
-import { format } from 'date-fns';
-import { createPaymentSession, verifyPaymentSignature, generateReceipt } from "./payment";
 import crypto from 'crypto';
+import { format } from 'date-fns';
+import { createPaymentSession, verifyPaymentSignature, generateReceipt, parseWebhook } from "./payment";
+import { receivePaymentEvent, retryPaymentEvent } from "./payment-events";
+import { getPaymentProvider, SandboxProvider, WebhookSignatureError } from "./payment-providers";
+import { issueRefund, refundAndClose, getRefundSummary, RefundError } from "./refunds";
+import { quoteCancellation } from "./cancellation";
+import { holdExpiresAt, isHoldExpired, refundLateCapture } from "./hold-expiry";
+import { getAvailabilityMap, findBookingConflicts, resolveRentalPeriod, wholeDays, startOfUtcDay, InvalidRentalPeriodError, MAX_AVAILABILITY_DAYS } from "./availability";
+import { quoteRental, findConflictingRule } from "./quotes";
+import { applyPromoCode, removePromoCode, PromoCodeError } from "./promotions";
+import { issueInvoice, renderInvoicePdf, InvoiceError } from "./invoices";
+import { commissionPercent, payoutReadyStatuses, summariseOwnerLedger, payoutBatchCsv } from "./ledger";
+import { reconcilePayments } from "./reconciliation";
+import { placeCheckout, renewCheckoutPayment, applyCheckoutPayment, CheckoutError } from "./checkout";
+import { quoteExtension, requestExtension, openExtensionPayment, applyExtensionPayment, ExtensionError } from "./extensions";
+import { openLateFeePayment, applyLateFeePayment, LateFeeError } from "./late-returns";
+import { quoteEarlyReturn, requestEarlyReturn, assertEarlyReturnConfirmable, confirmEarlyReturn, refundUnusedTime, EarlyReturnError } from "./early-return";
+import { openDispute, postDisputeMessage, withdrawDispute, resolveDispute, disputeRole, DisputeError } from "./disputes";
+import { recordHandover, confirmHandover, verifyHandover, HandoverError } from "./handovers";
+import { requiresApproval, placeRequest, approveRequest, declineRequest, BookingRequestError } from "./booking-requests";
+import { joinWaitlist, leaveWaitlist, offerFreedDates, WaitlistError } from "./waitlist";
+import { amountDue, releaseDeposit, claimDeposit, resolveDepositClaim, DepositError } from "./deposits";
+import { openBooking, transitionBooking, userActor, listingActor, InvalidBookingTransitionError, BookingNotFoundError } from "./booking-lifecycle";
+import { BookingOverlapError } from "./storage";
+import { requirePermission, canManageEquipment, canViewBooking, canViewCheckout, canManageBooking } from "./permissions";
+import { hasPermission } from "@shared/permissions";
+
+// Optional rates and the deposit arrive as multipart strings; an empty value
+// clears them
+const optionalAmountFields = ['hourlyRate', 'halfDayRate', 'weeklyRate', 'depositAmount'] as const;
+
+function parseOptionalAmount(value: unknown): number | null | undefined {
+  if (value === undefined) return undefined;
+  if (value === '' || value === null) return null;
+  return parseInt(String(value));
+}
+
+// A booking's price changed while it awaited payment; open a payment order
+// for the new amount and keep it on the booking
+async function refreshPaymentOrder(booking: Booking): Promise<Booking> {
+  const equipment = await storage.getEquipment(booking.equipmentId);
+  const order = await createPaymentSession(booking.id, amountDue(booking), equipment?.name ?? 'Equipment');
+  return storage.updateBooking(booking.id, { razorpayOrderId: order.id });
+}
+
+// Dates an owner opened up go to whoever is waiting for them. The owner's
+// change stands even if the waitlist cannot be worked through right now.
+async function offerDatesToWaitlist(equipmentId: number): Promise<void> {
+  try {
+    await offerFreedDates(equipmentId);
+  } catch (error) {
+    console.error(`Failed to offer freed dates on equipment ${equipmentId} to the waitlist:`, error);
+  }
+}
 
 // Configure multer for image uploads with better error handling
 const upload = multer({
@@ -66,10 +118,38 @@ export function registerRoutes(app: Express): Server {
       return res.status(400).json(parsed.error);
     }
 
+    // Staff roles are assigned by an admin and cannot be swapped out here
+    const { role } = parsed.data;
+    if (role && role !== req.user.role) {
+      if (!(selfServiceRoles as readonly string[]).includes(req.user.role)) {
+        return res.status(403).json({ error: "Your role is managed by an admin" });
+      }
+      if (role === 'renter' && (await storage.listEquipmentByOwner(req.user.id)).length > 0) {
+        return res.status(409).json({ error: "Remove your listings before switching to renting only" });
+      }
+    }
+
     const updatedUser = await storage.updateUser(req.user.id, parsed.data);
     res.json(updatedUser);
   });
 
+  // Bank account owner payouts are sent to
+  app.put("/api/user/payout-details", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    const parsed = payoutDetailsSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid payout details", details: parsed.error.errors });
+    }
+
+    try {
+      res.json(await storage.updatePayoutDetails(req.user.id, parsed.data));
+    } catch (error) {
+      console.error('Error updating payout details:', error);
+      res.status(500).json({ error: "Failed to update payout details" });
+    }
+  });
+
   // Equipment routes with enhanced error handling and logging
   app.get("/api/equipment", async (req, res) => {
     try {
@@ -115,7 +195,7 @@ export function registerRoutes(app: Express): Server {
   });
 
   // Enhanced equipment creation endpoint
-  app.post("/api/equipment", upload.single('image'), async (req, res) => {
+  app.post("/api/equipment", requirePermission('equipment:list'), upload.single('image'), async (req, res) => {
     if (!req.isAuthenticated()) {
       return res.status(401).json({ error: 'Authentication required' });
     }
@@ -132,8 +212,13 @@ export function registerRoutes(app: Express): Server {
       // Parse and validate JSON fields
       let specs = {};
       let features = [];
+      let cancellationPolicy = null;
 
       try {
+        if (req.body.cancellationPolicy) {
+          cancellationPolicy = cancellationPolicySchema.parse(JSON.parse(req.body.cancellationPolicy));
+        }
+
         if (req.body.specs) {
           specs = JSON.parse(req.body.specs);
           if (typeof specs !== 'object' || Array.isArray(specs)) {
@@ -159,9 +244,15 @@ export function registerRoutes(app: Express): Server {
         description: req.body.description,
         category: req.body.category,
         dailyRate: parseInt(req.body.dailyRate),
+        hourlyRate: parseOptionalAmount(req.body.hourlyRate),
+        halfDayRate: parseOptionalAmount(req.body.halfDayRate),
+        weeklyRate: parseOptionalAmount(req.body.weeklyRate),
+        depositAmount: parseOptionalAmount(req.body.depositAmount),
+        bookingMode: req.body.bookingMode || undefined,
         location: req.body.location,
         specs,
         features,
+        cancellationPolicy,
         ownerId: req.user.id,
         imageUrl: `/uploads/${req.file.filename}`,
       };
@@ -189,7 +280,7 @@ export function registerRoutes(app: Express): Server {
   });
 
   // Add equipment update endpoint
-  app.patch("/api/equipment/:id", upload.single('image'), async (req, res) => {
+  app.patch("/api/equipment/:id", requirePermission('equipment:list', 'equipment:manage_any'), upload.single('image'), async (req, res) => {
     if (!req.isAuthenticated()) {
       return res.status(401).json({ error: 'Authentication required' });
     }
@@ -202,8 +293,7 @@ export function registerRoutes(app: Express): Server {
         return res.status(404).json({ error: 'Equipment not found' });
       }
 
-      // Only allow equipment owner or admin to update
-      if (equipment.ownerId !== req.user.id && !req.user.isAdmin) {
+      if (!canManageEquipment(req.user, equipment)) {
         return res.status(403).json({ error: 'Not authorized to update this equipment' });
       }
 
@@ -236,6 +326,29 @@ export function registerRoutes(app: Express): Server {
         updateData.dailyRate = parseInt(req.body.dailyRate);
       }
 
+      for (const field of optionalAmountFields) {
+        const amount = parseOptionalAmount(req.body[field]);
+        if (amount === undefined) continue;
+        if (amount !== null && !(amount > 0)) {
+          return res.status(400).json({ error: `Invalid ${field}` });
+        }
+        updateData[field] = amount;
+      }
+
+      if (req.body.bookingMode !== undefined && !(bookingModes as readonly string[]).includes(req.body.bookingMode)) {
+        return res.status(400).json({ error: 'Invalid booking mode' });
+      }
+
+      if (req.body.cancellationPolicy !== undefined) {
+        try {
+          updateData.cancellationPolicy = req.body.cancellationPolicy
+            ? cancellationPolicySchema.parse(JSON.parse(req.body.cancellationPolicy))
+            : null;
+        } catch (e) {
+          return res.status(400).json({ error: 'Invalid cancellation policy format' });
+        }
+      }
+
       const updated = await storage.updateEquipment(equipmentId, updateData);
       res.json(updated);
     } catch (error) {
@@ -293,32 +406,44 @@ export function registerRoutes(app: Express): Server {
         endDate.setDate(startDate.getDate() + 30);
       }
 
+      // Keep the day map to a sensible size
+      const maxEndDate = new Date(startDate);
+      maxEndDate.setDate(maxEndDate.getDate() + MAX_AVAILABILITY_DAYS - 1);
+      if (endDate > maxEndDate) {
+        endDate = maxEndDate;
+      }
+
       // First check if equipment exists
       const equipment = await storage.getEquipment(equipmentId);
       if (!equipment) {
         return res.status(404).json({ error: 'Equipment not found' });
       }
 
-      // Check if equipment is generally available
+      const [days, blackouts, bookedSlots] = await Promise.all([
+        getAvailabilityMap(equipment, startDate, endDate),
+        storage.listBlackouts(equipmentId, startDate, endDate),
+        findBookingConflicts(equipmentId, ...wholeDays(startDate, endDate))
+      ]);
+      const isAvailable = days.every(day => day.status === 'free');
+
+      let message = 'Equipment is available for the selected dates';
       if (!equipment.availability) {
-        return res.json({
-          available: false,
-          message: 'Equipment is not available for booking'
-        });
+        message = 'This listing is currently paused by its owner';
+      } else if (!isAvailable) {
+        message = 'Some dates are already booked or blocked';
       }
 
-      // Check specific date range availability
-      const isAvailable = await storage.checkEquipmentAvailability(
-        equipmentId,
-        startDate,
-        endDate
-      );
-
       res.json({
         available: isAvailable,
+        listingActive: equipment.availability,
         startDate: startDate.toISOString(),
         endDate: endDate.toISOString(),
-        message: isAvailable ? 'Equipment is available for the selected dates' : 'Equipment is not available for the selected dates'
+        days,
+        // Owner notes stay private; renters only see why dates are blocked
+        blackouts: blackouts.map(({ startDate, endDate, reason }) => ({ startDate, endDate, reason })),
+        // Exact booked times, for picking hour slots on partially booked days
+        bookedSlots: bookedSlots.map(({ startDate, endDate }) => ({ startDate, endDate })),
+        message
       });
     } catch (error) {
       console.error('Error checking equipment availability:', error);
@@ -329,8 +454,9 @@ export function registerRoutes(app: Express): Server {
     }
   });
 
-  // Add equipment availability update endpoint for owners
-  app.patch("/api/equipment/:id/availability", async (req, res) => {
+  // Owners pause or resume a listing. Which dates can be booked is derived
+  // from bookings and blackouts, not from this flag.
+  app.patch("/api/equipment/:id/availability", requirePermission('equipment:list', 'equipment:manage_any'), async (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
 
     try {
@@ -341,17 +467,22 @@ export function registerRoutes(app: Express): Server {
         return res.status(404).json({ error: "Equipment not found" });
       }
 
-      // Verify ownership
-      if (equipment.ownerId !== req.user.id) {
+      if (!canManageEquipment(req.user, equipment)) {
         return res.status(403).json({ error: "Not authorized to update this equipment" });
       }
 
       const { available } = req.body;
+      if (typeof available !== 'boolean') {
+        return res.status(400).json({ error: "'available' must be true or false" });
+      }
 
-      // Update equipment availability
+      // Update listing status
       const updated = await storage.updateEquipment(equipmentId, {
         availability: available
       });
+      if (available && !equipment.availability) {
+        await offerDatesToWaitlist(equipmentId);
+      }
 
       res.json(updated);
     } catch (error) {
@@ -360,490 +491,2442 @@ export function registerRoutes(app: Express): Server {
     }
   });
 
-  // Add equipment delete endpoint
-  app.delete("/api/equipment/:id", async (req, res) => {
-    if (!req.isAuthenticated()) {
-      return res.status(401).json({ error: 'Authentication required' });
+  // Itemised price for a prospective rental, with the same rules booking
+  // creation charges by. `unit` is `day` (start and end are calendar days,
+  // both included) or `hour` (exact times).
+  app.get("/api/equipment/:id/quote", async (req, res) => {
+    try {
+      const equipment = await storage.getEquipment(parseInt(req.params.id));
+      if (!equipment) {
+        return res.status(404).json({ error: "Equipment not found" });
+      }
+
+      const unit = (req.query.unit as string | undefined) ?? 'day';
+      if (!(rentalUnits as readonly string[]).includes(unit)) {
+        return res.status(400).json({ error: "unit must be one of: " + rentalUnits.join(', ') });
+      }
+      if (!req.query.start || !req.query.end) {
+        return res.status(400).json({ error: "start and end are required" });
+      }
+
+      let period;
+      try {
+        period = resolveRentalPeriod(
+          equipment,
+          unit as typeof rentalUnits[number],
+          new Date(req.query.start as string),
+          new Date(req.query.end as string)
+        );
+      } catch (error) {
+        if (error instanceof InvalidRentalPeriodError) {
+          return res.status(400).json({ error: error.message });
+        }
+        throw error;
+      }
+
+      res.json(await quoteRental(equipment, period.startDate, period.endDate));
+    } catch (error) {
+      console.error('Error quoting rental:', error);
+      res.status(500).json({ error: "Failed to quote rental" });
     }
+  });
+
+  // Owner blackout periods. Renters see blocked days through the
+  // availability map; the full records (with notes) are for the owner.
+  app.get("/api/equipment/:id/blackouts", requirePermission('equipment:list', 'equipment:manage_any'), async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
 
     try {
       const equipmentId = parseInt(req.params.id);
       const equipment = await storage.getEquipment(equipmentId);
-
       if (!equipment) {
         return res.status(404).json({ error: "Equipment not found" });
       }
-
-      // Only allow equipment owner to delete
-      if (equipment.ownerId !== req.user.id && !req.user.isAdmin) {
-        return res.status(403).json({ error: "Not authorized to delete this equipment" });
+      if (!canManageEquipment(req.user, equipment)) {
+        return res.status(403).json({ error: "Not authorized to view blackouts for this equipment" });
       }
 
-      // Delete equipment from storage
-      await storage.deleteEquipment(equipmentId);
-
-      // Also delete any related bookings
-      await storage.deleteEquipmentBookings(equipmentId);
-
-      res.json({ success: true, message: "Equipment deleted successfully" });
+      res.json(await storage.listBlackouts(equipmentId));
     } catch (error) {
-      console.error('Error deleting equipment:', error);
-      res.status(500).json({
-        error: "Failed to delete equipment",
-        details: error instanceof Error ? error.message : "Unknown error"
-      });
+      console.error('Error listing blackouts:', error);
+      res.status(500).json({ error: "Failed to list blackouts" });
     }
   });
 
-
-  // Update the booking creation endpoint to use Razorpay
-  app.post("/api/bookings", async (req, res) => {
+  app.post("/api/equipment/:id/blackouts", requirePermission('equipment:list', 'equipment:manage_any'), async (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
 
     try {
-      const bookingData = {
-        ...req.body,
-        userId: req.user.id,
-        status: 'pending'
-      };
+      const equipmentId = parseInt(req.params.id);
+      const equipment = await storage.getEquipment(equipmentId);
+      if (!equipment) {
+        return res.status(404).json({ error: "Equipment not found" });
+      }
+      if (!canManageEquipment(req.user, equipment)) {
+        return res.status(403).json({ error: "Not authorized to block dates for this equipment" });
+      }
 
-      const parsed = insertBookingSchema.safeParse(bookingData);
+      const parsed = insertEquipmentBlackoutSchema.safeParse({
+        ...req.body,
+        equipmentId,
+        createdBy: req.user.id
+      });
       if (!parsed.success) {
         return res.status(400).json({
-          error: "Invalid booking data",
+          error: "Invalid blackout data",
           details: parsed.error.errors
         });
       }
 
-      const equipment = await storage.getEquipment(parsed.data.equipmentId);
-      if (!equipment) {
-        return res.status(404).json({ error: "Equipment not found" });
-      }
-
-      // Check if equipment is available
-      if (!equipment.availability) {
-        return res.status(400).json({ error: "Equipment is not available for booking" });
+      const conflicts = await findBookingConflicts(equipmentId, ...wholeDays(parsed.data.startDate, parsed.data.endDate));
+      if (conflicts.length > 0) {
+        return res.status(409).json({
+          error: "These dates overlap existing bookings",
+          bookingIds: conflicts.map(booking => booking.id)
+        });
       }
 
-      // Calculate rental duration in days including both start and end dates
-      const startDate = new Date(parsed.data.startDate);
-      const endDate = new Date(parsed.data.endDate);
-      const totalDays = Math.max(1, Math.ceil(
-        (endDate.getTime() - startDate.getTime()) /
-        (1000 * 3600 * 24)
-      ) + 1); // Add 1 to include both start and end dates
+      const blackout = await storage.createBlackout(parsed.data);
+      res.status(201).json(blackout);
+    } catch (error) {
+      console.error('Error creating blackout:', error);
+      res.status(500).json({ error: "Failed to create blackout" });
+    }
+  });
 
-      // Calculate total amount based on daily rate and duration
-      const totalAmount = equipment.dailyRate * totalDays;
+  app.patch("/api/equipment/:id/blackouts/:blackoutId", requirePermission('equipment:list', 'equipment:manage_any'), async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
 
-      // First check if equipment is still available
-      const isAvailable = await storage.checkEquipmentAvailability(
-        parsed.data.equipmentId,
-        startDate,
-        endDate
-      );
+    try {
+      const equipmentId = parseInt(req.params.id);
+      const equipment = await storage.getEquipment(equipmentId);
+      if (!equipment) {
+        return res.status(404).json({ error: "Equipment not found" });
+      }
+      if (!canManageEquipment(req.user, equipment)) {
+        return res.status(403).json({ error: "Not authorized to change blackouts for this equipment" });
+      }
 
-      if (!isAvailable) {
-        return res.status(400).json({ error: "Equipment is no longer available for these dates" });
+      const blackout = await storage.getBlackout(parseInt(req.params.blackoutId));
+      if (!blackout || blackout.equipmentId !== equipmentId) {
+        return res.status(404).json({ error: "Blackout not found" });
       }
 
-      // Create booking record with calculated total price
-      const booking = await storage.createBooking({
-        ...parsed.data,
-        totalPrice: totalAmount,
-        startDate,
-        endDate,
-        status: 'pending'
+      const { startDate, endDate, reason, note } = req.body;
+      const parsed = insertEquipmentBlackoutSchema.safeParse({
+        equipmentId,
+        createdBy: blackout.createdBy,
+        startDate: startDate ?? blackout.startDate,
+        endDate: endDate ?? blackout.endDate,
+        reason: reason ?? blackout.reason,
+        note: note !== undefined ? note : blackout.note
       });
-
-      try {
-        // Lock equipment by marking it unavailable
-        await storage.updateEquipment(parsed.data.equipmentId, {
-          availability: false
+      if (!parsed.success) {
+        return res.status(400).json({
+          error: "Invalid blackout data",
+          details: parsed.error.errors
         });
+      }
 
-        // Create Razorpay order
-        const razorpayOrder = await createPaymentSession(booking.id, totalAmount, equipment.name);
-
-        // Update booking with Razorpay order info
-        const updatedBooking = await storage.updateBooking(booking.id, {
-          status: 'awaiting_payment',
-          razorpayOrderId: razorpayOrder.id
+      const conflicts = await findBookingConflicts(equipmentId, ...wholeDays(parsed.data.startDate, parsed.data.endDate));
+      if (conflicts.length > 0) {
+        return res.status(409).json({
+          error: "These dates overlap existing bookings",
+          bookingIds: conflicts.map(booking => booking.id)
         });
+      }
 
-        console.log(`Created booking ${booking.id} for equipment ${equipment.id}, awaiting payment`);
-
-        // Return booking info with complete Razorpay configuration
-        res.status(201).json({
-          booking: updatedBooking,
-          razorpayConfig: {
-            key: razorpayOrder.keyId,
-            amount: razorpayOrder.amount,
-            currency: razorpayOrder.currency,
-            name: razorpayOrder.name,
-            description: razorpayOrder.description,
-            order_id: razorpayOrder.id,
-            prefill: razorpayOrder.prefill
-          }
-        });
-      } catch (paymentError) {
-        console.error('Error in payment order creation:', paymentError);
+      const updated = await storage.updateBlackout(blackout.id, parsed.data);
+      await offerDatesToWaitlist(equipmentId);
+      res.json(updated);
+    } catch (error) {
+      console.error('Error updating blackout:', error);
+      res.status(500).json({ error: "Failed to update blackout" });
+    }
+  });
 
-        // Revert equipment availability if payment setup fails
-        await storage.updateEquipment(parsed.data.equipmentId, {
-          availability: true
-        });
+  app.delete("/api/equipment/:id/blackouts/:blackoutId", requirePermission('equipment:list', 'equipment:manage_any'), async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
 
-        // Update booking status to payment_failed
-        await storage.updateBooking(booking.id, { status: 'payment_failed' });
+    try {
+      const equipmentId = parseInt(req.params.id);
+      const equipment = await storage.getEquipment(equipmentId);
+      if (!equipment) {
+        return res.status(404).json({ error: "Equipment not found" });
+      }
+      if (!canManageEquipment(req.user, equipment)) {
+        return res.status(403).json({ error: "Not authorized to change blackouts for this equipment" });
+      }
 
-        res.status(400).json({
-          error: "Payment order creation failed",
-          details: paymentError instanceof Error ? paymentError.message : "Unknown payment error"
-        });
+      const blackout = await storage.getBlackout(parseInt(req.params.blackoutId));
+      if (!blackout || blackout.equipmentId !== equipmentId) {
+        return res.status(404).json({ error: "Blackout not found" });
       }
+
+      await storage.deleteBlackout(blackout.id);
+      await offerDatesToWaitlist(equipmentId);
+      res.json({ success: true });
     } catch (error) {
-      console.error('Error in booking creation:', error);
-      res.status(500).json({
-        error: "Failed to process booking",
-        details: error instanceof Error ? error.message : "Unknown error"
-      });
+      console.error('Error deleting blackout:', error);
+      res.status(500).json({ error: "Failed to delete blackout" });
     }
   });
 
-  // Update verification endpoint to properly handle equipment availability
-  app.post("/api/bookings/verify-payment", express.json(), async (req, res) => {
+  // Renters wait for booked-out dates and are offered them, held for a
+  // while, when they free up
+  app.get("/api/waitlist", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
     try {
-      const { bookingId, razorpay_order_id, razorpay_payment_id, razorpay_signature } = req.body;
+      res.json(await storage.listWaitlistEntries(req.user.id));
+    } catch (error) {
+      console.error('Error listing waitlist entries:', error);
+      res.status(500).json({ error: "Failed to list waitlist entries" });
+    }
+  });
 
-      if (!bookingId || !razorpay_order_id || !razorpay_payment_id || !razorpay_signature) {
-        console.error('Missing required payment verification fields:', req.body);
+  app.post("/api/waitlist", requirePermission('bookings:create'), async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const parsed = joinWaitlistSchema.safeParse(req.body);
+      if (!parsed.success) {
         return res.status(400).json({
-          error: 'Missing required payment details',
-          details: 'All payment verification fields are required'
+          error: "Invalid waitlist request",
+          details: parsed.error.errors
         });
       }
 
-      // Get the booking details first to ensure it exists
-      const booking = await storage.getBooking(bookingId);
-      if (!booking) {
-        console.error(`Booking not found for verification: ${bookingId}`);
-        return res.status(404).json({ error: 'Booking not found' });
+      const equipment = await storage.getEquipment(parsed.data.equipmentId);
+      if (!equipment) {
+        return res.status(404).json({ error: "Equipment not found" });
       }
 
-      // Verify if this payment was already processed
-      if (booking.status === 'paid') {
-        console.log(`Payment already verified for booking ${bookingId}`);
-        return res.status(200).json({ success: true, booking });
+      const entry = await joinWaitlist(
+        req.user.id,
+        equipment,
+        parsed.data.rentalUnit,
+        parsed.data.startDate,
+        parsed.data.endDate
+      );
+      res.status(201).json(entry);
+    } catch (error) {
+      console.error('Error joining waitlist:', error);
+      if (error instanceof InvalidRentalPeriodError) {
+        return res.status(400).json({ error: error.message });
       }
-
-      const isValid = await verifyPaymentSignature(razorpay_order_id, razorpay_payment_id, razorpay_signature);
-
-      if (!isValid) {
-        console.error('Invalid payment signature for booking:', bookingId);
-        // If payment verification fails, make equipment available again
-        await storage.updateEquipment(booking.equipmentId, {
-          availability: true
-        });
-        return res.status(400).json({ error: 'Invalid payment signature' });
+      if (error instanceof WaitlistError) {
+        return res.status(422).json({ error: error.message });
       }
+      res.status(500).json({ error: "Failed to join waitlist" });
+    }
+  });
 
-      console.log(`Processing payment verification for booking ${bookingId}, equipment ${booking.equipmentId}`);
-
-      // First update the booking status
-      const updatedBooking = await storage.updateBooking(bookingId, {
-        status: 'paid',
-        razorpayPaymentId: razorpay_payment_id
-      });
+  app.delete("/api/waitlist/:id", requirePermission('bookings:create'), async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
 
-      if (!updatedBooking) {
-        throw new Error('Failed to update booking status');
+    try {
+      const entry = await storage.getWaitlistEntry(parseInt(req.params.id));
+      if (!entry || entry.userId !== req.user.id) {
+        return res.status(404).json({ error: "Waitlist entry not found" });
       }
 
-      console.log(`Successfully updated booking ${bookingId} status to paid`);
-
-      // Then explicitly set equipment availability to false
-      await storage.updateEquipment(booking.equipmentId, {
-        availability: false
-      });
-
-      console.log(`Equipment ${booking.equipmentId} marked as unavailable after payment verification`);
-
-      res.json({
-        success: true,
-        booking: updatedBooking,
-        message: 'Payment verified successfully and equipment marked as unavailable'
-      });
+      res.json(await leaveWaitlist(entry));
     } catch (error) {
-      console.error('Payment verification error:', error);
-      res.status(500).json({
-        error: 'Payment verification failed',
-        details: error instanceof Error ? error.message : 'Unknown error'
-      });
+      console.error('Error leaving waitlist:', error);
+      if (error instanceof WaitlistError) {
+        return res.status(422).json({ error: error.message });
+      }
+      res.status(500).json({ error: "Failed to leave waitlist" });
     }
   });
 
-  // Update the webhook handler
-  app.post("/api/webhooks/razorpay", express.raw({ type: 'application/json' }), async (req, res) => {
-    try {
-      const webhookSecret = process.env.RAZORPAY_WEBHOOK_SECRET;
+  app.get("/api/notifications", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
 
-      // If webhook secret is configured, verify the signature
-      if (webhookSecret) {
-        const signature = req.headers['x-razorpay-signature'];
-        if (!signature) {
-          return res.status(400).json({ error: 'Missing signature' });
-        }
+    try {
+      res.json(await storage.listNotifications(req.user.id));
+    } catch (error) {
+      console.error('Error listing notifications:', error);
+      res.status(500).json({ error: "Failed to list notifications" });
+    }
+  });
 
-        const expectedSignature = crypto
-          .createHmac('sha256', webhookSecret)
-          .update(req.body)
-          .digest('hex');
+  // Mark the given notifications read, or all of them without `ids`
+  app.post("/api/notifications/read", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
 
-        if (signature !== expectedSignature) {
-          return res.status(400).json({ error: 'Invalid signature' });
-        }
+    try {
+      const { ids } = req.body ?? {};
+      if (ids !== undefined && (!Array.isArray(ids) || ids.length === 0 || !ids.every(Number.isInteger))) {
+        return res.status(400).json({ error: "'ids' must be a non-empty list of notification IDs" });
       }
 
-      const event = JSON.parse(req.body.toString());
-      const result = await handleWebhookEvent(event);
-
-      if (result) {
-        if (result.status === 'success' && result.paymentId) {
-          // Update booking status
-          const booking = await storage.updateBooking(result.bookingId, {
-            status: 'paid',
-            razorpayPaymentId: result.paymentId
-          });
+      res.json({ read: await storage.markNotificationsRead(req.user.id, ids) });
+    } catch (error) {
+      console.error('Error marking notifications read:', error);
+      res.status(500).json({ error: "Failed to mark notifications read" });
+    }
+  });
 
-          // Also update equipment availability
-          if (booking) {
-            await storage.updateEquipment(booking.equipmentId, {
-              availability: false
-            });
+  // Owner pricing rules: seasonal surcharges, weekend rates and discounts
+  // for longer rentals. Renters see their effect through the quote endpoint.
+  app.get("/api/equipment/:id/pricing-rules", requirePermission('equipment:list', 'equipment:manage_any'), async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
 
-            // Generate receipt with the payment ID
-            await generateReceipt(result.bookingId, result.paymentId);
-          }
-        } else if (result.status === 'failed') {
-          // Update booking status to failed and ensure equipment remains available
-          const booking = await storage.updateBooking(result.bookingId, {
-            status: 'payment_failed'
+    try {
+      const equipmentId = parseInt(req.params.id);
+      const equipment = await storage.getEquipment(equipmentId);
+      if (!equipment) {
+        return res.status(404).json({ error: "Equipment not found" });
+      }
+      if (!canManageEquipment(req.user, equipment)) {
+        return res.status(403).json({ error: "Not authorized to view pricing rules for this equipment" });
+      }
+
+      res.json(await storage.listPricingRules(equipmentId));
+    } catch (error) {
+      console.error('Error listing pricing rules:', error);
+      res.status(500).json({ error: "Failed to list pricing rules" });
+    }
+  });
+
+  app.post("/api/equipment/:id/pricing-rules", requirePermission('equipment:list', 'equipment:manage_any'), async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const equipmentId = parseInt(req.params.id);
+      const equipment = await storage.getEquipment(equipmentId);
+      if (!equipment) {
+        return res.status(404).json({ error: "Equipment not found" });
+      }
+      if (!canManageEquipment(req.user, equipment)) {
+        return res.status(403).json({ error: "Not authorized to change pricing for this equipment" });
+      }
+
+      const parsed = insertPricingRuleSchema.safeParse({ ...req.body, equipmentId });
+      if (!parsed.success) {
+        return res.status(400).json({
+          error: "Invalid pricing rule",
+          details: parsed.error.errors
+        });
+      }
+
+      const conflict = findConflictingRule(await storage.listPricingRules(equipmentId), parsed.data);
+      if (conflict) {
+        return res.status(409).json({
+          error: `This rule clashes with "${conflict.name}"`,
+          ruleId: conflict.id
+        });
+      }
+
+      res.status(201).json(await storage.createPricingRule(parsed.data));
+    } catch (error) {
+      console.error('Error creating pricing rule:', error);
+      res.status(500).json({ error: "Failed to create pricing rule" });
+    }
+  });
+
+  app.patch("/api/equipment/:id/pricing-rules/:ruleId", requirePermission('equipment:list', 'equipment:manage_any'), async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const equipmentId = parseInt(req.params.id);
+      const equipment = await storage.getEquipment(equipmentId);
+      if (!equipment) {
+        return res.status(404).json({ error: "Equipment not found" });
+      }
+      if (!canManageEquipment(req.user, equipment)) {
+        return res.status(403).json({ error: "Not authorized to change pricing for this equipment" });
+      }
+
+      const rule = await storage.getPricingRule(parseInt(req.params.ruleId));
+      if (!rule || rule.equipmentId !== equipmentId) {
+        return res.status(404).json({ error: "Pricing rule not found" });
+      }
+
+      const { kind, name, adjustmentPercent, startDate, endDate, minDays } = req.body;
+      const parsed = insertPricingRuleSchema.safeParse({
+        equipmentId,
+        kind: kind ?? rule.kind,
+        name: name ?? rule.name,
+        adjustmentPercent: adjustmentPercent ?? rule.adjustmentPercent,
+        startDate: startDate !== undefined ? startDate : rule.startDate,
+        endDate: endDate !== undefined ? endDate : rule.endDate,
+        minDays: minDays !== undefined ? minDays : rule.minDays
+      });
+      if (!parsed.success) {
+        return res.status(400).json({
+          error: "Invalid pricing rule",
+          details: parsed.error.errors
+        });
+      }
+
+      const conflict = findConflictingRule(await storage.listPricingRules(equipmentId), parsed.data, rule.id);
+      if (conflict) {
+        return res.status(409).json({
+          error: `This rule clashes with "${conflict.name}"`,
+          ruleId: conflict.id
+        });
+      }
+
+      res.json(await storage.updatePricingRule(rule.id, parsed.data));
+    } catch (error) {
+      console.error('Error updating pricing rule:', error);
+      res.status(500).json({ error: "Failed to update pricing rule" });
+    }
+  });
+
+  app.delete("/api/equipment/:id/pricing-rules/:ruleId", requirePermission('equipment:list', 'equipment:manage_any'), async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const equipmentId = parseInt(req.params.id);
+      const equipment = await storage.getEquipment(equipmentId);
+      if (!equipment) {
+        return res.status(404).json({ error: "Equipment not found" });
+      }
+      if (!canManageEquipment(req.user, equipment)) {
+        return res.status(403).json({ error: "Not authorized to change pricing for this equipment" });
+      }
+
+      const rule = await storage.getPricingRule(parseInt(req.params.ruleId));
+      if (!rule || rule.equipmentId !== equipmentId) {
+        return res.status(404).json({ error: "Pricing rule not found" });
+      }
+
+      await storage.deletePricingRule(rule.id);
+      res.json({ success: true });
+    } catch (error) {
+      console.error('Error deleting pricing rule:', error);
+      res.status(500).json({ error: "Failed to delete pricing rule" });
+    }
+  });
+
+  // Add equipment delete endpoint
+  app.delete("/api/equipment/:id", requirePermission('equipment:list', 'equipment:manage_any'), async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    try {
+      const equipmentId = parseInt(req.params.id);
+      const equipment = await storage.getEquipment(equipmentId);
+
+      if (!equipment) {
+        return res.status(404).json({ error: "Equipment not found" });
+      }
+
+      if (!canManageEquipment(req.user, equipment)) {
+        return res.status(403).json({ error: "Not authorized to delete this equipment" });
+      }
+
+      // Delete equipment from storage
+      await storage.deleteEquipment(equipmentId);
+
+      // Also delete any related bookings
+      await storage.deleteEquipmentBookings(equipmentId);
+
+      res.json({ success: true, message: "Equipment deleted successfully" });
+    } catch (error) {
+      console.error('Error deleting equipment:', error);
+      res.status(500).json({
+        error: "Failed to delete equipment",
+        details: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+
+  // Update the booking creation endpoint to use Razorpay
+  app.post("/api/bookings", requirePermission('bookings:create'), async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const bookingData = {
+        ...req.body,
+        userId: req.user.id,
+        status: 'pending'
+      };
+
+      const parsed = insertBookingSchema.safeParse(bookingData);
+      if (!parsed.success) {
+        return res.status(400).json({
+          error: "Invalid booking data",
+          details: parsed.error.errors
+        });
+      }
+
+      const equipment = await storage.getEquipment(parsed.data.equipmentId);
+      if (!equipment) {
+        return res.status(404).json({ error: "Equipment not found" });
+      }
+
+      // Paused listings take no new bookings
+      if (!equipment.availability) {
+        return res.status(400).json({ error: "This listing is currently paused by its owner" });
+      }
+
+      // Work out the time range the booking holds and price it
+      let period;
+      try {
+        period = resolveRentalPeriod(
+          equipment,
+          parsed.data.rentalUnit,
+          new Date(parsed.data.startDate),
+          new Date(parsed.data.endDate)
+        );
+      } catch (error) {
+        if (error instanceof InvalidRentalPeriodError) {
+          return res.status(400).json({ error: error.message });
+        }
+        throw error;
+      }
+      const { startDate, endDate } = period;
+      const quote = await quoteRental(equipment, startDate, endDate);
+      const totalAmount = quote.total;
+      if (totalAmount <= 0) {
+        return res.status(400).json({ error: "The pricing rules for these dates leave nothing to charge" });
+      }
+
+      // First check if equipment is still available
+      const isAvailable = await storage.checkEquipmentAvailability(
+        parsed.data.equipmentId,
+        startDate,
+        endDate,
+        req.user.id
+      );
+
+      if (!isAvailable) {
+        const [blackout] = await storage.listBlackouts(parsed.data.equipmentId, startOfUtcDay(startDate), new Date(endDate.getTime() - 1));
+        if (blackout) {
+          return res.status(409).json({
+            error: `Equipment is blocked by its owner from ${blackout.startDate.toISOString().slice(0, 10)} to ${blackout.endDate.toISOString().slice(0, 10)} (${blackout.reason.replace('_', ' ')})`
           });
+        }
+        return res.status(409).json({ error: "Equipment is no longer available for these dates" });
+      }
+
+      // Create booking record with calculated total price. The dates are
+      // checked again under a lock, so a concurrent booking can still win.
+      let booking;
+      try {
+        booking = await openBooking({
+          ...parsed.data,
+          totalPrice: totalAmount,
+          depositAmount: equipment.depositAmount ?? 0,
+          startDate,
+          endDate,
+        }, userActor(req.user));
+      } catch (error) {
+        if (error instanceof BookingOverlapError) {
+          return res.status(409).json({ error: "These dates were just booked by someone else" });
+        }
+        throw error;
+      }
+
+      // Request-to-book equipment waits for the owner before any payment
+      if (requiresApproval(equipment)) {
+        const requested = await placeRequest(booking, equipment, userActor(req.user));
+        return res.status(201).json({ booking: requested, requiresApproval: true });
+      }
+
+      try {
+        // Create Razorpay order
+        const razorpayOrder = await createPaymentSession(booking.id, amountDue(booking), equipment.name);
+
+        // Update booking with Razorpay order info
+        const updatedBooking = await transitionBooking(booking.id, 'awaiting_payment', userActor(req.user), {
+          reason: 'Payment order created',
+          data: { razorpayOrderId: razorpayOrder.id, holdExpiresAt: holdExpiresAt() }
+        });
+
+        console.log(`Created booking ${booking.id} for equipment ${equipment.id}, awaiting payment`);
+
+        // Return booking info with complete Razorpay configuration
+        res.status(201).json({
+          booking: updatedBooking,
+          razorpayConfig: {
+            provider: razorpayOrder.provider,
+            key: razorpayOrder.keyId,
+            amount: razorpayOrder.amount,
+            currency: razorpayOrder.currency,
+            name: razorpayOrder.name,
+            description: razorpayOrder.description,
+            order_id: razorpayOrder.id,
+            prefill: razorpayOrder.prefill
+          }
+        });
+      } catch (paymentError) {
+        console.error('Error in payment order creation:', paymentError);
+
+        // Update booking status to payment_failed
+        await transitionBooking(booking.id, 'payment_failed', userActor(req.user), {
+          reason: 'Payment order creation failed'
+        });
+
+        res.status(400).json({
+          error: "Payment order creation failed",
+          details: paymentError instanceof Error ? paymentError.message : "Unknown payment error"
+        });
+      }
+    } catch (error) {
+      console.error('Error in booking creation:', error);
+      res.status(500).json({
+        error: "Failed to process booking",
+        details: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  // Book every item in a cart together and pay for them with one order
+  app.post("/api/checkout", requirePermission('bookings:create'), async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const parsed = checkoutSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({
+          error: "Invalid cart",
+          details: parsed.error.errors
+        });
+      }
+
+      const { order, bookings, session } = await placeCheckout(req.user.id, parsed.data.items, userActor(req.user));
+      res.status(201).json({
+        order,
+        bookings,
+        razorpayConfig: {
+          provider: session.provider,
+          key: session.keyId,
+          amount: session.amount,
+          currency: session.currency,
+          name: session.name,
+          description: session.description,
+          order_id: session.id,
+          prefill: session.prefill
+        }
+      });
+    } catch (error) {
+      if (error instanceof CheckoutError) {
+        return res.status(400).json({ error: error.message, itemIndex: error.itemIndex });
+      }
+      if (error instanceof BookingOverlapError) {
+        const equipment = await storage.getEquipment(error.equipmentId);
+        return res.status(409).json({
+          error: `${equipment?.name ?? 'An item in your cart'} is no longer available for these dates`,
+          equipmentId: error.equipmentId
+        });
+      }
+      console.error('Error in checkout:', error);
+      res.status(500).json({
+        error: "Failed to process checkout",
+        details: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  // A checkout with its bookings, for the renter who placed it or staff
+  app.get("/api/checkout/:id", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const order = await storage.getCheckoutOrder(parseInt(req.params.id));
+      if (!order) {
+        return res.status(404).json({ error: "Checkout not found" });
+      }
+      if (!canViewCheckout(req.user, order)) {
+        return res.status(403).json({ error: "Not authorized to view this checkout" });
+      }
+
+      const bookings = await storage.listCheckoutBookings(order.id);
+      const withEquipment = await Promise.all(bookings.map(async (booking) => {
+        const equipment = await storage.getEquipment(booking.equipmentId);
+        return { ...booking, equipmentName: equipment?.name ?? null };
+      }));
+
+      res.json({ order, bookings: withEquipment });
+    } catch (error) {
+      console.error('Error fetching checkout:', error);
+      res.status(500).json({ error: "Failed to fetch checkout" });
+    }
+  });
+
+  app.get("/api/checkout/:id/payment-config", requirePermission('bookings:create'), async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const order = await storage.getCheckoutOrder(parseInt(req.params.id));
+      if (!order) {
+        return res.status(404).json({ error: "Checkout not found" });
+      }
+      if (order.userId !== req.user.id) {
+        return res.status(403).json({ error: "Not authorized to pay for this checkout" });
+      }
+
+      res.json(await renewCheckoutPayment(order));
+    } catch (error) {
+      if (error instanceof CheckoutError) {
+        return res.status(409).json({ error: error.message });
+      }
+      console.error('Error getting checkout payment configuration:', error);
+      res.status(500).json({
+        error: "Failed to get payment configuration",
+        details: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  // Confirm a cart checkout completed in the browser
+  app.post("/api/checkout/verify-payment", express.json(), async (req, res) => {
+    try {
+      const { checkoutOrderId, razorpay_order_id, razorpay_payment_id, razorpay_signature } = req.body;
+
+      if (!checkoutOrderId || !razorpay_order_id || !razorpay_payment_id || !razorpay_signature) {
+        return res.status(400).json({
+          error: 'Missing required payment details',
+          details: 'All payment verification fields are required'
+        });
+      }
+
+      const order = await storage.getCheckoutOrder(checkoutOrderId);
+      if (!order) {
+        return res.status(404).json({ error: 'Checkout not found' });
+      }
+
+      const isValid = order.razorpayOrderId === razorpay_order_id &&
+        await verifyPaymentSignature(razorpay_order_id, razorpay_payment_id, razorpay_signature);
+      if (!isValid) {
+        console.error('Invalid payment signature for checkout:', checkoutOrderId);
+        return res.status(400).json({ error: 'Invalid payment signature' });
+      }
+
+      const actor = req.user ? userActor(req.user) : { id: null, type: 'user' as const };
+      const { paid, refunds } = await applyCheckoutPayment(order, razorpay_payment_id, actor);
+      const bookings = await storage.listCheckoutBookings(order.id);
+
+      res.json({
+        success: true,
+        bookings,
+        refunds,
+        message: refunds.length > 0
+          ? `${paid.length} booking(s) confirmed. ${refunds.length} could no longer be booked and will be refunded.`
+          : 'Payment verified successfully'
+      });
+    } catch (error) {
+      console.error('Checkout payment verification error:', error);
+      res.status(500).json({
+        error: 'Payment verification failed',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  });
+
+  app.post("/api/bookings/extensions/verify-payment", express.json(), async (req, res) => {
+    try {
+      const { extensionId, razorpay_order_id, razorpay_payment_id, razorpay_signature } = req.body;
+
+      if (!extensionId || !razorpay_order_id || !razorpay_payment_id || !razorpay_signature) {
+        return res.status(400).json({
+          error: 'Missing required payment details',
+          details: 'All payment verification fields are required'
+        });
+      }
+
+      const extension = await storage.getBookingExtension(extensionId);
+      if (!extension) {
+        return res.status(404).json({ error: 'Extension not found' });
+      }
+
+      const isValid = extension.razorpayOrderId === razorpay_order_id &&
+        await verifyPaymentSignature(razorpay_order_id, razorpay_payment_id, razorpay_signature);
+      if (!isValid) {
+        console.error('Invalid payment signature for extension:', extensionId);
+        return res.status(400).json({ error: 'Invalid payment signature' });
+      }
+
+      const actor = req.user ? userActor(req.user) : { id: null, type: 'user' as const };
+      const applied = await applyExtensionPayment(extension, razorpay_payment_id, actor);
+      if (applied?.refund) {
+        return res.status(409).json({
+          error: 'The extra time could no longer be added to your booking. Your payment will be refunded.',
+          refund: applied.refund
+        });
+      }
+
+      res.json({
+        success: true,
+        booking: applied?.booking ?? await storage.getBooking(extension.bookingId),
+        message: 'Booking extended'
+      });
+    } catch (error) {
+      console.error('Extension payment verification error:', error);
+      res.status(500).json({
+        error: 'Payment verification failed',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  });
+
+  app.post("/api/bookings/late-fees/verify-payment", express.json(), async (req, res) => {
+    try {
+      const { lateFeeId, razorpay_order_id, razorpay_payment_id, razorpay_signature } = req.body;
+
+      if (!lateFeeId || !razorpay_order_id || !razorpay_payment_id || !razorpay_signature) {
+        return res.status(400).json({
+          error: 'Missing required payment details',
+          details: 'All payment verification fields are required'
+        });
+      }
+
+      const fee = await storage.getLateFee(lateFeeId);
+      if (!fee) {
+        return res.status(404).json({ error: 'Late fee not found' });
+      }
+
+      const isValid = fee.razorpayOrderId === razorpay_order_id &&
+        await verifyPaymentSignature(razorpay_order_id, razorpay_payment_id, razorpay_signature);
+      if (!isValid) {
+        console.error('Invalid payment signature for late fee:', lateFeeId);
+        return res.status(400).json({ error: 'Invalid payment signature' });
+      }
+
+      const paid = await applyLateFeePayment(fee, razorpay_payment_id);
+      res.json({
+        success: true,
+        lateFee: paid ?? await storage.getLateFee(fee.id),
+        message: 'Late fee paid'
+      });
+    } catch (error) {
+      console.error('Late fee payment verification error:', error);
+      res.status(500).json({
+        error: 'Payment verification failed',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  });
+
+  // Confirm a checkout completed in the browser
+  app.post("/api/bookings/verify-payment", express.json(), async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const { bookingId, razorpay_order_id, razorpay_payment_id, razorpay_signature } = req.body;
+
+      if (!bookingId || !razorpay_order_id || !razorpay_payment_id || !razorpay_signature) {
+        console.error('Missing required payment verification fields:', req.body);
+        return res.status(400).json({
+          error: 'Missing required payment details',
+          details: 'All payment verification fields are required'
+        });
+      }
+
+      // Get the booking details first to ensure it exists
+      const booking = await storage.getBooking(bookingId);
+      if (!booking) {
+        console.error(`Booking not found for verification: ${bookingId}`);
+        return res.status(404).json({ error: 'Booking not found' });
+      }
+
+      if (booking.userId !== req.user.id) {
+        return res.status(403).json({ error: 'Not authorized' });
+      }
+
+      // Verify if this payment was already processed
+      if (booking.status === 'paid') {
+        console.log(`Payment already verified for booking ${bookingId}`);
+        return res.status(200).json({ success: true, booking });
+      }
+
+      const isValid = booking.razorpayOrderId === razorpay_order_id &&
+        await verifyPaymentSignature(razorpay_order_id, razorpay_payment_id, razorpay_signature);
+
+      if (!isValid) {
+        console.error('Invalid payment signature for booking:', bookingId);
+        return res.status(400).json({ error: 'Invalid payment signature' });
+      }
+
+      if (booking.status === 'expired') {
+        const refund = await refundLateCapture(
+          booking,
+          razorpay_payment_id,
+          userActor(req.user)
+        );
+        return res.status(410).json({
+          error: 'The hold on this booking expired before payment completed. Your payment will be refunded.',
+          refund
+        });
+      }
+
+      console.log(`Processing payment verification for booking ${bookingId}, equipment ${booking.equipmentId}`);
+
+      const actor = userActor(req.user);
+      let updatedBooking;
+      try {
+        updatedBooking = await transitionBooking(booking.id, 'paid', actor, {
+          reason: 'Payment signature verified',
+          data: { razorpayPaymentId: razorpay_payment_id }
+        });
+      } catch (error) {
+        // The booking had released its dates after a failed attempt and
+        // someone else has booked them since
+        if (error instanceof BookingOverlapError) {
+          const refund = await refundLateCapture(booking, razorpay_payment_id, actor,
+            'Dates were booked by someone else before payment completed');
+          return res.status(409).json({
+            error: 'These dates were booked by someone else before your payment completed. Your payment will be refunded.',
+            refund
+          });
+        }
+        throw error;
+      }
+
+      console.log(`Successfully updated booking ${bookingId} status to paid`);
+
+      res.json({
+        success: true,
+        booking: updatedBooking,
+        message: 'Payment verified successfully'
+      });
+    } catch (error) {
+      console.error('Payment verification error:', error);
+      if (error instanceof InvalidBookingTransitionError) {
+        return res.status(409).json({ error: error.message });
+      }
+      res.status(500).json({
+        error: 'Payment verification failed',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  });
+
+  // Update the webhook handler
+  app.post("/api/webhooks/razorpay", express.raw({ type: 'application/json' }), async (req, res) => {
+    try {
+      const rawBody: Buffer = req.rawBody ?? req.body;
+      const signature = req.headers['x-razorpay-signature'];
+      const event = parseWebhook(rawBody, typeof signature === 'string' ? signature : undefined);
+
+      // Razorpay identifies deliveries by header; fall back to a hash of the body
+      const eventIdHeader = req.headers['x-razorpay-event-id'];
+      const eventId = typeof eventIdHeader === 'string'
+        ? eventIdHeader
+        : event.id ?? crypto.createHash('sha256').update(rawBody).digest('hex');
+
+      const { event: record, duplicate } = await receivePaymentEvent(eventId, event);
+
+      // A failed event is kept for retry; a non-2xx response makes Razorpay redeliver it
+      if (record.status === 'failed') {
+        return res.status(500).json({ error: 'Webhook processing failed', eventId });
+      }
+
+      res.json({ received: true, duplicate, status: record.status });
+    } catch (err) {
+      console.error('Webhook Error:', err);
+      if (err instanceof WebhookSignatureError) {
+        return res.status(400).json({ error: err.message });
+      }
+      if (err instanceof Error) {
+        res.status(400).send(`Webhook Error: ${err.message}`);
+      } else {
+        res.status(400).send('Webhook Error: Unknown error');
+      }
+    }
+  });
+
+  // Admin view of received webhook events and their processing outcome
+  app.get("/api/admin/payment-events", requirePermission('payments:view'), async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const limit = Math.min(parseInt(req.query.limit as string) || 100, 500);
+      const events = await storage.listPaymentEvents(limit);
+      res.json(events);
+    } catch (error) {
+      console.error('Error listing payment events:', error);
+      res.status(500).json({ error: "Failed to list payment events" });
+    }
+  });
+
+  app.post("/api/admin/payment-events/:id/retry", requirePermission('payments:manage'), async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const eventId = parseInt(req.params.id);
+      if (isNaN(eventId)) {
+        return res.status(400).json({ error: "Invalid event ID" });
+      }
+
+      const event = await retryPaymentEvent(eventId);
+      if (!event) {
+        return res.status(404).json({ error: "Payment event not found" });
+      }
+
+      res.json(event);
+    } catch (error) {
+      console.error('Error retrying payment event:', error);
+      res.status(500).json({ error: "Failed to retry payment event" });
+    }
+  });
+
+  // Recent reconciliation runs, newest first, with what each one found
+  app.get("/api/admin/reconciliation", requirePermission('payments:view'), async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      res.json(await storage.listReconciliationRuns());
+    } catch (error) {
+      console.error('Error listing reconciliation runs:', error);
+      res.status(500).json({ error: "Failed to list reconciliation runs" });
+    }
+  });
+
+  // Reconcile unpaid bookings with the payment provider now
+  app.post("/api/admin/reconciliation", requirePermission('payments:manage'), async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      res.json(await reconcilePayments('admin', userActor(req.user)));
+    } catch (error) {
+      console.error('Error reconciling payments:', error);
+      res.status(500).json({ error: "Failed to reconcile payments" });
+    }
+  });
+
+  // Admin management of promo codes, with how often each has been used
+  app.get("/api/admin/promo-codes", requirePermission('promotions:manage'), async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      res.json(await storage.listPromoCodes());
+    } catch (error) {
+      console.error('Error listing promo codes:', error);
+      res.status(500).json({ error: "Failed to list promo codes" });
+    }
+  });
+
+  app.post("/api/admin/promo-codes", requirePermission('promotions:manage'), async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const parsed = insertPromoCodeSchema.safeParse({ ...req.body, createdBy: req.user.id });
+      if (!parsed.success) {
+        return res.status(400).json({
+          error: "Invalid promo code",
+          details: parsed.error.errors
+        });
+      }
+
+      if (await storage.getPromoCodeByCode(parsed.data.code)) {
+        return res.status(409).json({ error: `Code ${parsed.data.code} already exists` });
+      }
+
+      res.status(201).json(await storage.createPromoCode(parsed.data));
+    } catch (error) {
+      console.error('Error creating promo code:', error);
+      res.status(500).json({ error: "Failed to create promo code" });
+    }
+  });
+
+  // Codes cannot be renamed once issued; everything else may change
+  app.patch("/api/admin/promo-codes/:id", requirePermission('promotions:manage'), async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const promo = await storage.getPromoCode(parseInt(req.params.id));
+      if (!promo) {
+        return res.status(404).json({ error: "Promo code not found" });
+      }
+
+      const { id: _id, createdAt: _createdAt, ...current } = promo;
+      const parsed = insertPromoCodeSchema.safeParse({ ...current, ...req.body, code: promo.code, createdBy: promo.createdBy });
+      if (!parsed.success) {
+        return res.status(400).json({
+          error: "Invalid promo code",
+          details: parsed.error.errors
+        });
+      }
+
+      res.json(await storage.updatePromoCode(promo.id, parsed.data));
+    } catch (error) {
+      console.error('Error updating promo code:', error);
+      res.status(500).json({ error: "Failed to update promo code" });
+    }
+  });
+
+  app.get("/api/admin/promo-codes/:id/redemptions", requirePermission('promotions:manage'), async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const promo = await storage.getPromoCode(parseInt(req.params.id));
+      if (!promo) {
+        return res.status(404).json({ error: "Promo code not found" });
+      }
+
+      res.json(await storage.listPromoRedemptions(promo.id));
+    } catch (error) {
+      console.error('Error listing promo redemptions:', error);
+      res.status(500).json({ error: "Failed to list promo redemptions" });
+    }
+  });
+
+  // What the signed-in owner has earned, is owed and has been paid
+  app.get("/api/owner/earnings", requirePermission('equipment:list'), async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const entries = await storage.listOwnerLedger(req.user.id);
+      res.json({
+        ...summariseOwnerLedger(entries),
+        commissionPercent: commissionPercent(),
+        entries: entries.slice(0, 50),
+      });
+    } catch (error) {
+      console.error('Error fetching owner earnings:', error);
+      res.status(500).json({ error: "Failed to fetch earnings" });
+    }
+  });
+
+  // Past payout batches and the balances the next batch would pay out
+  app.get("/api/admin/payouts", requirePermission('payouts:manage'), async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const [batches, balances] = await Promise.all([
+        storage.listPayoutBatches(),
+        storage.listPayableBalances(payoutReadyStatuses),
+      ]);
+      const ready = await Promise.all(balances.filter(balance => balance.amount > 0).map(async (balance) => {
+        const owner = await storage.getUser(balance.ownerId);
+        return {
+          ...balance,
+          ownerName: owner?.name ?? null,
+          hasBankDetails: Boolean(owner?.payoutAccountNumber && owner.payoutIfsc),
+        };
+      }));
+      res.json({ batches, ready });
+    } catch (error) {
+      console.error('Error listing payouts:', error);
+      res.status(500).json({ error: "Failed to list payouts" });
+    }
+  });
+
+  // Mark every payable owner balance as paid out in a new batch
+  app.post("/api/admin/payouts", requirePermission('payouts:manage'), async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const result = await storage.createPayoutBatch(req.user.id, payoutReadyStatuses);
+      if (!result) {
+        return res.status(409).json({ error: "No owner has a payable balance and bank details on file" });
+      }
+      res.status(201).json(result);
+    } catch (error) {
+      console.error('Error creating payout batch:', error);
+      res.status(500).json({ error: "Failed to create payout batch" });
+    }
+  });
+
+  app.get("/api/admin/payouts/:id/export.csv", requirePermission('payouts:manage'), async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const batch = await storage.getPayoutBatch(parseInt(req.params.id));
+      if (!batch) {
+        return res.status(404).json({ error: "Payout batch not found" });
+      }
+
+      res.setHeader('Content-Type', 'text/csv');
+      res.setHeader('Content-Disposition', `attachment; filename="payout-batch-${batch.id}.csv"`);
+      res.send(await payoutBatchCsv(batch.id));
+    } catch (error) {
+      console.error('Error exporting payout batch:', error);
+      res.status(500).json({ error: "Failed to export payout batch" });
+    }
+  });
+
+  // Everyone's role, for admins assigning staff roles
+  app.get("/api/admin/users", requirePermission('users:manage'), async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      res.json(await storage.listUsers());
+    } catch (error) {
+      console.error('Error listing users:', error);
+      res.status(500).json({ error: "Failed to list users" });
+    }
+  });
+
+  app.patch("/api/admin/users/:id/role", requirePermission('users:manage'), async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    const { role } = req.body ?? {};
+    if (!(userRoles as readonly string[]).includes(role)) {
+      return res.status(400).json({ error: "Invalid role" });
+    }
+
+    try {
+      const userId = parseInt(req.params.id);
+      // Keeps at least one admin around to assign roles
+      if (userId === req.user.id && role !== 'admin') {
+        return res.status(409).json({ error: "You cannot change your own role" });
+      }
+
+      const updated = await storage.updateUserRole(userId, role);
+      if (!updated) {
+        return res.status(404).json({ error: "User not found" });
+      }
+
+      res.json({ id: updated.id, username: updated.username, name: updated.name, role: updated.role });
+    } catch (error) {
+      console.error('Error updating user role:', error);
+      res.status(500).json({ error: "Failed to update user role" });
+    }
+  });
+
+  // Tells the client which checkout to render
+  app.get("/api/payments/config", (_req, res) => {
+    const provider = getPaymentProvider();
+    res.json({ provider: provider.name, keyId: provider.keyId });
+  });
+
+  // Sandbox stand-in for the hosted checkout widget
+  app.post("/api/payments/sandbox/checkout", requirePermission('bookings:create'), async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    const provider = getPaymentProvider();
+    if (!(provider instanceof SandboxProvider)) {
+      return res.status(404).json({ error: "Sandbox payments are not enabled" });
+    }
+
+    try {
+      const { orderId, outcome } = req.body;
+      if (!orderId || !['success', 'failure'].includes(outcome)) {
+        return res.status(400).json({ error: "orderId and outcome ('success' or 'failure') are required" });
+      }
+
+      const booking = await storage.findBookingByRazorpayOrderId(orderId);
+      if (booking && booking.userId !== req.user.id) {
+        return res.status(403).json({ error: "Not authorized to pay for this booking" });
+      }
+      const checkout = await storage.findCheckoutOrderByRazorpayOrderId(orderId);
+      if (checkout && checkout.userId !== req.user.id) {
+        return res.status(403).json({ error: "Not authorized to pay for this checkout" });
+      }
+      const extension = await storage.findBookingExtensionByRazorpayOrderId(orderId);
+      const extended = extension ? await storage.getBooking(extension.bookingId) : undefined;
+      if (extended && extended.userId !== req.user.id) {
+        return res.status(403).json({ error: "Not authorized to pay for this extension" });
+      }
+
+      const fee = await storage.findLateFeeByRazorpayOrderId(orderId);
+      const overdue = fee ? await storage.getBooking(fee.bookingId) : undefined;
+      if (overdue && overdue.userId !== req.user.id) {
+        return res.status(403).json({ error: "Not authorized to pay this late fee" });
+      }
+
+      const { payment, response } = provider.completeCheckout(orderId, outcome);
+      if (outcome === 'failure') {
+        return res.status(402).json({ error: 'Sandbox payment declined', paymentId: payment.id });
+      }
+
+      res.json(response);
+    } catch (error) {
+      console.error('Sandbox checkout error:', error);
+      res.status(400).json({
+        error: "Sandbox checkout failed",
+        details: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  // Deliver a signed sandbox webhook for a payment through the normal webhook path
+  app.post("/api/payments/sandbox/payments/:paymentId/webhook", requirePermission('payments:manage'), async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    const provider = getPaymentProvider();
+    if (!(provider instanceof SandboxProvider)) {
+      return res.status(404).json({ error: "Sandbox payments are not enabled" });
+    }
+
+    try {
+      const { body, signature, eventId } = provider.paymentWebhook(req.params.paymentId);
+      const event = parseWebhook(body, signature);
+      const { event: record } = await receivePaymentEvent(eventId, event);
+      res.json(record);
+    } catch (error) {
+      console.error('Sandbox webhook error:', error);
+      res.status(400).json({
+        error: "Sandbox webhook failed",
+        details: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  // Update receipt generation endpoint
+  app.post("/api/bookings/:id/receipt", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const bookingId = parseInt(req.params.id);
+      const booking = await storage.getBooking(bookingId);
+      if (!booking) {
+        return res.status(404).json({ error: "Booking not found" });
+      }
+
+      const equipment = await storage.getEquipment(booking.equipmentId);
+      if (!canViewBooking(req.user, booking, equipment)) {
+        return res.status(403).json({ error: "Not authorized to view this receipt" });
+      }
+
+      if (!booking.razorpayPaymentId) {
+        return res.status(400).json({ error: "No payment found for this booking" });
+      }
+
+      const receipt = await generateReceipt(bookingId, booking.razorpayPaymentId);
+      const { refunds, amountRefunded } = await getRefundSummary(bookingId);
+      res.json({
+        ...receipt,
+        amountRefunded,
+        refunds: refunds.map(refund => ({
+          id: refund.id,
+          amount: refund.amount,
+          status: refund.status,
+          createdAt: refund.createdAt
+        }))
+      });
+    } catch (error) {
+      console.error('Error generating receipt:', error);
+      res.status(500).json({ error: "Failed to generate receipt" });
+    }
+  });
+
+  // Invoice routes
+  // GST tax invoice for a paid booking, for the renter, the owner or staff
+  app.get("/api/bookings/:id/invoice.pdf", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const bookingId = parseInt(req.params.id);
+      if (isNaN(bookingId)) {
+        return res.status(400).json({ error: "Invalid booking ID" });
+      }
+
+      const booking = await storage.getBooking(bookingId);
+      if (!booking) {
+        return res.status(404).json({ error: "Booking not found" });
+      }
+
+      const equipment = await storage.getEquipment(booking.equipmentId);
+      if (!canViewBooking(req.user, booking, equipment)) {
+        return res.status(403).json({ error: "Not authorized to view this invoice" });
+      }
+
+      const invoice = await issueInvoice(booking);
+      const filename = `invoice-${invoice.invoiceNumber.replace(/\//g, '-')}.pdf`;
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+      res.send(renderInvoicePdf(invoice, booking));
+    } catch (error) {
+      if (error instanceof InvoiceError) {
+        return res.status(409).json({ error: error.message });
+      }
+      console.error('Error generating invoice:', error);
+      res.status(500).json({ error: "Failed to generate invoice" });
+    }
+  });
+
+  // Review routes
+  app.get("/api/equipment/:id/reviews", async (req, res) => {
+    try {
+      const equipmentId = parseInt(req.params.id);
+      if (isNaN(equipmentId)) {
+        return res.status(400).json({ error: "Invalid equipment ID" });
+      }
+
+      const reviews = await storage.getReviewsByEquipment(equipmentId);
+      console.log(`Fetched ${reviews.length} reviews for equipment ${equipmentId}`);
+      res.json(reviews);
+    } catch (error) {
+      console.error('Error fetching reviews:', error);
+      res.status(500).json({
+        error: "Failed to fetch reviews",
+        details: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  });
+
+  app.post("/api/reviews", requirePermission('bookings:create'), async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: "Authentication required" });
+    }
+
+    try {
+      const reviewData = {
+        ...req.body,
+        userId: req.user.id,
+        createdAt: new Date()
+      };
+
+      // Validate review data
+      const validationResult = reviewSchema.safeParse(reviewData);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          error: "Invalid review data",
+          details: validationResult.error.errors
+        });
+      }
+
+      // Find the booking for this equipment and user
+      const bookings = await storage.listBookings(req.user.id);
+      const validBooking = bookings.find(b =>
+        b.equipmentId === reviewData.equipmentId &&
+        (reviewableBookingStatuses as string[]).includes(b.status) &&
+        !b.isRated
+      );
+
+      if (!validBooking) {
+        return res.status(400).json({
+          error: "Invalid review submission",
+          details: "You can only review equipment from paid or completed, unrated bookings"
+        });
+      }
+
+      // Create the review
+      const newReview = await storage.createReview(validationResult.data);
+      console.log(`Created new review for equipment ${reviewData.equipmentId} by user ${req.user.id}`);
+
+      // Update the booking to mark it as rated
+      await storage.updateBooking(validBooking.id, { isRated: true });
+      console.log(`Updated booking ${validBooking.id} as rated`);
+
+      res.json(newReview);
+    } catch (error) {
+      console.error('Error creating review:', error);
+      res.status(500).json({
+        error: "Failed to create review",
+        details: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  });
+
+  app.get("/api/bookings", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      // Staff see every booking; everyone else only their own
+      const viewAll = hasPermission(req.user, 'bookings:view_any');
+      const bookings = viewAll
+        ? await storage.listBookings()
+        : await storage.listBookings(req.user.id);
+
+      // Map the bookings to include user information
+      const bookingsWithUserInfo = await Promise.all(
+        bookings.map(async (booking) => {
+          // Only include user info for staff
+          if (viewAll && booking.userId !== req.user.id) {
+            const bookingUser = await storage.getUser(booking.userId);
+            return {
+              ...booking,
+              userInfo: bookingUser ? {
+                username: bookingUser.username,
+                name: bookingUser.name
+              } : null
+            };
+          }
+          return booking;
+        })
+      );
+
+      res.json(bookingsWithUserInfo);
+    } catch (error) {
+      console.error('Error fetching bookings:', error);
+      res.status(500).json({
+        error: 'Failed to fetch bookings',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  });
+
+  // Bookings renters have made on the signed-in user's equipment
+  app.get("/api/owner/bookings", requirePermission('equipment:list'), async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const bookings = await storage.listBookingsForOwner(req.user.id);
+      res.json(bookings);
+    } catch (error) {
+      console.error('Error fetching owner bookings:', error);
+      res.status(500).json({ error: "Failed to fetch bookings" });
+    }
+  });
+
+  // Owner returns the whole deposit once the equipment is back
+  app.post("/api/bookings/:id/deposit/release", requirePermission('equipment:list', 'equipment:manage_any'), async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const booking = await storage.getBooking(parseInt(req.params.id));
+      if (!booking) {
+        return res.status(404).json({ error: "Booking not found" });
+      }
+
+      const equipment = await storage.getEquipment(booking.equipmentId);
+      if (!equipment || !canManageEquipment(req.user, equipment)) {
+        return res.status(403).json({ error: "Only the equipment owner can release the deposit" });
+      }
+
+      const result = await releaseDeposit(booking, listingActor(req.user, equipment));
+      res.json(result);
+    } catch (error) {
+      console.error('Error releasing deposit:', error);
+      if (error instanceof DepositError) {
+        return res.status(422).json({ error: error.message });
+      }
+      if (error instanceof RefundError) {
+        return res.status(502).json({ error: error.message });
+      }
+      res.status(500).json({ error: "Failed to release deposit" });
+    }
+  });
+
+  // Owner claims part or all of the deposit for damage; an admin decides
+  app.post("/api/bookings/:id/deposit/claim", requirePermission('equipment:list', 'equipment:manage_any'), async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const booking = await storage.getBooking(parseInt(req.params.id));
+      if (!booking) {
+        return res.status(404).json({ error: "Booking not found" });
+      }
+
+      const equipment = await storage.getEquipment(booking.equipmentId);
+      if (!equipment || !canManageEquipment(req.user, equipment)) {
+        return res.status(403).json({ error: "Only the equipment owner can claim the deposit" });
+      }
+
+      const { amount, reason } = req.body;
+      const updated = await claimDeposit(booking, Number(amount), typeof reason === 'string' ? reason : '');
+      res.json(updated);
+    } catch (error) {
+      console.error('Error claiming deposit:', error);
+      if (error instanceof DepositError) {
+        return res.status(422).json({ error: error.message });
+      }
+      res.status(500).json({ error: "Failed to claim deposit" });
+    }
+  });
+
+  app.post("/api/admin/bookings/:id/deposit/resolve", requirePermission('disputes:resolve'), async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const booking = await storage.getBooking(parseInt(req.params.id));
+      if (!booking) {
+        return res.status(404).json({ error: "Booking not found" });
+      }
+
+      const { withheldAmount, note } = req.body;
+      const result = await resolveDepositClaim(
+        booking,
+        Number(withheldAmount),
+        typeof note === 'string' && note.trim() ? note.trim() : null,
+        userActor(req.user)
+      );
+      res.json(result);
+    } catch (error) {
+      console.error('Error resolving deposit claim:', error);
+      if (error instanceof DepositError) {
+        return res.status(422).json({ error: error.message });
+      }
+      if (error instanceof RefundError) {
+        return res.status(502).json({ error: error.message });
+      }
+      res.status(500).json({ error: "Failed to resolve deposit claim" });
+    }
+  });
+
+  app.get("/api/bookings/:id/status", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const bookingId = parseInt(req.params.id);
+      if (isNaN(bookingId)) {
+        return res.status(400).json({ error: "Invalid booking ID" });
+      }
+
+      const booking = await storage.getBooking(bookingId);
+      if (!booking) {
+        return res.status(404).json({ error: "Booking not found" });
+      }
+
+      const equipment = await storage.getEquipment(booking.equipmentId);
+      if (!canViewBooking(req.user, booking, equipment)) {
+        return res.status(403).json({ error: "Not authorized" });
+      }
+
+      res.json({
+        id: booking.id,
+        status: booking.status,
+        razorpayOrderId: booking.razorpayOrderId,
+        totalPrice: booking.totalPrice,
+        equipmentId: booking.equipmentId,
+        startDate: booking.startDate,
+        endDate: booking.endDate
+      });
+    } catch (error) {
+      console.error('Error checking booking status:', error);
+      res.status(500).json({ error: "Failed to check booking status" });
+    }
+  });
+
+
+  // Booking status and receipt endpoints
+  app.patch("/api/bookings/:id/status", requirePermission('bookings:manage_any'), async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const bookingId = parseInt(req.params.id);
+      if (isNaN(bookingId)) {
+        return res.status(400).json({ error: "Invalid booking ID" });
+      }
+
+      // Other moves carry money or paperwork and go through their own routes
+      const { status, reason } = req.body;
+      if (status !== 'approved' && status !== 'rejected') {
+        return res.status(400).json({ error: "Status must be 'approved' or 'rejected'" });
+      }
+
+      const booking = await storage.getBooking(bookingId);
+      if (!booking) {
+        return res.status(404).json({ error: "Booking not found" });
+      }
+
+      // Rejecting a paid booking returns the renter's money in full
+      if (status === 'rejected' && booking.razorpayPaymentId) {
+        const { booking: rejected } = await refundAndClose(booking, 'rejected', {
+          reason: reason || 'Booking rejected',
+          refund: { reason: reason || 'Booking rejected' },
+          actor: userActor(req.user)
+        });
+        return res.json(rejected);
+      }
+
+      res.json(await transitionBooking(bookingId, status, userActor(req.user), { reason }));
+    } catch (error) {
+      console.error('Error updating booking status:', error);
+      if (error instanceof RefundError) {
+        return res.status(400).json({ error: error.message });
+      }
+      if (error instanceof BookingNotFoundError) {
+        return res.status(404).json({ error: error.message });
+      }
+      if (error instanceof InvalidBookingTransitionError || error instanceof BookingOverlapError) {
+        return res.status(409).json({ error: error.message });
+      }
+      res.status(500).json({ error: "Failed to update booking status" });
+    }
+  });
+
+  // Owners answer requests on their request-to-book equipment
+  app.post("/api/bookings/:id/approve", requirePermission('equipment:list', 'equipment:manage_any'), async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const booking = await storage.getBooking(parseInt(req.params.id));
+      if (!booking) {
+        return res.status(404).json({ error: "Booking not found" });
+      }
+
+      const equipment = await storage.getEquipment(booking.equipmentId);
+      if (!equipment) {
+        return res.status(404).json({ error: "Equipment not found" });
+      }
+      if (!canManageEquipment(req.user, equipment)) {
+        return res.status(403).json({ error: "Only the equipment owner can approve this request" });
+      }
+
+      res.json(await approveRequest(booking, equipment, listingActor(req.user, equipment)));
+    } catch (error) {
+      console.error('Error approving booking request:', error);
+      if (error instanceof BookingRequestError || error instanceof InvalidBookingTransitionError) {
+        return res.status(409).json({ error: error.message });
+      }
+      res.status(500).json({ error: "Failed to approve booking request" });
+    }
+  });
+
+  app.post("/api/bookings/:id/decline", requirePermission('equipment:list', 'equipment:manage_any'), async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const booking = await storage.getBooking(parseInt(req.params.id));
+      if (!booking) {
+        return res.status(404).json({ error: "Booking not found" });
+      }
+
+      const equipment = await storage.getEquipment(booking.equipmentId);
+      if (!equipment) {
+        return res.status(404).json({ error: "Equipment not found" });
+      }
+      if (!canManageEquipment(req.user, equipment)) {
+        return res.status(403).json({ error: "Only the equipment owner can decline this request" });
+      }
+
+      const { reason } = req.body ?? {};
+      if (reason !== undefined && typeof reason !== 'string') {
+        return res.status(400).json({ error: "'reason' must be text" });
+      }
+
+      res.json(await declineRequest(booking, listingActor(req.user, equipment), reason?.trim() || undefined));
+    } catch (error) {
+      console.error('Error declining booking request:', error);
+      if (error instanceof BookingRequestError || error instanceof InvalidBookingTransitionError) {
+        return res.status(409).json({ error: error.message });
+      }
+      res.status(500).json({ error: "Failed to decline booking request" });
+    }
+  });
+
+  app.get("/api/bookings/:id/history", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const bookingId = parseInt(req.params.id);
+      if (isNaN(bookingId)) {
+        return res.status(400).json({ error: "Invalid booking ID" });
+      }
+
+      const booking = await storage.getBooking(bookingId);
+      if (!booking) {
+        return res.status(404).json({ error: "Booking not found" });
+      }
+
+      const equipment = await storage.getEquipment(booking.equipmentId);
+      if (!canViewBooking(req.user, booking, equipment)) {
+        return res.status(403).json({ error: "Not authorized" });
+      }
+
+      const history = await storage.getBookingStatusHistory(bookingId);
+      res.json(history);
+    } catch (error) {
+      console.error('Error fetching booking history:', error);
+      res.status(500).json({ error: "Failed to fetch booking history" });
+    }
+  });
+
+  app.get("/api/bookings/:id/refunds", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const bookingId = parseInt(req.params.id);
+      if (isNaN(bookingId)) {
+        return res.status(400).json({ error: "Invalid booking ID" });
+      }
+
+      const booking = await storage.getBooking(bookingId);
+      if (!booking) {
+        return res.status(404).json({ error: "Booking not found" });
+      }
+
+      const equipment = await storage.getEquipment(booking.equipmentId);
+      if (!canViewBooking(req.user, booking, equipment)) {
+        return res.status(403).json({ error: "Not authorized" });
+      }
+
+      res.json(await getRefundSummary(bookingId));
+    } catch (error) {
+      console.error('Error listing refunds:', error);
+      res.status(500).json({ error: "Failed to list refunds" });
+    }
+  });
+
+  // Admin-initiated full or partial refund
+  app.post("/api/bookings/:id/refunds", requirePermission('payments:manage'), async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const bookingId = parseInt(req.params.id);
+      if (isNaN(bookingId)) {
+        return res.status(400).json({ error: "Invalid booking ID" });
+      }
+
+      const booking = await storage.getBooking(bookingId);
+      if (!booking) {
+        return res.status(404).json({ error: "Booking not found" });
+      }
+
+      const { amount, reason } = req.body;
+      const refund = await issueRefund(booking, {
+        amount: amount === undefined || amount === null ? undefined : Number(amount),
+        reason: reason || 'Refund issued by admin',
+        actor: userActor(req.user)
+      });
+
+      res.status(201).json(refund);
+    } catch (error) {
+      console.error('Error issuing refund:', error);
+      if (error instanceof RefundError) {
+        return res.status(400).json({ error: error.message });
+      }
+      res.status(500).json({
+        error: "Failed to issue refund",
+        details: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  // Preview what a cancellation would refund under the equipment's policy
+  app.get("/api/bookings/:id/cancellation", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const bookingId = parseInt(req.params.id);
+      if (isNaN(bookingId)) {
+        return res.status(400).json({ error: "Invalid booking ID" });
+      }
+
+      const booking = await storage.getBooking(bookingId);
+      if (!booking) {
+        return res.status(404).json({ error: "Booking not found" });
+      }
+
+      if (!canManageBooking(req.user, booking)) {
+        return res.status(403).json({ error: "Not authorized" });
+      }
+
+      const equipment = await storage.getEquipment(booking.equipmentId);
+      if (!equipment) {
+        return res.status(404).json({ error: "Equipment not found" });
+      }
+
+      res.json(quoteCancellation(booking, equipment));
+    } catch (error) {
+      console.error('Error quoting cancellation:', error);
+      res.status(500).json({ error: "Failed to calculate cancellation refund" });
+    }
+  });
+
+  app.post("/api/bookings/:id/cancel", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const bookingId = parseInt(req.params.id);
+      if (isNaN(bookingId)) {
+        return res.status(400).json({ error: "Invalid booking ID" });
+      }
+
+      const booking = await storage.getBooking(bookingId);
+      if (!booking) {
+        return res.status(404).json({ error: "Booking not found" });
+      }
+
+      if (!canManageBooking(req.user, booking)) {
+        return res.status(403).json({ error: "Not authorized to cancel this booking" });
+      }
+
+      const equipment = await storage.getEquipment(booking.equipmentId);
+      if (!equipment) {
+        return res.status(404).json({ error: "Equipment not found" });
+      }
+
+      const quote = quoteCancellation(booking, equipment);
+      if (!quote.cancellable) {
+        return res.status(409).json({ error: `Bookings in status '${booking.status}' cannot be cancelled` });
+      }
+
+      const reason = req.body?.reason || 'Cancelled by renter';
+      if (quote.refundAmount <= 0 || !booking.razorpayPaymentId) {
+        const cancelled = await transitionBooking(bookingId, 'cancelled', userActor(req.user), { reason });
+        return res.json({ booking: cancelled, quote, refund: null });
+      }
+
+      // The refund goes out before the booking is cancelled; if it fails the
+      // booking is left as it was so the renter can try again
+      let result;
+      try {
+        result = await refundAndClose(booking, 'cancelled', {
+          reason,
+          refund: {
+            amount: quote.refundAmount,
+            depositAmount: quote.depositRefund,
+            reason: quote.depositRefund > 0
+              ? `Cancellation (${quote.refundPercent}% refund, deposit returned)`
+              : `Cancellation (${quote.refundPercent}% refund)`,
+          },
+          actor: userActor(req.user)
+        });
+      } catch (refundError) {
+        if (refundError instanceof InvalidBookingTransitionError) throw refundError;
+        console.error(`Refund failed while cancelling booking ${bookingId}:`, refundError);
+        return res.status(502).json({
+          error: "The refund could not be issued, so the booking was not cancelled. Please try again.",
+          details: refundError instanceof Error ? refundError.message : "Unknown refund error",
+          quote
+        });
+      }
+
+      res.json({ booking: result.booking, quote, refund: result.refund });
+    } catch (error) {
+      console.error('Error cancelling booking:', error);
+      if (error instanceof InvalidBookingTransitionError) {
+        return res.status(409).json({ error: error.message });
+      }
+      res.status(500).json({
+        error: "Failed to cancel booking",
+        details: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  // Extensions of a booking, paid or not
+  app.get("/api/bookings/:id/extensions", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const bookingId = parseInt(req.params.id);
+      if (isNaN(bookingId)) {
+        return res.status(400).json({ error: "Invalid booking ID" });
+      }
+
+      const booking = await storage.getBooking(bookingId);
+      if (!booking) {
+        return res.status(404).json({ error: "Booking not found" });
+      }
+
+      const equipment = await storage.getEquipment(booking.equipmentId);
+      if (!canViewBooking(req.user, booking, equipment)) {
+        return res.status(403).json({ error: "Not authorized" });
+      }
+
+      res.json(await storage.listBookingExtensions(bookingId));
+    } catch (error) {
+      console.error('Error listing booking extensions:', error);
+      res.status(500).json({ error: "Failed to list booking extensions" });
+    }
+  });
+
+  // Preview what running the booking until `endDate` would cost
+  app.get("/api/bookings/:id/extension-quote", requirePermission('bookings:create'), async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const bookingId = parseInt(req.params.id);
+      if (isNaN(bookingId)) {
+        return res.status(400).json({ error: "Invalid booking ID" });
+      }
+
+      const parsed = extendBookingSchema.safeParse({ endDate: req.query.endDate });
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid end date", details: parsed.error.errors });
+      }
+
+      const booking = await storage.getBooking(bookingId);
+      if (!booking) {
+        return res.status(404).json({ error: "Booking not found" });
+      }
+      if (booking.userId !== req.user.id) {
+        return res.status(403).json({ error: "Not authorized" });
+      }
+
+      const quote = await quoteExtension(booking, parsed.data.endDate);
+      const conflicts = await findBookingConflicts(booking.equipmentId, quote.previousEndDate, quote.newEndDate);
+      res.json({ ...quote, available: conflicts.every(conflict => conflict.id === booking.id) });
+    } catch (error) {
+      console.error('Error quoting booking extension:', error);
+      if (error instanceof ExtensionError) {
+        return res.status(422).json({ error: error.message });
+      }
+      res.status(500).json({ error: "Failed to quote booking extension" });
+    }
+  });
+
+  // Renter adds time to a paid booking. The added time is held while the
+  // extension's own payment order is paid.
+  app.post("/api/bookings/:id/extend", requirePermission('bookings:create'), async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const bookingId = parseInt(req.params.id);
+      if (isNaN(bookingId)) {
+        return res.status(400).json({ error: "Invalid booking ID" });
+      }
+
+      const parsed = extendBookingSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid end date", details: parsed.error.errors });
+      }
+
+      const booking = await storage.getBooking(bookingId);
+      if (!booking) {
+        return res.status(404).json({ error: "Booking not found" });
+      }
+      if (booking.userId !== req.user.id) {
+        return res.status(403).json({ error: "Not authorized to extend this booking" });
+      }
+
+      const extension = await requestExtension(booking, parsed.data.endDate);
+      res.status(201).json(extension);
+    } catch (error) {
+      console.error('Error extending booking:', error);
+      if (error instanceof ExtensionError) {
+        return res.status(422).json({ error: error.message });
+      }
+      if (error instanceof BookingOverlapError) {
+        return res.status(409).json({ error: "The equipment is already booked or blocked for the added time" });
+      }
+      res.status(500).json({ error: "Failed to extend booking" });
+    }
+  });
+
+  app.get("/api/bookings/:id/extensions/:extensionId/payment-config", requirePermission('bookings:create'), async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const booking = await storage.getBooking(parseInt(req.params.id));
+      const extension = await storage.getBookingExtension(parseInt(req.params.extensionId));
+      if (!booking || !extension || extension.bookingId !== booking.id) {
+        return res.status(404).json({ error: "Extension not found" });
+      }
+      if (booking.userId !== req.user.id) {
+        return res.status(403).json({ error: "Not authorized to pay for this extension" });
+      }
+
+      res.json(await openExtensionPayment(booking, extension));
+    } catch (error) {
+      console.error('Error getting extension payment configuration:', error);
+      if (error instanceof ExtensionError) {
+        return res.status(409).json({ error: error.message });
+      }
+      res.status(500).json({
+        error: "Failed to get payment configuration",
+        details: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  // Late fees on rentals the signed-in user made or owns the equipment of
+  app.get("/api/late-fees", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      res.json(await storage.listLateFees({ partyId: req.user.id }));
+    } catch (error) {
+      console.error('Error listing late fees:', error);
+      res.status(500).json({ error: "Failed to list late fees" });
+    }
+  });
+
+  // Renter pays the late fee on a rental that came back overdue
+  app.get("/api/bookings/:id/late-fee/payment-config", requirePermission('bookings:create'), async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const bookingId = parseInt(req.params.id);
+      if (isNaN(bookingId)) {
+        return res.status(400).json({ error: "Invalid booking ID" });
+      }
+
+      const booking = await storage.getBooking(bookingId);
+      if (!booking) {
+        return res.status(404).json({ error: "Booking not found" });
+      }
+      if (booking.userId !== req.user.id) {
+        return res.status(403).json({ error: "Not authorized to pay this late fee" });
+      }
+
+      const [fee] = await storage.listLateFees({ bookingId });
+      if (!fee) {
+        return res.status(404).json({ error: "This booking has no late fee" });
+      }
+
+      res.json(await openLateFeePayment(booking, fee));
+    } catch (error) {
+      console.error('Error getting late fee payment configuration:', error);
+      if (error instanceof LateFeeError) {
+        return res.status(409).json({ error: error.message });
+      }
+      res.status(500).json({
+        error: "Failed to get payment configuration",
+        details: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  // Preview the refund for time left unused if the equipment came back now
+  app.get("/api/bookings/:id/early-return", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const booking = await storage.getBooking(parseInt(req.params.id));
+      if (!booking) {
+        return res.status(404).json({ error: "Booking not found" });
+      }
+
+      const equipment = await storage.getEquipment(booking.equipmentId);
+      if (!equipment) {
+        return res.status(404).json({ error: "Equipment not found" });
+      }
+      if (!canViewBooking(req.user, booking, equipment)) {
+        return res.status(403).json({ error: "Not authorized" });
+      }
+
+      res.json(quoteEarlyReturn(booking, equipment, await storage.listBookingExtensions(booking.id)));
+    } catch (error) {
+      console.error('Error quoting early return:', error);
+      res.status(500).json({ error: "Failed to calculate early return refund" });
+    }
+  });
+
+  // Renter asks to hand the equipment back before the rental ends
+  app.post("/api/bookings/:id/early-return", requirePermission('bookings:create'), async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const booking = await storage.getBooking(parseInt(req.params.id));
+      if (!booking) {
+        return res.status(404).json({ error: "Booking not found" });
+      }
+      if (booking.userId !== req.user.id) {
+        return res.status(403).json({ error: "Not authorized to return this booking" });
+      }
+
+      res.json(await requestEarlyReturn(booking));
+    } catch (error) {
+      console.error('Error requesting early return:', error);
+      if (error instanceof EarlyReturnError) {
+        return res.status(422).json({ error: error.message });
+      }
+      res.status(500).json({ error: "Failed to request early return" });
+    }
+  });
+
+  // Owner confirms an early return, refunding unused time per the
+  // equipment's policy unless told not to
+  app.post("/api/bookings/:id/early-return/confirm", requirePermission('equipment:list', 'equipment:manage_any'), async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const booking = await storage.getBooking(parseInt(req.params.id));
+      if (!booking) {
+        return res.status(404).json({ error: "Booking not found" });
+      }
 
-          if (booking) {
-            await storage.updateEquipment(booking.equipmentId, {
-              availability: true
-            });
-          }
+      const equipment = await storage.getEquipment(booking.equipmentId);
+      if (!equipment) {
+        return res.status(404).json({ error: "Equipment not found" });
+      }
+      if (!canManageEquipment(req.user, equipment)) {
+        return res.status(403).json({ error: "Only the equipment owner can confirm the return" });
+      }
+
+      const actor = listingActor(req.user, equipment);
+      const extensions = await storage.listBookingExtensions(booking.id);
+      const quote = quoteEarlyReturn(booking, equipment, extensions);
+
+      // The refund goes out before the return is confirmed; if it fails the
+      // rental stays in use so the owner can confirm again
+      let refunds: Refund[] = [];
+      if (req.body?.refund !== false && quote.refundAmount > 0) {
+        assertEarlyReturnConfirmable(booking);
+        try {
+          refunds = await refundUnusedTime(booking, extensions, quote.refundAmount, actor);
+        } catch (refundError) {
+          console.error(`Refund failed for early return of booking ${booking.id}:`, refundError);
+          return res.status(502).json({
+            error: "The refund could not be issued, so the return was not confirmed. Please try again.",
+            details: refundError instanceof Error ? refundError.message : "Unknown refund error",
+            quote
+          });
         }
       }
 
-      res.json({ received: true });
-    } catch (err) {
-      console.error('Webhook Error:', err);
-      if (err instanceof Error) {
-        res.status(400).send(`Webhook Error: ${err.message}`);
-      } else {
-        res.status(400).send('Webhook Error: Unknown error');
+      const returned = await confirmEarlyReturn(booking, actor, quote.returnedAt);
+      res.json({ booking: returned, quote, refunds });
+    } catch (error) {
+      console.error('Error confirming early return:', error);
+      if (error instanceof EarlyReturnError) {
+        return res.status(422).json({ error: error.message });
+      }
+      if (error instanceof InvalidBookingTransitionError) {
+        return res.status(409).json({ error: error.message });
       }
+      res.status(500).json({ error: "Failed to confirm early return" });
     }
   });
 
-  // Update receipt generation endpoint
-  app.post("/api/bookings/:id/receipt", async (req, res) => {
+  // Pickup and return check-ins, signed by both owner and renter
+  app.get("/api/bookings/:id/handovers", async (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
 
     try {
-      const bookingId = parseInt(req.params.id);
-      const booking = await storage.getBooking(bookingId);
+      const booking = await storage.getBooking(parseInt(req.params.id));
       if (!booking) {
         return res.status(404).json({ error: "Booking not found" });
       }
 
-      if (!booking.razorpayPaymentId) {
-        return res.status(400).json({ error: "No payment found for this booking" });
+      const equipment = await storage.getEquipment(booking.equipmentId);
+      if (!equipment) {
+        return res.status(404).json({ error: "Equipment not found" });
+      }
+      if (!canViewBooking(req.user, booking, equipment)) {
+        return res.status(403).json({ error: "Not authorized to view this booking" });
       }
 
-      const receipt = await generateReceipt(bookingId, booking.razorpayPaymentId);
-      res.json(receipt);
+      const handovers = await storage.listBookingHandovers(booking.id);
+      res.json(handovers.map(handover => ({ ...handover, verified: verifyHandover(handover) })));
     } catch (error) {
-      console.error('Error generating receipt:', error);
-      res.status(500).json({ error: "Failed to generate receipt" });
+      console.error('Error listing handovers:', error);
+      res.status(500).json({ error: "Failed to list handovers" });
     }
   });
 
-  // Review routes
-  app.get("/api/equipment/:id/reviews", async (req, res) => {
+  app.post("/api/bookings/:id/handovers/:kind", upload.array('photos', 8), async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    const kind = req.params.kind;
+    if (!(handoverKinds as readonly string[]).includes(kind)) {
+      return res.status(404).json({ error: "Unknown handover" });
+    }
+
+    const parsed = recordHandoverSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid handover readings", details: parsed.error.errors });
+    }
+
     try {
-      const equipmentId = parseInt(req.params.id);
-      if (isNaN(equipmentId)) {
-        return res.status(400).json({ error: "Invalid equipment ID" });
+      const booking = await storage.getBooking(parseInt(req.params.id));
+      if (!booking) {
+        return res.status(404).json({ error: "Booking not found" });
       }
 
-      const reviews = await storage.getReviewsByEquipment(equipmentId);
-      console.log(`Fetched ${reviews.length} reviews for equipment ${equipmentId}`);
-      res.json(reviews);
+      const equipment = await storage.getEquipment(booking.equipmentId);
+      if (!equipment) {
+        return res.status(404).json({ error: "Equipment not found" });
+      }
+
+      const files = (req.files as Express.Multer.File[] | undefined) ?? [];
+      const photoUrls = files.map(file => `/uploads/${file.filename}`);
+      const handover = await recordHandover(booking, equipment, req.user, kind as HandoverKind, parsed.data, photoUrls);
+      res.json({ ...handover, verified: false });
     } catch (error) {
-      console.error('Error fetching reviews:', error);
-      res.status(500).json({
-        error: "Failed to fetch reviews",
-        details: error instanceof Error ? error.message : 'Unknown error'
-      });
+      console.error('Error recording handover:', error);
+      if (error instanceof HandoverError) {
+        return res.status(422).json({ error: error.message });
+      }
+      res.status(500).json({ error: "Failed to record handover" });
     }
   });
 
-  app.post("/api/reviews", async (req, res) => {
-    if (!req.isAuthenticated()) {
-      return res.status(401).json({ error: "Authentication required" });
+  app.post("/api/bookings/:id/handovers/:kind/confirm", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    const kind = req.params.kind;
+    if (!(handoverKinds as readonly string[]).includes(kind)) {
+      return res.status(404).json({ error: "Unknown handover" });
     }
 
     try {
-      const reviewData = {
-        ...req.body,
-        userId: req.user.id,
-        createdAt: new Date()
-      };
+      const booking = await storage.getBooking(parseInt(req.params.id));
+      if (!booking) {
+        return res.status(404).json({ error: "Booking not found" });
+      }
 
-      // Validate review data
-      const validationResult = reviewSchema.safeParse(reviewData);
-      if (!validationResult.success) {
-        return res.status(400).json({
-          error: "Invalid review data",
-          details: validationResult.error.errors
-        });
+      const equipment = await storage.getEquipment(booking.equipmentId);
+      if (!equipment) {
+        return res.status(404).json({ error: "Equipment not found" });
       }
 
-      // Find the booking for this equipment and user
-      const bookings = await storage.listBookings(req.user.id);
-      const validBooking = bookings.find(b =>
-        b.equipmentId === reviewData.equipmentId &&
-        b.status === 'paid' &&
-        !b.isRated
-      );
+      const result = await confirmHandover(booking, equipment, req.user, kind as HandoverKind);
+      res.json({
+        handover: { ...result.handover, verified: verifyHandover(result.handover) },
+        booking: result.booking
+      });
+    } catch (error) {
+      console.error('Error confirming handover:', error);
+      if (error instanceof HandoverError) {
+        return res.status(422).json({ error: error.message });
+      }
+      if (error instanceof InvalidBookingTransitionError) {
+        return res.status(409).json({ error: error.message });
+      }
+      res.status(500).json({ error: "Failed to confirm handover" });
+    }
+  });
 
-      if (!validBooking) {
-        return res.status(400).json({
-          error: "Invalid review submission",
-          details: "You can only review equipment from paid, unrated bookings"
-        });
+  // Disputes between owner and renter, resolved by an admin
+  app.get("/api/bookings/:id/disputes", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const booking = await storage.getBooking(parseInt(req.params.id));
+      if (!booking) {
+        return res.status(404).json({ error: "Booking not found" });
       }
 
-      // Create the review
-      const newReview = await storage.createReview(validationResult.data);
-      console.log(`Created new review for equipment ${reviewData.equipmentId} by user ${req.user.id}`);
+      const equipment = await storage.getEquipment(booking.equipmentId);
+      if (!equipment) {
+        return res.status(404).json({ error: "Equipment not found" });
+      }
+      if (!canViewBooking(req.user, booking, equipment)) {
+        return res.status(403).json({ error: "Not authorized to view this booking" });
+      }
 
-      // Update the booking to mark it as rated
-      await storage.updateBooking(validBooking.id, { isRated: true });
-      console.log(`Updated booking ${validBooking.id} as rated`);
+      res.json(await storage.listDisputes({ bookingId: booking.id }));
+    } catch (error) {
+      console.error('Error listing booking disputes:', error);
+      res.status(500).json({ error: "Failed to list disputes" });
+    }
+  });
 
-      res.json(newReview);
+  app.post("/api/bookings/:id/disputes", upload.array('photos', 8), async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    const parsed = openDisputeSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({ error: parsed.error.errors[0]?.message ?? "Invalid dispute", details: parsed.error.errors });
+    }
+
+    try {
+      const booking = await storage.getBooking(parseInt(req.params.id));
+      if (!booking) {
+        return res.status(404).json({ error: "Booking not found" });
+      }
+
+      const equipment = await storage.getEquipment(booking.equipmentId);
+      if (!equipment) {
+        return res.status(404).json({ error: "Equipment not found" });
+      }
+
+      const files = (req.files as Express.Multer.File[] | undefined) ?? [];
+      const dispute = await openDispute(booking, equipment, req.user, parsed.data,
+        files.map(file => `/uploads/${file.filename}`));
+      res.status(201).json(dispute);
     } catch (error) {
-      console.error('Error creating review:', error);
-      res.status(500).json({
-        error: "Failed to create review",
-        details: error instanceof Error ? error.message : 'Unknown error'
-      });
+      console.error('Error opening dispute:', error);
+      if (error instanceof DisputeError) {
+        return res.status(422).json({ error: error.message });
+      }
+      res.status(500).json({ error: "Failed to open dispute" });
     }
   });
 
-  app.get("/api/bookings", async (req, res) => {
+  app.get("/api/disputes", async (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
 
     try {
-      // If user is admin, they can see all bookings
-      // Otherwise, users can only see their own bookings
-      const bookings = req.user.isAdmin
-        ? await storage.listBookings()
-        : await storage.listBookings(req.user.id);
+      res.json(await storage.listDisputes({ partyId: req.user.id }));
+    } catch (error) {
+      console.error('Error listing disputes:', error);
+      res.status(500).json({ error: "Failed to list disputes" });
+    }
+  });
 
-      // Map the bookings to include user information
-      const bookingsWithUserInfo = await Promise.all(
-        bookings.map(async (booking) => {
-          // Only include user info if the viewer is an admin
-          if (req.user.isAdmin && booking.userId !== req.user.id) {
-            const bookingUser = await storage.getUser(booking.userId);
-            return {
-              ...booking,
-              userInfo: bookingUser ? {
-                username: bookingUser.username,
-                name: bookingUser.name
-              } : null
-            };
-          }
-          return booking;
-        })
-      );
+  app.get("/api/disputes/:id", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
 
-      res.json(bookingsWithUserInfo);
+    try {
+      const dispute = await storage.getDispute(parseInt(req.params.id));
+      if (!dispute || !disputeRole(dispute, req.user)) {
+        return res.status(404).json({ error: "Dispute not found" });
+      }
+
+      const messages = await storage.listDisputeMessages(dispute.id);
+      res.json({ dispute, messages, role: disputeRole(dispute, req.user) });
     } catch (error) {
-      console.error('Error fetching bookings:', error);
-      res.status(500).json({
-        error: 'Failed to fetch bookings',
-        details: error instanceof Error ? error.message : 'Unknown error'
-      });
+      console.error('Error getting dispute:', error);
+      res.status(500).json({ error: "Failed to get dispute" });
     }
   });
 
-  app.get("/api/bookings/:id/status", async (req, res) => {
+  app.post("/api/disputes/:id/messages", upload.array('photos', 8), async (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
 
     try {
-      const bookingId = parseInt(req.params.id);
-      if (isNaN(bookingId)) {
-        return res.status(400).json({ error: "Invalid booking ID" });
+      const dispute = await storage.getDispute(parseInt(req.params.id));
+      if (!dispute || !disputeRole(dispute, req.user)) {
+        return res.status(404).json({ error: "Dispute not found" });
       }
 
-      const booking = await storage.getBooking(bookingId);
-      if (!booking) {
-        return res.status(404).json({ error: "Booking not found" });
+      const files = (req.files as Express.Multer.File[] | undefined) ?? [];
+      const message = typeof req.body?.message === 'string' ? req.body.message : '';
+      const posted = await postDisputeMessage(dispute, req.user, message,
+        files.map(file => `/uploads/${file.filename}`));
+      res.status(201).json(posted);
+    } catch (error) {
+      console.error('Error posting dispute message:', error);
+      if (error instanceof DisputeError) {
+        return res.status(422).json({ error: error.message });
       }
+      res.status(500).json({ error: "Failed to post message" });
+    }
+  });
 
-      if (booking.userId !== req.user.id && !req.user.isAdmin) {
-        return res.status(403).json({ error: "Not authorized" });
+  app.post("/api/disputes/:id/withdraw", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const dispute = await storage.getDispute(parseInt(req.params.id));
+      if (!dispute || !disputeRole(dispute, req.user)) {
+        return res.status(404).json({ error: "Dispute not found" });
       }
 
-      res.json({
-        id: booking.id,
-        status: booking.status,
-        razorpayOrderId: booking.razorpayOrderId,
-        totalPrice: booking.totalPrice,
-        equipmentId: booking.equipmentId,
-        startDate: booking.startDate,
-        endDate: booking.endDate
-      });
+      res.json(await withdrawDispute(dispute, req.user));
     } catch (error) {
-      console.error('Error checking booking status:', error);
-      res.status(500).json({ error: "Failed to check booking status" });
+      console.error('Error withdrawing dispute:', error);
+      if (error instanceof DisputeError) {
+        return res.status(422).json({ error: error.message });
+      }
+      res.status(500).json({ error: "Failed to withdraw dispute" });
     }
   });
 
+  app.get("/api/admin/disputes", requirePermission('disputes:moderate'), async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
 
-  // Booking status and receipt endpoints
-  app.patch("/api/bookings/:id/status", async (req, res) => {
-    if (!req.isAuthenticated() || !req.user.isAdmin) return res.sendStatus(401);
+    try {
+      const status = req.query.status;
+      const statuses = status === 'all' ? undefined
+        : (disputeStatuses as readonly string[]).includes(status as string) ? [status as DisputeStatus]
+        : unresolvedDisputeStatuses;
+      res.json(await storage.listDisputes({ statuses }));
+    } catch (error) {
+      console.error('Error listing disputes for admin:', error);
+      res.status(500).json({ error: "Failed to list disputes" });
+    }
+  });
+
+  app.post("/api/admin/disputes/:id/resolve", requirePermission('disputes:resolve'), async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    const parsed = resolveDisputeSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({ error: parsed.error.errors[0]?.message ?? "Invalid outcome", details: parsed.error.errors });
+    }
 
     try {
-      const bookingId = parseInt(req.params.id);
-      if (isNaN(bookingId)) {
-        return res.status(400).json({ error: "Invalid booking ID" });
+      const dispute = await storage.getDispute(parseInt(req.params.id));
+      if (!dispute) {
+        return res.status(404).json({ error: "Dispute not found" });
       }
 
-      const { status } = req.body;
-      if (!status || !['approved', 'rejected'].includes(status)) {
-        return res.status(400).json({ error: "Invalid status" });
+      const booking = await storage.getBooking(dispute.bookingId);
+      if (!booking) {
+        return res.status(404).json({ error: "Booking not found" });
       }
 
-      const updatedBooking = await storage.updateBookingStatus(bookingId, status);
-      res.json(updatedBooking);
+      res.json(await resolveDispute(dispute, booking, req.user, parsed.data));
     } catch (error) {
-      console.error('Error updating booking status:', error);
-      res.status(500).json({ error: "Failed to update booking status" });
+      console.error('Error resolving dispute:', error);
+      if (error instanceof DisputeError) {
+        return res.status(422).json({ error: error.message });
+      }
+      res.status(500).json({ error: "Failed to resolve dispute" });
     }
   });
 
   // Add this new route after the existing booking routes
-  app.get("/api/bookings/:id/payment-config", async (req, res) => {
+  app.get("/api/bookings/:id/payment-config", requirePermission('bookings:create'), async (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
 
     try {
@@ -858,12 +2941,27 @@ export function registerRoutes(app: Express): Server {
         return res.status(403).json({ error: "Not authorized to access this booking" });
       }
 
+      if (isHoldExpired(booking)) {
+        return res.status(410).json({ error: "The hold on this booking has expired. Please book again." });
+      }
+
+      if (booking.status !== 'awaiting_payment' && booking.status !== 'payment_failed') {
+        return res.status(409).json({ error: `Booking is ${booking.status} and cannot be paid` });
+      }
+
+      if (booking.checkoutOrderId) {
+        return res.status(409).json({ error: "This booking is paid together with the rest of its checkout" });
+      }
+
       const equipment = await storage.getEquipment(booking.equipmentId);
       if (!equipment) {
         return res.status(404).json({ error: "Equipment not found" });
       }
 
-      const config = await createPaymentSession(bookingId, booking.totalPrice, equipment.name);
+      // Keep the latest order on the booking so the webhook, verification and
+      // reconciliation all look at the order the renter is actually paying
+      const config = await createPaymentSession(bookingId, amountDue(booking), equipment.name);
+      await storage.updateBooking(bookingId, { razorpayOrderId: config.id });
       res.json(config);
     } catch (error) {
       console.error('Error getting payment configuration:', error);
@@ -875,6 +2973,60 @@ export function registerRoutes(app: Express): Server {
   });
 
 
+  // Apply a promo code to an unpaid booking. The payment order is recreated
+  // at the discounted amount.
+  app.post("/api/bookings/:id/promo", requirePermission('bookings:create'), async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const booking = await storage.getBooking(parseInt(req.params.id));
+      if (!booking) {
+        return res.status(404).json({ error: "Booking not found" });
+      }
+      if (booking.userId !== req.user.id) {
+        return res.status(403).json({ error: "Not authorized to change this booking" });
+      }
+      if (typeof req.body.code !== 'string' || !req.body.code.trim()) {
+        return res.status(400).json({ error: "A promo code is required" });
+      }
+
+      const updated = await applyPromoCode(booking, req.body.code);
+      res.json(await refreshPaymentOrder(updated));
+    } catch (error) {
+      if (error instanceof PromoCodeError) {
+        return res.status(422).json({ error: error.message });
+      }
+      console.error('Error applying promo code:', error);
+      res.status(500).json({ error: "Failed to apply promo code" });
+    }
+  });
+
+  app.delete("/api/bookings/:id/promo", requirePermission('bookings:create'), async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const booking = await storage.getBooking(parseInt(req.params.id));
+      if (!booking) {
+        return res.status(404).json({ error: "Booking not found" });
+      }
+      if (booking.userId !== req.user.id) {
+        return res.status(403).json({ error: "Not authorized to change this booking" });
+      }
+      if (!booking.promoCodeId) {
+        return res.json(booking);
+      }
+
+      const updated = await removePromoCode(booking);
+      res.json(await refreshPaymentOrder(updated));
+    } catch (error) {
+      if (error instanceof PromoCodeError) {
+        return res.status(422).json({ error: error.message });
+      }
+      console.error('Error removing promo code:', error);
+      res.status(500).json({ error: "Failed to remove promo code" });
+    }
+  });
+
   // Booking details endpoint with authentication and authorization
   app.get("/api/bookings/:id", async (req, res) => {
     if (!req.isAuthenticated()) {
@@ -897,14 +3049,17 @@ export function registerRoutes(app: Express): Server {
         return res.status(404).json({ error: "Booking not found" });
       }
 
-      // Check if the user has permission to view this booking
-      if (booking.userId !== req.user.id && !req.user.isAdmin) {
+      // Renter, whoever manages the equipment and staff may view the booking
+      const equipment = await storage.getEquipment(booking.equipmentId);
+      if (!canViewBooking(req.user, booking, equipment)) {
         console.log(`User ${req.user.id} not authorized to view booking ${bookingId}`);
         return res.status(403).json({ error: "Not authorized to view this booking" });
       }
 
       console.log(`Successfully retrieved booking ${bookingId}`);
-      res.json(booking);
+      const { refunds, amountRefunded } = await getRefundSummary(bookingId);
+      const promo = booking.promoCodeId ? await storage.getPromoCode(booking.promoCodeId) : undefined;
+      res.json({ ...booking, refunds, amountRefunded, promoCode: promo?.code ?? null });
     } catch (error) {
       console.error('Error getting booking:', error);
       res.status(500).json({ error: "Failed to get bookingdetails" });
@@ -1052,14 +3207,3 @@ export function registerRoutes(app: Express): Server {
 
   return httpServer;
 }
-
-async function handleWebhookEvent(event: any): Promise<{ status: 'success' | 'failed'; bookingId: number; paymentId?: string } | null> {
-  // This is a placeholder.  Replace with actual webhook event handling logic
-  console.log("Webhook event received:", event);
-  if (event.payload.payment.status === 'captured') {
-    return { status: 'success', bookingId: event.payload.payment.order_id, paymentId: event.payload.payment.id };
-  } else if (event.payload.payment.status === 'failed') {
-    return { status: 'failed', bookingId: event.payload.payment.order_id };
-  }
-  return null;
-}
\ No newline at end of file
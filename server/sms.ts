@@ -0,0 +1,34 @@
+import { storage } from "./storage";
+
+export interface SmsTransport {
+  readonly name: string;
+  // Hand a message to the transport. `phone` is in E.164 form.
+  send(phone: string, body: string): Promise<void>;
+}
+
+// Keeps messages in the sms_messages table instead of sending them, so
+// phone sign-in works without an SMS gateway. In development, codes are
+// read from that table.
+export class OutboxTransport implements SmsTransport {
+  readonly name = 'outbox';
+
+  async send(phone: string, body: string): Promise<void> {
+    await storage.createSmsMessage({ phone, body, transport: this.name });
+  }
+}
+
+let transport: SmsTransport | undefined;
+
+// The transport named by SMS_TRANSPORT. Only the outbox is built in; a
+// gateway is added by implementing SmsTransport and selecting it here.
+export function getSmsTransport(): SmsTransport {
+  if (transport) return transport;
+
+  const selected = process.env.SMS_TRANSPORT ?? 'outbox';
+  if (selected === 'outbox') {
+    transport = new OutboxTransport();
+  } else {
+    throw new Error(`Unknown SMS_TRANSPORT '${selected}'`);
+  }
+  return transport;
+}
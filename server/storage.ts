@@ -1,6 +1,6 @@
-import { users, equipment as equipmentTable, bookings, reviews, comparisons, recommendations, type User, type InsertUser, type Equipment, type InsertEquipment, type Booking, type InsertBooking, type UpdateProfile, type Review, type InsertReview, type Recommendation, type InsertRecommendation } from "@shared/schema";
+import { users, equipment as equipmentTable, bookings, bookingStatusHistory, refunds, paymentEvents, equipmentBlackouts, pricingRules, promoCodes, promoRedemptions, invoices, invoiceCounters, checkoutOrders, bookingExtensions, lateFees, bookingHandovers, disputes, disputeMessages, waitlistEntries, notifications, phoneOtps, smsMessages, ledgerTransactions, ledgerEntries, payoutBatches, payouts, reconciliationRuns, activeBookingStatuses, unpaidBookingStatuses, unpaidExtensionStatuses, extendableBookingStatuses, reviews, comparisons, recommendations, type User, type InsertUser, type Equipment, type InsertEquipment, type Booking, type InsertBooking, type CheckoutOrder, type BookingExtension, type LateFee, type LateFeeStatus, type BookingHandover, type HandoverKind, type Dispute, type DisputeMessage, type DisputeStatus, type WaitlistEntry, type Notification, type PhoneOtp, type OtpPurpose, type SmsMessage, type BookingStatusHistory, type InsertBookingStatusHistory, type Refund, type InsertRefund, type PaymentEvent, type InsertPaymentEvent, type EquipmentBlackout, type InsertEquipmentBlackout, type PricingRule, type InsertPricingRule, type PromoCode, type InsertPromoCode, type PromoRedemption, type Invoice, type InsertInvoice, type LedgerTransaction, type InsertLedgerTransaction, type LedgerEntry, type InsertLedgerEntry, type PayoutBatch, type Payout, type PayoutDetails, type ReconciliationRun, type UserRole, type UpdateProfile, type Review, type InsertReview, type Recommendation, type InsertRecommendation } from "@shared/schema";
 import { db } from "./db";
-import { eq, and, gte, lte, or, desc } from "drizzle-orm";
+import { eq, ne, and, gt, gte, lt, lte, or, desc, inArray, isNull, isNotNull } from "drizzle-orm";
 import session from "express-session";
 import connectPg from "connect-pg-simple";
 import { pool } from "./db";
@@ -8,12 +8,89 @@ import { sql } from "drizzle-orm";
 
 const PostgresSessionStore = connectPg(session);
 
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Thrown when a booking would hold dates that are already booked or blocked
+export class BookingOverlapError extends Error {
+  constructor(public readonly equipmentId: number) {
+    super(`Equipment ${equipmentId} is already booked or blocked for these dates`);
+    this.name = 'BookingOverlapError';
+  }
+}
+
+// Thrown when a promo code has been used as often as it allows, overall
+// or by one renter
+export class PromoCodeLimitError extends Error {
+  constructor(public readonly scope: 'total' | 'user') {
+    super(scope === 'total'
+      ? 'This code has reached its usage limit'
+      : 'You have already used this code the maximum number of times');
+    this.name = 'PromoCodeLimitError';
+  }
+}
+
+// A booking as created by the server, with the amounts it worked out
+export type NewBooking = InsertBooking & { totalPrice: number } & Partial<Pick<Booking, 'depositAmount' | 'depositStatus' | 'checkoutOrderId'>>;
+
+export type PromoCodeWithUsage = PromoCode & { uses: number; discountGiven: number };
+
+// An owner's ledger line with the event that caused it and the booking's state
+export type OwnerLedgerEntry = LedgerEntry & { kind: string; memo: string | null; bookingStatus: string | null };
+
+export interface PayoutBatchResult {
+  batch: PayoutBatch;
+  payouts: Payout[];
+  // Owners with a positive balance but no bank details on file
+  skippedOwnerIds: number[];
+}
+
+type NewLedgerEntry = Omit<InsertLedgerEntry, 'transactionId'>;
+
+export type WaitlistEntryWithEquipment = WaitlistEntry & { equipmentName: string | null };
+
+// A dispute with who is on each side of its booking
+export type DisputeWithBooking = Dispute & {
+  equipmentId: number;
+  equipmentName: string | null;
+  renterId: number;
+  ownerId: number | null;
+};
+
+// What a date check ignores: the booking or extension being moved, and
+// waitlist offers held for the renter themselves
+interface DateCheckExclusions {
+  bookingId?: number;
+  extensionId?: number;
+  userId?: number;
+}
+
+// Blackouts store whole days with both ends included, so a blackout touches
+// the half-open range [start, end) when it ends on or after start's day and
+// begins before end. Returns bounds for listBlackouts-style inclusive checks.
+function blackoutSearchRange(start: Date, end: Date): [Date, Date] {
+  const from = new Date(start);
+  from.setUTCHours(0, 0, 0, 0);
+  return [from, new Date(new Date(end).getTime() - 1)];
+}
+
+// SQLSTATE raised by the bookings_no_time_overlap exclusion constraint
+function isExclusionViolation(error: unknown): boolean {
+  return (error as { code?: string } | null)?.code === '23P01';
+}
+
+// A user as listed to admins, without credentials or bank details
+export type UserSummary = Pick<User, 'id' | 'username' | 'name' | 'role'>;
+
 export interface IStorage {
   // User operations
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
-  createUser(user: InsertUser): Promise<User>;
+  getUserByPhone(phone: string): Promise<User | undefined>;
+  createUser(user: InsertUser & Partial<Pick<User, 'phone'>>): Promise<User>;
   updateUser(id: number, data: Partial<UpdateProfile>): Promise<User>;
+  updatePayoutDetails(id: number, data: PayoutDetails): Promise<User>;
+  listUsers(): Promise<UserSummary[]>;
+  updateUserRole(id: number, role: UserRole): Promise<User | undefined>;
 
   // Equipment operations
   getEquipment(id: number): Promise<Equipment | undefined>;
@@ -26,15 +103,178 @@ export interface IStorage {
   // Booking operations
   getBooking(id: number): Promise<Booking | undefined>;
   findBookingByRazorpayOrderId(orderId: string): Promise<Booking | undefined>;
+  findBookingByRazorpayPaymentId(paymentId: string): Promise<Booking | undefined>;
+  listLapsedHolds(now: Date, createdBefore: Date): Promise<Booking[]>;
+  listLapsedRequests(now: Date): Promise<Booking[]>;
   listBookings(userId?: number): Promise<Booking[]>;
+  listBookingsForOwner(ownerId: number): Promise<Booking[]>;
   createBooking(booking: InsertBooking): Promise<Booking>;
-  updateBookingStatus(id: number, status: string): Promise<Booking>;
+  createBookingExclusive(booking: NewBooking, entry: Omit<InsertBookingStatusHistory, 'bookingId'>): Promise<Booking>;
   updateBooking(id: number, data: Partial<Booking>): Promise<Booking>;
+  updateDepositState(id: number, fromStatus: string, data: Partial<Booking>): Promise<Booking | undefined>;
   getBookingsByStatus(status: string): Promise<Booking[]>;
   getBookingsByDateRange(equipmentId: number, startDate: Date, endDate: Date): Promise<Booking[]>;
-  checkEquipmentAvailability(equipmentId: number, startDate: Date, endDate: Date): Promise<boolean>;
+  checkEquipmentAvailability(equipmentId: number, startDate: Date, endDate: Date, userId?: number): Promise<boolean>;
   deleteEquipmentBookings(equipmentId: number): Promise<void>;  // Added this method
 
+  // Cart checkouts
+  createCheckoutOrder(
+    order: { userId: number; totalAmount: number },
+    items: NewBooking[],
+    entry: Omit<InsertBookingStatusHistory, 'bookingId'>
+  ): Promise<{ order: CheckoutOrder; bookings: Booking[] }>;
+  getCheckoutOrder(id: number): Promise<CheckoutOrder | undefined>;
+  findCheckoutOrderByRazorpayOrderId(orderId: string): Promise<CheckoutOrder | undefined>;
+  updateCheckoutOrder(id: number, data: Partial<Omit<CheckoutOrder, 'id'>>): Promise<CheckoutOrder>;
+  listCheckoutBookings(checkoutOrderId: number): Promise<Booking[]>;
+  listCheckoutOrdersToReconcile(createdAfter: Date): Promise<CheckoutOrder[]>;
+
+  // Booking extensions
+  createBookingExtension(
+    extension: Pick<BookingExtension, 'bookingId' | 'previousEndDate' | 'newEndDate' | 'amount' | 'holdExpiresAt'>
+  ): Promise<BookingExtension>;
+  getBookingExtension(id: number): Promise<BookingExtension | undefined>;
+  findBookingExtensionByRazorpayOrderId(orderId: string): Promise<BookingExtension | undefined>;
+  findBookingExtensionByRazorpayPaymentId(paymentId: string): Promise<BookingExtension | undefined>;
+  listBookingExtensions(bookingId: number): Promise<BookingExtension[]>;
+  updateBookingExtension(id: number, data: Partial<Omit<BookingExtension, 'id'>>): Promise<BookingExtension>;
+  applyBookingExtension(
+    id: number,
+    paymentId: string,
+    entry: Omit<InsertBookingStatusHistory, 'bookingId' | 'fromStatus' | 'toStatus'>
+  ): Promise<{ booking: Booking; extension: BookingExtension } | undefined>;
+  expireLapsedExtensions(now: Date): Promise<number>;
+  listExtensionsToReconcile(createdAfter: Date): Promise<BookingExtension[]>;
+
+  // Late returns and their fees
+  listOverdueBookings(endedBefore: Date): Promise<Booking[]>;
+  createLateFee(
+    fee: Pick<LateFee, 'bookingId' | 'overdueSince' | 'dailyFee' | 'days' | 'amount'>
+  ): Promise<LateFee | undefined>;
+  getLateFee(id: number): Promise<LateFee | undefined>;
+  findLateFeeByRazorpayOrderId(orderId: string): Promise<LateFee | undefined>;
+  listLateFees(filter?: { bookingId?: number; partyId?: number; statuses?: LateFeeStatus[] }): Promise<LateFee[]>;
+  updateLateFeeState(
+    id: number,
+    fromStatuses: LateFeeStatus[],
+    data: Partial<Omit<LateFee, 'id' | 'bookingId'>>
+  ): Promise<LateFee | undefined>;
+  listLateFeesToReconcile(updatedAfter: Date): Promise<LateFee[]>;
+
+  // Pickup and return handovers
+  getBookingHandover(bookingId: number, kind: HandoverKind): Promise<BookingHandover | undefined>;
+  listBookingHandovers(bookingId: number): Promise<BookingHandover[]>;
+  createBookingHandover(
+    handover: Omit<BookingHandover, 'id' | 'signature' | 'signedAt' | 'createdAt'>
+  ): Promise<BookingHandover | undefined>;
+  updateBookingHandover(
+    id: number,
+    readAt: Date,
+    data: Partial<Omit<BookingHandover, 'id' | 'bookingId' | 'kind' | 'createdAt'>>
+  ): Promise<BookingHandover | undefined>;
+
+  // Disputes
+  createDispute(
+    dispute: Pick<Dispute, 'bookingId' | 'openedBy' | 'openedByParty' | 'description' | 'claimedAmount'>,
+    photos: string[]
+  ): Promise<Dispute | undefined>;
+  getDispute(id: number): Promise<DisputeWithBooking | undefined>;
+  listDisputes(filter?: { bookingId?: number; partyId?: number; statuses?: DisputeStatus[] }): Promise<DisputeWithBooking[]>;
+  listDisputeMessages(disputeId: number): Promise<DisputeMessage[]>;
+  addDisputeMessage(
+    message: Pick<DisputeMessage, 'disputeId' | 'authorId' | 'authorRole' | 'kind' | 'message' | 'photos'>
+  ): Promise<DisputeMessage>;
+  updateDisputeState(
+    id: number,
+    fromStatuses: DisputeStatus[],
+    data: Partial<Omit<Dispute, 'id' | 'bookingId'>>
+  ): Promise<Dispute | undefined>;
+
+  // Waitlist operations
+  createWaitlistEntry(entry: Pick<WaitlistEntry, 'userId' | 'equipmentId' | 'rentalUnit' | 'startDate' | 'endDate'>): Promise<WaitlistEntry>;
+  getWaitlistEntry(id: number): Promise<WaitlistEntry | undefined>;
+  listWaitlistEntries(userId: number): Promise<WaitlistEntryWithEquipment[]>;
+  listWaitingEntries(equipmentId: number): Promise<WaitlistEntry[]>;
+  updateWaitlistEntry(id: number, data: Partial<Omit<WaitlistEntry, 'id'>>): Promise<WaitlistEntry>;
+  offerWaitlistEntry(id: number, holdExpiresAt: Date): Promise<WaitlistEntry | undefined>;
+  expireLapsedWaitlistOffers(now: Date): Promise<WaitlistEntry[]>;
+
+  // Notification operations
+  createNotification(notification: Pick<Notification, 'userId' | 'kind' | 'message' | 'link'>): Promise<Notification>;
+  listNotifications(userId: number, limit?: number): Promise<Notification[]>;
+  markNotificationsRead(userId: number, ids?: number[]): Promise<number>;
+
+  // Phone sign-in codes and the SMS they go out in
+  createPhoneOtp(otp: Pick<PhoneOtp, 'phone' | 'purpose' | 'codeHash' | 'expiresAt'>): Promise<PhoneOtp>;
+  listPhoneOtpsSince(phone: string, since: Date): Promise<PhoneOtp[]>;
+  getActivePhoneOtp(phone: string, purpose: OtpPurpose, now: Date): Promise<PhoneOtp | undefined>;
+  recordPhoneOtpAttempt(id: number, maxAttempts: number): Promise<PhoneOtp | undefined>;
+  consumePhoneOtp(id: number): Promise<PhoneOtp | undefined>;
+  createSmsMessage(message: Pick<SmsMessage, 'phone' | 'body' | 'transport'>): Promise<SmsMessage>;
+  // Booking status history operations
+  applyBookingTransition(id: number, fromStatus: string, data: Partial<Booking>, entry: InsertBookingStatusHistory): Promise<Booking | undefined>;
+  recordBookingStatus(entry: InsertBookingStatusHistory): Promise<BookingStatusHistory>;
+  getBookingStatusHistory(bookingId: number): Promise<BookingStatusHistory[]>;
+
+  // Refund operations
+  createRefund(refund: InsertRefund): Promise<Refund>;
+  updateRefund(id: number, data: Partial<InsertRefund>): Promise<Refund>;
+  getRefund(id: number): Promise<Refund | undefined>;
+  getRefundByRazorpayId(razorpayRefundId: string): Promise<Refund | undefined>;
+  listRefunds(bookingId: number): Promise<Refund[]>;
+
+  // Equipment blackout periods
+  listBlackouts(equipmentId: number, startDate?: Date, endDate?: Date): Promise<EquipmentBlackout[]>;
+  getBlackout(id: number): Promise<EquipmentBlackout | undefined>;
+  createBlackout(blackout: InsertEquipmentBlackout): Promise<EquipmentBlackout>;
+  updateBlackout(id: number, data: Partial<InsertEquipmentBlackout>): Promise<EquipmentBlackout>;
+  deleteBlackout(id: number): Promise<void>;
+
+  // Equipment pricing rules
+  listPricingRules(equipmentId: number): Promise<PricingRule[]>;
+  getPricingRule(id: number): Promise<PricingRule | undefined>;
+  createPricingRule(rule: InsertPricingRule): Promise<PricingRule>;
+  updatePricingRule(id: number, data: Partial<InsertPricingRule>): Promise<PricingRule>;
+  deletePricingRule(id: number): Promise<void>;
+
+  // Promo codes and their redemptions
+  listPromoCodes(): Promise<PromoCodeWithUsage[]>;
+  getPromoCode(id: number): Promise<PromoCode | undefined>;
+  getPromoCodeByCode(code: string): Promise<PromoCode | undefined>;
+  createPromoCode(promo: InsertPromoCode): Promise<PromoCode>;
+  updatePromoCode(id: number, data: Partial<InsertPromoCode>): Promise<PromoCode>;
+  listPromoRedemptions(promoCodeId: number): Promise<PromoRedemption[]>;
+  applyPromoRedemption(bookingId: number, promo: PromoCode, discountAmount: number): Promise<Booking | undefined>;
+  releasePromoRedemption(bookingId: number): Promise<Booking | undefined>;
+
+  // Tax invoices
+  getInvoiceByBooking(bookingId: number): Promise<Invoice | undefined>;
+  createInvoice(
+    invoice: Omit<InsertInvoice, 'invoiceNumber' | 'sequence'>,
+    formatNumber: (financialYear: string, sequence: number) => string,
+  ): Promise<Invoice>;
+
+  // Ledger and owner payouts
+  postLedgerTransaction(transaction: InsertLedgerTransaction, entries: NewLedgerEntry[]): Promise<LedgerTransaction | undefined>;
+  listLedgerEntries(reference: string): Promise<LedgerEntry[]>;
+  listOwnerLedger(ownerId: number): Promise<OwnerLedgerEntry[]>;
+  listPayableBalances(readyStatuses: string[]): Promise<{ ownerId: number; amount: number }[]>;
+  createPayoutBatch(createdBy: number, readyStatuses: string[]): Promise<PayoutBatchResult | undefined>;
+  listPayoutBatches(): Promise<PayoutBatch[]>;
+  getPayoutBatch(id: number): Promise<PayoutBatch | undefined>;
+  listPayouts(batchId: number): Promise<Payout[]>;
+
+  // Payment reconciliation
+  listBookingsToReconcile(statuses: string[], createdAfter: Date): Promise<Booking[]>;
+  createReconciliationRun(run: Omit<ReconciliationRun, 'id' | 'finishedAt'>): Promise<ReconciliationRun>;
+  listReconciliationRuns(limit?: number): Promise<ReconciliationRun[]>;
+
+  // Payment webhook event log
+  recordPaymentEvent(event: InsertPaymentEvent): Promise<{ event: PaymentEvent; duplicate: boolean }>;
+  getPaymentEvent(id: number): Promise<PaymentEvent | undefined>;
+  updatePaymentEvent(id: number, data: Partial<InsertPaymentEvent> & { processedAt?: Date | null }): Promise<PaymentEvent>;
+  listPaymentEvents(limit?: number): Promise<PaymentEvent[]>;
+
   // Review operations
   createReview(review: InsertReview): Promise<Review>;
   getReviewsByEquipment(equipmentId: number): Promise<Review[]>;
@@ -115,7 +355,17 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
-  async createUser(insertUser: InsertUser): Promise<User> {
+  async getUserByPhone(phone: string): Promise<User | undefined> {
+    try {
+      const [user] = await db.select().from(users).where(eq(users.phone, phone));
+      return user;
+    } catch (error) {
+      console.error('Error in getUserByPhone:', error);
+      throw new Error('Failed to fetch user by phone');
+    }
+  }
+
+  async createUser(insertUser: InsertUser & Partial<Pick<User, 'phone'>>): Promise<User> {
     try {
       const [user] = await db.insert(users).values(insertUser).returning();
       return user;
@@ -140,6 +390,47 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  async updatePayoutDetails(id: number, data: PayoutDetails): Promise<User> {
+    try {
+      const [user] = await db
+        .update(users)
+        .set(data)
+        .where(eq(users.id, id))
+        .returning();
+      if (!user) throw new Error('User not found');
+      return user;
+    } catch (error) {
+      console.error('Error in updatePayoutDetails:', error);
+      throw new Error('Failed to update payout details');
+    }
+  }
+  async listUsers(): Promise<UserSummary[]> {
+    try {
+      return await db
+        .select({ id: users.id, username: users.username, name: users.name, role: users.role })
+        .from(users)
+        .orderBy(users.username);
+    } catch (error) {
+      console.error('Error in listUsers:', error);
+      throw new Error('Failed to list users');
+    }
+  }
+
+  async updateUserRole(id: number, role: UserRole): Promise<User | undefined> {
+    try {
+      const [user] = await db
+        .update(users)
+        .set({ role })
+        .where(eq(users.id, id))
+        .returning();
+      return user;
+    } catch (error) {
+      console.error('Error in updateUserRole:', error);
+      throw new Error('Failed to update user role');
+    }
+  }
+
+
   async getEquipment(id: number): Promise<Equipment | undefined> {
     try {
       const [equip] = await db.select().from(equipmentTable).where(eq(equipmentTable.id, id));
@@ -200,10 +491,15 @@ export class DatabaseStorage implements IStorage {
           description: insertEquipment.description,
           category: insertEquipment.category,
           dailyRate: insertEquipment.dailyRate,
+          hourlyRate: insertEquipment.hourlyRate ?? null,
+          halfDayRate: insertEquipment.halfDayRate ?? null,
+          weeklyRate: insertEquipment.weeklyRate ?? null,
+          depositAmount: insertEquipment.depositAmount ?? null,
           location: insertEquipment.location,
           imageUrl: insertEquipment.imageUrl,
           specs: insertEquipment.specs ?? {},
           features: insertEquipment.features ?? [],
+          cancellationPolicy: insertEquipment.cancellationPolicy ?? null,
           availability: true
         })
         .returning();
@@ -278,6 +574,58 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  async findBookingByRazorpayPaymentId(paymentId: string): Promise<Booking | undefined> {
+    try {
+      const [booking] = await db
+        .select()
+        .from(bookings)
+        .where(eq(bookings.razorpayPaymentId, paymentId));
+      return booking;
+    } catch (error) {
+      console.error('Error finding booking by Razorpay payment ID:', error);
+      throw new Error('Failed to find booking by Razorpay payment ID');
+    }
+  }
+
+  // Unpaid bookings whose hold has run out. Bookings that never got a hold
+  // (e.g. order creation failed) lapse based on when they were created.
+  async listLapsedHolds(now: Date, createdBefore: Date): Promise<Booking[]> {
+    try {
+      return await db
+        .select()
+        .from(bookings)
+        .where(
+          and(
+            inArray(bookings.status, unpaidBookingStatuses),
+            or(
+              lte(bookings.holdExpiresAt, now),
+              and(
+                isNull(bookings.holdExpiresAt),
+                lte(bookings.createdAt, createdBefore)
+              )
+            )
+          )
+        );
+    } catch (error) {
+      console.error('Error listing lapsed booking holds:', error);
+      throw new Error('Failed to list lapsed booking holds');
+    }
+  }
+
+  // Booking requests the owner did not answer by their deadline
+  async listLapsedRequests(now: Date): Promise<Booking[]> {
+    try {
+      return await db
+        .select()
+        .from(bookings)
+        .where(and(eq(bookings.status, 'requested'), lte(bookings.respondBy, now)))
+        .orderBy(bookings.respondBy);
+    } catch (error) {
+      console.error('Error in listLapsedRequests:', error);
+      throw new Error('Failed to list lapsed booking requests');
+    }
+  }
+
   async listBookings(userId?: number): Promise<Booking[]> {
     try {
       // If userId is provided, filter bookings for that user
@@ -301,6 +649,22 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  // Bookings made on any equipment the user owns
+  async listBookingsForOwner(ownerId: number): Promise<Booking[]> {
+    try {
+      const rows = await db
+        .select({ booking: bookings })
+        .from(bookings)
+        .innerJoin(equipmentTable, eq(bookings.equipmentId, equipmentTable.id))
+        .where(eq(equipmentTable.ownerId, ownerId))
+        .orderBy(desc(bookings.createdAt));
+      return rows.map((row) => row.booking);
+    } catch (error) {
+      console.error('Error listing bookings for owner:', error);
+      return [];
+    }
+  }
+
   async createBooking(insertBooking: InsertBooking): Promise<Booking> {
     try {
       const [booking] = await db
@@ -319,12 +683,12 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
-  async updateBookingStatus(id: number, status: string): Promise<Booking> {
+  async updateBooking(id: number, data: Partial<Booking>): Promise<Booking> {
     try {
       const [booking] = await db
         .update(bookings)
         .set({
-          status,
+          ...data,
           lastStatusUpdate: new Date()
         })
         .where(eq(bookings.id, id))
@@ -332,26 +696,24 @@ export class DatabaseStorage implements IStorage {
       if (!booking) throw new Error('Booking not found');
       return booking;
     } catch (error) {
-      console.error('Error in updateBookingStatus:', error);
-      throw new Error('Failed to update booking status');
+      console.error('Error in updateBooking:', error);
+      throw new Error('Failed to update booking');
     }
   }
 
-  async updateBooking(id: number, data: Partial<Booking>): Promise<Booking> {
+  // Change a booking's deposit fields only if its deposit is still in
+  // `fromStatus`. Returns undefined when someone else settled it first.
+  async updateDepositState(id: number, fromStatus: string, data: Partial<Booking>): Promise<Booking | undefined> {
     try {
       const [booking] = await db
         .update(bookings)
-        .set({
-          ...data,
-          lastStatusUpdate: new Date()
-        })
-        .where(eq(bookings.id, id))
+        .set(data)
+        .where(and(eq(bookings.id, id), eq(bookings.depositStatus, fromStatus)))
         .returning();
-      if (!booking) throw new Error('Booking not found');
       return booking;
     } catch (error) {
-      console.error('Error in updateBooking:', error);
-      throw new Error('Failed to update booking');
+      console.error('Error in updateDepositState:', error);
+      throw new Error('Failed to update booking deposit');
     }
   }
 
@@ -383,34 +745,15 @@ export class DatabaseStorage implements IStorage {
         return [];
       }
 
-      // Set times to start and end of day in UTC
-      start.setUTCHours(0, 0, 0, 0);
-      end.setUTCHours(23, 59, 59, 999);
-
-      // Query bookings within the date range
+      // Bookings are half-open ranges, so touching ends do not overlap
       const bookingsResult = await db
         .select()
         .from(bookings)
         .where(
           and(
             eq(bookings.equipmentId, equipmentId),
-            or(
-              // Booking starts within the range
-              and(
-                gte(bookings.startDate, start),
-                lte(bookings.startDate, end)
-              ),
-              // Booking ends within the range
-              and(
-                gte(bookings.endDate, start),
-                lte(bookings.endDate, end)
-              ),
-              // Booking spans the entire range
-              and(
-                lte(bookings.startDate, start),
-                gte(bookings.endDate, end)
-              )
-            )
+            lt(bookings.startDate, end),
+            gt(bookings.endDate, start)
           )
         );
 
@@ -426,10 +769,12 @@ export class DatabaseStorage implements IStorage {
   }
 
   // Add a new method to check equipment availability directly
+  // Waitlist offers hold dates for everyone but `userId`
   async checkEquipmentAvailability(
     equipmentId: number, 
     startDate: Date, 
-    endDate: Date
+    endDate: Date,
+    userId?: number
   ): Promise<boolean> {
     try {
       // First check if equipment exists and is generally available
@@ -440,11 +785,27 @@ export class DatabaseStorage implements IStorage {
 
       // Then check for any conflicting bookings
       const existingBookings = await this.getBookingsByDateRange(equipmentId, startDate, endDate);
-      const hasConflictingBooking = existingBookings.some(booking => 
-        booking.status === 'paid' || booking.status === 'awaiting_payment'
+      const hasConflictingBooking = existingBookings.some(booking =>
+        (activeBookingStatuses as string[]).includes(booking.status)
       );
+      if (hasConflictingBooking) {
+        return false;
+      }
+
+      const [offer] = await db
+        .select({ id: waitlistEntries.id })
+        .from(waitlistEntries)
+        .where(this.heldOfferOverlaps(equipmentId, startDate, endDate, userId))
+        .limit(1);
+      if (offer) {
+        return false;
+      }
 
-      return !hasConflictingBooking;
+      // And for owner blackouts
+      const [from, to] = blackoutSearchRange(startDate, endDate);
+      const blackouts = await this.listBlackouts(equipmentId, from, to);
+
+      return blackouts.length === 0;
     } catch (error) {
       console.error('Error checking equipment availability:', error);
       throw new Error('Failed to check equipment availability');
@@ -461,6 +822,1816 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  // Waitlist offers still on hold for someone other than `userId` that
+  // overlap [startDate, endDate)
+  private heldOfferOverlaps(equipmentId: number, startDate: Date, endDate: Date, userId?: number) {
+    return and(
+      eq(waitlistEntries.equipmentId, equipmentId),
+      eq(waitlistEntries.status, 'offered'),
+      gt(waitlistEntries.holdExpiresAt, new Date()),
+      lt(waitlistEntries.startDate, endDate),
+      gt(waitlistEntries.endDate, startDate),
+      ne(waitlistEntries.userId, userId ?? 0)
+    );
+  }
+
+  // Lock the equipment row for the rest of the transaction, then make sure
+  // no active booking, unpaid extension still on hold, waitlist offer or
+  // blackout overlaps [startDate, endDate), other than those in `exclude`.
+  // Concurrent bookings for the same equipment queue on the lock, so the
+  // check and the following write cannot interleave.
+  private async assertDatesFree(
+    tx: Transaction,
+    equipmentId: number,
+    startDate: Date,
+    endDate: Date,
+    exclude: DateCheckExclusions = {}
+  ): Promise<void> {
+    await tx
+      .select({ id: equipmentTable.id })
+      .from(equipmentTable)
+      .where(eq(equipmentTable.id, equipmentId))
+      .for('update');
+
+    const overlapping = await tx
+      .select({ id: bookings.id })
+      .from(bookings)
+      .where(
+        and(
+          eq(bookings.equipmentId, equipmentId),
+          inArray(bookings.status, activeBookingStatuses),
+          lt(bookings.startDate, endDate),
+          gt(bookings.endDate, startDate)
+        )
+      );
+    if (overlapping.some(booking => booking.id !== exclude.bookingId)) {
+      throw new BookingOverlapError(equipmentId);
+    }
+
+    const [extension] = await tx
+      .select({ id: bookingExtensions.id })
+      .from(bookingExtensions)
+      .innerJoin(bookings, eq(bookings.id, bookingExtensions.bookingId))
+      .where(
+        and(
+          eq(bookings.equipmentId, equipmentId),
+          inArray(bookingExtensions.status, unpaidExtensionStatuses),
+          gt(bookingExtensions.holdExpiresAt, new Date()),
+          lt(bookingExtensions.previousEndDate, endDate),
+          gt(bookingExtensions.newEndDate, startDate),
+          ne(bookingExtensions.id, exclude.extensionId ?? 0)
+        )
+      )
+      .limit(1);
+    if (extension) {
+      throw new BookingOverlapError(equipmentId);
+    }
+
+    const [offer] = await tx
+      .select({ id: waitlistEntries.id })
+      .from(waitlistEntries)
+      .where(this.heldOfferOverlaps(equipmentId, startDate, endDate, exclude.userId))
+      .limit(1);
+    if (offer) {
+      throw new BookingOverlapError(equipmentId);
+    }
+
+    const [from, to] = blackoutSearchRange(startDate, endDate);
+    const [blackout] = await tx
+      .select({ id: equipmentBlackouts.id })
+      .from(equipmentBlackouts)
+      .where(
+        and(
+          eq(equipmentBlackouts.equipmentId, equipmentId),
+          lte(equipmentBlackouts.startDate, to),
+          gte(equipmentBlackouts.endDate, from)
+        )
+      )
+      .limit(1);
+    if (blackout) {
+      throw new BookingOverlapError(equipmentId);
+    }
+  }
+
+  // A renter booking dates offered to them from the waitlist takes up the offer
+  private async claimWaitlistOffers(tx: Transaction, booking: Booking): Promise<void> {
+    await tx
+      .update(waitlistEntries)
+      .set({ status: 'booked', bookingId: booking.id })
+      .where(
+        and(
+          eq(waitlistEntries.userId, booking.userId),
+          eq(waitlistEntries.equipmentId, booking.equipmentId),
+          eq(waitlistEntries.status, 'offered'),
+          lt(waitlistEntries.startDate, booking.endDate),
+          gt(waitlistEntries.endDate, booking.startDate)
+        )
+      );
+  }
+
+  // Create a booking and its first history entry, failing with
+  // BookingOverlapError if its dates are no longer free
+  async createBookingExclusive(
+    insertBooking: NewBooking,
+    entry: Omit<InsertBookingStatusHistory, 'bookingId'>
+  ): Promise<Booking> {
+    try {
+      return await db.transaction(async (tx) => {
+        await this.assertDatesFree(tx, insertBooking.equipmentId, insertBooking.startDate, insertBooking.endDate, {
+          userId: insertBooking.userId,
+        });
+
+        const [booking] = await tx
+          .insert(bookings)
+          .values({
+            ...insertBooking,
+            status: insertBooking.status || 'pending',
+            createdAt: new Date(),
+            lastStatusUpdate: new Date()
+          })
+          .returning();
+
+        await tx.insert(bookingStatusHistory).values({ ...entry, bookingId: booking.id });
+        await this.claimWaitlistOffers(tx, booking);
+        return booking;
+      });
+    } catch (error) {
+      if (error instanceof BookingOverlapError) throw error;
+      if (isExclusionViolation(error)) throw new BookingOverlapError(insertBooking.equipmentId);
+      console.error('Error in createBookingExclusive:', error);
+      throw new Error('Failed to create booking');
+    }
+  }
+
+  // Create a checkout order and all of its bookings, or nothing if any of
+  // the bookings' dates are taken. Equipment rows are locked in id order so
+  // concurrent checkouts sharing equipment cannot deadlock.
+  async createCheckoutOrder(
+    order: { userId: number; totalAmount: number },
+    items: NewBooking[],
+    entry: Omit<InsertBookingStatusHistory, 'bookingId'>
+  ): Promise<{ order: CheckoutOrder; bookings: Booking[] }> {
+    let current: NewBooking | undefined;
+    try {
+      return await db.transaction(async (tx) => {
+        const [created] = await tx.insert(checkoutOrders).values(order).returning();
+
+        const byEquipment = items
+          .map((item, index) => ({ item, index }))
+          .sort((a, b) => a.item.equipmentId - b.item.equipmentId);
+        const createdBookings: Booking[] = new Array(items.length);
+
+        for (const { item, index } of byEquipment) {
+          current = item;
+          await this.assertDatesFree(tx, item.equipmentId, item.startDate, item.endDate, { userId: item.userId });
+
+          const [booking] = await tx
+            .insert(bookings)
+            .values({
+              ...item,
+              checkoutOrderId: created.id,
+              status: item.status || 'pending',
+              createdAt: new Date(),
+              lastStatusUpdate: new Date()
+            })
+            .returning();
+
+          await tx.insert(bookingStatusHistory).values({ ...entry, bookingId: booking.id });
+          await this.claimWaitlistOffers(tx, booking);
+          createdBookings[index] = booking;
+        }
+
+        return { order: created, bookings: createdBookings };
+      });
+    } catch (error) {
+      if (error instanceof BookingOverlapError) throw error;
+      if (isExclusionViolation(error) && current) throw new BookingOverlapError(current.equipmentId);
+      console.error('Error in createCheckoutOrder:', error);
+      throw new Error('Failed to create checkout order');
+    }
+  }
+
+  async getCheckoutOrder(id: number): Promise<CheckoutOrder | undefined> {
+    try {
+      const [order] = await db.select().from(checkoutOrders).where(eq(checkoutOrders.id, id));
+      return order;
+    } catch (error) {
+      console.error('Error in getCheckoutOrder:', error);
+      throw new Error('Failed to get checkout order');
+    }
+  }
+
+  async findCheckoutOrderByRazorpayOrderId(orderId: string): Promise<CheckoutOrder | undefined> {
+    try {
+      const [order] = await db.select().from(checkoutOrders).where(eq(checkoutOrders.razorpayOrderId, orderId));
+      return order;
+    } catch (error) {
+      console.error('Error finding checkout order by Razorpay order ID:', error);
+      throw new Error('Failed to find checkout order by Razorpay order ID');
+    }
+  }
+
+  async updateCheckoutOrder(id: number, data: Partial<Omit<CheckoutOrder, 'id'>>): Promise<CheckoutOrder> {
+    try {
+      const [order] = await db.update(checkoutOrders).set(data).where(eq(checkoutOrders.id, id)).returning();
+      if (!order) throw new Error(`Checkout order ${id} not found`);
+      return order;
+    } catch (error) {
+      console.error('Error in updateCheckoutOrder:', error);
+      throw new Error('Failed to update checkout order');
+    }
+  }
+
+  async listCheckoutBookings(checkoutOrderId: number): Promise<Booking[]> {
+    try {
+      return await db
+        .select()
+        .from(bookings)
+        .where(eq(bookings.checkoutOrderId, checkoutOrderId))
+        .orderBy(bookings.id);
+    } catch (error) {
+      console.error('Error in listCheckoutBookings:', error);
+      throw new Error('Failed to list checkout bookings');
+    }
+  }
+
+  // Checkout orders with a payment order but no recorded payment
+  async listCheckoutOrdersToReconcile(createdAfter: Date): Promise<CheckoutOrder[]> {
+    try {
+      return await db
+        .select()
+        .from(checkoutOrders)
+        .where(
+          and(
+            isNotNull(checkoutOrders.razorpayOrderId),
+            isNull(checkoutOrders.razorpayPaymentId),
+            gte(checkoutOrders.createdAt, createdAfter)
+          )
+        )
+        .orderBy(checkoutOrders.id);
+    } catch (error) {
+      console.error('Error in listCheckoutOrdersToReconcile:', error);
+      throw new Error('Failed to list checkout orders to reconcile');
+    }
+  }
+
+  // Hold the time an extension adds to a booking, failing with
+  // BookingOverlapError if it is already taken or held
+  async createBookingExtension(
+    extension: Pick<BookingExtension, 'bookingId' | 'previousEndDate' | 'newEndDate' | 'amount' | 'holdExpiresAt'>
+  ): Promise<BookingExtension> {
+    try {
+      return await db.transaction(async (tx) => {
+        const [booking] = await tx.select().from(bookings).where(eq(bookings.id, extension.bookingId));
+        if (!booking) throw new Error(`Booking ${extension.bookingId} not found`);
+        await this.assertDatesFree(tx, booking.equipmentId, extension.previousEndDate, extension.newEndDate, {
+          bookingId: booking.id,
+          userId: booking.userId,
+        });
+
+        const [created] = await tx.insert(bookingExtensions).values(extension).returning();
+        return created;
+      });
+    } catch (error) {
+      if (error instanceof BookingOverlapError) throw error;
+      console.error('Error in createBookingExtension:', error);
+      throw new Error('Failed to create booking extension');
+    }
+  }
+
+  async getBookingExtension(id: number): Promise<BookingExtension | undefined> {
+    try {
+      const [extension] = await db.select().from(bookingExtensions).where(eq(bookingExtensions.id, id));
+      return extension;
+    } catch (error) {
+      console.error('Error in getBookingExtension:', error);
+      throw new Error('Failed to get booking extension');
+    }
+  }
+
+  async findBookingExtensionByRazorpayOrderId(orderId: string): Promise<BookingExtension | undefined> {
+    try {
+      const [extension] = await db.select().from(bookingExtensions).where(eq(bookingExtensions.razorpayOrderId, orderId));
+      return extension;
+    } catch (error) {
+      console.error('Error finding booking extension by Razorpay order ID:', error);
+      throw new Error('Failed to find booking extension by Razorpay order ID');
+    }
+  }
+
+  async findBookingExtensionByRazorpayPaymentId(paymentId: string): Promise<BookingExtension | undefined> {
+    try {
+      const [extension] = await db.select().from(bookingExtensions).where(eq(bookingExtensions.razorpayPaymentId, paymentId));
+      return extension;
+    } catch (error) {
+      console.error('Error finding booking extension by Razorpay payment ID:', error);
+      throw new Error('Failed to find booking extension by Razorpay payment ID');
+    }
+  }
+
+  async listBookingExtensions(bookingId: number): Promise<BookingExtension[]> {
+    try {
+      return await db
+        .select()
+        .from(bookingExtensions)
+        .where(eq(bookingExtensions.bookingId, bookingId))
+        .orderBy(bookingExtensions.id);
+    } catch (error) {
+      console.error('Error in listBookingExtensions:', error);
+      throw new Error('Failed to list booking extensions');
+    }
+  }
+
+  async updateBookingExtension(id: number, data: Partial<Omit<BookingExtension, 'id'>>): Promise<BookingExtension> {
+    try {
+      const [extension] = await db.update(bookingExtensions).set(data).where(eq(bookingExtensions.id, id)).returning();
+      if (!extension) throw new Error(`Booking extension ${id} not found`);
+      return extension;
+    } catch (error) {
+      console.error('Error in updateBookingExtension:', error);
+      throw new Error('Failed to update booking extension');
+    }
+  }
+
+  // Record an extension's payment and move its booking's end date, as long
+  // as the booking still ends where the extension starts and is still
+  // running. Returns undefined when it is not; fails with BookingOverlapError
+  // when the added time was taken after the extension's hold ran out.
+  async applyBookingExtension(
+    id: number,
+    paymentId: string,
+    entry: Omit<InsertBookingStatusHistory, 'bookingId' | 'fromStatus' | 'toStatus'>
+  ): Promise<{ booking: Booking; extension: BookingExtension } | undefined> {
+    try {
+      return await db.transaction(async (tx) => {
+        const [extension] = await tx.select().from(bookingExtensions).where(eq(bookingExtensions.id, id)).for('update');
+        if (!extension || extension.status === 'paid' || extension.status === 'refunded') return undefined;
+
+        const [booking] = await tx.select().from(bookings).where(eq(bookings.id, extension.bookingId)).for('update');
+        if (!booking || !(extendableBookingStatuses as string[]).includes(booking.status) ||
+            booking.endDate.getTime() !== extension.previousEndDate.getTime()) {
+          return undefined;
+        }
+
+        await this.assertDatesFree(tx, booking.equipmentId, extension.previousEndDate, extension.newEndDate, {
+          bookingId: booking.id,
+          extensionId: extension.id,
+          userId: booking.userId,
+        });
+
+        const [extended] = await tx
+          .update(bookings)
+          .set({ endDate: extension.newEndDate, lastStatusUpdate: new Date() })
+          .where(eq(bookings.id, booking.id))
+          .returning();
+        const [paid] = await tx
+          .update(bookingExtensions)
+          .set({ status: 'paid', razorpayPaymentId: paymentId, paidAt: new Date() })
+          .where(eq(bookingExtensions.id, id))
+          .returning();
+
+        await tx.insert(bookingStatusHistory).values({
+          ...entry,
+          bookingId: booking.id,
+          fromStatus: booking.status,
+          toStatus: booking.status,
+        });
+        return { booking: extended, extension: paid };
+      });
+    } catch (error) {
+      if (error instanceof BookingOverlapError) throw error;
+      if (isExclusionViolation(error)) {
+        const extension = await this.getBookingExtension(id);
+        const booking = extension ? await this.getBooking(extension.bookingId) : undefined;
+        throw new BookingOverlapError(booking?.equipmentId ?? 0);
+      }
+      console.error('Error in applyBookingExtension:', error);
+      throw new Error('Failed to apply booking extension');
+    }
+  }
+
+  // Release the time held by unpaid extensions whose hold has run out.
+  // Returns how many expired.
+  async expireLapsedExtensions(now: Date): Promise<number> {
+    try {
+      const expired = await db
+        .update(bookingExtensions)
+        .set({ status: 'expired' })
+        .where(
+          and(
+            inArray(bookingExtensions.status, unpaidExtensionStatuses),
+            lte(bookingExtensions.holdExpiresAt, now)
+          )
+        )
+        .returning({ id: bookingExtensions.id });
+      return expired.length;
+    } catch (error) {
+      console.error('Error in expireLapsedExtensions:', error);
+      throw new Error('Failed to expire lapsed booking extensions');
+    }
+  }
+
+  // Extensions with a payment order but no recorded payment
+  async listExtensionsToReconcile(createdAfter: Date): Promise<BookingExtension[]> {
+    try {
+      return await db
+        .select()
+        .from(bookingExtensions)
+        .where(
+          and(
+            inArray(bookingExtensions.status, [...unpaidExtensionStatuses, 'expired']),
+            isNotNull(bookingExtensions.razorpayOrderId),
+            isNull(bookingExtensions.razorpayPaymentId),
+            gte(bookingExtensions.createdAt, createdAfter)
+          )
+        )
+        .orderBy(bookingExtensions.id);
+    } catch (error) {
+      console.error('Error in listExtensionsToReconcile:', error);
+      throw new Error('Failed to list booking extensions to reconcile');
+    }
+  }
+
+  // Rentals still in use after `endedBefore` that have no late fee yet
+  async listOverdueBookings(endedBefore: Date): Promise<Booking[]> {
+    try {
+      const rows = await db
+        .select({ booking: bookings })
+        .from(bookings)
+        .leftJoin(lateFees, eq(lateFees.bookingId, bookings.id))
+        .where(
+          and(
+            eq(bookings.status, 'in_use'),
+            isNull(bookings.returnedAt),
+            lt(bookings.endDate, endedBefore),
+            isNull(lateFees.id)
+          )
+        )
+        .orderBy(bookings.endDate);
+      return rows.map(row => row.booking);
+    } catch (error) {
+      console.error('Error in listOverdueBookings:', error);
+      throw new Error('Failed to list overdue bookings');
+    }
+  }
+
+  // Returns undefined when the booking already has a late fee
+  async createLateFee(
+    fee: Pick<LateFee, 'bookingId' | 'overdueSince' | 'dailyFee' | 'days' | 'amount'>
+  ): Promise<LateFee | undefined> {
+    try {
+      const [created] = await db.insert(lateFees).values(fee).onConflictDoNothing().returning();
+      return created;
+    } catch (error) {
+      console.error('Error in createLateFee:', error);
+      throw new Error('Failed to create late fee');
+    }
+  }
+
+  async getLateFee(id: number): Promise<LateFee | undefined> {
+    try {
+      const [fee] = await db.select().from(lateFees).where(eq(lateFees.id, id));
+      return fee;
+    } catch (error) {
+      console.error('Error in getLateFee:', error);
+      throw new Error('Failed to get late fee');
+    }
+  }
+
+  async findLateFeeByRazorpayOrderId(orderId: string): Promise<LateFee | undefined> {
+    try {
+      const [fee] = await db.select().from(lateFees).where(eq(lateFees.razorpayOrderId, orderId));
+      return fee;
+    } catch (error) {
+      console.error('Error finding late fee by Razorpay order ID:', error);
+      throw new Error('Failed to find late fee by Razorpay order ID');
+    }
+  }
+
+  // Oldest first. `partyId` keeps fees on bookings where that user is the
+  // renter or the equipment owner.
+  async listLateFees(filter: { bookingId?: number; partyId?: number; statuses?: LateFeeStatus[] } = {}): Promise<LateFee[]> {
+    try {
+      const conditions = [];
+      if (filter.bookingId !== undefined) conditions.push(eq(lateFees.bookingId, filter.bookingId));
+      if (filter.partyId !== undefined) {
+        conditions.push(or(eq(bookings.userId, filter.partyId), eq(equipmentTable.ownerId, filter.partyId)));
+      }
+      if (filter.statuses) conditions.push(inArray(lateFees.status, filter.statuses));
+
+      const rows = await db
+        .select({ fee: lateFees })
+        .from(lateFees)
+        .innerJoin(bookings, eq(bookings.id, lateFees.bookingId))
+        .leftJoin(equipmentTable, eq(equipmentTable.id, bookings.equipmentId))
+        .where(conditions.length ? and(...conditions) : undefined)
+        .orderBy(lateFees.id);
+      return rows.map(row => row.fee);
+    } catch (error) {
+      console.error('Error in listLateFees:', error);
+      throw new Error('Failed to list late fees');
+    }
+  }
+
+  // Change a late fee only while it is in one of `fromStatuses`. Returns
+  // undefined when it has moved on.
+  async updateLateFeeState(
+    id: number,
+    fromStatuses: LateFeeStatus[],
+    data: Partial<Omit<LateFee, 'id' | 'bookingId'>>
+  ): Promise<LateFee | undefined> {
+    try {
+      const [updated] = await db
+        .update(lateFees)
+        .set({ ...data, updatedAt: new Date() })
+        .where(and(eq(lateFees.id, id), inArray(lateFees.status, fromStatuses)))
+        .returning();
+      return updated;
+    } catch (error) {
+      console.error('Error in updateLateFeeState:', error);
+      throw new Error('Failed to update late fee');
+    }
+  }
+
+  // Late fees with a payment order but no recorded payment
+  async listLateFeesToReconcile(updatedAfter: Date): Promise<LateFee[]> {
+    try {
+      return await db
+        .select()
+        .from(lateFees)
+        .where(
+          and(
+            inArray(lateFees.status, ['awaiting_payment', 'payment_failed']),
+            isNotNull(lateFees.razorpayOrderId),
+            isNull(lateFees.razorpayPaymentId),
+            gte(lateFees.updatedAt, updatedAfter)
+          )
+        )
+        .orderBy(lateFees.id);
+    } catch (error) {
+      console.error('Error in listLateFeesToReconcile:', error);
+      throw new Error('Failed to list late fees to reconcile');
+    }
+  }
+
+  async getBookingHandover(bookingId: number, kind: HandoverKind): Promise<BookingHandover | undefined> {
+    try {
+      const [handover] = await db
+        .select()
+        .from(bookingHandovers)
+        .where(and(eq(bookingHandovers.bookingId, bookingId), eq(bookingHandovers.kind, kind)));
+      return handover;
+    } catch (error) {
+      console.error('Error in getBookingHandover:', error);
+      throw new Error('Failed to get booking handover');
+    }
+  }
+
+  async listBookingHandovers(bookingId: number): Promise<BookingHandover[]> {
+    try {
+      return await db
+        .select()
+        .from(bookingHandovers)
+        .where(eq(bookingHandovers.bookingId, bookingId))
+        .orderBy(bookingHandovers.id);
+    } catch (error) {
+      console.error('Error in listBookingHandovers:', error);
+      throw new Error('Failed to list booking handovers');
+    }
+  }
+
+  // Returns undefined when the booking already has this handover
+  async createBookingHandover(
+    handover: Omit<BookingHandover, 'id' | 'signature' | 'signedAt' | 'createdAt'>
+  ): Promise<BookingHandover | undefined> {
+    try {
+      const [created] = await db
+        .insert(bookingHandovers)
+        .values(handover)
+        .onConflictDoNothing()
+        .returning();
+      return created;
+    } catch (error) {
+      console.error('Error in createBookingHandover:', error);
+      throw new Error('Failed to create booking handover');
+    }
+  }
+
+  // Change a handover that is not sealed yet, as long as nobody changed it
+  // since it was read at `readAt`. Returns undefined when someone did.
+  async updateBookingHandover(
+    id: number,
+    readAt: Date,
+    data: Partial<Omit<BookingHandover, 'id' | 'bookingId' | 'kind' | 'createdAt'>>
+  ): Promise<BookingHandover | undefined> {
+    try {
+      const [updated] = await db
+        .update(bookingHandovers)
+        .set(data)
+        .where(
+          and(
+            eq(bookingHandovers.id, id),
+            eq(bookingHandovers.updatedAt, readAt),
+            isNull(bookingHandovers.signature)
+          )
+        )
+        .returning();
+      return updated;
+    } catch (error) {
+      console.error('Error in updateBookingHandover:', error);
+      throw new Error('Failed to update booking handover');
+    }
+  }
+
+  // Opens a dispute with its claim as the first timeline entry. Returns
+  // undefined when the booking already has an unresolved dispute.
+  async createDispute(
+    dispute: Pick<Dispute, 'bookingId' | 'openedBy' | 'openedByParty' | 'description' | 'claimedAmount'>,
+    photos: string[]
+  ): Promise<Dispute | undefined> {
+    try {
+      return await db.transaction(async (tx) => {
+        const [created] = await tx.insert(disputes).values(dispute).onConflictDoNothing().returning();
+        if (!created) return undefined;
+
+        await tx.insert(disputeMessages).values({
+          disputeId: created.id,
+          authorId: dispute.openedBy,
+          authorRole: dispute.openedByParty,
+          kind: 'claim',
+          message: dispute.description,
+          photos,
+        });
+        return created;
+      });
+    } catch (error) {
+      console.error('Error in createDispute:', error);
+      throw new Error('Failed to create dispute');
+    }
+  }
+
+  private disputeQuery() {
+    return db
+      .select({
+        dispute: disputes,
+        equipmentId: bookings.equipmentId,
+        equipmentName: equipmentTable.name,
+        renterId: bookings.userId,
+        ownerId: equipmentTable.ownerId,
+      })
+      .from(disputes)
+      .innerJoin(bookings, eq(bookings.id, disputes.bookingId))
+      .leftJoin(equipmentTable, eq(equipmentTable.id, bookings.equipmentId));
+  }
+
+  async getDispute(id: number): Promise<DisputeWithBooking | undefined> {
+    try {
+      const [row] = await this.disputeQuery().where(eq(disputes.id, id));
+      if (!row) return undefined;
+      const { dispute, ...rest } = row;
+      return { ...dispute, ...rest };
+    } catch (error) {
+      console.error('Error in getDispute:', error);
+      throw new Error('Failed to get dispute');
+    }
+  }
+
+  // Newest first. `partyId` keeps disputes where that user is the renter
+  // or the equipment owner.
+  async listDisputes(filter: { bookingId?: number; partyId?: number; statuses?: DisputeStatus[] } = {}): Promise<DisputeWithBooking[]> {
+    try {
+      const conditions = [];
+      if (filter.bookingId !== undefined) conditions.push(eq(disputes.bookingId, filter.bookingId));
+      if (filter.partyId !== undefined) {
+        conditions.push(or(eq(bookings.userId, filter.partyId), eq(equipmentTable.ownerId, filter.partyId)));
+      }
+      if (filter.statuses) conditions.push(inArray(disputes.status, filter.statuses));
+
+      const rows = await this.disputeQuery()
+        .where(conditions.length ? and(...conditions) : undefined)
+        .orderBy(desc(disputes.createdAt));
+      return rows.map(({ dispute, ...rest }) => ({ ...dispute, ...rest }));
+    } catch (error) {
+      console.error('Error in listDisputes:', error);
+      throw new Error('Failed to list disputes');
+    }
+  }
+
+  async listDisputeMessages(disputeId: number): Promise<DisputeMessage[]> {
+    try {
+      return await db
+        .select()
+        .from(disputeMessages)
+        .where(eq(disputeMessages.disputeId, disputeId))
+        .orderBy(disputeMessages.createdAt, disputeMessages.id);
+    } catch (error) {
+      console.error('Error in listDisputeMessages:', error);
+      throw new Error('Failed to list dispute messages');
+    }
+  }
+
+  async addDisputeMessage(
+    message: Pick<DisputeMessage, 'disputeId' | 'authorId' | 'authorRole' | 'kind' | 'message' | 'photos'>
+  ): Promise<DisputeMessage> {
+    try {
+      const [created] = await db.insert(disputeMessages).values(message).returning();
+      return created;
+    } catch (error) {
+      console.error('Error in addDisputeMessage:', error);
+      throw new Error('Failed to add dispute message');
+    }
+  }
+
+  // Change a dispute only while it is in one of `fromStatuses`. Returns
+  // undefined when it has moved on.
+  async updateDisputeState(
+    id: number,
+    fromStatuses: DisputeStatus[],
+    data: Partial<Omit<Dispute, 'id' | 'bookingId'>>
+  ): Promise<Dispute | undefined> {
+    try {
+      const [updated] = await db
+        .update(disputes)
+        .set({ ...data, updatedAt: new Date() })
+        .where(and(eq(disputes.id, id), inArray(disputes.status, fromStatuses)))
+        .returning();
+      return updated;
+    } catch (error) {
+      console.error('Error in updateDisputeState:', error);
+      throw new Error('Failed to update dispute');
+    }
+  }
+
+  async createWaitlistEntry(
+    entry: Pick<WaitlistEntry, 'userId' | 'equipmentId' | 'rentalUnit' | 'startDate' | 'endDate'>
+  ): Promise<WaitlistEntry> {
+    try {
+      const [created] = await db.insert(waitlistEntries).values(entry).returning();
+      return created;
+    } catch (error) {
+      console.error('Error in createWaitlistEntry:', error);
+      throw new Error('Failed to join waitlist');
+    }
+  }
+
+  async getWaitlistEntry(id: number): Promise<WaitlistEntry | undefined> {
+    try {
+      const [entry] = await db.select().from(waitlistEntries).where(eq(waitlistEntries.id, id));
+      return entry;
+    } catch (error) {
+      console.error('Error in getWaitlistEntry:', error);
+      throw new Error('Failed to get waitlist entry');
+    }
+  }
+
+  // A renter's waitlist entries, newest first
+  async listWaitlistEntries(userId: number): Promise<WaitlistEntryWithEquipment[]> {
+    try {
+      const rows = await db
+        .select({ entry: waitlistEntries, equipmentName: equipmentTable.name })
+        .from(waitlistEntries)
+        .leftJoin(equipmentTable, eq(equipmentTable.id, waitlistEntries.equipmentId))
+        .where(eq(waitlistEntries.userId, userId))
+        .orderBy(desc(waitlistEntries.createdAt));
+      return rows.map(({ entry, equipmentName }) => ({ ...entry, equipmentName }));
+    } catch (error) {
+      console.error('Error in listWaitlistEntries:', error);
+      throw new Error('Failed to list waitlist entries');
+    }
+  }
+
+  // Entries still waiting on an equipment, first come first served
+  async listWaitingEntries(equipmentId: number): Promise<WaitlistEntry[]> {
+    try {
+      return await db
+        .select()
+        .from(waitlistEntries)
+        .where(and(eq(waitlistEntries.equipmentId, equipmentId), eq(waitlistEntries.status, 'waiting')))
+        .orderBy(waitlistEntries.createdAt, waitlistEntries.id);
+    } catch (error) {
+      console.error('Error in listWaitingEntries:', error);
+      throw new Error('Failed to list waiting entries');
+    }
+  }
+
+  async updateWaitlistEntry(id: number, data: Partial<Omit<WaitlistEntry, 'id'>>): Promise<WaitlistEntry> {
+    try {
+      const [entry] = await db.update(waitlistEntries).set(data).where(eq(waitlistEntries.id, id)).returning();
+      if (!entry) throw new Error(`Waitlist entry ${id} not found`);
+      return entry;
+    } catch (error) {
+      console.error('Error in updateWaitlistEntry:', error);
+      throw new Error('Failed to update waitlist entry');
+    }
+  }
+
+  // Hold a waiting entry's dates for its renter until `holdExpiresAt`, as
+  // long as nothing else holds them by now. Returns undefined when they are
+  // taken or the entry is no longer waiting.
+  async offerWaitlistEntry(id: number, holdExpiresAt: Date): Promise<WaitlistEntry | undefined> {
+    try {
+      return await db.transaction(async (tx) => {
+        const [entry] = await tx.select().from(waitlistEntries).where(eq(waitlistEntries.id, id));
+        if (!entry || entry.status !== 'waiting') return undefined;
+
+        await this.assertDatesFree(tx, entry.equipmentId, entry.startDate, entry.endDate, { userId: entry.userId });
+
+        const [offered] = await tx
+          .update(waitlistEntries)
+          .set({ status: 'offered', offeredAt: new Date(), holdExpiresAt })
+          .where(and(eq(waitlistEntries.id, id), eq(waitlistEntries.status, 'waiting')))
+          .returning();
+        return offered;
+      });
+    } catch (error) {
+      if (error instanceof BookingOverlapError) return undefined;
+      console.error('Error in offerWaitlistEntry:', error);
+      throw new Error('Failed to offer waitlist entry');
+    }
+  }
+
+  // Lapse offers whose hold ran out unused and return them
+  async expireLapsedWaitlistOffers(now: Date): Promise<WaitlistEntry[]> {
+    try {
+      return await db
+        .update(waitlistEntries)
+        .set({ status: 'expired' })
+        .where(and(eq(waitlistEntries.status, 'offered'), lte(waitlistEntries.holdExpiresAt, now)))
+        .returning();
+    } catch (error) {
+      console.error('Error in expireLapsedWaitlistOffers:', error);
+      throw new Error('Failed to expire lapsed waitlist offers');
+    }
+  }
+
+  async createNotification(notification: Pick<Notification, 'userId' | 'kind' | 'message' | 'link'>): Promise<Notification> {
+    try {
+      const [created] = await db.insert(notifications).values(notification).returning();
+      return created;
+    } catch (error) {
+      console.error('Error in createNotification:', error);
+      throw new Error('Failed to create notification');
+    }
+  }
+
+  async listNotifications(userId: number, limit = 50): Promise<Notification[]> {
+    try {
+      return await db
+        .select()
+        .from(notifications)
+        .where(eq(notifications.userId, userId))
+        .orderBy(desc(notifications.createdAt))
+        .limit(limit);
+    } catch (error) {
+      console.error('Error in listNotifications:', error);
+      throw new Error('Failed to list notifications');
+    }
+  }
+
+  // Mark a user's notifications read, all of them unless `ids` are given.
+  // Returns how many were unread.
+  async markNotificationsRead(userId: number, ids?: number[]): Promise<number> {
+    try {
+      const read = await db
+        .update(notifications)
+        .set({ readAt: new Date() })
+        .where(
+          and(
+            eq(notifications.userId, userId),
+            isNull(notifications.readAt),
+            ids ? inArray(notifications.id, ids) : undefined
+          )
+        )
+        .returning({ id: notifications.id });
+      return read.length;
+    } catch (error) {
+      console.error('Error in markNotificationsRead:', error);
+      throw new Error('Failed to mark notifications read');
+    }
+  }
+
+  // A new code replaces any earlier one for the same number and purpose
+  async createPhoneOtp(otp: Pick<PhoneOtp, 'phone' | 'purpose' | 'codeHash' | 'expiresAt'>): Promise<PhoneOtp> {
+    try {
+      return await db.transaction(async (tx) => {
+        await tx
+          .update(phoneOtps)
+          .set({ consumedAt: new Date() })
+          .where(and(eq(phoneOtps.phone, otp.phone), eq(phoneOtps.purpose, otp.purpose), isNull(phoneOtps.consumedAt)));
+        const [created] = await tx.insert(phoneOtps).values(otp).returning();
+        return created;
+      });
+    } catch (error) {
+      console.error('Error in createPhoneOtp:', error);
+      throw new Error('Failed to create sign-in code');
+    }
+  }
+
+  // Codes sent to a number since `since`, newest first
+  async listPhoneOtpsSince(phone: string, since: Date): Promise<PhoneOtp[]> {
+    try {
+      return await db
+        .select()
+        .from(phoneOtps)
+        .where(and(eq(phoneOtps.phone, phone), gte(phoneOtps.createdAt, since)))
+        .orderBy(desc(phoneOtps.createdAt));
+    } catch (error) {
+      console.error('Error in listPhoneOtpsSince:', error);
+      throw new Error('Failed to list sign-in codes');
+    }
+  }
+
+  async getActivePhoneOtp(phone: string, purpose: OtpPurpose, now: Date): Promise<PhoneOtp | undefined> {
+    try {
+      const [otp] = await db
+        .select()
+        .from(phoneOtps)
+        .where(
+          and(
+            eq(phoneOtps.phone, phone),
+            eq(phoneOtps.purpose, purpose),
+            isNull(phoneOtps.consumedAt),
+            gt(phoneOtps.expiresAt, now)
+          )
+        )
+        .orderBy(desc(phoneOtps.createdAt))
+        .limit(1);
+      return otp;
+    } catch (error) {
+      console.error('Error in getActivePhoneOtp:', error);
+      throw new Error('Failed to fetch sign-in code');
+    }
+  }
+
+  // Count a guess against a code. Returns undefined once the code has had
+  // `maxAttempts` guesses or is no longer open.
+  async recordPhoneOtpAttempt(id: number, maxAttempts: number): Promise<PhoneOtp | undefined> {
+    try {
+      const [otp] = await db
+        .update(phoneOtps)
+        .set({ attempts: sql`${phoneOtps.attempts} + 1` })
+        .where(and(eq(phoneOtps.id, id), isNull(phoneOtps.consumedAt), lt(phoneOtps.attempts, maxAttempts)))
+        .returning();
+      return otp;
+    } catch (error) {
+      console.error('Error in recordPhoneOtpAttempt:', error);
+      throw new Error('Failed to record sign-in attempt');
+    }
+  }
+
+  // Use up a code. Returns undefined if it was already used or replaced.
+  async consumePhoneOtp(id: number): Promise<PhoneOtp | undefined> {
+    try {
+      const [otp] = await db
+        .update(phoneOtps)
+        .set({ consumedAt: new Date() })
+        .where(and(eq(phoneOtps.id, id), isNull(phoneOtps.consumedAt)))
+        .returning();
+      return otp;
+    } catch (error) {
+      console.error('Error in consumePhoneOtp:', error);
+      throw new Error('Failed to use sign-in code');
+    }
+  }
+
+  async createSmsMessage(message: Pick<SmsMessage, 'phone' | 'body' | 'transport'>): Promise<SmsMessage> {
+    try {
+      const [created] = await db.insert(smsMessages).values(message).returning();
+      return created;
+    } catch (error) {
+      console.error('Error in createSmsMessage:', error);
+      throw new Error('Failed to record SMS');
+    }
+  }
+
+  // Update a booking only if it is still in `fromStatus`, and record the
+  // transition in the same transaction. Returns undefined when the booking
+  // was moved by someone else in the meantime. A move that makes the booking
+  // hold its dates again fails with BookingOverlapError if they were taken.
+  async applyBookingTransition(
+    id: number,
+    fromStatus: string,
+    data: Partial<Booking>,
+    entry: InsertBookingStatusHistory
+  ): Promise<Booking | undefined> {
+    const reclaimsDates = data.status !== undefined &&
+      (activeBookingStatuses as string[]).includes(data.status) &&
+      !(activeBookingStatuses as string[]).includes(fromStatus);
+
+    try {
+      return await db.transaction(async (tx) => {
+        if (reclaimsDates) {
+          const [current] = await tx.select().from(bookings).where(eq(bookings.id, id));
+          if (!current) return undefined;
+          await this.assertDatesFree(tx, current.equipmentId, current.startDate, current.endDate, {
+            bookingId: id,
+            userId: current.userId,
+          });
+        }
+
+        const [booking] = await tx
+          .update(bookings)
+          .set({
+            ...data,
+            lastStatusUpdate: new Date()
+          })
+          .where(and(eq(bookings.id, id), eq(bookings.status, fromStatus)))
+          .returning();
+
+        if (!booking) return undefined;
+
+        await tx.insert(bookingStatusHistory).values(entry);
+        await this.settlePromoRedemption(tx, id, fromStatus, booking.status);
+        return booking;
+      });
+    } catch (error) {
+      if (error instanceof BookingOverlapError) throw error;
+      if (isExclusionViolation(error)) {
+        const booking = await this.getBooking(id);
+        throw new BookingOverlapError(booking?.equipmentId ?? 0);
+      }
+      console.error('Error in applyBookingTransition:', error);
+      throw new Error('Failed to update booking status');
+    }
+  }
+
+  // A promo code is used for good once its booking is paid, and freed again
+  // if the booking lapses or is cancelled before payment
+  private async settlePromoRedemption(tx: Transaction, bookingId: number, fromStatus: string, toStatus: string) {
+    let status: PromoRedemption['status'] | undefined;
+    if (toStatus === 'paid') {
+      status = 'redeemed';
+    } else if ((toStatus === 'expired' || toStatus === 'cancelled') &&
+      (unpaidBookingStatuses as string[]).includes(fromStatus)) {
+      status = 'released';
+    }
+    if (!status) return;
+
+    await tx
+      .update(promoRedemptions)
+      .set({ status, updatedAt: new Date() })
+      .where(and(eq(promoRedemptions.bookingId, bookingId), eq(promoRedemptions.status, 'applied')));
+  }
+
+  async recordBookingStatus(entry: InsertBookingStatusHistory): Promise<BookingStatusHistory> {
+    try {
+      const [record] = await db
+        .insert(bookingStatusHistory)
+        .values(entry)
+        .returning();
+      return record;
+    } catch (error) {
+      console.error('Error in recordBookingStatus:', error);
+      throw new Error('Failed to record booking status');
+    }
+  }
+
+  async getBookingStatusHistory(bookingId: number): Promise<BookingStatusHistory[]> {
+    try {
+      return await db
+        .select()
+        .from(bookingStatusHistory)
+        .where(eq(bookingStatusHistory.bookingId, bookingId))
+        .orderBy(bookingStatusHistory.createdAt);
+    } catch (error) {
+      console.error('Error in getBookingStatusHistory:', error);
+      throw new Error('Failed to fetch booking status history');
+    }
+  }
+
+  async createRefund(refund: InsertRefund): Promise<Refund> {
+    try {
+      const [record] = await db
+        .insert(refunds)
+        .values(refund)
+        .returning();
+      return record;
+    } catch (error) {
+      console.error('Error in createRefund:', error);
+      throw new Error('Failed to create refund');
+    }
+  }
+
+  async updateRefund(id: number, data: Partial<InsertRefund>): Promise<Refund> {
+    try {
+      const [record] = await db
+        .update(refunds)
+        .set({
+          ...data,
+          updatedAt: new Date()
+        })
+        .where(eq(refunds.id, id))
+        .returning();
+      if (!record) throw new Error('Refund not found');
+      return record;
+    } catch (error) {
+      console.error('Error in updateRefund:', error);
+      throw new Error('Failed to update refund');
+    }
+  }
+
+  async getRefund(id: number): Promise<Refund | undefined> {
+    try {
+      const [record] = await db.select().from(refunds).where(eq(refunds.id, id));
+      return record;
+    } catch (error) {
+      console.error('Error in getRefund:', error);
+      throw new Error('Failed to fetch refund');
+    }
+  }
+
+  async getRefundByRazorpayId(razorpayRefundId: string): Promise<Refund | undefined> {
+    try {
+      const [record] = await db
+        .select()
+        .from(refunds)
+        .where(eq(refunds.razorpayRefundId, razorpayRefundId));
+      return record;
+    } catch (error) {
+      console.error('Error in getRefundByRazorpayId:', error);
+      throw new Error('Failed to fetch refund');
+    }
+  }
+
+  async listRefunds(bookingId: number): Promise<Refund[]> {
+    try {
+      return await db
+        .select()
+        .from(refunds)
+        .where(eq(refunds.bookingId, bookingId))
+        .orderBy(refunds.createdAt);
+    } catch (error) {
+      console.error('Error in listRefunds:', error);
+      throw new Error('Failed to list refunds');
+    }
+  }
+
+  // Insert a webhook event unless one with the same provider event id exists
+  async recordPaymentEvent(event: InsertPaymentEvent): Promise<{ event: PaymentEvent; duplicate: boolean }> {
+    try {
+      const [inserted] = await db
+        .insert(paymentEvents)
+        .values(event)
+        .onConflictDoNothing({ target: paymentEvents.eventId })
+        .returning();
+
+      if (inserted) {
+        return { event: inserted, duplicate: false };
+      }
+
+      const [existing] = await db
+        .select()
+        .from(paymentEvents)
+        .where(eq(paymentEvents.eventId, event.eventId));
+      return { event: existing, duplicate: true };
+    } catch (error) {
+      console.error('Error in recordPaymentEvent:', error);
+      throw new Error('Failed to record payment event');
+    }
+  }
+
+  async getPaymentEvent(id: number): Promise<PaymentEvent | undefined> {
+    try {
+      const [event] = await db
+        .select()
+        .from(paymentEvents)
+        .where(eq(paymentEvents.id, id));
+      return event;
+    } catch (error) {
+      console.error('Error in getPaymentEvent:', error);
+      throw new Error('Failed to fetch payment event');
+    }
+  }
+
+  async updatePaymentEvent(
+    id: number,
+    data: Partial<InsertPaymentEvent> & { processedAt?: Date | null }
+  ): Promise<PaymentEvent> {
+    try {
+      const [event] = await db
+        .update(paymentEvents)
+        .set(data)
+        .where(eq(paymentEvents.id, id))
+        .returning();
+      if (!event) throw new Error('Payment event not found');
+      return event;
+    } catch (error) {
+      console.error('Error in updatePaymentEvent:', error);
+      throw new Error('Failed to update payment event');
+    }
+  }
+
+  async listPaymentEvents(limit = 100): Promise<PaymentEvent[]> {
+    try {
+      return await db
+        .select()
+        .from(paymentEvents)
+        .orderBy(desc(paymentEvents.receivedAt))
+        .limit(limit);
+    } catch (error) {
+      console.error('Error in listPaymentEvents:', error);
+      throw new Error('Failed to list payment events');
+    }
+  }
+
+  // Blackouts for an equipment, optionally only those overlapping a date range
+  async listBlackouts(equipmentId: number, startDate?: Date, endDate?: Date): Promise<EquipmentBlackout[]> {
+    try {
+      const conditions = [eq(equipmentBlackouts.equipmentId, equipmentId)];
+      if (startDate) conditions.push(gte(equipmentBlackouts.endDate, startDate));
+      if (endDate) conditions.push(lte(equipmentBlackouts.startDate, endDate));
+
+      return await db
+        .select()
+        .from(equipmentBlackouts)
+        .where(and(...conditions))
+        .orderBy(equipmentBlackouts.startDate);
+    } catch (error) {
+      console.error('Error in listBlackouts:', error);
+      throw new Error('Failed to list equipment blackouts');
+    }
+  }
+
+  async getBlackout(id: number): Promise<EquipmentBlackout | undefined> {
+    try {
+      const [blackout] = await db
+        .select()
+        .from(equipmentBlackouts)
+        .where(eq(equipmentBlackouts.id, id));
+      return blackout;
+    } catch (error) {
+      console.error('Error in getBlackout:', error);
+      throw new Error('Failed to get equipment blackout');
+    }
+  }
+
+  async createBlackout(blackout: InsertEquipmentBlackout): Promise<EquipmentBlackout> {
+    try {
+      const [created] = await db
+        .insert(equipmentBlackouts)
+        .values(blackout)
+        .returning();
+      return created;
+    } catch (error) {
+      console.error('Error in createBlackout:', error);
+      throw new Error('Failed to create equipment blackout');
+    }
+  }
+
+  async updateBlackout(id: number, data: Partial<InsertEquipmentBlackout>): Promise<EquipmentBlackout> {
+    try {
+      const [updated] = await db
+        .update(equipmentBlackouts)
+        .set(data)
+        .where(eq(equipmentBlackouts.id, id))
+        .returning();
+
+      if (!updated) {
+        throw new Error('Blackout not found');
+      }
+      return updated;
+    } catch (error) {
+      console.error('Error in updateBlackout:', error);
+      throw new Error('Failed to update equipment blackout');
+    }
+  }
+
+  async deleteBlackout(id: number): Promise<void> {
+    try {
+      await db.delete(equipmentBlackouts).where(eq(equipmentBlackouts.id, id));
+    } catch (error) {
+      console.error('Error in deleteBlackout:', error);
+      throw new Error('Failed to delete equipment blackout');
+    }
+  }
+
+  async listPricingRules(equipmentId: number): Promise<PricingRule[]> {
+    try {
+      return await db
+        .select()
+        .from(pricingRules)
+        .where(eq(pricingRules.equipmentId, equipmentId))
+        .orderBy(pricingRules.kind, pricingRules.id);
+    } catch (error) {
+      console.error('Error in listPricingRules:', error);
+      throw new Error('Failed to list pricing rules');
+    }
+  }
+
+  async getPricingRule(id: number): Promise<PricingRule | undefined> {
+    try {
+      const [rule] = await db
+        .select()
+        .from(pricingRules)
+        .where(eq(pricingRules.id, id));
+      return rule;
+    } catch (error) {
+      console.error('Error in getPricingRule:', error);
+      throw new Error('Failed to get pricing rule');
+    }
+  }
+
+  async createPricingRule(rule: InsertPricingRule): Promise<PricingRule> {
+    try {
+      const [created] = await db
+        .insert(pricingRules)
+        .values(rule)
+        .returning();
+      return created;
+    } catch (error) {
+      console.error('Error in createPricingRule:', error);
+      throw new Error('Failed to create pricing rule');
+    }
+  }
+
+  async updatePricingRule(id: number, data: Partial<InsertPricingRule>): Promise<PricingRule> {
+    try {
+      const [updated] = await db
+        .update(pricingRules)
+        .set(data)
+        .where(eq(pricingRules.id, id))
+        .returning();
+
+      if (!updated) {
+        throw new Error('Pricing rule not found');
+      }
+      return updated;
+    } catch (error) {
+      console.error('Error in updatePricingRule:', error);
+      throw new Error('Failed to update pricing rule');
+    }
+  }
+
+  async deletePricingRule(id: number): Promise<void> {
+    try {
+      await db.delete(pricingRules).where(eq(pricingRules.id, id));
+    } catch (error) {
+      console.error('Error in deletePricingRule:', error);
+      throw new Error('Failed to delete pricing rule');
+    }
+  }
+
+  async listPromoCodes(): Promise<PromoCodeWithUsage[]> {
+    try {
+      const rows = await db
+        .select({
+          promo: promoCodes,
+          uses: sql<number>`count(${promoRedemptions.id}) filter (where ${promoRedemptions.status} in ('applied', 'redeemed'))`.mapWith(Number),
+          discountGiven: sql<number>`coalesce(sum(${promoRedemptions.discountAmount}) filter (where ${promoRedemptions.status} = 'redeemed'), 0)`.mapWith(Number),
+        })
+        .from(promoCodes)
+        .leftJoin(promoRedemptions, eq(promoRedemptions.promoCodeId, promoCodes.id))
+        .groupBy(promoCodes.id)
+        .orderBy(desc(promoCodes.createdAt));
+
+      return rows.map(({ promo, uses, discountGiven }) => ({ ...promo, uses, discountGiven }));
+    } catch (error) {
+      console.error('Error in listPromoCodes:', error);
+      throw new Error('Failed to list promo codes');
+    }
+  }
+
+  async getPromoCode(id: number): Promise<PromoCode | undefined> {
+    try {
+      const [promo] = await db.select().from(promoCodes).where(eq(promoCodes.id, id));
+      return promo;
+    } catch (error) {
+      console.error('Error in getPromoCode:', error);
+      throw new Error('Failed to get promo code');
+    }
+  }
+
+  async getPromoCodeByCode(code: string): Promise<PromoCode | undefined> {
+    try {
+      const [promo] = await db.select().from(promoCodes).where(eq(promoCodes.code, code.toUpperCase()));
+      return promo;
+    } catch (error) {
+      console.error('Error in getPromoCodeByCode:', error);
+      throw new Error('Failed to get promo code');
+    }
+  }
+
+  async createPromoCode(promo: InsertPromoCode): Promise<PromoCode> {
+    try {
+      const [created] = await db
+        .insert(promoCodes)
+        .values(promo)
+        .returning();
+      return created;
+    } catch (error) {
+      console.error('Error in createPromoCode:', error);
+      throw new Error('Failed to create promo code');
+    }
+  }
+
+  async updatePromoCode(id: number, data: Partial<InsertPromoCode>): Promise<PromoCode> {
+    try {
+      const [updated] = await db
+        .update(promoCodes)
+        .set(data)
+        .where(eq(promoCodes.id, id))
+        .returning();
+
+      if (!updated) {
+        throw new Error('Promo code not found');
+      }
+      return updated;
+    } catch (error) {
+      console.error('Error in updatePromoCode:', error);
+      throw new Error('Failed to update promo code');
+    }
+  }
+
+  async listPromoRedemptions(promoCodeId: number): Promise<PromoRedemption[]> {
+    try {
+      return await db
+        .select()
+        .from(promoRedemptions)
+        .where(eq(promoRedemptions.promoCodeId, promoCodeId))
+        .orderBy(desc(promoRedemptions.createdAt));
+    } catch (error) {
+      console.error('Error in listPromoRedemptions:', error);
+      throw new Error('Failed to list promo redemptions');
+    }
+  }
+
+  // Put a promo code on an unpaid booking, replacing any code already on it.
+  // The code row is locked so its usage limits hold under concurrent use.
+  // Returns undefined if the booking is no longer unpaid; throws
+  // PromoCodeLimitError when the code has been used up.
+  async applyPromoRedemption(bookingId: number, promo: PromoCode, discountAmount: number): Promise<Booking | undefined> {
+    try {
+      return await db.transaction(async (tx) => {
+        await tx.select({ id: promoCodes.id }).from(promoCodes).where(eq(promoCodes.id, promo.id)).for('update');
+
+        const [booking] = await tx.select().from(bookings).where(eq(bookings.id, bookingId)).for('update');
+        if (!booking || !(unpaidBookingStatuses as string[]).includes(booking.status)) return undefined;
+
+        await tx
+          .update(promoRedemptions)
+          .set({ status: 'released', updatedAt: new Date() })
+          .where(and(eq(promoRedemptions.bookingId, bookingId), eq(promoRedemptions.status, 'applied')));
+
+        const uses = await tx
+          .select({ userId: promoRedemptions.userId })
+          .from(promoRedemptions)
+          .where(and(
+            eq(promoRedemptions.promoCodeId, promo.id),
+            inArray(promoRedemptions.status, ['applied', 'redeemed'])
+          ));
+        if (promo.maxRedemptions !== null && uses.length >= promo.maxRedemptions) {
+          throw new PromoCodeLimitError('total');
+        }
+        if (promo.maxRedemptionsPerUser !== null &&
+          uses.filter(use => use.userId === booking.userId).length >= promo.maxRedemptionsPerUser) {
+          throw new PromoCodeLimitError('user');
+        }
+
+        // Always leave something to charge
+        const subtotal = booking.totalPrice + booking.discountAmount;
+        const discount = Math.min(discountAmount, subtotal - 1);
+
+        await tx.insert(promoRedemptions).values({
+          promoCodeId: promo.id,
+          bookingId,
+          userId: booking.userId,
+          discountAmount: discount,
+        });
+
+        const [updated] = await tx
+          .update(bookings)
+          .set({ totalPrice: subtotal - discount, discountAmount: discount, promoCodeId: promo.id })
+          .where(eq(bookings.id, bookingId))
+          .returning();
+        return updated;
+      });
+    } catch (error) {
+      if (error instanceof PromoCodeLimitError) throw error;
+      console.error('Error in applyPromoRedemption:', error);
+      throw new Error('Failed to apply promo code');
+    }
+  }
+
+  // Take the promo code off an unpaid booking and restore its full price
+  async releasePromoRedemption(bookingId: number): Promise<Booking | undefined> {
+    try {
+      return await db.transaction(async (tx) => {
+        const [booking] = await tx.select().from(bookings).where(eq(bookings.id, bookingId)).for('update');
+        if (!booking || !(unpaidBookingStatuses as string[]).includes(booking.status)) return undefined;
+
+        await tx
+          .update(promoRedemptions)
+          .set({ status: 'released', updatedAt: new Date() })
+          .where(and(eq(promoRedemptions.bookingId, bookingId), eq(promoRedemptions.status, 'applied')));
+
+        const [updated] = await tx
+          .update(bookings)
+          .set({ totalPrice: booking.totalPrice + booking.discountAmount, discountAmount: 0, promoCodeId: null })
+          .where(eq(bookings.id, bookingId))
+          .returning();
+        return updated;
+      });
+    } catch (error) {
+      console.error('Error in releasePromoRedemption:', error);
+      throw new Error('Failed to remove promo code');
+    }
+  }
+
+  async getInvoiceByBooking(bookingId: number): Promise<Invoice | undefined> {
+    try {
+      const [invoice] = await db.select().from(invoices).where(eq(invoices.bookingId, bookingId));
+      return invoice;
+    } catch (error) {
+      console.error('Error in getInvoiceByBooking:', error);
+      throw new Error('Failed to get invoice');
+    }
+  }
+
+  // Issue the booking's invoice under the next number of its financial year.
+  // The counter moves in the same transaction, so numbers have no gaps, and
+  // the booking row lock makes a second call return the first invoice.
+  async createInvoice(
+    invoice: Omit<InsertInvoice, 'invoiceNumber' | 'sequence'>,
+    formatNumber: (financialYear: string, sequence: number) => string,
+  ): Promise<Invoice> {
+    try {
+      return await db.transaction(async (tx) => {
+        await tx.select({ id: bookings.id }).from(bookings).where(eq(bookings.id, invoice.bookingId)).for('update');
+
+        const [existing] = await tx.select().from(invoices).where(eq(invoices.bookingId, invoice.bookingId));
+        if (existing) return existing;
+
+        const [counter] = await tx
+          .insert(invoiceCounters)
+          .values({ financialYear: invoice.financialYear, lastSequence: 1 })
+          .onConflictDoUpdate({
+            target: invoiceCounters.financialYear,
+            set: { lastSequence: sql`${invoiceCounters.lastSequence} + 1` },
+          })
+          .returning();
+
+        const [created] = await tx
+          .insert(invoices)
+          .values({
+            ...invoice,
+            sequence: counter.lastSequence,
+            invoiceNumber: formatNumber(invoice.financialYear, counter.lastSequence),
+          })
+          .returning();
+        return created;
+      });
+    } catch (error) {
+      console.error('Error in createInvoice:', error);
+      throw new Error('Failed to create invoice');
+    }
+  }
+
+  // Insert a transaction and its entries unless one with the same reference
+  // was already posted. Throws if the entries do not balance.
+  private async insertLedgerTransaction(
+    tx: Transaction,
+    transaction: InsertLedgerTransaction,
+    entries: NewLedgerEntry[],
+  ): Promise<LedgerTransaction | undefined> {
+    const balance = entries.reduce((sum, entry) => sum + entry.amount, 0);
+    if (balance !== 0) {
+      throw new Error(`Ledger transaction ${transaction.reference} is off balance by ${balance}`);
+    }
+
+    const [posted] = await tx
+      .insert(ledgerTransactions)
+      .values(transaction)
+      .onConflictDoNothing({ target: ledgerTransactions.reference })
+      .returning();
+    if (!posted) return undefined;
+
+    await tx.insert(ledgerEntries).values(entries.map(entry => ({
+      ...entry,
+      transactionId: posted.id,
+      bookingId: entry.bookingId ?? transaction.bookingId ?? null,
+    })));
+    return posted;
+  }
+
+  // Returns undefined when the reference was already posted
+  async postLedgerTransaction(transaction: InsertLedgerTransaction, entries: NewLedgerEntry[]): Promise<LedgerTransaction | undefined> {
+    try {
+      return await db.transaction(tx => this.insertLedgerTransaction(tx, transaction, entries));
+    } catch (error) {
+      console.error('Error in postLedgerTransaction:', error);
+      throw new Error('Failed to post ledger transaction');
+    }
+  }
+
+  async listLedgerEntries(reference: string): Promise<LedgerEntry[]> {
+    try {
+      const rows = await db
+        .select({ entry: ledgerEntries })
+        .from(ledgerEntries)
+        .innerJoin(ledgerTransactions, eq(ledgerEntries.transactionId, ledgerTransactions.id))
+        .where(eq(ledgerTransactions.reference, reference));
+      return rows.map(row => row.entry);
+    } catch (error) {
+      console.error('Error in listLedgerEntries:', error);
+      throw new Error('Failed to list ledger entries');
+    }
+  }
+
+  async listOwnerLedger(ownerId: number): Promise<OwnerLedgerEntry[]> {
+    try {
+      const rows = await db
+        .select({
+          entry: ledgerEntries,
+          kind: ledgerTransactions.kind,
+          memo: ledgerTransactions.memo,
+          bookingStatus: bookings.status,
+        })
+        .from(ledgerEntries)
+        .innerJoin(ledgerTransactions, eq(ledgerEntries.transactionId, ledgerTransactions.id))
+        .leftJoin(bookings, eq(ledgerEntries.bookingId, bookings.id))
+        .where(and(eq(ledgerEntries.account, 'owner_payable'), eq(ledgerEntries.ownerId, ownerId)))
+        .orderBy(desc(ledgerEntries.createdAt), desc(ledgerEntries.id));
+      return rows.map(row => ({ ...row.entry, kind: row.kind, memo: row.memo, bookingStatus: row.bookingStatus }));
+    } catch (error) {
+      console.error('Error in listOwnerLedger:', error);
+      throw new Error('Failed to list owner ledger');
+    }
+  }
+
+  // What each owner is owed on bookings that are over and not yet paid out.
+  // Owner balances are credits, so the amounts are negated.
+  async listPayableBalances(readyStatuses: string[]): Promise<{ ownerId: number; amount: number }[]> {
+    try {
+      const rows = await db
+        .select({
+          ownerId: ledgerEntries.ownerId,
+          amount: sql<number>`-SUM(${ledgerEntries.amount})::int`,
+        })
+        .from(ledgerEntries)
+        .innerJoin(bookings, eq(ledgerEntries.bookingId, bookings.id))
+        .where(and(
+          eq(ledgerEntries.account, 'owner_payable'),
+          isNull(ledgerEntries.payoutBatchId),
+          inArray(bookings.status, readyStatuses),
+        ))
+        .groupBy(ledgerEntries.ownerId);
+      return rows
+        .filter((row): row is { ownerId: number; amount: number } => row.ownerId !== null)
+        .map(row => ({ ownerId: row.ownerId, amount: Number(row.amount) }));
+    } catch (error) {
+      console.error('Error in listPayableBalances:', error);
+      throw new Error('Failed to list payable balances');
+    }
+  }
+
+  // Pay out every owner's balance on bookings that are over. The entries
+  // paid out are tagged with the batch and the transfer is posted against
+  // the gateway account in the same transaction. Owners whose balance is
+  // not positive, or who have no bank details, are left for a later batch.
+  async createPayoutBatch(createdBy: number, readyStatuses: string[]): Promise<PayoutBatchResult | undefined> {
+    try {
+      return await db.transaction(async (tx) => {
+        const eligible = await tx
+          .select({ id: ledgerEntries.id, ownerId: ledgerEntries.ownerId, amount: ledgerEntries.amount })
+          .from(ledgerEntries)
+          .innerJoin(bookings, eq(ledgerEntries.bookingId, bookings.id))
+          .where(and(
+            eq(ledgerEntries.account, 'owner_payable'),
+            isNull(ledgerEntries.payoutBatchId),
+            inArray(bookings.status, readyStatuses),
+          ))
+          .for('update', { of: ledgerEntries });
+
+        const byOwner = new Map<number, { entryIds: number[]; amount: number }>();
+        for (const entry of eligible) {
+          if (entry.ownerId === null) continue;
+          const owner = byOwner.get(entry.ownerId) ?? { entryIds: [], amount: 0 };
+          owner.entryIds.push(entry.id);
+          owner.amount -= entry.amount;
+          byOwner.set(entry.ownerId, owner);
+        }
+
+        const ownerIds = Array.from(byOwner.entries())
+          .filter(([, owner]) => owner.amount > 0)
+          .map(([ownerId]) => ownerId);
+        if (ownerIds.length === 0) return undefined;
+
+        const owners = await tx.select().from(users).where(inArray(users.id, ownerIds));
+        const payable = owners.filter(owner => owner.payoutAccountName && owner.payoutAccountNumber && owner.payoutIfsc);
+        const skippedOwnerIds = ownerIds.filter(id => !payable.some(owner => owner.id === id));
+        if (payable.length === 0) return undefined;
+
+        const totalAmount = payable.reduce((sum, owner) => sum + byOwner.get(owner.id)!.amount, 0);
+        const [batch] = await tx.insert(payoutBatches).values({ totalAmount, createdBy }).returning();
+
+        const created = await tx.insert(payouts).values(payable.map(owner => ({
+          batchId: batch.id,
+          ownerId: owner.id,
+          amount: byOwner.get(owner.id)!.amount,
+          accountName: owner.payoutAccountName!,
+          accountNumber: owner.payoutAccountNumber!,
+          ifsc: owner.payoutIfsc!,
+        }))).returning();
+
+        await tx
+          .update(ledgerEntries)
+          .set({ payoutBatchId: batch.id })
+          .where(inArray(ledgerEntries.id, payable.flatMap(owner => byOwner.get(owner.id)!.entryIds)));
+
+        await this.insertLedgerTransaction(tx, {
+          reference: `payout:${batch.id}`,
+          kind: 'payout',
+          memo: `Payout batch #${batch.id}`,
+        }, [
+          ...created.map(payout => ({
+            account: 'owner_payable',
+            ownerId: payout.ownerId,
+            amount: payout.amount,
+            payoutBatchId: batch.id,
+          })),
+          { account: 'gateway', amount: -totalAmount, payoutBatchId: batch.id },
+        ]);
+
+        return { batch, payouts: created, skippedOwnerIds };
+      });
+    } catch (error) {
+      console.error('Error in createPayoutBatch:', error);
+      throw new Error('Failed to create payout batch');
+    }
+  }
+
+  async listPayoutBatches(): Promise<PayoutBatch[]> {
+    try {
+      return await db.select().from(payoutBatches).orderBy(desc(payoutBatches.createdAt));
+    } catch (error) {
+      console.error('Error in listPayoutBatches:', error);
+      throw new Error('Failed to list payout batches');
+    }
+  }
+
+  async getPayoutBatch(id: number): Promise<PayoutBatch | undefined> {
+    try {
+      const [batch] = await db.select().from(payoutBatches).where(eq(payoutBatches.id, id));
+      return batch;
+    } catch (error) {
+      console.error('Error in getPayoutBatch:', error);
+      throw new Error('Failed to get payout batch');
+    }
+  }
+
+  async listPayouts(batchId: number): Promise<Payout[]> {
+    try {
+      return await db.select().from(payouts).where(eq(payouts.batchId, batchId)).orderBy(payouts.id);
+    } catch (error) {
+      console.error('Error in listPayouts:', error);
+      throw new Error('Failed to list payouts');
+    }
+  }
+
+  // Bookings with a payment order but no recorded payment, in the given states
+  async listBookingsToReconcile(statuses: string[], createdAfter: Date): Promise<Booking[]> {
+    try {
+      return await db
+        .select()
+        .from(bookings)
+        .where(
+          and(
+            inArray(bookings.status, statuses),
+            isNotNull(bookings.razorpayOrderId),
+            isNull(bookings.razorpayPaymentId),
+            gte(bookings.createdAt, createdAfter)
+          )
+        )
+        .orderBy(bookings.id);
+    } catch (error) {
+      console.error('Error in listBookingsToReconcile:', error);
+      throw new Error('Failed to list bookings to reconcile');
+    }
+  }
+
+  async createReconciliationRun(run: Omit<ReconciliationRun, 'id' | 'finishedAt'>): Promise<ReconciliationRun> {
+    try {
+      const [created] = await db.insert(reconciliationRuns).values(run).returning();
+      return created;
+    } catch (error) {
+      console.error('Error in createReconciliationRun:', error);
+      throw new Error('Failed to record reconciliation run');
+    }
+  }
+
+  async listReconciliationRuns(limit = 20): Promise<ReconciliationRun[]> {
+    try {
+      return await db
+        .select()
+        .from(reconciliationRuns)
+        .orderBy(desc(reconciliationRuns.finishedAt))
+        .limit(limit);
+    } catch (error) {
+      console.error('Error in listReconciliationRuns:', error);
+      throw new Error('Failed to list reconciliation runs');
+    }
+  }
+
   async createReview(review: InsertReview): Promise<Review> {
     try {
       const reviewData = {
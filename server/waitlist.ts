@@ -0,0 +1,126 @@
+import { storage } from "./storage";
+import { resolveRentalPeriod } from "./availability";
+import { notify } from "./notifications";
+import type { Equipment, RentalUnit, WaitlistEntry } from "@shared/schema";
+
+export class WaitlistError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WaitlistError';
+  }
+}
+
+const DEFAULT_OFFER_MINUTES = 60;
+
+// How long freed dates stay held for the renter they are offered to, from
+// WAITLIST_HOLD_MINUTES
+export function offerWindowMs(): number {
+  const minutes = Number(process.env.WAITLIST_HOLD_MINUTES);
+  return (Number.isFinite(minutes) && minutes > 0 ? minutes : DEFAULT_OFFER_MINUTES) * 60 * 1000;
+}
+
+// Wait for dates on an equipment that cannot be booked right now. The
+// dates are resolved the way a booking's are, so an offer holds exactly
+// what the renter would book.
+export async function joinWaitlist(
+  userId: number,
+  equipment: Equipment,
+  rentalUnit: RentalUnit,
+  start: Date,
+  end: Date,
+): Promise<WaitlistEntry> {
+  if (equipment.ownerId === userId) {
+    throw new WaitlistError('You cannot join the waitlist for your own equipment');
+  }
+  if (!equipment.availability) {
+    throw new WaitlistError('This listing is currently paused by its owner');
+  }
+
+  const { startDate, endDate } = resolveRentalPeriod(equipment, rentalUnit, start, end);
+  if (await storage.checkEquipmentAvailability(equipment.id, startDate, endDate, userId)) {
+    throw new WaitlistError('These dates are free. Book them now instead.');
+  }
+
+  const existing = await storage.listWaitlistEntries(userId);
+  if (existing.some(entry => entry.equipmentId === equipment.id &&
+      (entry.status === 'waiting' || entry.status === 'offered') &&
+      entry.startDate.getTime() === startDate.getTime() && entry.endDate.getTime() === endDate.getTime())) {
+    throw new WaitlistError('You are already on the waitlist for these dates');
+  }
+
+  const entry = await storage.createWaitlistEntry({ userId, equipmentId: equipment.id, rentalUnit, startDate, endDate });
+  return entry;
+}
+
+// Leave the waitlist. An offer given up early goes to the next in line.
+export async function leaveWaitlist(entry: WaitlistEntry): Promise<WaitlistEntry> {
+  if (entry.status !== 'waiting' && entry.status !== 'offered') {
+    throw new WaitlistError(`This waitlist entry is already ${entry.status}`);
+  }
+
+  const cancelled = await storage.updateWaitlistEntry(entry.id, { status: 'cancelled' });
+  if (entry.status === 'offered') {
+    await offerFreedDates(entry.equipmentId);
+  }
+  return cancelled;
+}
+
+// Offer an equipment's freed dates to the renters waiting for them, in the
+// order they joined. Each offer holds its dates, so later entries wanting
+// the same dates keep waiting. Entries whose dates have passed are expired.
+// Returns the number of offers made.
+export async function offerFreedDates(equipmentId: number, now: Date = new Date()): Promise<number> {
+  const waiting = await storage.listWaitingEntries(equipmentId);
+  const equipment = waiting.length > 0 ? await storage.getEquipment(equipmentId) : undefined;
+  if (!equipment?.availability) return 0;
+
+  let offered = 0;
+  for (const entry of waiting) {
+    if (entry.startDate <= now) {
+      await storage.updateWaitlistEntry(entry.id, { status: 'expired' });
+      continue;
+    }
+    if (!await storage.checkEquipmentAvailability(equipmentId, entry.startDate, entry.endDate, entry.userId)) {
+      continue;
+    }
+
+    const holdExpiresAt = new Date(now.getTime() + offerWindowMs());
+    const minutes = Math.round(offerWindowMs() / 60000);
+    const offer = await storage.offerWaitlistEntry(entry.id, holdExpiresAt);
+    if (!offer) continue;
+
+    offered++;
+    await notify(
+      entry.userId,
+      'waitlist_offer',
+      `The dates you were waiting for on ${equipment.name} are free. They are held for you alone for the next ${minutes} minutes.`,
+      `/equipment/${equipmentId}`,
+    );
+  }
+  return offered;
+}
+
+// Lapse offers nobody booked in time and pass their dates on. Returns the
+// number of offers that lapsed.
+export async function expireLapsedOffers(now: Date = new Date()): Promise<number> {
+  const lapsed = await storage.expireLapsedWaitlistOffers(now);
+
+  for (const entry of lapsed) {
+    await notify(
+      entry.userId,
+      'waitlist_offer_expired',
+      'Your hold on the dates you were waiting for has run out, so they went to the next person in line.',
+      `/equipment/${entry.equipmentId}`,
+    );
+  }
+
+  const equipmentIds = Array.from(new Set(lapsed.map(entry => entry.equipmentId)));
+  for (const equipmentId of equipmentIds) {
+    try {
+      await offerFreedDates(equipmentId, now);
+    } catch (error) {
+      console.error(`Failed to offer freed dates on equipment ${equipmentId}:`, error);
+    }
+  }
+  return lapsed.length;
+}
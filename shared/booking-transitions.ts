@@ -0,0 +1,33 @@
+import { bookingStatuses, type BookingStatus } from "./schema";
+
+// Legal transitions for each booking state. Terminal states map to an empty list.
+const transitions: Record<BookingStatus, BookingStatus[]> = {
+  pending: ['requested', 'awaiting_payment', 'payment_failed', 'cancelled', 'expired'],
+  // Request-to-book equipment: the owner approves before payment is taken
+  requested: ['awaiting_payment', 'declined', 'cancelled'],
+  declined: [],
+  awaiting_payment: ['paid', 'payment_failed', 'cancelled', 'expired'],
+  // A capture can still arrive after a failed attempt when the renter retries
+  payment_failed: ['awaiting_payment', 'paid', 'cancelled', 'expired'],
+  paid: ['approved', 'rejected', 'in_use', 'cancelled'],
+  approved: ['in_use', 'cancelled'],
+  rejected: ['refunded'],
+  in_use: ['returned'],
+  returned: ['completed'],
+  completed: [],
+  cancelled: ['refunded'],
+  refunded: [],
+  expired: [],
+};
+
+export function isBookingStatus(value: unknown): value is BookingStatus {
+  return typeof value === 'string' && (bookingStatuses as readonly string[]).includes(value);
+}
+
+export function canTransition(from: string, to: BookingStatus): boolean {
+  return isBookingStatus(from) && transitions[from].includes(to);
+}
+
+export function nextStatuses(from: string): BookingStatus[] {
+  return isBookingStatus(from) ? transitions[from] : [];
+}
@@ -0,0 +1,29 @@
+// GST split on invoices. Run with `npm test`.
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { splitGst } from "./gst";
+
+test('splitGst halves the tax into CGST and SGST within a state', () => {
+  assert.deepEqual(splitGst(105000, 5, true), { taxableValue: 100000, cgst: 2500, sgst: 2500, igst: 0 });
+});
+
+test('splitGst charges IGST across states', () => {
+  assert.deepEqual(splitGst(105000, 5, false), { taxableValue: 100000, cgst: 0, sgst: 0, igst: 5000 });
+});
+
+test('splitGst gives the odd paisa of the tax to SGST', () => {
+  // 100003 * 100 / 118 = 84748.3, leaving 15255 paise of tax
+  assert.deepEqual(splitGst(100003, 18, true), { taxableValue: 84748, cgst: 7627, sgst: 7628, igst: 0 });
+});
+
+test('splitGst parts always add up to the total', () => {
+  for (const gstRate of [5, 12, 18, 28]) {
+    for (let total = 0; total <= 5000; total += 7) {
+      for (const intraState of [true, false]) {
+        const split = splitGst(total, gstRate, intraState);
+        assert.equal(split.taxableValue + split.cgst + split.sgst + split.igst, total, `${total} at ${gstRate}%`);
+        assert.ok(Math.abs(split.cgst - split.sgst) <= 1, `${total} at ${gstRate}%`);
+      }
+    }
+  }
+});
@@ -0,0 +1,70 @@
+// GST state codes, as used in the first two digits of a GSTIN and on tax
+// invoices to name the place of supply
+export const gstStates: Record<string, string> = {
+  '01': 'Jammu and Kashmir',
+  '02': 'Himachal Pradesh',
+  '03': 'Punjab',
+  '04': 'Chandigarh',
+  '05': 'Uttarakhand',
+  '06': 'Haryana',
+  '07': 'Delhi',
+  '08': 'Rajasthan',
+  '09': 'Uttar Pradesh',
+  '10': 'Bihar',
+  '11': 'Sikkim',
+  '12': 'Arunachal Pradesh',
+  '13': 'Nagaland',
+  '14': 'Manipur',
+  '15': 'Mizoram',
+  '16': 'Tripura',
+  '17': 'Meghalaya',
+  '18': 'Assam',
+  '19': 'West Bengal',
+  '20': 'Jharkhand',
+  '21': 'Odisha',
+  '22': 'Chhattisgarh',
+  '23': 'Madhya Pradesh',
+  '24': 'Gujarat',
+  '26': 'Dadra and Nagar Haveli and Daman and Diu',
+  '27': 'Maharashtra',
+  '29': 'Karnataka',
+  '30': 'Goa',
+  '31': 'Lakshadweep',
+  '32': 'Kerala',
+  '33': 'Tamil Nadu',
+  '34': 'Puducherry',
+  '35': 'Andaman and Nicobar Islands',
+  '36': 'Telangana',
+  '37': 'Andhra Pradesh',
+  '38': 'Ladakh',
+};
+
+// 2-digit state code, PAN, entity number, 'Z', checksum character
+export const gstinPattern = /^[0-9]{2}[A-Z]{5}[0-9]{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/;
+
+export function stateFromGstin(gstin: string): string {
+  return gstin.slice(0, 2);
+}
+
+export function formatGstState(code: string | null | undefined): string {
+  return code && gstStates[code] ? `${gstStates[code]} (${code})` : '';
+}
+
+export interface GstSplit {
+  taxableValue: number;
+  cgst: number;
+  sgst: number;
+  igst: number;
+}
+
+// Rental prices include GST. Split a total in paise into its taxable value
+// and the tax: CGST and SGST halves within a state, IGST across states.
+export function splitGst(total: number, gstRate: number, intraState: boolean): GstSplit {
+  const taxableValue = Math.round(total * 100 / (100 + gstRate));
+  const tax = total - taxableValue;
+  if (!intraState) {
+    return { taxableValue, cgst: 0, sgst: 0, igst: tax };
+  }
+  const cgst = Math.floor(tax / 2);
+  return { taxableValue, cgst, sgst: tax - cgst, igst: 0 };
+}
@@ -0,0 +1,68 @@
+import { userRoles, type User, type UserRole } from "./schema";
+
+// What a user may do. Permissions on a user's own equipment and bookings
+// come with listing and renting; the `_any` ones reach everyone else's.
+export const permissions = [
+  // Rent equipment and manage one's own bookings
+  'bookings:create',
+  // List equipment and manage one's own listings and their bookings
+  'equipment:list',
+  // Manage listings and their bookings on behalf of their owners
+  'equipment:manage_any',
+  'bookings:view_any',
+  'bookings:manage_any',
+  // See and take part in any dispute
+  'disputes:moderate',
+  'disputes:resolve',
+  'payments:view',
+  'payments:manage',
+  'promotions:manage',
+  'payouts:manage',
+  'users:manage',
+] as const;
+
+export type Permission = typeof permissions[number];
+
+const renterPermissions: Permission[] = ['bookings:create'];
+const ownerPermissions: Permission[] = [...renterPermissions, 'equipment:list'];
+
+export const rolePermissions: Record<UserRole, readonly Permission[]> = {
+  renter: renterPermissions,
+  owner: ownerPermissions,
+  // Runs listings for the farmers of a cooperative. Cooperatives are not
+  // modelled yet, so this covers every listing on the platform.
+  cooperative_manager: [...ownerPermissions, 'equipment:manage_any'],
+  support_agent: [...renterPermissions, 'bookings:view_any', 'disputes:moderate', 'payments:view'],
+  admin: permissions,
+};
+
+export const roleLabels: Record<UserRole, string> = {
+  renter: 'Renter',
+  owner: 'Owner',
+  cooperative_manager: 'Cooperative manager',
+  support_agent: 'Support agent',
+  admin: 'Admin',
+};
+
+// Permissions that open the admin console
+export const staffPermissions: Permission[] = [
+  'bookings:view_any',
+  'disputes:moderate',
+  'payments:view',
+  'promotions:manage',
+  'payouts:manage',
+  'users:manage',
+];
+
+export function isUserRole(role: string): role is UserRole {
+  return (userRoles as readonly string[]).includes(role);
+}
+
+export function hasPermission(user: Pick<User, 'role'> | null | undefined, permission: Permission): boolean {
+  if (!user || !isUserRole(user.role)) return false;
+  return rolePermissions[user.role].includes(permission);
+}
+
+export function hasAnyPermission(user: Pick<User, 'role'> | null | undefined, wanted: readonly Permission[]): boolean {
+  return wanted.some(permission => hasPermission(user, permission));
+}
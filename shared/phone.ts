@@ -0,0 +1,18 @@
+// Indian mobile numbers, kept in E.164 form (+91 followed by ten digits).
+// Mobile numbers start with 6, 7, 8 or 9.
+const mobilePattern = /^[6-9][0-9]{9}$/;
+
+// The number in E.164 form, or null when it is not an Indian mobile number.
+// Spaces, dashes and a leading +91, 91 or 0 are accepted.
+export function normalizePhone(input: string): string | null {
+  let digits = input.replace(/[\s()-]/g, '');
+  if (digits.startsWith('+91')) digits = digits.slice(3);
+  else if (digits.length === 12 && digits.startsWith('91')) digits = digits.slice(2);
+  else if (digits.length === 11 && digits.startsWith('0')) digits = digits.slice(1);
+  return mobilePattern.test(digits) ? `+91${digits}` : null;
+}
+
+// Hide all but the last four digits, for showing where a code was sent
+export function maskPhone(phone: string): string {
+  return `${phone.slice(0, 3)}******${phone.slice(-4)}`;
+}
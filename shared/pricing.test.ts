@@ -0,0 +1,217 @@
+// Pure pricing functions. Run with `npm test`.
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { applyPricingRules, priceRental, promoDiscount } from "./pricing";
+import type { Equipment, PricingRule, PromoCode } from "./schema";
+
+function equipmentWith(rates: Partial<Pick<Equipment, 'hourlyRate' | 'halfDayRate' | 'dailyRate' | 'weeklyRate'>>): Equipment {
+  return {
+    id: 1,
+    ownerId: 1,
+    name: 'Test tractor',
+    description: 'Used by the pricing tests',
+    category: 'tractors',
+    dailyRate: 0,
+    hourlyRate: null,
+    halfDayRate: null,
+    weeklyRate: null,
+    depositAmount: null,
+    imageUrl: '/uploads/test.jpg',
+    location: 'Test',
+    availability: true,
+    bookingMode: 'instant',
+    specs: {},
+    features: [],
+    createdAt: new Date(0),
+    popularity: 0,
+    cancellationPolicy: null,
+    ...rates,
+  };
+}
+
+let nextRuleId = 1;
+
+function rule(fields: Pick<PricingRule, 'kind' | 'adjustmentPercent'> & Partial<PricingRule>): PricingRule {
+  return {
+    id: nextRuleId++,
+    equipmentId: 1,
+    name: `${fields.kind} rule`,
+    startDate: null,
+    endDate: null,
+    minDays: null,
+    createdAt: new Date(0),
+    ...fields,
+  };
+}
+
+function promo(fields: Pick<PromoCode, 'discountType' | 'discountValue'> & Partial<PromoCode>): PromoCode {
+  return {
+    id: 1,
+    code: 'TEST',
+    description: null,
+    maxDiscountAmount: null,
+    minOrderAmount: null,
+    validFrom: null,
+    validUntil: null,
+    maxRedemptions: null,
+    maxRedemptionsPerUser: null,
+    categories: null,
+    ownerIds: null,
+    active: true,
+    createdBy: 1,
+    createdAt: new Date(0),
+    ...fields,
+  };
+}
+
+// 2026-06-05 is a Friday, so this is Friday to Sunday
+const FRIDAY = new Date('2026-06-05T00:00:00Z');
+const MONDAY = new Date('2026-06-08T00:00:00Z');
+
+test('priceRental bills whole days at the daily rate', () => {
+  const price = priceRental(equipmentWith({ dailyRate: 1000 }), 48);
+
+  assert.equal(price.total, 2000);
+  assert.deepEqual(price.lines, [{ unit: 'day', quantity: 2, rate: 1000, amount: 2000 }]);
+});
+
+test('priceRental overshoots the rental when a longer unit is cheaper', () => {
+  const halfDay = priceRental(equipmentWith({ hourlyRate: 120, halfDayRate: 300, dailyRate: 1000 }), 3);
+  assert.equal(halfDay.total, 300);
+  assert.deepEqual(halfDay.lines, [{ unit: 'half_day', quantity: 1, rate: 300, amount: 300 }]);
+
+  const week = priceRental(equipmentWith({ dailyRate: 1000, weeklyRate: 5000 }), 6 * 24);
+  assert.equal(week.total, 5000);
+  assert.deepEqual(week.lines, [{ unit: 'week', quantity: 1, rate: 5000, amount: 5000 }]);
+});
+
+test('priceRental combines tiers, longest unit first', () => {
+  const weekAndDays = priceRental(equipmentWith({ dailyRate: 1000, weeklyRate: 5000 }), 9 * 24);
+  assert.equal(weekAndDays.total, 7000);
+  assert.deepEqual(weekAndDays.lines, [
+    { unit: 'week', quantity: 1, rate: 5000, amount: 5000 },
+    { unit: 'day', quantity: 2, rate: 1000, amount: 2000 },
+  ]);
+
+  const dayAndHours = priceRental(equipmentWith({ hourlyRate: 100, halfDayRate: 300, dailyRate: 1000 }), 26);
+  assert.equal(dayAndHours.total, 1200);
+  assert.deepEqual(dayAndHours.lines, [
+    { unit: 'day', quantity: 1, rate: 1000, amount: 1000 },
+    { unit: 'hour', quantity: 2, rate: 100, amount: 200 },
+  ]);
+});
+
+test('priceRental rounds part hours up and charges at least one hour', () => {
+  const equipment = equipmentWith({ hourlyRate: 100, dailyRate: 1000 });
+
+  assert.deepEqual(
+    [priceRental(equipment, 2.5).hours, priceRental(equipment, 2.5).total],
+    [3, 300]
+  );
+  assert.deepEqual(
+    [priceRental(equipment, 0).hours, priceRental(equipment, 0).total],
+    [1, 100]
+  );
+});
+
+test('priceRental ignores unset and zero rates', () => {
+  const price = priceRental(equipmentWith({ hourlyRate: 0, dailyRate: 1000 }), 5);
+
+  assert.deepEqual(price.lines, [{ unit: 'day', quantity: 1, rate: 1000, amount: 1000 }]);
+});
+
+test('priceRental refuses equipment without rates', () => {
+  assert.throws(() => priceRental(equipmentWith({}), 24), /has no rental rates/);
+});
+
+test('applyPricingRules quotes the base price when no rule applies', () => {
+  const quote = applyPricingRules(equipmentWith({ dailyRate: 1000 }), [], FRIDAY, MONDAY);
+
+  assert.equal(quote.base.total, 3000);
+  assert.deepEqual(quote.adjustments, []);
+  assert.equal(quote.total, 3000);
+});
+
+test('applyPricingRules applies a weekend rule to weekend days only', () => {
+  const weekend = rule({ kind: 'weekend', adjustmentPercent: 20 });
+  const quote = applyPricingRules(equipmentWith({ dailyRate: 1000 }), [weekend], FRIDAY, MONDAY);
+
+  assert.deepEqual(quote.adjustments, [
+    { ruleId: weekend.id, kind: 'weekend', name: weekend.name, percent: 20, days: 2, amount: 400 },
+  ]);
+  assert.equal(quote.total, 3400);
+});
+
+test('applyPricingRules adds season and weekend adjustments on the same day', () => {
+  const season = rule({
+    kind: 'season',
+    adjustmentPercent: 10,
+    startDate: new Date('2026-06-06T00:00:00Z'),
+    endDate: new Date('2026-06-06T00:00:00Z'),
+  });
+  const weekend = rule({ kind: 'weekend', adjustmentPercent: 20 });
+  const quote = applyPricingRules(equipmentWith({ dailyRate: 1000 }), [season, weekend], FRIDAY, MONDAY);
+
+  assert.deepEqual(quote.adjustments.map(adjustment => [adjustment.kind, adjustment.days, adjustment.amount]), [
+    ['season', 1, 100],
+    ['weekend', 2, 400],
+  ]);
+  assert.equal(quote.total, 3500);
+});
+
+test('applyPricingRules applies the longest duration tier reached to the adjusted subtotal', () => {
+  const weekend = rule({ kind: 'weekend', adjustmentPercent: 20 });
+  const twoDays = rule({ kind: 'duration', adjustmentPercent: -5, minDays: 2 });
+  const threeDays = rule({ kind: 'duration', adjustmentPercent: -10, minDays: 3 });
+  const week = rule({ kind: 'duration', adjustmentPercent: -20, minDays: 7 });
+  const quote = applyPricingRules(equipmentWith({ dailyRate: 1000 }), [weekend, twoDays, threeDays, week], FRIDAY, MONDAY);
+
+  assert.deepEqual(quote.adjustments.at(-1), {
+    ruleId: threeDays.id, kind: 'duration', name: threeDays.name, percent: -10, days: 3, amount: -340,
+  });
+  assert.equal(quote.adjustments.length, 2);
+  assert.equal(quote.total, 3060);
+});
+
+test('applyPricingRules adjusts an hourly rental by its share of the day', () => {
+  const weekend = rule({ kind: 'weekend', adjustmentPercent: 50 });
+  const quote = applyPricingRules(
+    equipmentWith({ hourlyRate: 100, dailyRate: 1000 }),
+    [weekend],
+    new Date('2026-06-06T10:00:00Z'),
+    new Date('2026-06-06T14:00:00Z'),
+  );
+
+  assert.equal(quote.base.total, 400);
+  assert.deepEqual(quote.adjustments.map(adjustment => [adjustment.days, adjustment.amount]), [[1, 200]]);
+  assert.equal(quote.total, 600);
+});
+
+test('applyPricingRules never quotes below zero', () => {
+  const quote = applyPricingRules(
+    equipmentWith({ dailyRate: 1000 }),
+    [rule({ kind: 'duration', adjustmentPercent: -120, minDays: 1 })],
+    FRIDAY,
+    MONDAY,
+  );
+
+  assert.equal(quote.total, 0);
+});
+
+test('promoDiscount takes a percentage of the order, rounded down', () => {
+  assert.equal(promoDiscount(promo({ discountType: 'percent', discountValue: 10 }), 2999), 299);
+});
+
+test('promoDiscount takes a flat amount off the order', () => {
+  assert.equal(promoDiscount(promo({ discountType: 'flat', discountValue: 250 }), 2000), 250);
+});
+
+test('promoDiscount caps a percentage at the maximum discount', () => {
+  assert.equal(promoDiscount(promo({ discountType: 'percent', discountValue: 50, maxDiscountAmount: 500 }), 3000), 500);
+  assert.equal(promoDiscount(promo({ discountType: 'percent', discountValue: 50, maxDiscountAmount: 500 }), 600), 300);
+});
+
+test('promoDiscount never exceeds the order', () => {
+  assert.equal(promoDiscount(promo({ discountType: 'flat', discountValue: 1000 }), 400), 400);
+  assert.equal(promoDiscount(promo({ discountType: 'percent', discountValue: 100 }), 400), 400);
+});
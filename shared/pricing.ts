@@ -0,0 +1,200 @@
+import { HALF_DAY_HOURS, type Equipment, type PricingRule, type PricingRuleKind, type PromoCode } from "./schema";
+
+export type RateUnit = 'hour' | 'half_day' | 'day' | 'week';
+
+export interface PriceLine {
+  unit: RateUnit;
+  quantity: number;
+  rate: number;
+  amount: number;
+}
+
+export interface RentalPrice {
+  hours: number;
+  total: number;
+  lines: PriceLine[];
+}
+
+const unitHours: Record<RateUnit, number> = {
+  hour: 1,
+  half_day: HALF_DAY_HOURS,
+  day: 24,
+  week: 24 * 7,
+};
+
+// The rates an equipment offers, from shortest to longest unit
+export function rentalRates(equipment: Equipment): { unit: RateUnit; rate: number }[] {
+  const rates: { unit: RateUnit; rate: number | null }[] = [
+    { unit: 'hour', rate: equipment.hourlyRate },
+    { unit: 'half_day', rate: equipment.halfDayRate },
+    { unit: 'day', rate: equipment.dailyRate },
+    { unit: 'week', rate: equipment.weeklyRate },
+  ];
+  return rates.filter((entry): entry is { unit: RateUnit; rate: number } =>
+    entry.rate !== null && entry.rate > 0
+  );
+}
+
+// Cheapest combination of the equipment's rates that covers `hours`. Units
+// may overshoot the rental (a 3 hour job can be billed as one half day when
+// that is cheaper than three hours), but never fall short of it.
+export function priceRental(equipment: Equipment, hours: number): RentalPrice {
+  const rates = rentalRates(equipment);
+  if (rates.length === 0) {
+    throw new Error(`Equipment ${equipment.id} has no rental rates`);
+  }
+  const needed = Math.max(1, Math.ceil(hours));
+
+  // best[h] is the cheapest cost covering at least h hours, with the last
+  // unit used to get there so the breakdown can be rebuilt
+  const best: number[] = new Array(needed + 1).fill(Infinity);
+  const lastUnit: (number | undefined)[] = new Array(needed + 1);
+  best[0] = 0;
+
+  for (let h = 1; h <= needed; h++) {
+    rates.forEach((entry, index) => {
+      const cost = entry.rate + best[Math.max(0, h - unitHours[entry.unit])];
+      if (cost < best[h]) {
+        best[h] = cost;
+        lastUnit[h] = index;
+      }
+    });
+  }
+
+  const quantities = new Map<number, number>();
+  for (let h = needed; h > 0; h = Math.max(0, h - unitHours[rates[lastUnit[h]!].unit])) {
+    const index = lastUnit[h]!;
+    quantities.set(index, (quantities.get(index) ?? 0) + 1);
+  }
+
+  const lines = Array.from(quantities.entries())
+    .sort(([a], [b]) => b - a)
+    .map(([index, quantity]) => ({
+      unit: rates[index].unit,
+      quantity,
+      rate: rates[index].rate,
+      amount: rates[index].rate * quantity,
+    }));
+
+  return { hours: needed, total: best[needed], lines };
+}
+
+// A pricing rule's effect on one quote
+export interface PriceAdjustment {
+  ruleId: number;
+  kind: PricingRuleKind;
+  name: string;
+  percent: number;
+  // Days of the rental the rule applied to
+  days: number;
+  amount: number;
+}
+
+// Itemised price of a rental: the base rates, then each rule that applied
+export interface Quote {
+  startDate: string;
+  endDate: string;
+  hours: number;
+  base: RentalPrice;
+  adjustments: PriceAdjustment[];
+  total: number;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+function startOfUtcDay(date: Date): Date {
+  const day = new Date(date);
+  day.setUTCHours(0, 0, 0, 0);
+  return day;
+}
+
+// Seasons name whole days, both ends included
+function seasonCoversDay(rule: PricingRule, dayStart: number): boolean {
+  if (!rule.startDate || !rule.endDate) return false;
+  return startOfUtcDay(rule.startDate).getTime() <= dayStart &&
+    startOfUtcDay(rule.endDate).getTime() >= dayStart;
+}
+
+function isWeekend(dayStart: number): boolean {
+  const weekday = new Date(dayStart).getUTCDay();
+  return weekday === 0 || weekday === 6;
+}
+
+// Price the half-open range [startDate, endDate) from the equipment's rates
+// and pricing rules. Season and weekend adjustments apply to each day's share
+// of the base price and add up when both apply; the longest duration tier the
+// rental reaches then applies to that subtotal.
+export function applyPricingRules(
+  equipment: Equipment,
+  rules: PricingRule[],
+  startDate: Date,
+  endDate: Date,
+): Quote {
+  const start = startDate.getTime();
+  const end = endDate.getTime();
+  const hours = (end - start) / HOUR_MS;
+  const base = priceRental(equipment, hours);
+  const perHour = base.total / base.hours;
+
+  const tally = new Map<number, { amount: number; days: number }>();
+  for (let day = startOfUtcDay(startDate).getTime(); day < end; day += DAY_MS) {
+    const share = perHour * (Math.min(end, day + DAY_MS) - Math.max(start, day)) / HOUR_MS;
+
+    for (const rule of rules) {
+      const applies = rule.kind === 'season' ? seasonCoversDay(rule, day)
+        : rule.kind === 'weekend' ? isWeekend(day)
+        : false;
+      if (!applies) continue;
+
+      const entry = tally.get(rule.id) ?? { amount: 0, days: 0 };
+      entry.amount += share * rule.adjustmentPercent / 100;
+      entry.days++;
+      tally.set(rule.id, entry);
+    }
+  }
+
+  const adjustments: PriceAdjustment[] = rules
+    .filter(rule => tally.has(rule.id))
+    .map(rule => ({
+      ruleId: rule.id,
+      kind: rule.kind as PriceAdjustment['kind'],
+      name: rule.name,
+      percent: rule.adjustmentPercent,
+      days: tally.get(rule.id)!.days,
+      amount: Math.round(tally.get(rule.id)!.amount),
+    }));
+
+  const rentalDays = Math.ceil(hours / 24);
+  const [tier] = rules
+    .filter(rule => rule.kind === 'duration' && rule.minDays !== null && rule.minDays <= rentalDays)
+    .sort((a, b) => b.minDays! - a.minDays!);
+  if (tier) {
+    const subtotal = base.total + adjustments.reduce((sum, adjustment) => sum + adjustment.amount, 0);
+    adjustments.push({
+      ruleId: tier.id,
+      kind: 'duration',
+      name: tier.name,
+      percent: tier.adjustmentPercent,
+      days: rentalDays,
+      amount: Math.round(subtotal * tier.adjustmentPercent / 100),
+    });
+  }
+
+  return {
+    startDate: startDate.toISOString(),
+    endDate: endDate.toISOString(),
+    hours,
+    base,
+    adjustments,
+    total: Math.max(0, base.total + adjustments.reduce((sum, adjustment) => sum + adjustment.amount, 0)),
+  };
+}
+
+// Discount a code gives on an order of `subtotal` rupees
+export function promoDiscount(promo: PromoCode, subtotal: number): number {
+  const discount = promo.discountType === 'percent'
+    ? Math.floor(subtotal * promo.discountValue / 100)
+    : promo.discountValue;
+  return Math.min(discount, promo.maxDiscountAmount ?? Infinity, subtotal);
+}
@@ -1,17 +1,35 @@
-import { pgTable, text, serial, integer, boolean, timestamp, json } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, json, doublePrecision } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { gstStates, gstinPattern, stateFromGstin } from "./gst";
+import { normalizePhone } from "./phone";
+
+// What a user does on the platform; the permissions each role carries are
+// in ./permissions
+export const userRoles = ['renter', 'owner', 'cooperative_manager', 'support_agent', 'admin'] as const;
+
+// Roles anyone can pick for themselves; the rest are assigned by an admin
+export const selfServiceRoles = ['renter', 'owner'] as const;
 
 // User model with language preference and preferences
 export const users = pgTable("users", {
   id: serial("id").primaryKey(),
   username: text("username").notNull().unique(),
   password: text("password").notNull(),
-  isAdmin: boolean("is_admin").notNull().default(false),
+  role: text("role").notNull().default('renter'),
   name: text("name").notNull(),
+  // Mobile number for OTP sign-in, in E.164 form
+  phone: text("phone").unique(),
   contact: text("contact"),
   language: text("language").notNull().default('en'),
   imageUrl: text("image_url"),
+  // Tax details printed on invoices. `state` is a GST state code.
+  gstin: text("gstin"),
+  state: text("state"),
+  // Bank account owner payouts are transferred to
+  payoutAccountName: text("payout_account_name"),
+  payoutAccountNumber: text("payout_account_number"),
+  payoutIfsc: text("payout_ifsc"),
   preferences: json("preferences").$type<{
     preferredCategories: string[];
     preferredLocations: string[];
@@ -25,6 +43,23 @@ export const users = pgTable("users", {
   }).notNull(),
 });
 
+// Refund tiers applied when a renter cancels. A tier applies when the
+// cancellation happens at least `hoursBeforeStart` hours before the rental
+// starts; the first matching tier (largest window first) wins.
+export const cancellationPolicySchema = z.object({
+  tiers: z.array(z.object({
+    hoursBeforeStart: z.number().min(0),
+    refundPercent: z.number().min(0).max(100),
+  })).min(1),
+  // Share of the rental refunded for whole days (or hours) left unused when
+  // the renter returns the equipment early
+  earlyReturnRefundPercent: z.number().min(0).max(100).optional(),
+});
+
+// `instant` bookings go straight to payment; `request` bookings wait for
+// the owner to approve them first
+export const bookingModes = ['instant', 'request'] as const;
+
 // Equipment model with detailed specifications
 export const equipment = pgTable("equipment", {
   id: serial("id").primaryKey(),
@@ -33,31 +68,574 @@ export const equipment = pgTable("equipment", {
   description: text("description").notNull(),
   category: text("category").notNull(),
   dailyRate: integer("daily_rate").notNull(),
+  // Optional rates for shorter and longer rentals; hourly booking is only
+  // offered when hourlyRate is set
+  hourlyRate: integer("hourly_rate"),
+  halfDayRate: integer("half_day_rate"),
+  weeklyRate: integer("weekly_rate"),
+  // Refundable damage deposit collected with each booking
+  depositAmount: integer("deposit_amount"),
   imageUrl: text("image_url").notNull(),
   location: text("location").notNull(),
   availability: boolean("availability").notNull().default(true),
+  bookingMode: text("booking_mode").notNull().default('instant'),
   specs: json("specs").$type<Record<string, string>>().default({}).notNull(),
   features: json("features").$type<string[]>().default([]).notNull(),
   createdAt: timestamp("created_at").notNull().defaultNow(),
   popularity: integer("popularity").notNull().default(0),
+  cancellationPolicy: json("cancellation_policy").$type<CancellationPolicy>(),
 });
 
+// `pending` until the booking is paid, `held` until the owner releases it
+// after return or `claimed` while an admin reviews the owner's claim on it.
+// Bookings without a deposit have no deposit status.
+export const depositStatuses = ['pending', 'held', 'claimed', 'released', 'partially_withheld', 'withheld'] as const;
+
+// How a booking's time range was chosen: whole calendar days, or hour slots
+export const rentalUnits = ['day', 'hour'] as const;
+
+// Length of a half-day rental
+export const HALF_DAY_HOURS = 4;
+
+// Booking lifecycle states. The transitions between them are listed in
+// shared/booking-transitions.ts and enforced by server/booking-lifecycle.ts;
+// nothing should write `status` directly.
+export const bookingStatuses = [
+  'pending',
+  'requested',
+  'declined',
+  'awaiting_payment',
+  'payment_failed',
+  'paid',
+  'approved',
+  'rejected',
+  'in_use',
+  'returned',
+  'completed',
+  'cancelled',
+  'refunded',
+  'expired',
+] as const;
+
+// States in which a booking holds its dates against other renters. A new
+// booking holds them from the moment it is created, and a request holds
+// them while the owner decides.
+export const activeBookingStatuses: BookingStatus[] = ['pending', 'requested', 'awaiting_payment', 'paid', 'approved', 'in_use'];
+
+// States from which a renter may still cancel (mirrors the lifecycle transitions)
+export const cancellableBookingStatuses: BookingStatus[] = ['pending', 'requested', 'awaiting_payment', 'payment_failed', 'paid', 'approved'];
+
+// Unpaid states that lapse to 'expired' once the booking's hold runs out
+export const unpaidBookingStatuses: BookingStatus[] = ['pending', 'awaiting_payment', 'payment_failed'];
+
+// Paid states in which the renter can still add time to the rental
+export const extendableBookingStatuses: BookingStatus[] = ['paid', 'approved', 'in_use'];
+
+// States in which the renter can review the equipment: paid, including
+// rentals the handover flow has since taken through to return
+export const reviewableBookingStatuses: BookingStatus[] = ['paid', 'returned', 'completed'];
+
 // Booking model with payment tracking and rating status
 export const bookings = pgTable("bookings", {
   id: serial("id").primaryKey(),
   equipmentId: integer("equipment_id").notNull(),
   userId: integer("user_id").notNull(),
   startDate: timestamp("start_date").notNull(),
+  // Half-open range: the booking ends at, not after, endDate
   endDate: timestamp("end_date").notNull(),
+  rentalUnit: text("rental_unit").notNull().default('day'),
+  // What the renter pays, after any promo code discount
   totalPrice: integer("total_price").notNull(),
+  discountAmount: integer("discount_amount").notNull().default(0),
+  promoCodeId: integer("promo_code_id"),
+  // Collected with the rental price in the same payment
+  depositAmount: integer("deposit_amount").notNull().default(0),
+  depositStatus: text("deposit_status"),
+  depositWithheld: integer("deposit_withheld").notNull().default(0),
+  depositClaimAmount: integer("deposit_claim_amount"),
+  depositClaimReason: text("deposit_claim_reason"),
+  depositResolutionNote: text("deposit_resolution_note"),
   status: text("status").notNull().default('pending'),
   razorpayOrderId: text("razorpay_order_id"),
   razorpayPaymentId: text("razorpay_payment_id"),
+  // Set when the booking was paid together with others in one cart checkout
+  checkoutOrderId: integer("checkout_order_id"),
+  // Dates are held for an unpaid booking until this time
+  holdExpiresAt: timestamp("hold_expires_at"),
+  // A request the owner has not answered by this time is declined
+  respondBy: timestamp("respond_by"),
+  // Renter asked to hand the equipment back before endDate
+  returnRequestedAt: timestamp("return_requested_at"),
+  // When the owner confirmed the equipment came back
+  returnedAt: timestamp("returned_at"),
   isRated: boolean("is_rated").notNull().default(false),
   createdAt: timestamp("created_at").notNull().defaultNow(),
   lastStatusUpdate: timestamp("last_status_update").notNull().defaultNow(),
 });
 
+// Several bookings paid with one payment order. Each booking keeps its own
+// status; the order only carries the payment they share.
+export const checkoutOrders = pgTable("checkout_orders", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  // Sum of what the bookings owe, deposits included
+  totalAmount: integer("total_amount").notNull(),
+  razorpayOrderId: text("razorpay_order_id"),
+  razorpayPaymentId: text("razorpay_payment_id"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// `awaiting_payment` until the extension's own payment order is paid, when
+// the booking's end date moves to newEndDate. Unpaid extensions hold the
+// added time until holdExpiresAt. `refunded` extensions were paid but the
+// time could no longer be added.
+export const bookingExtensionStatuses = ['awaiting_payment', 'payment_failed', 'paid', 'expired', 'refunded'] as const;
+
+// Unpaid extension states; these lapse to 'expired' with their hold
+export const unpaidExtensionStatuses: BookingExtensionStatus[] = ['awaiting_payment', 'payment_failed'];
+
+// More time added to a paid booking, charged separately from the booking
+export const bookingExtensions = pgTable("booking_extensions", {
+  id: serial("id").primaryKey(),
+  bookingId: integer("booking_id").notNull(),
+  previousEndDate: timestamp("previous_end_date").notNull(),
+  newEndDate: timestamp("new_end_date").notNull(),
+  // Price of the longer rental less the price of the current one
+  amount: integer("amount").notNull(),
+  status: text("status").notNull().default('awaiting_payment'),
+  razorpayOrderId: text("razorpay_order_id"),
+  razorpayPaymentId: text("razorpay_payment_id"),
+  holdExpiresAt: timestamp("hold_expires_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  paidAt: timestamp("paid_at"),
+});
+
+// A rental still out after its end date is overdue. Its late fee grows by
+// `dailyFee` for every day started past the end while it is `accruing`;
+// once the return is confirmed the fee is `due` until the renter pays it
+// with its own payment order. A booking that ends any other way has its
+// fee `waived`.
+export const lateFeeStatuses = ['accruing', 'due', 'awaiting_payment', 'payment_failed', 'paid', 'waived'] as const;
+
+// Late fee states in which the renter can pay
+export const payableLateFeeStatuses: LateFeeStatus[] = ['due', 'awaiting_payment', 'payment_failed'];
+
+export const lateFees = pgTable("late_fees", {
+  id: serial("id").primaryKey(),
+  bookingId: integer("booking_id").notNull().unique(),
+  // The booking's end date when it was found overdue
+  overdueSince: timestamp("overdue_since").notNull(),
+  dailyFee: integer("daily_fee").notNull(),
+  days: integer("days").notNull().default(0),
+  amount: integer("amount").notNull().default(0),
+  status: text("status").notNull().default('accruing'),
+  // When the fee stopped growing: the confirmed return, or the end of the booking
+  settledAt: timestamp("settled_at"),
+  razorpayOrderId: text("razorpay_order_id"),
+  razorpayPaymentId: text("razorpay_payment_id"),
+  paidAt: timestamp("paid_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+// Condition checks when the equipment changes hands: the `pickup` handover
+// starts the rental and the `return` handover ends it
+export const handoverKinds = ['pickup', 'return'] as const;
+
+// What the equipment's meter counts: engine hours for tractors and pumps,
+// kilometres for anything with an odometer
+export const meterTypes = ['engine_hours', 'odometer_km'] as const;
+
+export interface HandoverPhoto {
+  url: string;
+  uploadedBy: number;
+  uploadedAt: string;
+}
+
+// One record per booking and handover kind. Whoever records readings or
+// photos signs that version, which unsigns the other party; once owner and
+// renter have both signed the same version it is sealed with `signature`
+// and can no longer change.
+export const bookingHandovers = pgTable("booking_handovers", {
+  id: serial("id").primaryKey(),
+  bookingId: integer("booking_id").notNull(),
+  kind: text("kind").notNull(),
+  meterType: text("meter_type"),
+  meterReading: doublePrecision("meter_reading"),
+  // Percent of a full tank
+  fuelLevel: integer("fuel_level"),
+  notes: text("notes"),
+  photos: json("photos").$type<HandoverPhoto[]>().default([]).notNull(),
+  recordedBy: integer("recorded_by").notNull(),
+  ownerSignedAt: timestamp("owner_signed_at"),
+  renterSignedAt: timestamp("renter_signed_at"),
+  signature: text("signature"),
+  signedAt: timestamp("signed_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+// `open` until the other party responds, then `responded` until an admin
+// resolves it. The party that opened it may withdraw it until then.
+export const disputeStatuses = ['open', 'responded', 'resolved', 'withdrawn'] as const;
+
+// Disputes still waiting on someone; a booking has at most one
+export const unresolvedDisputeStatuses: DisputeStatus[] = ['open', 'responded'];
+
+export const disputeMessageKinds = ['claim', 'response', 'comment', 'resolution', 'withdrawal', 'system'] as const;
+
+// A damage claim or other complaint about a booking, raised by the owner or
+// the renter. The outcome columns are filled in when an admin resolves it.
+export const disputes = pgTable("disputes", {
+  id: serial("id").primaryKey(),
+  bookingId: integer("booking_id").notNull(),
+  openedBy: integer("opened_by").notNull(),
+  openedByParty: text("opened_by_party").notNull(),
+  description: text("description").notNull(),
+  claimedAmount: integer("claimed_amount").notNull().default(0),
+  status: text("status").notNull().default('open'),
+  // Outcome: deposit kept by the owner, rental refunded to the renter and
+  // a penalty recorded against one party
+  depositWithheld: integer("deposit_withheld"),
+  refundAmount: integer("refund_amount"),
+  penaltyAmount: integer("penalty_amount"),
+  penaltyParty: text("penalty_party"),
+  resolutionNote: text("resolution_note"),
+  resolvedBy: integer("resolved_by"),
+  resolvedAt: timestamp("resolved_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+// Timeline of a dispute: the claim, replies from both parties and admins,
+// and what was done to resolve it
+export const disputeMessages = pgTable("dispute_messages", {
+  id: serial("id").primaryKey(),
+  disputeId: integer("dispute_id").notNull(),
+  // Null for entries the system adds
+  authorId: integer("author_id"),
+  authorRole: text("author_role").notNull(),
+  kind: text("kind").notNull(),
+  message: text("message").notNull(),
+  photos: json("photos").$type<string[]>().default([]).notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Audit trail of every booking status change
+export const bookingStatusHistory = pgTable("booking_status_history", {
+  id: serial("id").primaryKey(),
+  bookingId: integer("booking_id").notNull(),
+  fromStatus: text("from_status"),
+  toStatus: text("to_status").notNull(),
+  actorId: integer("actor_id"),
+  actorType: text("actor_type").notNull(),
+  reason: text("reason"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Refunds issued against a booking's captured payment
+export const refunds = pgTable("refunds", {
+  id: serial("id").primaryKey(),
+  bookingId: integer("booking_id").notNull(),
+  razorpayPaymentId: text("razorpay_payment_id").notNull(),
+  razorpayRefundId: text("razorpay_refund_id").unique(),
+  amount: integer("amount").notNull(),
+  // Part of `amount` that returns the security deposit; the rest is rental
+  depositAmount: integer("deposit_amount").notNull().default(0),
+  status: text("status").notNull().default('pending'),
+  reason: text("reason"),
+  createdBy: integer("created_by"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+// Every payment provider webhook delivery, keyed by the provider's event id
+// so that redeliveries can be acknowledged without being applied twice
+export const paymentEvents = pgTable("payment_events", {
+  id: serial("id").primaryKey(),
+  eventId: text("event_id").notNull().unique(),
+  eventType: text("event_type").notNull(),
+  payload: json("payload").$type<Record<string, any>>().notNull(),
+  status: text("status").notNull().default('received'),
+  attempts: integer("attempts").notNull().default(0),
+  outcome: text("outcome"),
+  lastError: text("last_error"),
+  receivedAt: timestamp("received_at").notNull().defaultNow(),
+  processedAt: timestamp("processed_at"),
+});
+
+export const blackoutReasons = ['maintenance', 'personal_use', 'in_repair'] as const;
+
+// Date ranges in which an owner has taken equipment out of service
+export const equipmentBlackouts = pgTable("equipment_blackouts", {
+  id: serial("id").primaryKey(),
+  equipmentId: integer("equipment_id").notNull(),
+  startDate: timestamp("start_date").notNull(),
+  endDate: timestamp("end_date").notNull(),
+  reason: text("reason").notNull(),
+  note: text("note"),
+  createdBy: integer("created_by").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// `waiting` until the dates free up. The first waiting entry they fit is
+// then `offered`: the dates are held for its user alone until holdExpiresAt.
+// Booking them makes the entry `booked`; an offer left unused lapses to
+// `expired` and passes to the next in line.
+export const waitlistStatuses = ['waiting', 'offered', 'booked', 'expired', 'cancelled'] as const;
+
+// A renter waiting for booked-out dates on an equipment
+export const waitlistEntries = pgTable("waitlist_entries", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  equipmentId: integer("equipment_id").notNull(),
+  rentalUnit: text("rental_unit").notNull().default('day'),
+  // The range a booking for these dates would hold
+  startDate: timestamp("start_date").notNull(),
+  endDate: timestamp("end_date").notNull(),
+  status: text("status").notNull().default('waiting'),
+  offeredAt: timestamp("offered_at"),
+  holdExpiresAt: timestamp("hold_expires_at"),
+  bookingId: integer("booking_id"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const pricingRuleKinds = ['season', 'weekend', 'duration'] as const;
+
+// Owner adjustments to an equipment's base rates. A positive
+// `adjustmentPercent` is a surcharge and a negative one a discount. Season
+// rules cover the days from startDate to endDate (both included), weekend
+// rules cover Saturdays and Sundays, and duration rules apply to rentals of
+// at least `minDays` days.
+export const pricingRules = pgTable("pricing_rules", {
+  id: serial("id").primaryKey(),
+  equipmentId: integer("equipment_id").notNull(),
+  kind: text("kind").notNull(),
+  name: text("name").notNull(),
+  adjustmentPercent: integer("adjustment_percent").notNull(),
+  startDate: timestamp("start_date"),
+  endDate: timestamp("end_date"),
+  minDays: integer("min_days"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const promoDiscountTypes = ['percent', 'flat'] as const;
+
+// Discount codes created by admins. Null limits and restrictions mean
+// unlimited or unrestricted; categories and ownerIds narrow the equipment a
+// code can be used on.
+export const promoCodes = pgTable("promo_codes", {
+  id: serial("id").primaryKey(),
+  code: text("code").notNull().unique(),
+  description: text("description"),
+  discountType: text("discount_type").notNull(),
+  discountValue: integer("discount_value").notNull(),
+  maxDiscountAmount: integer("max_discount_amount"),
+  minOrderAmount: integer("min_order_amount"),
+  validFrom: timestamp("valid_from"),
+  validUntil: timestamp("valid_until"),
+  maxRedemptions: integer("max_redemptions"),
+  maxRedemptionsPerUser: integer("max_redemptions_per_user"),
+  categories: text("categories").array(),
+  ownerIds: integer("owner_ids").array(),
+  active: boolean("active").notNull().default(true),
+  createdBy: integer("created_by").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// `applied` while the booking is unpaid, `redeemed` once it is paid, and
+// `released` when the code was removed or the booking lapsed unpaid.
+// Applied and redeemed uses count against a code's limits.
+export const promoRedemptionStatuses = ['applied', 'redeemed', 'released'] as const;
+
+export const promoRedemptions = pgTable("promo_redemptions", {
+  id: serial("id").primaryKey(),
+  promoCodeId: integer("promo_code_id").notNull(),
+  bookingId: integer("booking_id").notNull(),
+  userId: integer("user_id").notNull(),
+  discountAmount: integer("discount_amount").notNull(),
+  status: text("status").notNull().default('applied'),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+// GST tax invoice for a paid booking. Party and tax details are copied
+// from the booking, equipment and users when the invoice is issued so later
+// profile edits do not change it. Amounts are in paise so the tax split adds
+// up to the total exactly.
+export const invoices = pgTable("invoices", {
+  id: serial("id").primaryKey(),
+  bookingId: integer("booking_id").notNull().unique(),
+  invoiceNumber: text("invoice_number").notNull().unique(),
+  financialYear: text("financial_year").notNull(),
+  sequence: integer("sequence").notNull(),
+  issuedAt: timestamp("issued_at").notNull().defaultNow(),
+  supplierId: integer("supplier_id").notNull(),
+  supplierName: text("supplier_name").notNull(),
+  supplierGstin: text("supplier_gstin"),
+  supplierState: text("supplier_state"),
+  recipientId: integer("recipient_id").notNull(),
+  recipientName: text("recipient_name").notNull(),
+  recipientGstin: text("recipient_gstin"),
+  recipientState: text("recipient_state"),
+  placeOfSupply: text("place_of_supply"),
+  description: text("description").notNull(),
+  sacCode: text("sac_code").notNull(),
+  gstRate: integer("gst_rate").notNull(),
+  taxableValue: integer("taxable_value").notNull(),
+  cgst: integer("cgst").notNull().default(0),
+  sgst: integer("sgst").notNull().default(0),
+  igst: integer("igst").notNull().default(0),
+  total: integer("total").notNull(),
+});
+
+// Last invoice sequence used in each financial year, e.g. '2026-27'
+export const invoiceCounters = pgTable("invoice_counters", {
+  financialYear: text("financial_year").primaryKey(),
+  lastSequence: integer("last_sequence").notNull(),
+});
+
+// Double-entry ledger of the money that passes through the platform's
+// payment account. `gateway` is the cash held there, `owner_payable` what
+// is owed to each owner, `platform_commission` the platform's earnings and
+// `deposits_held` deposits owed back to renters.
+export const ledgerAccounts = ['gateway', 'owner_payable', 'platform_commission', 'deposits_held'] as const;
+export const ledgerTransactionKinds = ['payment', 'refund', 'deposit_withheld', 'penalty', 'payout'] as const;
+
+// One balanced posting. `reference` names the event it records, e.g.
+// 'payment:12' or 'refund:7', so each event is posted only once.
+export const ledgerTransactions = pgTable("ledger_transactions", {
+  id: serial("id").primaryKey(),
+  reference: text("reference").notNull().unique(),
+  kind: text("kind").notNull(),
+  bookingId: integer("booking_id"),
+  memo: text("memo"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Debits are positive and credits negative; a transaction's entries sum to
+// zero. Owner entries carry the owner, and the payout batch that paid them
+// out once they are settled.
+export const ledgerEntries = pgTable("ledger_entries", {
+  id: serial("id").primaryKey(),
+  transactionId: integer("transaction_id").notNull(),
+  account: text("account").notNull(),
+  ownerId: integer("owner_id"),
+  bookingId: integer("booking_id"),
+  amount: integer("amount").notNull(),
+  payoutBatchId: integer("payout_batch_id"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const payoutBatches = pgTable("payout_batches", {
+  id: serial("id").primaryKey(),
+  totalAmount: integer("total_amount").notNull(),
+  createdBy: integer("created_by").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// One owner's transfer within a batch, with the bank details it was sent to
+export const payouts = pgTable("payouts", {
+  id: serial("id").primaryKey(),
+  batchId: integer("batch_id").notNull(),
+  ownerId: integer("owner_id").notNull(),
+  amount: integer("amount").notNull(),
+  accountName: text("account_name").notNull(),
+  accountNumber: text("account_number").notNull(),
+  ifsc: text("ifsc").notNull(),
+});
+
+export const reconciliationTriggers = ['scheduled', 'admin'] as const;
+
+// What reconciliation found for one booking and what it did about it
+export const reconciliationActions = [
+  'marked_paid',      // captured at the provider, booking was still unpaid
+  'marked_failed',    // every attempt on the order failed
+  'refunded',         // captured for a booking that had expired or lost its dates
+  'amount_mismatch',  // captured amount differs from what the booking owes
+  'not_captured',     // authorized but never captured
+  'error',            // the provider could not be queried or the fix failed
+] as const;
+
+export interface ReconciliationDiscrepancy {
+  // Set for a single booking's order; checkout orders set checkoutOrderId,
+  // and extension and late fee orders set extensionId or lateFeeId
+  // alongside their booking
+  bookingId: number | null;
+  checkoutOrderId?: number;
+  extensionId?: number;
+  lateFeeId?: number;
+  orderId: string;
+  bookingStatus: string;
+  providerStatus: string | null;
+  paymentId: string | null;
+  action: typeof reconciliationActions[number];
+  detail: string;
+}
+
+// One pass comparing unpaid bookings and checkouts with their payment orders
+export const reconciliationRuns = pgTable("reconciliation_runs", {
+  id: serial("id").primaryKey(),
+  trigger: text("trigger").notNull(),
+  triggeredBy: integer("triggered_by"),
+  checked: integer("checked").notNull().default(0),
+  fixed: integer("fixed").notNull().default(0),
+  discrepancies: json("discrepancies").$type<ReconciliationDiscrepancy[]>().notNull(),
+  startedAt: timestamp("started_at").notNull(),
+  finishedAt: timestamp("finished_at").notNull().defaultNow(),
+});
+
+export const notificationKinds = [
+  'waitlist_offer',
+  'waitlist_offer_expired',
+  'booking_requested',
+  'booking_request_approved',
+  'booking_request_declined',
+  'handover_recorded',
+  'dispute_opened',
+  'dispute_message',
+  'dispute_resolved',
+  'booking_overdue',
+  'late_fee_due',
+] as const;
+
+// In-app messages shown to a user until read
+export const notifications = pgTable("notifications", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  kind: text("kind").notNull(),
+  message: text("message").notNull(),
+  // Page the message is about
+  link: text("link"),
+  readAt: timestamp("read_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const otpPurposes = ['login', 'register'] as const;
+
+// One-time sign-in codes sent by SMS. Only a hash of the code is kept.
+// `consumedAt` is set once the code is used or a newer one replaces it.
+export const phoneOtps = pgTable("phone_otps", {
+  id: serial("id").primaryKey(),
+  phone: text("phone").notNull(),
+  purpose: text("purpose").notNull(),
+  codeHash: text("code_hash").notNull(),
+  attempts: integer("attempts").notNull().default(0),
+  expiresAt: timestamp("expires_at").notNull(),
+  consumedAt: timestamp("consumed_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Text messages handed to the SMS transport, with the transport that took
+// them. The outbox transport only records them here.
+export const smsMessages = pgTable("sms_messages", {
+  id: serial("id").primaryKey(),
+  phone: text("phone").notNull(),
+  body: text("body").notNull(),
+  transport: text("transport").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
 // Reviews and ratings
 export const reviews = pgTable("reviews", {
   id: serial("id").primaryKey(),
@@ -92,6 +670,8 @@ export const insertUserSchema = createInsertSchema(users).pick({
   password: true,
   name: true,
   language: true,
+}).extend({
+  role: z.enum(selfServiceRoles).default('renter'),
 });
 
 export const insertEquipmentSchema = createInsertSchema(equipment).omit({
@@ -100,7 +680,13 @@ export const insertEquipmentSchema = createInsertSchema(equipment).omit({
   popularity: true,
 }).extend({
   specs: z.record(z.string(), z.string()).default({}),
-  features: z.array(z.string()).default([])
+  features: z.array(z.string()).default([]),
+  cancellationPolicy: cancellationPolicySchema.nullable().optional(),
+  hourlyRate: z.number().int().positive().nullable().optional(),
+  halfDayRate: z.number().int().positive().nullable().optional(),
+  weeklyRate: z.number().int().positive().nullable().optional(),
+  depositAmount: z.number().int().positive().nullable().optional(),
+  bookingMode: z.enum(bookingModes).optional(),
 });
 
 export const insertBookingSchema = createInsertSchema(bookings).omit({
@@ -108,13 +694,180 @@ export const insertBookingSchema = createInsertSchema(bookings).omit({
   createdAt: true,
   lastStatusUpdate: true,
   isRated: true,
+  holdExpiresAt: true,
+  discountAmount: true,
+  promoCodeId: true,
+  depositAmount: true,
+  depositStatus: true,
+  depositWithheld: true,
+  depositClaimAmount: true,
+  depositClaimReason: true,
+  depositResolutionNote: true,
+  checkoutOrderId: true,
+  respondBy: true,
+  returnRequestedAt: true,
+  returnedAt: true,
 }).extend({
   startDate: z.coerce.date(),
   endDate: z.coerce.date(),
   status: z.string().default('pending'),
+  rentalUnit: z.enum(rentalUnits).default('day'),
   totalPrice: z.number().optional(),
 });
 
+export const MAX_CHECKOUT_ITEMS = 10;
+
+// A cart submitted for checkout: each item is booked as it would be alone
+export const checkoutSchema = z.object({
+  items: z.array(insertBookingSchema.pick({
+    equipmentId: true,
+    startDate: true,
+    endDate: true,
+    rentalUnit: true,
+  })).min(1, "The cart is empty").max(MAX_CHECKOUT_ITEMS, `A cart can hold at most ${MAX_CHECKOUT_ITEMS} items`),
+});
+
+// Dates to wait for, given the way a booking takes them
+export const joinWaitlistSchema = insertBookingSchema.pick({
+  equipmentId: true,
+  startDate: true,
+  endDate: true,
+  rentalUnit: true,
+});
+
+// The new end of a booking: a calendar day for day rentals, an exact time
+// for hour rentals
+export const extendBookingSchema = z.object({
+  endDate: z.coerce.date(),
+});
+
+// Readings sent with a handover, as multipart form fields
+export const recordHandoverSchema = z.object({
+  meterType: z.enum(meterTypes).optional(),
+  meterReading: z.coerce.number().min(0).optional(),
+  fuelLevel: z.coerce.number().int().min(0).max(100).optional(),
+  notes: z.string().trim().max(1000).optional(),
+});
+
+// Multipart form fields for a new dispute
+export const openDisputeSchema = z.object({
+  description: z.string().trim().min(1, 'Describe what went wrong').max(2000),
+  claimedAmount: z.coerce.number().int().min(0).default(0),
+});
+
+export const resolveDisputeSchema = z.object({
+  note: z.string().trim().min(1, 'Explain the decision to both parties').max(2000),
+  depositWithheld: z.number().int().min(0).default(0),
+  refundAmount: z.number().int().min(0).default(0),
+  penaltyAmount: z.number().int().min(0).default(0),
+  penaltyParty: z.enum(['owner', 'renter']).optional(),
+}).refine(outcome => outcome.penaltyAmount === 0 || !!outcome.penaltyParty, {
+  message: 'Say who the penalty is against',
+  path: ['penaltyParty'],
+});
+
+export const insertBookingStatusHistorySchema = createInsertSchema(bookingStatusHistory).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertRefundSchema = createInsertSchema(refunds).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertPaymentEventSchema = createInsertSchema(paymentEvents).omit({
+  id: true,
+  receivedAt: true,
+});
+
+export const insertEquipmentBlackoutSchema = createInsertSchema(equipmentBlackouts).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  startDate: z.coerce.date(),
+  endDate: z.coerce.date(),
+  reason: z.enum(blackoutReasons),
+  note: z.string().max(500).nullable().optional(),
+}).refine(data => data.endDate >= data.startDate, {
+  message: "End date must be on or after the start date",
+  path: ["endDate"],
+});
+
+export const insertPricingRuleSchema = createInsertSchema(pricingRules).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  kind: z.enum(pricingRuleKinds),
+  name: z.string().trim().min(1, "Name is required").max(100),
+  adjustmentPercent: z.number().int().min(-90).max(300).refine(value => value !== 0, {
+    message: "Adjustment cannot be zero",
+  }),
+  startDate: z.coerce.date().nullable().optional(),
+  endDate: z.coerce.date().nullable().optional(),
+  minDays: z.number().int().min(2).nullable().optional(),
+}).superRefine((data, ctx) => {
+  if (data.kind === 'season') {
+    if (!data.startDate || !data.endDate) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Seasons need a start and end date", path: ["startDate"] });
+    } else if (data.endDate < data.startDate) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "End date must be on or after the start date", path: ["endDate"] });
+    }
+  }
+  if (data.kind === 'duration' && !data.minDays) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Duration rules need a minimum number of days", path: ["minDays"] });
+  }
+}).transform(data => ({
+  ...data,
+  // Only seasons have dates and only duration tiers have a minimum
+  startDate: data.kind === 'season' ? data.startDate : null,
+  endDate: data.kind === 'season' ? data.endDate : null,
+  minDays: data.kind === 'duration' ? data.minDays : null,
+}));
+
+export const insertPromoCodeSchema = createInsertSchema(promoCodes).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  code: z.string().trim().min(3).max(32)
+    .regex(/^[A-Za-z0-9_-]+$/, "Codes may only use letters, digits, - and _")
+    .transform(code => code.toUpperCase()),
+  description: z.string().max(200).nullable().optional(),
+  discountType: z.enum(promoDiscountTypes),
+  discountValue: z.number().int().positive(),
+  maxDiscountAmount: z.number().int().positive().nullable().optional(),
+  minOrderAmount: z.number().int().positive().nullable().optional(),
+  validFrom: z.coerce.date().nullable().optional(),
+  validUntil: z.coerce.date().nullable().optional(),
+  maxRedemptions: z.number().int().positive().nullable().optional(),
+  maxRedemptionsPerUser: z.number().int().positive().nullable().optional(),
+  categories: z.array(z.string().min(1)).nullable().optional(),
+  ownerIds: z.array(z.number().int().positive()).nullable().optional(),
+  active: z.boolean().default(true),
+}).refine(data => data.discountType !== 'percent' || data.discountValue <= 100, {
+  message: "A percentage discount cannot exceed 100",
+  path: ["discountValue"],
+}).refine(data => !data.validFrom || !data.validUntil || data.validUntil > data.validFrom, {
+  message: "The code must expire after it becomes valid",
+  path: ["validUntil"],
+});
+
+export const insertInvoiceSchema = createInsertSchema(invoices).omit({
+  id: true,
+  issuedAt: true,
+});
+
+export const insertLedgerTransactionSchema = createInsertSchema(ledgerTransactions).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertLedgerEntrySchema = createInsertSchema(ledgerEntries).omit({
+  id: true,
+  createdAt: true,
+});
+
 export const insertRecommendationSchema = createInsertSchema(recommendations).omit({
   id: true,
   createdAt: true,
@@ -125,6 +878,51 @@ export const updateProfileSchema = z.object({
   contact: z.string().optional(),
   language: z.string().optional(),
   imageUrl: z.string().optional(),
+  // Switch between renting and listing equipment
+  role: z.enum(selfServiceRoles).optional(),
+  // Empty strings clear the tax details
+  gstin: z.string().trim().toUpperCase()
+    .refine(value => value === '' || gstinPattern.test(value), "Enter a valid 15-character GSTIN")
+    .transform(value => value || null)
+    .nullable().optional(),
+  state: z.string()
+    .refine(value => value === '' || value in gstStates, "Select a valid state")
+    .transform(value => value || null)
+    .nullable().optional(),
+}).refine(data => !data.gstin || !data.state || stateFromGstin(data.gstin) === data.state, {
+  message: "The GSTIN is registered in a different state",
+  path: ["state"],
+});
+
+export const phoneSchema = z.string().transform((value, ctx) => {
+  const phone = normalizePhone(value);
+  if (!phone) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Enter a valid 10-digit mobile number" });
+    return z.NEVER;
+  }
+  return phone;
+});
+
+export const requestOtpSchema = z.object({
+  phone: phoneSchema,
+  purpose: z.enum(otpPurposes),
+});
+
+export const verifyOtpSchema = z.object({
+  phone: phoneSchema,
+  code: z.string().regex(/^[0-9]{6}$/, "Enter the 6-digit code"),
+});
+
+export const registerWithOtpSchema = verifyOtpSchema.extend({
+  name: z.string().trim().min(1, "Name is required"),
+  role: z.enum(selfServiceRoles).default('renter'),
+  language: z.string().optional(),
+});
+
+export const payoutDetailsSchema = z.object({
+  payoutAccountName: z.string().trim().min(1, "Account holder name is required").max(100),
+  payoutAccountNumber: z.string().trim().regex(/^[0-9]{9,18}$/, "Enter a 9 to 18 digit account number"),
+  payoutIfsc: z.string().trim().toUpperCase().regex(/^[A-Z]{4}0[A-Z0-9]{6}$/, "Enter a valid 11-character IFSC"),
 });
 
 export const reviewSchema = z.object({
@@ -147,15 +945,85 @@ export const receiptSchema = z.object({
   status: z.string(),
   timestamp: z.string(),
   receipt_url: z.string().nullable(),
+  amountRefunded: z.number().optional(),
+  refunds: z.array(z.object({
+    id: z.number(),
+    amount: z.number(),
+    status: z.string(),
+    createdAt: z.coerce.date(),
+  })).optional(),
 });
 
 // Export types
 export type User = typeof users.$inferSelect;
 export type InsertUser = z.infer<typeof insertUserSchema>;
+export type UserRole = typeof userRoles[number];
 export type Equipment = typeof equipment.$inferSelect;
 export type InsertEquipment = z.infer<typeof insertEquipmentSchema>;
+export type CancellationPolicy = z.infer<typeof cancellationPolicySchema>;
 export type Booking = typeof bookings.$inferSelect;
 export type InsertBooking = z.infer<typeof insertBookingSchema>;
+export type BookingStatus = typeof bookingStatuses[number];
+export type RentalUnit = typeof rentalUnits[number];
+export type DepositStatus = typeof depositStatuses[number];
+export type CheckoutOrder = typeof checkoutOrders.$inferSelect;
+export type CheckoutItem = z.infer<typeof checkoutSchema>['items'][number];
+export type BookingExtensionStatus = typeof bookingExtensionStatuses[number];
+export type BookingExtension = typeof bookingExtensions.$inferSelect;
+export type LateFeeStatus = typeof lateFeeStatuses[number];
+export type LateFee = typeof lateFees.$inferSelect;
+export type HandoverKind = typeof handoverKinds[number];
+export type MeterType = typeof meterTypes[number];
+export type BookingHandover = typeof bookingHandovers.$inferSelect;
+export type RecordHandover = z.infer<typeof recordHandoverSchema>;
+export type DisputeStatus = typeof disputeStatuses[number];
+export type DisputeMessageKind = typeof disputeMessageKinds[number];
+export type Dispute = typeof disputes.$inferSelect;
+export type DisputeMessage = typeof disputeMessages.$inferSelect;
+export type OpenDispute = z.infer<typeof openDisputeSchema>;
+export type ResolveDispute = z.infer<typeof resolveDisputeSchema>;
+export type BookingStatusHistory = typeof bookingStatusHistory.$inferSelect;
+export type InsertBookingStatusHistory = z.infer<typeof insertBookingStatusHistorySchema>;
+export type Refund = typeof refunds.$inferSelect;
+export type InsertRefund = z.infer<typeof insertRefundSchema>;
+export type PaymentEvent = typeof paymentEvents.$inferSelect;
+export type InsertPaymentEvent = z.infer<typeof insertPaymentEventSchema>;
+export type BlackoutReason = typeof blackoutReasons[number];
+export type EquipmentBlackout = typeof equipmentBlackouts.$inferSelect;
+export type InsertEquipmentBlackout = z.infer<typeof insertEquipmentBlackoutSchema>;
+export type BookingMode = typeof bookingModes[number];
+export type WaitlistStatus = typeof waitlistStatuses[number];
+export type WaitlistEntry = typeof waitlistEntries.$inferSelect;
+export type NotificationKind = typeof notificationKinds[number];
+export type Notification = typeof notifications.$inferSelect;
+export type OtpPurpose = typeof otpPurposes[number];
+export type PhoneOtp = typeof phoneOtps.$inferSelect;
+export type SmsMessage = typeof smsMessages.$inferSelect;
+export type RequestOtp = z.infer<typeof requestOtpSchema>;
+export type VerifyOtp = z.infer<typeof verifyOtpSchema>;
+export type RegisterWithOtp = z.input<typeof registerWithOtpSchema>;
+export type PricingRuleKind = typeof pricingRuleKinds[number];
+export type PricingRule = typeof pricingRules.$inferSelect;
+export type InsertPricingRule = z.infer<typeof insertPricingRuleSchema>;
+export type PromoDiscountType = typeof promoDiscountTypes[number];
+export type PromoCode = typeof promoCodes.$inferSelect;
+export type InsertPromoCode = z.infer<typeof insertPromoCodeSchema>;
+export type PromoRedemptionStatus = typeof promoRedemptionStatuses[number];
+export type PromoRedemption = typeof promoRedemptions.$inferSelect;
+export type Invoice = typeof invoices.$inferSelect;
+export type InsertInvoice = z.infer<typeof insertInvoiceSchema>;
+export type LedgerAccount = typeof ledgerAccounts[number];
+export type LedgerTransactionKind = typeof ledgerTransactionKinds[number];
+export type LedgerTransaction = typeof ledgerTransactions.$inferSelect;
+export type InsertLedgerTransaction = z.infer<typeof insertLedgerTransactionSchema>;
+export type LedgerEntry = typeof ledgerEntries.$inferSelect;
+export type InsertLedgerEntry = z.infer<typeof insertLedgerEntrySchema>;
+export type PayoutBatch = typeof payoutBatches.$inferSelect;
+export type Payout = typeof payouts.$inferSelect;
+export type PayoutDetails = z.infer<typeof payoutDetailsSchema>;
+export type ReconciliationTrigger = typeof reconciliationTriggers[number];
+export type ReconciliationAction = typeof reconciliationActions[number];
+export type ReconciliationRun = typeof reconciliationRuns.$inferSelect;
 export type UpdateProfile = z.infer<typeof updateProfileSchema>;
 export type Review = z.infer<typeof reviewSchema>;
 export type InsertReview = z.infer<typeof reviewSchema>;